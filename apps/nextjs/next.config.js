@@ -16,6 +16,19 @@ const config = {
     "@everylab/validators",
   ],
 
+  /** ffmpeg-static finds its binary next to itself, so it can't be bundled */
+  serverExternalPackages: ["ffmpeg-static"],
+
+  /** The binary isn't imported, so it has to be traced in by hand */
+  outputFileTracingIncludes: {
+    "/api/cron/[job]": [
+      "../../node_modules/.pnpm/ffmpeg-static@*/node_modules/ffmpeg-static/ffmpeg",
+    ],
+    "/api/trpc/[trpc]": [
+      "../../node_modules/.pnpm/ffmpeg-static@*/node_modules/ffmpeg-static/ffmpeg",
+    ],
+  },
+
   /** We already do linting and typechecking as separate tasks in CI */
   typescript: { ignoreBuildErrors: true },
 
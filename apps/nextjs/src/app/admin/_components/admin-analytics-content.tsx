@@ -17,14 +17,16 @@ import {
 import { Button } from "@everylab/ui/button";
 
 import type { NavItem } from "~/components/sidebar";
+import { DailyStatsChart } from "~/components/daily-stats-chart";
 import { Sidebar } from "~/components/sidebar";
-import { adminNavItems } from "~/config/navigation";
+import { getAdminNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
 
 interface User {
   id: string;
   name: string;
   email: string;
+  role?: string | null;
 }
 
 interface AdminAnalyticsContentProps {
@@ -91,22 +93,34 @@ const timeRangeOptions: { value: TimeRange; label: string }[] = [
   { value: "all", label: "All Time" },
 ];
 
-function getDateFromRange(range: TimeRange): string | undefined {
-  if (range === "all") return undefined;
+const timeRangeDays: Record<Exclude<TimeRange, "all">, number> = {
+  "1d": 1,
+  "7d": 7,
+  "30d": 30,
+};
+
+// Days charted when the time range is "All Time"
+const ALL_TIME_CHART_DAYS = 90;
+
+function toDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
 
+// Stats are rolled up per UTC day, so ranges are whole UTC days ending today
+function getDayRange(range: TimeRange) {
   const now = new Date();
-  switch (range) {
-    case "1d":
-      now.setDate(now.getDate() - 1);
-      break;
-    case "7d":
-      now.setDate(now.getDate() - 7);
-      break;
-    case "30d":
-      now.setDate(now.getDate() - 30);
-      break;
-  }
-  return now.toISOString();
+  const to = toDay(now);
+  const days = range === "all" ? ALL_TIME_CHART_DAYS : timeRangeDays[range];
+  now.setUTCDate(now.getUTCDate() - days);
+  const from = toDay(now);
+
+  return {
+    // Totals and clips cover everything for "All Time"
+    from: range === "all" ? undefined : from,
+    to: range === "all" ? undefined : to,
+    chartFrom: from,
+    chartTo: to,
+  };
 }
 
 const CLIPS_PER_PAGE = 10;
@@ -125,51 +139,50 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
   // Query for users list
   const { data: users = [] } = useQuery(trpc.admin.users.queryOptions());
 
-  // Query for all clips stats (when "all" is selected)
-  const { data: allClipsStats, isLoading: isLoadingAllStats } = useQuery(
-    trpc.admin.getAllClipsStats.queryOptions(
-      {
-        dateFrom: getDateFromRange(timeRange),
-        limit: CLIPS_PER_PAGE,
-        offset: currentPage * CLIPS_PER_PAGE,
-      },
-      { enabled: selectedUserId === "all" },
-    ),
+  const range = getDayRange(timeRange);
+  const scope =
+    selectedUserId === "all"
+      ? ({ scope: "all" } as const)
+      : ({ scope: "creator", id: selectedUserId } as const);
+
+  // Views, likes, comments and shares gained over the range
+  const { data: totals } = useQuery(
+    trpc.analytics.totals.queryOptions({
+      ...scope,
+      from: range.from,
+      to: range.to,
+    }),
   );
 
-  // Query for user stats (when a specific user is selected)
-  const { data: userStats } = useQuery(
-    trpc.admin.getUserStats.queryOptions(
-      {
-        userId: selectedUserId,
-        dateFrom: getDateFromRange(timeRange),
-      },
-      { enabled: selectedUserId !== "all" },
-    ),
+  const { data: series = [] } = useQuery(
+    trpc.analytics.timeSeries.queryOptions({
+      ...scope,
+      from: range.chartFrom,
+      to: range.chartTo,
+    }),
   );
 
-  // Use real API data for both "all" and specific user views  
-  const stats = selectedUserId === "all" 
-    ? {
-        totalViews: allClipsStats?.totalViews ?? 0,
-        totalLikes: allClipsStats?.totalLikes ?? 0,
-        totalComments: allClipsStats?.totalComments ?? 0,
-        totalShares: allClipsStats?.totalShares ?? 0,
-      }
-    : {
-        totalViews: userStats?.totalViews ?? 0,
-        totalLikes: userStats?.totalLikes ?? 0,
-        totalComments: userStats?.totalComments ?? 0,
-        totalShares: userStats?.totalShares ?? 0,
-      };
-
-  const clips =
-    selectedUserId === "all"
-      ? (allClipsStats?.clips ?? [])
-      : (userStats?.clips ?? []);
+  // Clips ranked by views gained over the range
+  const { data: clipGains, isLoading: isLoadingClips } = useQuery(
+    trpc.analytics.clips.queryOptions({
+      userId: selectedUserId === "all" ? undefined : selectedUserId,
+      from: range.from,
+      to: range.to,
+      limit: CLIPS_PER_PAGE,
+      offset: currentPage * CLIPS_PER_PAGE,
+    }),
+  );
+
+  const stats = {
+    totalViews: totals?.views ?? 0,
+    totalLikes: totals?.likes ?? 0,
+    totalComments: totals?.comments ?? 0,
+    totalShares: totals?.shares ?? 0,
+  };
 
-  const totalClips =
-    selectedUserId === "all" ? (allClipsStats?.totalClips ?? 0) : clips.length;
+  const clips = clipGains?.clips ?? [];
+
+  const totalClips = clipGains?.total ?? 0;
 
   const totalPages = Math.ceil(totalClips / CLIPS_PER_PAGE);
 
@@ -185,7 +198,7 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
   };
 
   // Add badge to Dashboard item
-  const navItems: NavItem[] = adminNavItems.map((item) => {
+  const navItems: NavItem[] = getAdminNavItems(user.role).map((item) => {
     if (item.label === "Dashboard") {
       return { ...item, badge: pendingClips.length };
     }
@@ -195,7 +208,7 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
   return (
     <div className="bg-background flex min-h-screen">
       <Sidebar
-        user={{ ...user, role: "admin" }}
+        user={user}
         title="Admin"
         logoIcon={LayoutDashboard}
         items={navItems}
@@ -274,10 +287,15 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
 
           {/* Summary Stats */}
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-            <StatCard title="Total Views" value={stats.totalViews} icon={Eye} accentColor="#3b82f6" />
-            <StatCard title="Total Likes" value={stats.totalLikes} icon={Heart} accentColor="#ec4899" />
-            <StatCard title="Total Comments" value={stats.totalComments} icon={MessageCircle} accentColor="#10b981" />
-            <StatCard title="Total Shares" value={stats.totalShares} icon={Share2} accentColor="#f59e0b" />
+            <StatCard title={timeRange === "all" ? "Total Views" : "Views Gained"} value={stats.totalViews} icon={Eye} accentColor="#3b82f6" />
+            <StatCard title={timeRange === "all" ? "Total Likes" : "Likes Gained"} value={stats.totalLikes} icon={Heart} accentColor="#ec4899" />
+            <StatCard title={timeRange === "all" ? "Total Comments" : "Comments Gained"} value={stats.totalComments} icon={MessageCircle} accentColor="#10b981" />
+            <StatCard title={timeRange === "all" ? "Total Shares" : "Shares Gained"} value={stats.totalShares} icon={Share2} accentColor="#f59e0b" />
+          </div>
+
+          {/* Daily Gains */}
+          <div className="border-border bg-card rounded-xl border p-6 shadow-sm">
+            <DailyStatsChart days={series} />
           </div>
 
           {/* Clips Stats Table */}
@@ -291,6 +309,9 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
                   </span>
                 )}
               </h2>
+              <p className="text-muted-foreground text-sm">
+                Ranked by views gained
+              </p>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full">
@@ -334,7 +355,7 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
                   </tr>
                 </thead>
                 <tbody className="divide-border divide-y">
-                  {isLoadingAllStats && selectedUserId === "all" ? (
+                  {isLoadingClips ? (
                     <tr>
                       <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
                         <Clock className="mx-auto size-6 animate-spin text-muted-foreground" />
@@ -344,7 +365,7 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
                   ) : clips.length === 0 ? (
                     <tr>
                       <td colSpan={selectedUserId === "all" ? 7 : 6} className="px-4 py-8 text-center text-muted-foreground">
-                        No clips found {timeRange !== "all" && "for this time range"}
+                        No clip activity {timeRange !== "all" && "in this time range"}
                       </td>
                     </tr>
                   ) : (
@@ -358,8 +379,7 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
                         {selectedUserId === "all" && (
                           <td className="px-4 py-3">
                             <p className="text-muted-foreground text-sm">
-                              {(clip as { user?: { name: string } }).user
-                                ?.name ?? "Unknown"}
+                              {clip.user.name}
                             </p>
                           </td>
                         )}
@@ -373,16 +393,16 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
                           </span>
                         </td>
                         <td className="text-foreground px-4 py-3 text-right tabular-nums">
-                          {(clip.latestStats?.views ?? 0).toLocaleString()}
+                          {clip.gained.views.toLocaleString()}
                         </td>
                         <td className="text-foreground px-4 py-3 text-right tabular-nums">
-                          {(clip.latestStats?.likes ?? 0).toLocaleString()}
+                          {clip.gained.likes.toLocaleString()}
                         </td>
                         <td className="text-foreground px-4 py-3 text-right tabular-nums">
-                          {(clip.latestStats?.comments ?? 0).toLocaleString()}
+                          {clip.gained.comments.toLocaleString()}
                         </td>
                         <td className="px-4 py-3 text-right tabular-nums text-foreground">
-                          {(clip.latestStats?.shares ?? 0).toLocaleString()}
+                          {clip.gained.shares.toLocaleString()}
                         </td>
                       </tr>
                     ))
@@ -391,8 +411,8 @@ export function AdminAnalyticsContent({ user }: AdminAnalyticsContentProps) {
               </table>
             </div>
 
-            {/* Pagination (only for "all" view with multiple pages) */}
-            {selectedUserId === "all" && totalPages > 1 && (
+            {/* Pagination */}
+            {totalPages > 1 && (
               <div className="border-border flex items-center justify-between border-t px-4 py-3">
                 <p className="text-muted-foreground text-sm">
                   Showing {currentPage * CLIPS_PER_PAGE + 1} -{" "}
@@ -1,13 +1,37 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Check, Clock, LayoutDashboard, Play, Video, X } from "lucide-react";
+import {
+  AlertTriangle,
+  CalendarClock,
+  Check,
+  Clock,
+  Copy,
+  Images,
+  LayoutDashboard,
+  Megaphone,
+  MessageSquare,
+  Play,
+  Video,
+  X,
+} from "lucide-react";
 
 import { Button } from "@everylab/ui/button";
 
+import type { ClipMediaSource } from "~/components/clip-media";
 import type { NavItem } from "~/components/sidebar";
+import { ClipMedia } from "~/components/clip-media";
+import {
+  ClipPerformance,
+  formatHours,
+  VelocityBadge,
+} from "~/components/clip-performance";
+import {
+  ClipReviewThread,
+  rejectionReasonLabels,
+} from "~/components/clip-review-thread";
 import { Sidebar } from "~/components/sidebar";
 import { adminNavItems } from "~/config/navigation";
 import { TRPCReactProvider, useTRPC } from "~/trpc/react";
@@ -22,16 +46,81 @@ interface AdminDashboardContentProps {
   user: User;
 }
 
+type RejectionReason = "audio" | "branding" | "length" | "content" | "other";
+
+interface RejectModalState {
+  clipIds: string[];
+  title: string;
+  reason: RejectionReason;
+  comment: string;
+}
+
+interface BulkOutcome {
+  action: string;
+  succeeded: number;
+  failed: number;
+  errors: { clipId: string; title: string; error: string }[];
+}
+
+interface ClipDuplicate {
+  id: string;
+  title: string;
+  status: string;
+  publishedAt: Date | null;
+  tiktokVideoUrl: string | null;
+  match: "exact" | "similar";
+  user: { id: string; name: string };
+  tiktokAccount: { id: string; tiktokUsername: string } | null;
+}
+
+function toLocalDateTimeValue(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
 // Review Tab Content
-function ReviewTab() {
+function ReviewTab({ userId }: { userId: string }) {
   const trpc = useTRPC();
   const queryClient = useQueryClient();
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewClip, setPreviewClip] = useState<ClipMediaSource | null>(null);
+  const [rejectModal, setRejectModal] = useState<RejectModalState | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [rescheduleAt, setRescheduleAt] = useState<string | null>(null);
+  const [bulkOutcome, setBulkOutcome] = useState<BulkOutcome | null>(null);
+  const [campaignFilter, setCampaignFilter] = useState("");
 
-  // Query for pending clips
+  // Query for pending clips, optionally narrowed to one campaign
   const { data: pendingClips = [], isLoading } = useQuery(
-    trpc.admin.pendingClips.queryOptions(),
+    trpc.admin.pendingClips.queryOptions(
+      campaignFilter === ""
+        ? undefined
+        : { campaignId: campaignFilter === "none" ? null : campaignFilter },
+    ),
   );
+  const { data: campaigns = [] } = useQuery(trpc.campaign.list.queryOptions());
+
+  // Group the queue by campaign, clips outside any campaign last
+  const campaignGroups = useMemo(() => {
+    const groups = new Map<
+      string | null,
+      { id: string | null; name: string; clips: typeof pendingClips }
+    >();
+    for (const clip of pendingClips) {
+      const id = clip.campaign?.id ?? null;
+      let group = groups.get(id);
+      if (!group) {
+        group = { id, name: clip.campaign?.name ?? "No campaign", clips: [] };
+        groups.set(id, group);
+      }
+      group.clips.push(clip);
+    }
+    return [...groups.values()].sort(
+      (a, b) =>
+        Number(a.id === null) - Number(b.id === null) ||
+        a.name.localeCompare(b.name),
+    );
+  }, [pendingClips]);
 
   // Mutations
   const approveClip = useMutation(
@@ -54,26 +143,142 @@ function ReviewTab() {
     }),
   );
 
-  const handleApprove = async (clipId: string) => {
+  const invalidatePending = () => {
+    void queryClient.invalidateQueries({
+      queryKey: trpc.admin.pendingClips.queryKey(),
+    });
+  };
+
+  const bulkApprove = useMutation(
+    trpc.admin.bulkApproveClips.mutationOptions({
+      onSuccess: invalidatePending,
+    }),
+  );
+
+  const bulkReject = useMutation(
+    trpc.admin.bulkRejectClips.mutationOptions({
+      onSuccess: invalidatePending,
+    }),
+  );
+
+  const bulkReschedule = useMutation(
+    trpc.admin.bulkRescheduleClips.mutationOptions({
+      onSuccess: invalidatePending,
+    }),
+  );
+
+  const isBulkPending =
+    bulkApprove.isPending || bulkReject.isPending || bulkReschedule.isPending;
+
+  const addReviewComment = useMutation(
+    trpc.admin.addClipReviewComment.mutationOptions({
+      onSuccess: () => {
+        void queryClient.invalidateQueries({
+          queryKey: trpc.admin.pendingClips.queryKey(),
+        });
+      },
+    }),
+  );
+
+  const handleApprove = async (clipId: string, duplicates: number) => {
+    if (
+      duplicates > 0 &&
+      !window.confirm(
+        `This clip matches ${duplicates} clip${duplicates === 1 ? "" : "s"} already submitted or posted. TikTok penalizes duplicate content. Approve anyway?`,
+      )
+    ) {
+      return;
+    }
     console.log(`[Admin] Approving clip ${clipId}`);
     try {
-      await approveClip.mutateAsync({ clipId });
+      await approveClip.mutateAsync({
+        clipId,
+        allowDuplicates: duplicates > 0,
+      });
       console.log(`[Admin] Clip ${clipId} approved successfully`);
     } catch (error) {
       console.error(`[Admin] Failed to approve clip ${clipId}:`, error);
     }
   };
 
-  const handleReject = async (clipId: string) => {
-    console.log(`[Admin] Rejecting clip ${clipId}`);
+  const handleReject = async () => {
+    if (!rejectModal) return;
+    const { clipIds, reason, comment } = rejectModal;
+    const [clipId] = clipIds;
+    if (clipIds.length === 1 && clipId) {
+      console.log(`[Admin] Rejecting clip ${clipId}`);
+      try {
+        await rejectClip.mutateAsync({ clipId, reason, comment });
+        console.log(`[Admin] Clip ${clipId} rejected successfully`);
+        setRejectModal(null);
+      } catch (error) {
+        console.error(`[Admin] Failed to reject clip ${clipId}:`, error);
+      }
+      return;
+    }
+
+    await runBulk("Rejected", () =>
+      bulkReject.mutateAsync({ clipIds, reason, comment }),
+    );
+    setRejectModal(null);
+  };
+
+  const toggleSelected = (clipId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(clipId)) next.delete(clipId);
+      else next.add(clipId);
+      return next;
+    });
+  };
+
+  const allSelected =
+    pendingClips.length > 0 && selectedIds.size === pendingClips.length;
+
+  // Run a bulk mutation and keep only the clips that failed selected
+  const runBulk = async (
+    action: string,
+    mutate: () => Promise<{
+      succeeded: number;
+      failed: number;
+      results: { clipId: string; success: boolean; error?: string }[];
+    }>,
+  ) => {
     try {
-      await rejectClip.mutateAsync({ clipId });
-      console.log(`[Admin] Clip ${clipId} rejected successfully`);
+      const summary = await mutate();
+      const failures = summary.results.filter((r) => !r.success);
+      setBulkOutcome({
+        action,
+        succeeded: summary.succeeded,
+        failed: summary.failed,
+        errors: failures.map((r) => ({
+          clipId: r.clipId,
+          title: pendingClips.find((c) => c.id === r.clipId)?.title ?? r.clipId,
+          error: r.error ?? "Unknown error",
+        })),
+      });
+      setSelectedIds(new Set(failures.map((r) => r.clipId)));
     } catch (error) {
-      console.error(`[Admin] Failed to reject clip ${clipId}:`, error);
+      console.error(`[Admin] Bulk action failed:`, error);
     }
   };
 
+  const handleBulkApprove = () =>
+    runBulk("Approved", () =>
+      bulkApprove.mutateAsync({ clipIds: [...selectedIds] }),
+    );
+
+  const handleBulkReschedule = async () => {
+    if (!rescheduleAt) return;
+    await runBulk("Rescheduled", () =>
+      bulkReschedule.mutateAsync({
+        clipIds: [...selectedIds],
+        scheduledAt: new Date(rescheduleAt),
+      }),
+    );
+    setRescheduleAt(null);
+  };
+
   return (
     <div className="space-y-6">
       {/* Summary */}
@@ -87,8 +292,121 @@ function ReviewTab() {
             waiting for review
           </p>
         </div>
+        <div className="flex items-center gap-4">
+          <select
+            value={campaignFilter}
+            onChange={(e) => {
+              setCampaignFilter(e.target.value);
+              setSelectedIds(new Set());
+            }}
+            className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+          >
+            <option value="">All campaigns</option>
+            <option value="none">No campaign</option>
+            {campaigns.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          {pendingClips.length > 0 && (
+            <label className="text-muted-foreground flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() =>
+                  setSelectedIds(
+                    allSelected
+                      ? new Set()
+                      : new Set(pendingClips.map((c) => c.id)),
+                  )
+                }
+              />
+              Select all
+            </label>
+          )}
+        </div>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedIds.size > 0 && (
+        <div className="border-border bg-card sticky top-0 z-10 flex items-center justify-between rounded-xl border p-4 shadow-sm">
+          <p className="text-foreground text-sm font-medium">
+            {selectedIds.size} selected
+          </p>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleBulkApprove}
+              disabled={isBulkPending}
+              className="gap-2"
+            >
+              <Check className="size-4" />
+              Approve
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setRescheduleAt(toLocalDateTimeValue(new Date()))}
+              disabled={isBulkPending}
+              className="gap-2"
+            >
+              <CalendarClock className="size-4" />
+              Reschedule
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() =>
+                setRejectModal({
+                  clipIds: [...selectedIds],
+                  title: `${selectedIds.size} selected clips`,
+                  reason: "content",
+                  comment: "",
+                })
+              }
+              disabled={isBulkPending}
+              className="gap-2 text-red-600 hover:bg-red-50 hover:text-red-700"
+            >
+              <X className="size-4" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Results */}
+      {bulkOutcome && (
+        <div
+          className={`rounded-xl border p-4 ${
+            bulkOutcome.failed > 0
+              ? "border-amber-200 bg-amber-50"
+              : "border-emerald-200 bg-emerald-50"
+          }`}
+        >
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-foreground text-sm font-medium">
+              {bulkOutcome.action} {bulkOutcome.succeeded} clip
+              {bulkOutcome.succeeded !== 1 ? "s" : ""}
+              {bulkOutcome.failed > 0 &&
+                `, ${bulkOutcome.failed} failed (still selected)`}
+            </p>
+            <button
+              onClick={() => setBulkOutcome(null)}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <X className="size-4" />
+            </button>
+          </div>
+          {bulkOutcome.errors.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm text-amber-800">
+              {bulkOutcome.errors.map((e) => (
+                <li key={e.clipId}>
+                  <span className="font-medium">{e.title}:</span> {e.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Pending Clips List */}
       <div className="space-y-4">
         {isLoading ? (
@@ -107,111 +425,326 @@ function ReviewTab() {
             </p>
           </div>
         ) : (
-          pendingClips.map((clip) => (
-            <div
-              key={clip.id}
-              className="border-border bg-card rounded-xl border p-6 shadow-sm"
-            >
-              <div className="flex items-start gap-6">
-                {/* Video Preview Thumbnail */}
+          campaignGroups.map((group) => (
+            <div key={group.id ?? "none"} className="space-y-4">
+              {(group.id !== null || campaignGroups.length > 1) && (
+                <h3 className="text-foreground flex items-center gap-2 text-sm font-semibold">
+                  <Megaphone className="text-muted-foreground size-4" />
+                  {group.name}
+                  <span className="text-muted-foreground font-normal">
+                    · {group.clips.length}
+                  </span>
+                </h3>
+              )}
+              {group.clips.map((clip) => (
                 <div
-                  onClick={() => setPreviewUrl(clip.videoUrl)}
-                  className="group bg-muted relative flex size-32 shrink-0 cursor-pointer items-center justify-center overflow-hidden rounded-lg"
+                  key={clip.id}
+                  className="border-border bg-card rounded-xl border p-6 shadow-sm"
                 >
-                  <Video className="text-muted-foreground size-8" />
-                  <div className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 transition-opacity group-hover:opacity-100">
-                    <Play className="size-8 text-white" />
-                  </div>
-                </div>
+                  <div className="flex items-start gap-6">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(clip.id)}
+                      onChange={() => toggleSelected(clip.id)}
+                      className="mt-1"
+                    />
 
-                {/* Clip Details */}
-                <div className="min-w-0 flex-1">
-                  <h3 className="text-foreground truncate text-lg font-semibold">
-                    {clip.title}
-                  </h3>
-                  <p className="text-muted-foreground mt-1 text-sm">
-                    by {clip.user.name} ({clip.user.email})
-                  </p>
-                  {clip.description && (
-                    <p className="text-foreground mt-2 line-clamp-2 text-sm">
-                      {clip.description}
-                    </p>
-                  )}
-                  <div className="text-muted-foreground mt-3 flex items-center gap-4 text-sm">
-                    <span className="flex items-center gap-1">
-                      <Clock className="size-3" />
-                      {new Date(clip.createdAt).toLocaleDateString("en-US", {
-                        month: "short",
-                        day: "numeric",
-                        year: "numeric",
-                      })}
-                    </span>
-                    {clip.scheduledAt && (
-                      <span className="flex items-center gap-1">
-                        <Clock className="size-3" />
-                        Scheduled:{" "}
-                        {new Date(clip.scheduledAt).toLocaleDateString(
-                          "en-US",
-                          {
-                            month: "short",
-                            day: "numeric",
-                            hour: "2-digit",
-                            minute: "2-digit",
-                          },
+                    {/* Video Preview Thumbnail */}
+                    <div
+                      onClick={() => setPreviewClip(clip)}
+                      className="group bg-muted relative flex size-32 shrink-0 cursor-pointer items-center justify-center overflow-hidden rounded-lg"
+                    >
+                      {clip.type === "carousel" ? (
+                        <Images className="text-muted-foreground size-8" />
+                      ) : (
+                        <Video className="text-muted-foreground size-8" />
+                      )}
+                      <div className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 transition-opacity group-hover:opacity-100">
+                        <Play className="size-8 text-white" />
+                      </div>
+                    </div>
+
+                    {/* Clip Details */}
+                    <div className="min-w-0 flex-1">
+                      <h3 className="text-foreground truncate text-lg font-semibold">
+                        {clip.title}
+                      </h3>
+                      <p className="text-muted-foreground mt-1 text-sm">
+                        by {clip.user.name} ({clip.user.email})
+                      </p>
+                      {clip.description && (
+                        <p className="text-foreground mt-2 line-clamp-2 text-sm">
+                          {clip.description}
+                        </p>
+                      )}
+                      <div className="text-muted-foreground mt-3 flex items-center gap-4 text-sm">
+                        <span className="flex items-center gap-1">
+                          <Clock className="size-3" />
+                          {new Date(clip.createdAt).toLocaleDateString(
+                            "en-US",
+                            {
+                              month: "short",
+                              day: "numeric",
+                              year: "numeric",
+                            },
+                          )}
+                        </span>
+                        {clip.scheduledAt && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="size-3" />
+                            Scheduled:{" "}
+                            {new Date(clip.scheduledAt).toLocaleDateString(
+                              "en-US",
+                              {
+                                month: "short",
+                                day: "numeric",
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              },
+                            )}
+                          </span>
                         )}
-                      </span>
-                    )}
-                  </div>
-                </div>
+                        {clip.reviews.length > 0 && (
+                          <button
+                            onClick={() =>
+                              setOpenThreadId(
+                                openThreadId === clip.id ? null : clip.id,
+                              )
+                            }
+                            className="hover:text-foreground flex items-center gap-1"
+                          >
+                            <MessageSquare className="size-3" />
+                            {clip.reviews.length} review comment
+                            {clip.reviews.length !== 1 ? "s" : ""}
+                          </button>
+                        )}
+                      </div>
+                      {clip.duplicates.length > 0 && (
+                        <DuplicateWarning duplicates={clip.duplicates} />
+                      )}
+                      {openThreadId === clip.id && (
+                        <div className="mt-4">
+                          <ClipReviewThread
+                            reviews={clip.reviews}
+                            currentUserId={userId}
+                            onReply={(body) =>
+                              addReviewComment.mutateAsync({
+                                clipId: clip.id,
+                                body,
+                              })
+                            }
+                            isReplying={addReviewComment.isPending}
+                          />
+                        </div>
+                      )}
+                    </div>
 
-                {/* Actions */}
-                <div className="flex flex-col gap-2">
-                  <Button
-                    onClick={() => handleApprove(clip.id)}
-                    disabled={approveClip.isPending || rejectClip.isPending}
-                    className="gap-2"
-                  >
-                    <Check className="size-4" />
-                    Approve
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={() => handleReject(clip.id)}
-                    disabled={approveClip.isPending || rejectClip.isPending}
-                    className="gap-2 text-red-600 hover:bg-red-50 hover:text-red-700"
-                  >
-                    <X className="size-4" />
-                    Reject
-                  </Button>
+                    {/* Actions */}
+                    <div className="flex flex-col gap-2">
+                      <Button
+                        onClick={() =>
+                          handleApprove(clip.id, clip.duplicates.length)
+                        }
+                        disabled={approveClip.isPending || rejectClip.isPending}
+                        className="gap-2"
+                      >
+                        <Check className="size-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() =>
+                          setRejectModal({
+                            clipIds: [clip.id],
+                            title: clip.title,
+                            reason: "content",
+                            comment: "",
+                          })
+                        }
+                        disabled={approveClip.isPending || rejectClip.isPending}
+                        className="gap-2 text-red-600 hover:bg-red-50 hover:text-red-700"
+                      >
+                        <X className="size-4" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           ))
         )}
       </div>
 
-      {/* Video Preview Modal */}
-      {previewUrl && (
+      {/* Reject Modal */}
+      {rejectModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="bg-card w-full max-w-lg rounded-xl p-6 shadow-lg">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-foreground text-lg font-semibold">
+                Return to Draft
+              </h2>
+              <button
+                onClick={() => setRejectModal(null)}
+                className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+              >
+                <X className="size-4" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-muted-foreground text-sm">
+                {rejectModal.title}
+              </p>
+
+              <div>
+                <label className="text-foreground mb-2 block text-sm font-medium">
+                  Reason
+                </label>
+                <select
+                  value={rejectModal.reason}
+                  onChange={(e) =>
+                    setRejectModal({
+                      ...rejectModal,
+                      reason: e.target.value as RejectionReason,
+                    })
+                  }
+                  className="border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-4 py-2.5 focus:ring-1 focus:outline-none"
+                >
+                  {Object.entries(rejectionReasonLabels).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </div>
+
+              <div>
+                <label className="text-foreground mb-2 block text-sm font-medium">
+                  Comment for the creator
+                </label>
+                <textarea
+                  value={rejectModal.comment}
+                  onChange={(e) =>
+                    setRejectModal({ ...rejectModal, comment: e.target.value })
+                  }
+                  rows={4}
+                  placeholder="What needs to change before this can be approved?"
+                  className="border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-4 py-2.5 focus:ring-1 focus:outline-none"
+                />
+              </div>
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => setRejectModal(null)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleReject}
+                  disabled={
+                    rejectClip.isPending ||
+                    bulkReject.isPending ||
+                    !rejectModal.comment.trim()
+                  }
+                  className="flex-1 bg-red-600 text-white hover:bg-red-700"
+                >
+                  {rejectClip.isPending ? "Rejecting..." : "Return to Draft"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reschedule Modal */}
+      {rescheduleAt !== null && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="bg-card w-full max-w-md rounded-xl p-6 shadow-lg">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-foreground text-lg font-semibold">
+                Reschedule {selectedIds.size} clip
+                {selectedIds.size !== 1 ? "s" : ""}
+              </h2>
+              <button
+                onClick={() => setRescheduleAt(null)}
+                className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+              >
+                <X className="size-4" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="text-foreground mb-2 block text-sm font-medium">
+                  New time
+                </label>
+                <input
+                  type="datetime-local"
+                  value={rescheduleAt}
+                  onChange={(e) => setRescheduleAt(e.target.value)}
+                  className="border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-4 py-2.5 focus:ring-1 focus:outline-none"
+                />
+              </div>
+
+              <p className="text-muted-foreground text-xs">
+                Approved posts are moved to the first free slot at or after this
+                time that fits the account&apos;s posting limits.
+              </p>
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => setRescheduleAt(null)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleBulkReschedule}
+                  disabled={bulkReschedule.isPending || !rescheduleAt}
+                  className="flex-1"
+                >
+                  {bulkReschedule.isPending ? "Rescheduling..." : "Reschedule"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Video / Carousel Preview Modal */}
+      {previewClip && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/80"
-          onClick={() => setPreviewUrl(null)}
+          onClick={() => setPreviewClip(null)}
         >
           <div
             className="relative max-h-[80vh] max-w-[80vw]"
             onClick={(e) => e.stopPropagation()}
           >
             <button
-              onClick={() => setPreviewUrl(null)}
+              onClick={() => setPreviewClip(null)}
               className="absolute -top-10 right-0 text-white hover:text-gray-300"
             >
               <X className="size-6" />
             </button>
-            <video
-              src={previewUrl}
-              controls
-              autoPlay
-              className="max-h-[80vh] max-w-[80vw] rounded-lg"
-            />
+            {previewClip.type === "carousel" ? (
+              <div className="h-[80vh] w-[45vh] max-w-[80vw] overflow-hidden rounded-lg bg-black">
+                <ClipMedia clip={previewClip} controls />
+              </div>
+            ) : (
+              <video
+                src={previewClip.videoUrl ?? undefined}
+                controls
+                autoPlay
+                className="max-h-[80vh] max-w-[80vw] rounded-lg"
+              />
+            )}
           </div>
         </div>
       )}
@@ -219,6 +752,133 @@ function ReviewTab() {
   );
 }
 
+// Clips with the same or near-identical video that were already submitted
+// or posted, and the accounts they went out on
+function DuplicateWarning({ duplicates }: { duplicates: ClipDuplicate[] }) {
+  return (
+    <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm">
+      <p className="flex items-center gap-2 font-medium text-amber-800">
+        <AlertTriangle className="size-4" />
+        Possible duplicate content
+      </p>
+      <ul className="mt-2 space-y-1 text-amber-800">
+        {duplicates.map((duplicate) => (
+          <li key={duplicate.id} className="flex items-center gap-2">
+            <Copy className="size-3 shrink-0" />
+            <span className="truncate">
+              {duplicate.match === "exact" ? "Same file as" : "Looks like"}{" "}
+              {duplicate.tiktokVideoUrl ? (
+                <a
+                  href={duplicate.tiktokVideoUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium underline"
+                >
+                  {duplicate.title}
+                </a>
+              ) : (
+                <span className="font-medium">{duplicate.title}</span>
+              )}{" "}
+              by {duplicate.user.name}
+              {duplicate.tiktokAccount &&
+                ` on @${duplicate.tiktokAccount.tiktokUsername}`}{" "}
+              ·{" "}
+              {duplicate.publishedAt
+                ? `published ${new Date(duplicate.publishedAt).toLocaleDateString()}`
+                : duplicate.status}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function AlertPerformance({ clipId }: { clipId: string }) {
+  const trpc = useTRPC();
+  const { data: performance, isLoading } = useQuery(
+    trpc.analytics.clipPerformance.queryOptions({ clipId }),
+  );
+
+  if (isLoading) {
+    return <p className="text-muted-foreground text-sm">Loading curve...</p>;
+  }
+  if (!performance) return null;
+  return <ClipPerformance performance={performance} />;
+}
+
+// Clips published in the last week that are breaking out or underperforming
+function VelocityAlerts() {
+  const trpc = useTRPC();
+  const [openClipId, setOpenClipId] = useState<string | null>(null);
+
+  const { data: alerts = [] } = useQuery(
+    trpc.analytics.velocityAlerts.queryOptions(),
+  );
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="border-border bg-card rounded-xl border shadow-sm">
+      <div className="border-border border-b p-4">
+        <h2 className="text-foreground font-semibold">Early Velocity</h2>
+        <p className="text-muted-foreground text-sm">
+          Recently published clips compared with their account’s typical clip
+        </p>
+      </div>
+      <ul className="divide-border divide-y">
+        {alerts.map((alert) => (
+          <li key={alert.clip.id} className="px-4 py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-foreground truncate font-medium">
+                  {alert.clip.tiktokVideoUrl ? (
+                    <a
+                      href={alert.clip.tiktokVideoUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="hover:underline"
+                    >
+                      {alert.clip.title}
+                    </a>
+                  ) : (
+                    alert.clip.title
+                  )}
+                </p>
+                <p className="text-muted-foreground text-xs">
+                  {alert.clip.user.name}
+                  {alert.clip.tiktokAccount &&
+                    ` · @${alert.clip.tiktokAccount.tiktokUsername}`}
+                  {` · ${alert.views.toLocaleString()} views after ${formatHours(alert.hours)}`}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-3">
+                <VelocityBadge velocity={alert} />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setOpenClipId(
+                      openClipId === alert.clip.id ? null : alert.clip.id,
+                    )
+                  }
+                >
+                  {openClipId === alert.clip.id ? "Hide" : "Curve"}
+                </Button>
+              </div>
+            </div>
+            {openClipId === alert.clip.id && (
+              <div className="mt-4">
+                <AlertPerformance clipId={alert.clip.id} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export function AdminDashboardContent({ user }: AdminDashboardContentProps) {
   return (
     <TRPCReactProvider>
@@ -270,8 +930,9 @@ function AdminDashboardContentInner({ user }: AdminDashboardContentProps) {
 
       {/* Main Content */}
       <main className="flex-1 overflow-auto">
-        <div className="p-8">
-          <ReviewTab />
+        <div className="space-y-8 p-8">
+          <VelocityAlerts />
+          <ReviewTab userId={user.id} />
         </div>
       </main>
     </div>
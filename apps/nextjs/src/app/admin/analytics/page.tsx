@@ -1,5 +1,7 @@
 import { redirect } from "next/navigation";
 
+import { hasPermission } from "@everylab/api";
+
 import { getSession } from "~/auth/server";
 import { AdminAnalyticsContent } from "../_components/admin-analytics-content";
 
@@ -11,7 +13,7 @@ export default async function AdminAnalyticsPage() {
   }
 
   const userRole = (session.user as { role?: string }).role ?? "creator";
-  if (userRole !== "admin") {
+  if (!hasPermission(userRole, "analytics.read")) {
     redirect("/dashboard");
   }
 
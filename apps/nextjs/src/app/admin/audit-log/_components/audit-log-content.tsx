@@ -0,0 +1,373 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { LayoutDashboard, RefreshCw, ScrollText, Video } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+import type { NavItem } from "~/components/sidebar";
+import { Sidebar } from "~/components/sidebar";
+import { adminNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface AuditLogContentProps {
+  user: User;
+}
+
+type AuditStatus = "success" | "error";
+
+const PAGE_SIZE = 50;
+
+const statusStyles: Record<AuditStatus, string> = {
+  success: "bg-emerald-100 text-emerald-700",
+  error: "bg-red-100 text-red-700",
+};
+
+export function AuditLogContent({ user }: AuditLogContentProps) {
+  const trpc = useTRPC();
+
+  const [actorFilter, setActorFilter] = useState("");
+  const [pathFilter, setPathFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<AuditStatus | "">("");
+  const [targetFilter, setTargetFilter] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+
+  const {
+    data: log,
+    isLoading,
+    refetch,
+  } = useQuery(
+    trpc.auditLog.list.queryOptions({
+      actorId: actorFilter || undefined,
+      path: pathFilter || undefined,
+      status: statusFilter || undefined,
+      targetId: targetFilter.trim() || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      limit: PAGE_SIZE,
+      offset,
+    }),
+  );
+  const entries = log?.items ?? [];
+  const total = log?.total ?? 0;
+
+  const { data: paths = [] } = useQuery(trpc.auditLog.paths.queryOptions());
+  const { data: users = [] } = useQuery(trpc.admin.users.queryOptions());
+  const staff = users.filter((u) => u.role !== "creator");
+
+  const { data: pendingClips = [] } = useQuery(
+    trpc.admin.pendingClips.queryOptions(),
+  );
+
+  const navItems: NavItem[] = useMemo(
+    () =>
+      adminNavItems.map((item) =>
+        item.label === "Dashboard"
+          ? { ...item, badge: pendingClips.length }
+          : item,
+      ),
+    [pendingClips.length],
+  );
+
+  const filterClassName =
+    "border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm";
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={{ ...user, role: "admin" }}
+        title="Admin"
+        logoIcon={LayoutDashboard}
+        items={navItems}
+        bottomContent={
+          <>
+            <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
+              Switch View
+            </p>
+            <Link
+              href="/dashboard"
+              className="text-muted-foreground hover:bg-accent hover:text-foreground flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-colors"
+            >
+              <Video className="size-5" />
+              Creator Dashboard
+            </Link>
+          </>
+        }
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Audit Log
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Every change made by admins and staff, who made it and when
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => void refetch()}
+              disabled={isLoading}
+            >
+              <RefreshCw
+                className={`size-4 ${isLoading ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+          </div>
+        </header>
+
+        <div className="space-y-4 p-8">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={actorFilter}
+              onChange={(e) => {
+                setActorFilter(e.target.value);
+                setOffset(0);
+              }}
+              className={filterClassName}
+            >
+              <option value="">Everyone</option>
+              {staff.map((u) => (
+                <option key={u.id} value={u.id}>
+                  {u.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={pathFilter}
+              onChange={(e) => {
+                setPathFilter(e.target.value);
+                setOffset(0);
+              }}
+              className={filterClassName}
+            >
+              <option value="">All actions</option>
+              {paths.map((path) => (
+                <option key={path} value={path}>
+                  {path}
+                </option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as AuditStatus | "");
+                setOffset(0);
+              }}
+              className={filterClassName}
+            >
+              <option value="">All results</option>
+              <option value="success">Succeeded</option>
+              <option value="error">Failed</option>
+            </select>
+            <input
+              value={targetFilter}
+              onChange={(e) => {
+                setTargetFilter(e.target.value);
+                setOffset(0);
+              }}
+              placeholder="Clip, account or phone ID"
+              className={`${filterClassName} w-72 font-mono`}
+            />
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setOffset(0);
+              }}
+              className={filterClassName}
+              aria-label="From"
+            />
+            <span className="text-muted-foreground text-sm">to</span>
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setOffset(0);
+              }}
+              className={filterClassName}
+              aria-label="To"
+            />
+          </div>
+
+          <div className="border-border bg-card rounded-xl border shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-border bg-muted/30 border-b">
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      When
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      Who
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      Action
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      Targets
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      Result
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-border divide-y">
+                  {entries.map((entry) => (
+                    <Fragment key={entry.id}>
+                      <tr
+                        onClick={() =>
+                          setExpandedEntryId(
+                            expandedEntryId === entry.id ? null : entry.id,
+                          )
+                        }
+                        className="hover:bg-muted/30 cursor-pointer transition-colors"
+                      >
+                        <td className="text-muted-foreground px-6 py-4 text-sm whitespace-nowrap">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="text-foreground text-sm font-medium">
+                            {entry.actor?.name ?? "Deleted user"}
+                          </p>
+                          <p className="text-muted-foreground text-xs capitalize">
+                            {entry.actorRole}
+                          </p>
+                        </td>
+                        <td className="text-foreground px-6 py-4 font-mono text-sm">
+                          {entry.path}
+                        </td>
+                        <td className="max-w-[280px] px-6 py-4">
+                          {entry.targetIds.length > 0 ? (
+                            <div className="flex flex-wrap gap-1.5">
+                              {entry.targetIds.slice(0, 3).map((id) => (
+                                <button
+                                  key={id}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setTargetFilter(id);
+                                    setOffset(0);
+                                  }}
+                                  className="border-border bg-muted/40 text-foreground hover:bg-muted max-w-[200px] truncate rounded-full border px-2 py-0.5 font-mono text-xs"
+                                  title="Show everything that touched this ID"
+                                >
+                                  {id}
+                                </button>
+                              ))}
+                              {entry.targetIds.length > 3 && (
+                                <span className="text-muted-foreground text-xs">
+                                  +{entry.targetIds.length - 3} more
+                                </span>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground text-sm">
+                              —
+                            </span>
+                          )}
+                        </td>
+                        <td className="max-w-[280px] px-6 py-4">
+                          <span
+                            className={`rounded-full px-2.5 py-1 text-xs font-medium ${statusStyles[entry.status]}`}
+                          >
+                            {entry.status === "success"
+                              ? "Succeeded"
+                              : "Failed"}
+                          </span>
+                          {entry.error && (
+                            <p className="mt-1 truncate text-xs text-red-600">
+                              {entry.error}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedEntryId === entry.id && (
+                        <tr className="bg-muted/20">
+                          <td colSpan={5} className="space-y-3 px-6 py-4">
+                            <div>
+                              <p className="text-muted-foreground mb-1 text-xs font-medium uppercase">
+                                Input
+                              </p>
+                              <pre className="bg-background border-border max-h-64 overflow-auto rounded-lg border p-3 text-xs">
+                                {JSON.stringify(entry.input, null, 2)}
+                              </pre>
+                            </div>
+                            <p className="text-muted-foreground text-xs">
+                              {entry.actor?.email ?? entry.actorId ?? "—"} ·{" "}
+                              {entry.ipAddress ?? "Unknown IP"} ·{" "}
+                              {entry.durationMs}ms
+                              {entry.userAgent && ` · ${entry.userAgent}`}
+                            </p>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+
+                  {entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-12 text-center">
+                        <ScrollText className="text-muted-foreground/50 mx-auto size-12" />
+                        <p className="text-muted-foreground mt-4 text-sm">
+                          {isLoading
+                            ? "Loading audit log..."
+                            : "No matching entries"}
+                        </p>
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+
+            {total > PAGE_SIZE && (
+              <div className="border-border flex items-center justify-between border-t px-6 py-3">
+                <p className="text-muted-foreground text-sm">
+                  {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                    disabled={offset === 0}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                    disabled={offset + PAGE_SIZE >= total}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
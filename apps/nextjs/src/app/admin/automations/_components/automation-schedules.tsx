@@ -0,0 +1,666 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  Repeat,
+  Trash2,
+} from "lucide-react";
+
+import type { RouterOutputs } from "@everylab/api";
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+type AutomationSchedule = RouterOutputs["automationSchedule"]["list"][number];
+type AutomationType = AutomationSchedule["automationType"];
+type ScheduleMode = AutomationSchedule["mode"];
+type WarmupAction = "browse_video" | "search_video" | "search_profile";
+
+const automationTypeLabels: Record<AutomationType, string> = {
+  random_star: "Random likes",
+  ai_comment: "Comments",
+  warmup: "Warmup",
+};
+
+const warmupActionLabels: Record<WarmupAction, string> = {
+  browse_video: "Browse videos",
+  search_video: "Search videos",
+  search_profile: "Search profiles",
+};
+
+interface ScheduleForm {
+  name: string;
+  automationType: AutomationType;
+  mode: ScheduleMode;
+  cronExpression: string;
+  timesPerDay: number;
+  jitterMinutes: number;
+  timeZone: string;
+  cloudPhoneIds: string[];
+  tags: string[];
+  warmupAction: WarmupAction;
+  durationMinutes: number;
+  keywords: string;
+  useAi: boolean;
+  comment: string;
+}
+
+const defaultForm: ScheduleForm = {
+  name: "",
+  automationType: "random_star",
+  mode: "times_per_day",
+  cronExpression: "0 9 * * *",
+  timesPerDay: 3,
+  jitterMinutes: 30,
+  timeZone: "UTC",
+  cloudPhoneIds: [],
+  tags: [],
+  warmupAction: "browse_video",
+  durationMinutes: 10,
+  keywords: "",
+  useAi: true,
+  comment: "",
+};
+
+const inputClassName =
+  "border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm focus:ring-1 focus:outline-none";
+
+function toForm(schedule: AutomationSchedule): ScheduleForm {
+  return {
+    name: schedule.name,
+    automationType: schedule.automationType,
+    mode: schedule.mode,
+    cronExpression: schedule.cronExpression ?? defaultForm.cronExpression,
+    timesPerDay: schedule.timesPerDay ?? defaultForm.timesPerDay,
+    jitterMinutes: schedule.jitterMinutes,
+    timeZone: schedule.timeZone,
+    cloudPhoneIds: schedule.cloudPhoneIds,
+    tags: schedule.tags,
+    warmupAction:
+      schedule.warmupAction === "search_video" ||
+      schedule.warmupAction === "search_profile"
+        ? schedule.warmupAction
+        : "browse_video",
+    durationMinutes: schedule.durationMinutes,
+    keywords: schedule.keywords.join(", "),
+    useAi: schedule.useAi,
+    comment: schedule.comment ?? "",
+  };
+}
+
+function toInput(form: ScheduleForm) {
+  const isWarmup = form.automationType === "warmup";
+  return {
+    name: form.name,
+    automationType: form.automationType,
+    mode: form.mode,
+    cronExpression: form.mode === "cron" ? form.cronExpression : null,
+    timesPerDay: form.mode === "times_per_day" ? form.timesPerDay : null,
+    jitterMinutes: form.jitterMinutes,
+    timeZone: form.timeZone,
+    cloudPhoneIds: form.cloudPhoneIds,
+    tags: form.tags,
+    warmupAction: isWarmup ? form.warmupAction : null,
+    durationMinutes: form.durationMinutes,
+    keywords:
+      isWarmup && form.warmupAction !== "browse_video"
+        ? form.keywords
+            .split(",")
+            .map((k) => k.trim())
+            .filter(Boolean)
+        : [],
+    useAi: form.useAi,
+    comment:
+      form.automationType === "ai_comment" && !form.useAi ? form.comment : null,
+  };
+}
+
+function describeSpec(schedule: AutomationSchedule) {
+  const when =
+    schedule.mode === "cron"
+      ? `cron ${schedule.cronExpression}`
+      : `${schedule.timesPerDay}× a day`;
+  const jitter =
+    schedule.jitterMinutes > 0
+      ? `, spread over ${schedule.jitterMinutes}m`
+      : "";
+  return `${when} (${schedule.timeZone})${jitter}`;
+}
+
+function toggleValue(values: string[], value: string) {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+function ScheduleEditor({
+  schedule,
+  onClose,
+}: {
+  schedule: AutomationSchedule | null;
+  onClose: () => void;
+}) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState<ScheduleForm>(() =>
+    schedule
+      ? toForm(schedule)
+      : {
+          ...defaultForm,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        },
+  );
+
+  const { data: cloudPhones = [] } = useQuery(
+    trpc.cloudPhone.list.queryOptions(),
+  );
+  const { data: tags = [] } = useQuery(
+    trpc.automationSchedule.tags.queryOptions(),
+  );
+
+  const onSuccess = async () => {
+    await queryClient.invalidateQueries({
+      queryKey: trpc.automationSchedule.list.queryKey(),
+    });
+    toast.success(schedule ? "Schedule updated" : "Schedule created");
+    onClose();
+  };
+
+  const createMutation = useMutation(
+    trpc.automationSchedule.create.mutationOptions({
+      onSuccess,
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+  const updateMutation = useMutation(
+    trpc.automationSchedule.update.mutationOptions({
+      onSuccess,
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const submit = () => {
+    if (schedule) {
+      updateMutation.mutate({ id: schedule.id, ...toInput(form) });
+    } else {
+      createMutation.mutate(toInput(form));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background max-h-[85vh] w-full max-w-2xl overflow-auto rounded-xl p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">
+            {schedule ? "Edit schedule" : "New schedule"}
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Name
+            </label>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Daily likes, US phones"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Automation
+            </label>
+            <select
+              value={form.automationType}
+              onChange={(e) =>
+                setForm({
+                  ...form,
+                  automationType: e.target.value as AutomationType,
+                })
+              }
+              className={inputClassName}
+            >
+              {Object.entries(automationTypeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Repeat
+            </label>
+            <select
+              value={form.mode}
+              onChange={(e) =>
+                setForm({ ...form, mode: e.target.value as ScheduleMode })
+              }
+              className={inputClassName}
+            >
+              <option value="times_per_day">N times a day</option>
+              <option value="cron">Cron expression</option>
+            </select>
+          </div>
+          {form.mode === "cron" ? (
+            <div>
+              <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                Cron (minute hour day month weekday)
+              </label>
+              <input
+                value={form.cronExpression}
+                onChange={(e) =>
+                  setForm({ ...form, cronExpression: e.target.value })
+                }
+                placeholder="0 9,18 * * 1-5"
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                Times per day
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={48}
+                value={form.timesPerDay}
+                onChange={(e) =>
+                  setForm({ ...form, timesPerDay: Number(e.target.value) })
+                }
+                className={inputClassName}
+              />
+            </div>
+          )}
+          <div>
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Spread phones over (minutes)
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={720}
+              value={form.jitterMinutes}
+              onChange={(e) =>
+                setForm({ ...form, jitterMinutes: Number(e.target.value) })
+              }
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Time zone
+            </label>
+            <input
+              value={form.timeZone}
+              onChange={(e) => setForm({ ...form, timeZone: e.target.value })}
+              placeholder="e.g. America/New_York"
+              className={inputClassName}
+            />
+          </div>
+
+          {form.automationType === "warmup" && (
+            <>
+              <div>
+                <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                  Warmup action
+                </label>
+                <select
+                  value={form.warmupAction}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      warmupAction: e.target.value as WarmupAction,
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  {Object.entries(warmupActionLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                  Duration (minutes)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={240}
+                  value={form.durationMinutes}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      durationMinutes: Number(e.target.value),
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              {form.warmupAction !== "browse_video" && (
+                <div className="sm:col-span-2">
+                  <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                    Keywords (comma separated)
+                  </label>
+                  <input
+                    value={form.keywords}
+                    onChange={(e) =>
+                      setForm({ ...form, keywords: e.target.value })
+                    }
+                    placeholder="e.g. skincare, gym, cooking"
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </>
+          )}
+
+          {form.automationType === "ai_comment" && (
+            <div className="sm:col-span-2">
+              <label className="text-muted-foreground mb-1 flex items-center gap-2 text-xs font-medium">
+                <input
+                  type="checkbox"
+                  checked={form.useAi}
+                  onChange={(e) =>
+                    setForm({ ...form, useAi: e.target.checked })
+                  }
+                />
+                AI comment
+              </label>
+              {!form.useAi && (
+                <input
+                  value={form.comment}
+                  onChange={(e) =>
+                    setForm({ ...form, comment: e.target.value })
+                  }
+                  placeholder="Comment text"
+                  className={inputClassName}
+                />
+              )}
+            </div>
+          )}
+
+          {tags.length > 0 && (
+            <div className="sm:col-span-2">
+              <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                Phones tagged
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() =>
+                      setForm({ ...form, tags: toggleValue(form.tags, tag) })
+                    }
+                    className={`rounded-full border px-2.5 py-1 text-xs font-medium ${
+                      form.tags.includes(tag)
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "border-border text-muted-foreground"
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="sm:col-span-2">
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Phones ({form.cloudPhoneIds.length} selected)
+            </label>
+            <div className="border-border max-h-48 overflow-auto rounded-lg border">
+              {cloudPhones.map((phone) => (
+                <label
+                  key={phone.id}
+                  className="hover:bg-muted/30 flex items-center gap-3 px-3 py-2 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.cloudPhoneIds.includes(phone.id)}
+                    onChange={() =>
+                      setForm({
+                        ...form,
+                        cloudPhoneIds: toggleValue(
+                          form.cloudPhoneIds,
+                          phone.id,
+                        ),
+                      })
+                    }
+                  />
+                  <span className="text-foreground">
+                    {phone.serialName ?? phone.id}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={isPending || !form.name.trim()}>
+            {isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function AutomationSchedules() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [editing, setEditing] = useState<AutomationSchedule | "new" | null>(
+    null,
+  );
+
+  const { data: schedules = [], isLoading } = useQuery(
+    trpc.automationSchedule.list.queryOptions(),
+  );
+
+  const mutationOptions = {
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({
+        queryKey: trpc.automationSchedule.list.queryKey(),
+      });
+    },
+    onError: (err: { message: string }) => toast.error(err.message),
+  };
+  const pauseMutation = useMutation(
+    trpc.automationSchedule.pause.mutationOptions(mutationOptions),
+  );
+  const resumeMutation = useMutation(
+    trpc.automationSchedule.resume.mutationOptions(mutationOptions),
+  );
+  const deleteMutation = useMutation(
+    trpc.automationSchedule.delete.mutationOptions(mutationOptions),
+  );
+
+  return (
+    <div className="mb-8">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Repeat className="text-muted-foreground size-4" />
+          <h2 className="text-foreground text-lg font-semibold">
+            Recurring Schedules
+          </h2>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setEditing("new")}>
+          <Plus className="mr-2 size-4" />
+          New schedule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="text-muted-foreground size-6 animate-spin" />
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          No recurring schedules yet.
+        </p>
+      ) : (
+        <div className="border-border bg-card rounded-xl border shadow-sm">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-border bg-muted/30 border-b">
+                  <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                    Schedule
+                  </th>
+                  <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                    Targets
+                  </th>
+                  <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                    Next Run
+                  </th>
+                  <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                    Last 7 Days
+                  </th>
+                  <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-border divide-y">
+                {schedules.map((schedule) => (
+                  <tr
+                    key={schedule.id}
+                    className="hover:bg-muted/30 transition-colors"
+                  >
+                    <td className="px-6 py-4">
+                      <p className="text-foreground font-medium">
+                        {schedule.name}
+                      </p>
+                      <p className="text-muted-foreground text-xs">
+                        {automationTypeLabels[schedule.automationType]} ·{" "}
+                        {describeSpec(schedule)}
+                      </p>
+                      {schedule.lastError && (
+                        <p
+                          className="mt-1 max-w-[320px] truncate text-xs text-red-600"
+                          title={schedule.lastError}
+                        >
+                          {schedule.lastError}
+                        </p>
+                      )}
+                    </td>
+                    <td className="text-foreground px-6 py-4 text-sm">
+                      {schedule.cloudPhoneIds.length > 0 &&
+                        `${schedule.cloudPhoneIds.length} phones`}
+                      {schedule.cloudPhoneIds.length > 0 &&
+                        schedule.tags.length > 0 &&
+                        " + "}
+                      {schedule.tags.length > 0 &&
+                        `tags: ${schedule.tags.join(", ")}`}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {schedule.status === "paused" ? (
+                        <span className="rounded-full bg-amber-100 px-2.5 py-1 text-xs font-medium text-amber-700">
+                          Paused
+                        </span>
+                      ) : (
+                        <span className="text-foreground">
+                          {schedule.nextRunAt?.toLocaleString() ?? "—"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-muted-foreground px-6 py-4 text-xs">
+                      {schedule.recentTasks.completed ?? 0} done ·{" "}
+                      {(schedule.recentTasks.waiting ?? 0) +
+                        (schedule.recentTasks.in_progress ?? 0)}{" "}
+                      pending · {schedule.recentTasks.failed ?? 0} failed
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-2">
+                        {schedule.status === "active" ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              pauseMutation.mutate({ id: schedule.id })
+                            }
+                            disabled={pauseMutation.isPending}
+                          >
+                            <Pause className="size-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              resumeMutation.mutate({ id: schedule.id })
+                            }
+                            disabled={resumeMutation.isPending}
+                          >
+                            <Play className="size-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditing(schedule)}
+                        >
+                          <Pencil className="size-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Delete "${schedule.name}"?`)) {
+                              deleteMutation.mutate({ id: schedule.id });
+                            }
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <ScheduleEditor
+          schedule={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,30 +3,29 @@
 import Link from "next/link";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import {
-  BarChart3,
-  Bot,
-  FileVideo,
-  Home,
   LayoutDashboard,
   Loader2,
   LogOut,
   RefreshCw,
-  Smartphone,
-  Users,
   Video,
 } from "lucide-react";
 
 import { Button } from "@everylab/ui/button";
 
 import { authClient } from "~/auth/client";
+import { getAdminNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
+import { AutomationSchedules } from "./automation-schedules";
 import { AvailableAutomations } from "./available-automations";
 import { RecentTaskLogs } from "./recent-task-logs";
+import { RetryPolicies } from "./retry-policies";
+import { WarmupPrograms } from "./warmup-programs";
 
 interface User {
   id: string;
   name: string;
   email: string;
+  role?: string | null;
 }
 
 function NavItem({
@@ -82,21 +81,15 @@ export function AutomationsContent({ user }: { user: User }) {
         </div>
 
         <nav className="flex-1 space-y-1 p-4">
-          <NavItem icon={Home} label="Dashboard" href="/admin" />
-          <NavItem
-            icon={Smartphone}
-            label="Cloud Phones"
-            href="/admin/cloud-phones"
-          />
-          <NavItem icon={Users} label="Users" href="/admin/users" />
-          <NavItem icon={FileVideo} label="All Clips" href="/admin/clips" />
-          <NavItem icon={BarChart3} label="Analytics" href="/admin/analytics" />
-          <NavItem
-            icon={Bot}
-            label="Automations"
-            active
-            href="/admin/automations"
-          />
+          {getAdminNavItems(user.role).map((item) => (
+            <NavItem
+              key={item.href}
+              icon={item.icon}
+              label={item.label}
+              active={item.href === "/admin/automations"}
+              href={item.href}
+            />
+          ))}
 
           <div className="border-border my-4 border-t" />
           <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
@@ -114,7 +107,9 @@ export function AutomationsContent({ user }: { user: User }) {
               <p className="text-foreground truncate text-sm font-medium">
                 {user.name}
               </p>
-              <p className="text-muted-foreground truncate text-xs">Admin</p>
+              <p className="text-muted-foreground truncate text-xs">
+                {user.role === "admin" ? "Admin" : user.email}
+              </p>
             </div>
             <button
               onClick={async () => {
@@ -159,6 +154,9 @@ export function AutomationsContent({ user }: { user: User }) {
 
         <div className="p-8">
           <AvailableAutomations />
+          <AutomationSchedules />
+          <WarmupPrograms />
+          <RetryPolicies />
           <RecentTaskLogs />
         </div>
       </main>
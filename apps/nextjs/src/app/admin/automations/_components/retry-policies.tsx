@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+import { useTRPC } from "~/trpc/react";
+
+const taskTypeLabels: Record<number, string> = {
+  1: "Video Posting",
+  3: "Carousel Posting",
+};
+
+interface RetryPolicyForm {
+  taskType: number;
+  enabled: boolean;
+  maxAttempts: number;
+  backoffSeconds: number;
+  backoffMultiplier: number;
+  strategy: "retry" | "recreate";
+  terminalFailCodes: number[];
+}
+
+function parseFailCodes(value: string) {
+  return value
+    .split(",")
+    .map((code) => Number(code.trim()))
+    .filter((code) => Number.isInteger(code) && code !== 0);
+}
+
+const inputClassName =
+  "border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm focus:ring-1 focus:outline-none";
+
+function RetryPolicyCard({ policy }: { policy: RetryPolicyForm }) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState(policy);
+  const [failCodes, setFailCodes] = useState(
+    policy.terminalFailCodes.join(", "),
+  );
+
+  const updateMutation = useMutation(
+    trpc.admin.updateRetryPolicy.mutationOptions({
+      onSuccess: () => {
+        void queryClient.invalidateQueries({
+          queryKey: trpc.admin.getRetryPolicies.queryKey(),
+        });
+      },
+    }),
+  );
+
+  return (
+    <div className="border-border bg-card rounded-xl border p-5">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-foreground font-semibold">
+          {taskTypeLabels[form.taskType] ?? `Task type ${form.taskType}`}
+        </h3>
+        <label className="text-muted-foreground flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+          />
+          Auto-retry
+        </label>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label className="text-muted-foreground mb-1 block text-xs font-medium">
+            Max attempts
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={form.maxAttempts}
+            onChange={(e) =>
+              setForm({ ...form, maxAttempts: Number(e.target.value) })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="text-muted-foreground mb-1 block text-xs font-medium">
+            Strategy
+          </label>
+          <select
+            value={form.strategy}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                strategy: e.target.value as RetryPolicyForm["strategy"],
+              })
+            }
+            className={inputClassName}
+          >
+            <option value="retry">Retry same task</option>
+            <option value="recreate">Create new task</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-muted-foreground mb-1 block text-xs font-medium">
+            First retry after (minutes)
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={Math.round(form.backoffSeconds / 60)}
+            onChange={(e) =>
+              setForm({ ...form, backoffSeconds: Number(e.target.value) * 60 })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="text-muted-foreground mb-1 block text-xs font-medium">
+            Backoff multiplier
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={form.backoffMultiplier}
+            onChange={(e) =>
+              setForm({ ...form, backoffMultiplier: Number(e.target.value) })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label className="text-muted-foreground mb-1 block text-xs font-medium">
+            Terminal fail codes (never retried, comma separated)
+          </label>
+          <input
+            type="text"
+            value={failCodes}
+            onChange={(e) => setFailCodes(e.target.value)}
+            placeholder="e.g. 20003, 20004"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <Button
+          size="sm"
+          onClick={() =>
+            updateMutation.mutate({
+              ...form,
+              terminalFailCodes: parseFailCodes(failCodes),
+            })
+          }
+          disabled={updateMutation.isPending}
+        >
+          {updateMutation.isPending ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 size-4" />
+          )}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function RetryPolicies() {
+  const trpc = useTRPC();
+
+  const { data: policies = [], isLoading } = useQuery(
+    trpc.admin.getRetryPolicies.queryOptions(),
+  );
+
+  return (
+    <div className="mb-8">
+      <div className="mb-4 flex items-center gap-2">
+        <RotateCcw className="text-muted-foreground size-4" />
+        <h2 className="text-foreground text-lg font-semibold">
+          Publish Retry Policy
+        </h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="text-muted-foreground size-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {policies.map((policy) => (
+            <RetryPolicyCard key={policy.taskType} policy={policy} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
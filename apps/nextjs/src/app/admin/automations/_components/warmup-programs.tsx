@@ -0,0 +1,776 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  CalendarClock,
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+  UserPlus,
+  X,
+} from "lucide-react";
+
+import type { RouterOutputs } from "@everylab/api";
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+type WarmupProgram = RouterOutputs["warmup"]["listPrograms"][number];
+type WarmupAction = WarmupProgram["steps"][number]["action"];
+type EnrollmentStatus =
+  RouterOutputs["warmup"]["enrollments"]["enrollments"][number]["status"];
+
+const actionLabels: Record<WarmupAction, string> = {
+  browse_video: "Browse videos",
+  search_video: "Search videos",
+  search_profile: "Search profiles",
+  random_star: "Random likes",
+  random_comment: "Random comments",
+};
+
+const enrollmentStatusStyles: Record<EnrollmentStatus, string> = {
+  active: "bg-emerald-100 text-emerald-700",
+  paused: "bg-amber-100 text-amber-700",
+  completed: "bg-blue-100 text-blue-700",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+interface StepForm {
+  day: number;
+  action: WarmupAction;
+  durationMinutes: number;
+  keywords: string;
+  useAi: boolean;
+  comment: string;
+}
+
+const newStep = (day: number): StepForm => ({
+  day,
+  action: "browse_video",
+  durationMinutes: 10,
+  keywords: "",
+  useAi: true,
+  comment: "",
+});
+
+const inputClassName =
+  "border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm focus:ring-1 focus:outline-none";
+
+function toLocalDateTimeValue(d: Date) {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
+    d.getHours(),
+  )}:${pad(d.getMinutes())}`;
+}
+
+/**
+ * Steps as the API expects them: keywords split, and positions numbered in
+ * the order steps appear within each day
+ */
+function toStepInput(steps: StepForm[]) {
+  const nextPosition = new Map<number, number>();
+  return steps.map((step) => {
+    const position = nextPosition.get(step.day) ?? 0;
+    nextPosition.set(step.day, position + 1);
+    return {
+      day: step.day,
+      position,
+      action: step.action,
+      durationMinutes: step.durationMinutes,
+      keywords: step.keywords
+        .split(",")
+        .map((k) => k.trim())
+        .filter(Boolean),
+      useAi: step.useAi,
+      comment: step.useAi ? null : step.comment,
+    };
+  });
+}
+
+function ProgramEditor({
+  program,
+  onClose,
+}: {
+  program: WarmupProgram | null;
+  onClose: () => void;
+}) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState(program?.name ?? "");
+  const [description, setDescription] = useState(program?.description ?? "");
+  const [steps, setSteps] = useState<StepForm[]>(
+    program?.steps.map((step) => ({
+      day: step.day,
+      action: step.action,
+      durationMinutes: step.durationMinutes,
+      keywords: step.keywords.join(", "),
+      useAi: step.useAi,
+      comment: step.comment ?? "",
+    })) ?? [newStep(1)],
+  );
+
+  const onSuccess = async () => {
+    await queryClient.invalidateQueries({
+      queryKey: trpc.warmup.listPrograms.queryKey(),
+    });
+    toast.success(program ? "Program updated" : "Program created");
+    onClose();
+  };
+
+  const createMutation = useMutation(
+    trpc.warmup.createProgram.mutationOptions({
+      onSuccess,
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+  const updateMutation = useMutation(
+    trpc.warmup.updateProgram.mutationOptions({
+      onSuccess,
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const updateStep = (index: number, patch: Partial<StepForm>) =>
+    setSteps(steps.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  const submit = () => {
+    const values = {
+      name,
+      description: description || null,
+      steps: toStepInput([...steps].sort((a, b) => a.day - b.day)),
+    };
+    if (program) {
+      updateMutation.mutate({ id: program.id, ...values });
+    } else {
+      createMutation.mutate(values);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background max-h-[85vh] w-full max-w-3xl overflow-auto rounded-xl p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">
+            {program ? "Edit warmup program" : "New warmup program"}
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Name
+            </label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. 7-day new account warmup"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="text-muted-foreground mb-1 block text-xs font-medium">
+              Description (optional)
+            </label>
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          <p className="text-muted-foreground text-xs">
+            Steps on the same day run one after another, in the order listed,
+            starting at the enrollment&apos;s start time on each day.
+          </p>
+          {steps.map((step, index) => (
+            <div
+              key={index}
+              className="border-border grid items-end gap-3 rounded-lg border p-3 sm:grid-cols-12"
+            >
+              <div className="sm:col-span-2">
+                <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                  Day
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={step.day}
+                  onChange={(e) =>
+                    updateStep(index, { day: Number(e.target.value) })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div className="sm:col-span-4">
+                <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                  Action
+                </label>
+                <select
+                  value={step.action}
+                  onChange={(e) =>
+                    updateStep(index, {
+                      action: e.target.value as WarmupAction,
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  {Object.entries(actionLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {step.action === "random_star" ? (
+                <div className="sm:col-span-5" />
+              ) : step.action === "random_comment" ? (
+                <div className="sm:col-span-5">
+                  <label className="text-muted-foreground mb-1 flex items-center gap-2 text-xs font-medium">
+                    <input
+                      type="checkbox"
+                      checked={step.useAi}
+                      onChange={(e) =>
+                        updateStep(index, { useAi: e.target.checked })
+                      }
+                    />
+                    AI comment
+                  </label>
+                  {!step.useAi && (
+                    <input
+                      value={step.comment}
+                      onChange={(e) =>
+                        updateStep(index, { comment: e.target.value })
+                      }
+                      placeholder="Comment text"
+                      className={inputClassName}
+                    />
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="sm:col-span-2">
+                    <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                      Minutes
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={240}
+                      value={step.durationMinutes}
+                      onChange={(e) =>
+                        updateStep(index, {
+                          durationMinutes: Number(e.target.value),
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="sm:col-span-3">
+                    {step.action !== "browse_video" && (
+                      <>
+                        <label className="text-muted-foreground mb-1 block text-xs font-medium">
+                          Keywords
+                        </label>
+                        <input
+                          value={step.keywords}
+                          onChange={(e) =>
+                            updateStep(index, { keywords: e.target.value })
+                          }
+                          placeholder="gym, cooking"
+                          className={inputClassName}
+                        />
+                      </>
+                    )}
+                  </div>
+                </>
+              )}
+              <div className="flex justify-end sm:col-span-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                  disabled={steps.length === 1}
+                >
+                  <X className="size-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setSteps([...steps, newStep(steps.at(-1)?.day ?? 1)])
+            }
+          >
+            <Plus className="mr-2 size-4" />
+            Add step
+          </Button>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={isPending || !name.trim()}>
+            {isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EnrollModal({
+  program,
+  onClose,
+}: {
+  program: WarmupProgram;
+  onClose: () => void;
+}) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const { data: cloudPhones = [], isLoading } = useQuery(
+    trpc.cloudPhone.list.queryOptions(),
+  );
+
+  const [selected, setSelected] = useState<string[]>([]);
+  const [startsLocal, setStartsLocal] = useState(() =>
+    toLocalDateTimeValue(new Date()),
+  );
+
+  const enrollMutation = useMutation(
+    trpc.warmup.enroll.mutationOptions({
+      onSuccess: async (res) => {
+        await Promise.all([
+          queryClient.invalidateQueries({
+            queryKey: trpc.warmup.listPrograms.queryKey(),
+          }),
+          queryClient.invalidateQueries({
+            queryKey: trpc.warmup.enrollments.queryKey(),
+          }),
+        ]);
+        toast.success(
+          `Enrolled ${res.enrolled} phones${
+            res.skipped.length > 0
+              ? `, skipped ${res.skipped.length} already in a program`
+              : ""
+          }`,
+        );
+        onClose();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const toggle = (id: string) =>
+    setSelected(
+      selected.includes(id)
+        ? selected.filter((s) => s !== id)
+        : [...selected, id],
+    );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background max-h-[85vh] w-full max-w-lg overflow-auto rounded-xl p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold">Enroll phones</h3>
+            <p className="text-muted-foreground mt-1 text-sm">
+              {program.name} · {program.days} days
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <label className="text-muted-foreground mb-1 block text-xs font-medium">
+          Day 1 starts (local)
+        </label>
+        <input
+          type="datetime-local"
+          value={startsLocal}
+          onChange={(e) => setStartsLocal(e.target.value)}
+          className={inputClassName}
+        />
+
+        <div className="mt-4 mb-1 flex items-center justify-between">
+          <label className="text-muted-foreground text-xs font-medium">
+            Cloud phones ({selected.length} selected)
+          </label>
+          <button
+            className="text-primary text-xs"
+            onClick={() =>
+              setSelected(
+                selected.length === cloudPhones.length
+                  ? []
+                  : cloudPhones.map((p) => p.id),
+              )
+            }
+          >
+            {selected.length === cloudPhones.length
+              ? "Select none"
+              : "Select all"}
+          </button>
+        </div>
+        <div className="border-border max-h-64 overflow-auto rounded-lg border">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="text-muted-foreground size-5 animate-spin" />
+            </div>
+          ) : (
+            cloudPhones.map((phone) => (
+              <label
+                key={phone.id}
+                className="hover:bg-muted/30 flex items-center gap-3 px-3 py-2 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(phone.id)}
+                  onChange={() => toggle(phone.id)}
+                />
+                <span className="text-foreground">
+                  {phone.serialName ?? phone.id}
+                </span>
+                {phone.tiktokAccounts[0] && (
+                  <span className="text-muted-foreground text-xs">
+                    @{phone.tiktokAccounts[0].tiktokUsername}
+                  </span>
+                )}
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={enrollMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              enrollMutation.mutate({
+                programId: program.id,
+                cloudPhoneIds: selected,
+                startsAt: new Date(startsLocal),
+              })
+            }
+            disabled={enrollMutation.isPending || selected.length === 0}
+          >
+            {enrollMutation.isPending && (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            )}
+            Enroll
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function WarmupEnrollments() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery(
+    trpc.warmup.enrollments.queryOptions({ limit: 50, offset: 0 }),
+  );
+  const enrollments = data?.enrollments ?? [];
+
+  const mutationOptions = {
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: trpc.warmup.enrollments.queryKey(),
+        }),
+        queryClient.invalidateQueries({
+          queryKey: trpc.warmup.listPrograms.queryKey(),
+        }),
+      ]);
+    },
+    onError: (err: { message: string }) => toast.error(err.message),
+  };
+  const pauseMutation = useMutation(
+    trpc.warmup.pause.mutationOptions(mutationOptions),
+  );
+  const resumeMutation = useMutation(
+    trpc.warmup.resume.mutationOptions(mutationOptions),
+  );
+  const cancelMutation = useMutation(
+    trpc.warmup.cancel.mutationOptions(mutationOptions),
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="text-muted-foreground size-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (enrollments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-border bg-card mt-4 rounded-xl border shadow-sm">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-border bg-muted/30 border-b">
+              <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                Phone
+              </th>
+              <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                Program
+              </th>
+              <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                Progress
+              </th>
+              <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                Status
+              </th>
+              <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-border divide-y">
+            {enrollments.map((enrollment) => (
+              <tr
+                key={enrollment.id}
+                className="hover:bg-muted/30 transition-colors"
+              >
+                <td className="text-foreground px-6 py-4 text-sm">
+                  {enrollment.cloudPhone.serialName ?? enrollment.cloudPhoneId}
+                </td>
+                <td className="text-foreground px-6 py-4 text-sm">
+                  {enrollment.program.name}
+                </td>
+                <td className="px-6 py-4">
+                  <p className="text-foreground text-sm">
+                    Day {enrollment.currentDay} of {enrollment.totalDays}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    {enrollment.tasks.completed ?? 0} done ·{" "}
+                    {(enrollment.tasks.waiting ?? 0) +
+                      (enrollment.tasks.in_progress ?? 0)}{" "}
+                    pending · {enrollment.tasks.failed ?? 0} failed
+                  </p>
+                </td>
+                <td className="px-6 py-4">
+                  <span
+                    className={`rounded-full px-2.5 py-1 text-xs font-medium ${enrollmentStatusStyles[enrollment.status]}`}
+                  >
+                    {enrollment.status}
+                  </span>
+                  {enrollment.lastError && (
+                    <p className="mt-1 max-w-[280px] truncate text-xs text-red-600">
+                      {enrollment.lastError}
+                    </p>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <div className="flex justify-end gap-2">
+                    {enrollment.status === "active" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          pauseMutation.mutate({ id: enrollment.id })
+                        }
+                        disabled={pauseMutation.isPending}
+                      >
+                        <Pause className="size-4" />
+                      </Button>
+                    )}
+                    {enrollment.status === "paused" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          resumeMutation.mutate({ id: enrollment.id })
+                        }
+                        disabled={resumeMutation.isPending}
+                      >
+                        <Play className="size-4" />
+                      </Button>
+                    )}
+                    {(enrollment.status === "active" ||
+                      enrollment.status === "paused") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (
+                            confirm(
+                              "Cancel this warmup? Tasks that haven't started are cancelled in GeeLark.",
+                            )
+                          ) {
+                            cancelMutation.mutate({ id: enrollment.id });
+                          }
+                        }}
+                        disabled={cancelMutation.isPending}
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function WarmupPrograms() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [editing, setEditing] = useState<WarmupProgram | "new" | null>(null);
+  const [enrolling, setEnrolling] = useState<WarmupProgram | null>(null);
+
+  const { data: programs = [], isLoading } = useQuery(
+    trpc.warmup.listPrograms.queryOptions(),
+  );
+
+  const deleteMutation = useMutation(
+    trpc.warmup.deleteProgram.mutationOptions({
+      onSuccess: async () => {
+        await queryClient.invalidateQueries({
+          queryKey: trpc.warmup.listPrograms.queryKey(),
+        });
+        toast.success("Program deleted");
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  return (
+    <div className="mb-8">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="text-muted-foreground size-4" />
+          <h2 className="text-foreground text-lg font-semibold">
+            Warmup Programs
+          </h2>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setEditing("new")}>
+          <Plus className="mr-2 size-4" />
+          New program
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="text-muted-foreground size-6 animate-spin" />
+        </div>
+      ) : programs.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          No warmup programs yet. Create one to warm up new accounts over
+          several days.
+        </p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {programs.map((program) => (
+            <div
+              key={program.id}
+              className="border-border bg-card rounded-xl border p-5"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-foreground font-semibold">
+                    {program.name}
+                  </h3>
+                  {program.description && (
+                    <p className="text-muted-foreground mt-1 text-sm">
+                      {program.description}
+                    </p>
+                  )}
+                  <p className="text-muted-foreground mt-2 text-xs">
+                    {program.days} days · {program.steps.length} steps ·{" "}
+                    {program.openEnrollments} phones enrolled
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEnrolling(program)}
+                  >
+                    <UserPlus className="size-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEditing(program)}
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      if (confirm(`Delete "${program.name}"?`)) {
+                        deleteMutation.mutate({ id: program.id });
+                      }
+                    }}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <WarmupEnrollments />
+
+      {editing && (
+        <ProgramEditor
+          program={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+      {enrolling && (
+        <EnrollModal program={enrolling} onClose={() => setEnrolling(null)} />
+      )}
+    </div>
+  );
+}
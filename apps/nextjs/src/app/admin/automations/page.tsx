@@ -1,5 +1,7 @@
 import { redirect } from "next/navigation";
 
+import { hasPermission } from "@everylab/api";
+
 import { getSession } from "~/auth/server";
 import { AutomationsContent } from "./_components/automations-content";
 
@@ -11,7 +13,7 @@ export default async function AutomationsPage() {
   }
 
   const userRole = (session.user as { role?: string }).role ?? "creator";
-  if (userRole !== "admin") {
+  if (!hasPermission(userRole, "devices.operate")) {
     redirect("/dashboard");
   }
 
@@ -0,0 +1,440 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ChevronLeft,
+  ChevronRight,
+  LayoutDashboard,
+  RefreshCw,
+  Settings,
+  Video,
+  X,
+} from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+import type { NavItem } from "~/components/sidebar";
+import { Sidebar } from "~/components/sidebar";
+import { adminNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface LimitsModalState {
+  accountId: string;
+  username: string;
+  maxPostsPerDay: number;
+  minPostGapMinutes: number;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+}
+
+const DAYS = 7;
+
+const postColors: Record<string, string> = {
+  approved: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  published: "bg-green-100 text-green-800 border-green-200",
+};
+
+function startOfDay(date: Date) {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function addDays(date: Date, days: number) {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+function formatQuietHours(start: number | null, end: number | null) {
+  if (start === null || end === null) return "No quiet hours";
+  const pad = (h: number) => `${String(h).padStart(2, "0")}:00`;
+  return `Quiet ${pad(start)}–${pad(end)}`;
+}
+
+const inputClassName =
+  "border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-4 py-2.5 focus:ring-1 focus:outline-none";
+
+export function CalendarContent({ user }: { user: User }) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [weekStart, setWeekStart] = useState(() => startOfDay(new Date()));
+  const [limitsModal, setLimitsModal] = useState<LimitsModalState | null>(null);
+
+  const {
+    data: calendar,
+    isLoading,
+    refetch,
+  } = useQuery(
+    trpc.admin.postingCalendar.queryOptions({ from: weekStart, days: DAYS }),
+  );
+
+  const updateLimits = useMutation(
+    trpc.tiktokAccount.update.mutationOptions({
+      onSuccess: () => {
+        void queryClient.invalidateQueries({
+          queryKey: trpc.admin.postingCalendar.queryKey(),
+        });
+        setLimitsModal(null);
+      },
+    }),
+  );
+
+  // Get pending count for badge
+  const { data: pendingClips = [] } = useQuery(
+    trpc.admin.pendingClips.queryOptions(),
+  );
+
+  const navItems: NavItem[] = adminNavItems.map((item) => {
+    if (item.label === "Dashboard") {
+      return { ...item, badge: pendingClips.length };
+    }
+    return item;
+  });
+
+  const days = useMemo(
+    () => Array.from({ length: DAYS }, (_, i) => addDays(weekStart, i)),
+    [weekStart],
+  );
+
+  const handleSaveLimits = () => {
+    if (!limitsModal) return;
+    const toHour = (value: string) => (value === "" ? null : Number(value));
+    updateLimits.mutate({
+      id: limitsModal.accountId,
+      data: {
+        maxPostsPerDay: limitsModal.maxPostsPerDay,
+        minPostGapMinutes: limitsModal.minPostGapMinutes,
+        quietHoursStart: toHour(limitsModal.quietHoursStart),
+        quietHoursEnd: toHour(limitsModal.quietHoursEnd),
+      },
+    });
+  };
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={{ ...user, role: "admin" }}
+        title="Admin"
+        logoIcon={LayoutDashboard}
+        items={navItems}
+        bottomContent={
+          <>
+            <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
+              Switch View
+            </p>
+            <Link
+              href="/dashboard"
+              className="text-muted-foreground hover:bg-accent hover:text-foreground flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-colors"
+            >
+              <Video className="size-5" />
+              Creator Dashboard
+            </Link>
+          </>
+        }
+      />
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Posting Calendar
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Queued and published posts per TikTok account
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setWeekStart(addDays(weekStart, -DAYS))}
+              >
+                <ChevronLeft className="size-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setWeekStart(startOfDay(new Date()))}
+              >
+                Today
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setWeekStart(addDays(weekStart, DAYS))}
+              >
+                <ChevronRight className="size-4" />
+              </Button>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => void refetch()}
+                disabled={isLoading}
+              >
+                <RefreshCw
+                  className={`size-4 ${isLoading ? "animate-spin" : ""}`}
+                />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <div className="p-8">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+            </div>
+          ) : !calendar || calendar.accounts.length === 0 ? (
+            <div className="border-border bg-card rounded-xl border p-8 text-center">
+              <p className="text-muted-foreground">No active TikTok accounts</p>
+            </div>
+          ) : (
+            <div className="border-border bg-card overflow-x-auto rounded-xl border">
+              <table className="w-full min-w-[960px] text-sm">
+                <thead>
+                  <tr className="border-border border-b">
+                    <th className="text-muted-foreground w-56 px-4 py-3 text-left font-medium">
+                      Account
+                    </th>
+                    {days.map((day) => (
+                      <th
+                        key={day.toISOString()}
+                        className="text-muted-foreground px-2 py-3 text-left font-medium"
+                      >
+                        {day.toLocaleDateString("en-US", {
+                          weekday: "short",
+                          month: "short",
+                          day: "numeric",
+                        })}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {calendar.accounts.map((account) => (
+                    <tr
+                      key={account.id}
+                      className="border-border border-b align-top last:border-0"
+                    >
+                      <td className="px-4 py-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="text-foreground truncate font-medium">
+                              @{account.tiktokUsername}
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              {account.maxPostsPerDay}/day ·{" "}
+                              {account.minPostGapMinutes}m gap
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              {formatQuietHours(
+                                account.quietHoursStart,
+                                account.quietHoursEnd,
+                              )}
+                              {account.cloudPhone?.timeZone &&
+                                ` (${account.cloudPhone.timeZone})`}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() =>
+                              setLimitsModal({
+                                accountId: account.id,
+                                username: account.tiktokUsername,
+                                maxPostsPerDay: account.maxPostsPerDay,
+                                minPostGapMinutes: account.minPostGapMinutes,
+                                quietHoursStart:
+                                  account.quietHoursStart?.toString() ?? "",
+                                quietHoursEnd:
+                                  account.quietHoursEnd?.toString() ?? "",
+                              })
+                            }
+                            className="text-muted-foreground hover:bg-accent rounded-lg p-1.5"
+                            title="Posting limits"
+                          >
+                            <Settings className="size-4" />
+                          </button>
+                        </div>
+                      </td>
+                      {days.map((day) => {
+                        const next = addDays(day, 1);
+                        const posts = account.clips.filter(
+                          (c) =>
+                            c.scheduledAt &&
+                            c.scheduledAt >= day &&
+                            c.scheduledAt < next,
+                        );
+                        return (
+                          <td key={day.toISOString()} className="px-2 py-3">
+                            <div className="space-y-1">
+                              {posts.map((post) => (
+                                <div
+                                  key={post.id}
+                                  className={`block rounded border px-2 py-1 text-xs ${
+                                    postColors[post.status] ??
+                                    "bg-muted text-muted-foreground"
+                                  }`}
+                                  title={post.title}
+                                >
+                                  <span className="font-medium">
+                                    {post.scheduledAt?.toLocaleTimeString(
+                                      "en-US",
+                                      { hour: "2-digit", minute: "2-digit" },
+                                    )}
+                                  </span>{" "}
+                                  <span className="line-clamp-1">
+                                    {post.title}
+                                  </span>
+                                  {post.nextRetryAt && (
+                                    <span className="text-amber-700">
+                                      Retrying
+                                    </span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Posting Limits Modal */}
+      {limitsModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="bg-card w-full max-w-md rounded-xl p-6 shadow-lg">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-foreground text-lg font-semibold">
+                Posting limits for @{limitsModal.username}
+              </h2>
+              <button
+                onClick={() => setLimitsModal(null)}
+                className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+              >
+                <X className="size-4" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-foreground mb-2 block text-sm font-medium">
+                    Posts per day
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={limitsModal.maxPostsPerDay}
+                    onChange={(e) =>
+                      setLimitsModal({
+                        ...limitsModal,
+                        maxPostsPerDay: Number(e.target.value),
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-foreground mb-2 block text-sm font-medium">
+                    Min gap (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1440}
+                    value={limitsModal.minPostGapMinutes}
+                    onChange={(e) =>
+                      setLimitsModal({
+                        ...limitsModal,
+                        minPostGapMinutes: Number(e.target.value),
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-foreground mb-2 block text-sm font-medium">
+                    Quiet from (hour)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={23}
+                    placeholder="None"
+                    value={limitsModal.quietHoursStart}
+                    onChange={(e) =>
+                      setLimitsModal({
+                        ...limitsModal,
+                        quietHoursStart: e.target.value,
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-foreground mb-2 block text-sm font-medium">
+                    Quiet until (hour)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={23}
+                    placeholder="None"
+                    value={limitsModal.quietHoursEnd}
+                    onChange={(e) =>
+                      setLimitsModal({
+                        ...limitsModal,
+                        quietHoursEnd: e.target.value,
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <p className="text-muted-foreground text-xs">
+                Quiet hours use the cloud phone&apos;s time zone. New approvals
+                are scheduled into the next slot that fits these limits.
+              </p>
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => setLimitsModal(null)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSaveLimits}
+                  disabled={updateLimits.isPending}
+                  className="flex-1"
+                >
+                  {updateLimits.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
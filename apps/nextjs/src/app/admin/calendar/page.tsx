@@ -0,0 +1,20 @@
+import { redirect } from "next/navigation";
+
+import { getSession } from "~/auth/server";
+import { CalendarContent } from "./_components/calendar-content";
+
+export default async function CalendarPage() {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user is admin
+  const userRole = (session.user as { role?: string }).role ?? "creator";
+  if (userRole !== "admin") {
+    redirect("/dashboard");
+  }
+
+  return <CalendarContent user={session.user} />;
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { X } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+export type CampaignStatus = "draft" | "active" | "paused" | "completed";
+
+export interface CampaignFormValues {
+  name: string;
+  description: string | null;
+  status: CampaignStatus;
+  requirements: string | null;
+  hashtags: string[];
+  requiredSounds: string[];
+  deliverableCount: number | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  enrollmentDeadline: Date | null;
+  submissionDeadline: Date | null;
+}
+
+const inputClassName =
+  "border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2";
+
+function toLocalDateTimeValue(d: Date | null) {
+  if (!d) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function readText(formData: FormData, name: string) {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readDate(formData: FormData, name: string) {
+  const value = readText(formData, name);
+  return value ? new Date(value) : null;
+}
+
+export function CampaignFormModal(props: {
+  open: boolean;
+  title: string;
+  submitLabel: string;
+  defaultValues: CampaignFormValues;
+  submitDisabled?: boolean;
+  onClose: () => void;
+  onSubmit: (values: CampaignFormValues) => void;
+}) {
+  const {
+    open,
+    title,
+    submitLabel,
+    defaultValues,
+    submitDisabled,
+    onClose,
+    onSubmit,
+  } = props;
+
+  if (!open) return null;
+
+  const dateFields = [
+    { name: "startDate", label: "Starts" },
+    { name: "endDate", label: "Ends" },
+    { name: "enrollmentDeadline", label: "Enrollment deadline" },
+    { name: "submissionDeadline", label: "Submission deadline" },
+  ] as const;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-xl p-6 shadow-lg">
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-foreground text-lg font-semibold">{title}</h2>
+            <p className="text-muted-foreground mt-1 text-sm">
+              Creators see the brief when browsing active campaigns.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.currentTarget);
+            const deliverables = readText(formData, "deliverableCount");
+
+            onSubmit({
+              name: readText(formData, "name"),
+              description: readText(formData, "description") || null,
+              status: readText(formData, "status") as CampaignStatus,
+              requirements: readText(formData, "requirements") || null,
+              hashtags: readText(formData, "hashtags")
+                .split(/[\s,]+/)
+                .map((tag) => tag.replace(/^#/, ""))
+                .filter(Boolean),
+              requiredSounds: readText(formData, "requiredSounds")
+                .split("\n")
+                .map((line) => line.trim())
+                .filter(Boolean),
+              deliverableCount: deliverables ? Number(deliverables) : null,
+              startDate: readDate(formData, "startDate"),
+              endDate: readDate(formData, "endDate"),
+              enrollmentDeadline: readDate(formData, "enrollmentDeadline"),
+              submissionDeadline: readDate(formData, "submissionDeadline"),
+            });
+          }}
+        >
+          <div className="grid gap-4 sm:grid-cols-3">
+            <label className="block space-y-1 sm:col-span-2">
+              <div className="text-foreground text-sm font-medium">Name</div>
+              <input
+                name="name"
+                defaultValue={defaultValues.name}
+                placeholder="Summer launch"
+                className={inputClassName}
+                required
+              />
+            </label>
+            <label className="block space-y-1">
+              <div className="text-foreground text-sm font-medium">Status</div>
+              <select
+                name="status"
+                defaultValue={defaultValues.status}
+                className={inputClassName}
+              >
+                <option value="draft">Draft</option>
+                <option value="active">Active</option>
+                <option value="paused">Paused</option>
+                <option value="completed">Completed</option>
+              </select>
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">
+              Description
+            </div>
+            <textarea
+              name="description"
+              defaultValue={defaultValues.description ?? ""}
+              rows={2}
+              className={inputClassName}
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">
+              Requirements
+            </div>
+            <textarea
+              name="requirements"
+              defaultValue={defaultValues.requirements ?? ""}
+              rows={4}
+              placeholder="Show the product in the first 3 seconds, keep it under 30s..."
+              className={inputClassName}
+            />
+          </label>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <label className="block space-y-1 sm:col-span-2">
+              <div className="text-foreground text-sm font-medium">
+                Hashtags
+              </div>
+              <input
+                name="hashtags"
+                defaultValue={defaultValues.hashtags
+                  .map((tag) => `#${tag}`)
+                  .join(" ")}
+                placeholder="#summer #launch"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1">
+              <div className="text-foreground text-sm font-medium">
+                Clips per creator
+              </div>
+              <input
+                name="deliverableCount"
+                type="number"
+                min={1}
+                max={100}
+                defaultValue={defaultValues.deliverableCount ?? ""}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">
+              Required sounds
+            </div>
+            <textarea
+              name="requiredSounds"
+              defaultValue={defaultValues.requiredSounds.join("\n")}
+              rows={2}
+              placeholder="One TikTok sound link per line"
+              className={inputClassName}
+            />
+          </label>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {dateFields.map((field) => (
+              <label key={field.name} className="block space-y-1">
+                <div className="text-foreground text-sm font-medium">
+                  {field.label}
+                </div>
+                <input
+                  name={field.name}
+                  type="datetime-local"
+                  defaultValue={toLocalDateTimeValue(defaultValues[field.name])}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitDisabled}>
+              {submitLabel}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
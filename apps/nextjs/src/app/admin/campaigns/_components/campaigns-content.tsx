@@ -0,0 +1,409 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ChevronDown,
+  ChevronRight,
+  LayoutDashboard,
+  Megaphone,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Video,
+} from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import type { CampaignFormValues, CampaignStatus } from "./campaign-form-modal";
+import type { NavItem } from "~/components/sidebar";
+import { Sidebar } from "~/components/sidebar";
+import { adminNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+import { CampaignFormModal } from "./campaign-form-modal";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface CampaignsContentProps {
+  user: User;
+}
+
+const statusStyles: Record<CampaignStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  active: "bg-emerald-100 text-emerald-700",
+  paused: "bg-amber-100 text-amber-700",
+  completed: "bg-blue-100 text-blue-700",
+};
+
+const createDefaults: CampaignFormValues = {
+  name: "",
+  description: null,
+  status: "draft",
+  requirements: null,
+  hashtags: [],
+  requiredSounds: [],
+  deliverableCount: null,
+  startDate: null,
+  endDate: null,
+  enrollmentDeadline: null,
+  submissionDeadline: null,
+};
+
+function formatDate(date: Date | null) {
+  return date
+    ? date.toLocaleDateString("en-US", { month: "short", day: "numeric" })
+    : "—";
+}
+
+function CampaignCreators({ campaignId }: { campaignId: string }) {
+  const trpc = useTRPC();
+  const { data: details, isLoading } = useQuery(
+    trpc.campaign.byId.queryOptions({ id: campaignId }),
+  );
+
+  if (isLoading) {
+    return <p className="text-muted-foreground text-sm">Loading creators...</p>;
+  }
+  if (!details || details.enrollments.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        No creators have joined yet
+      </p>
+    );
+  }
+
+  const clipsByCreator = new Map<string, number>();
+  for (const cc of details.campaignClips) {
+    clipsByCreator.set(
+      cc.clip.userId,
+      (clipsByCreator.get(cc.clip.userId) ?? 0) + 1,
+    );
+  }
+
+  return (
+    <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+      {details.enrollments.map((enrollment) => (
+        <li
+          key={enrollment.id}
+          className="border-border bg-background flex items-center justify-between rounded-lg border px-3 py-2 text-sm"
+        >
+          <div className="min-w-0">
+            <p className="text-foreground truncate font-medium">
+              {enrollment.user.name}
+            </p>
+            <p className="text-muted-foreground truncate text-xs">
+              Joined {formatDate(enrollment.createdAt)}
+            </p>
+          </div>
+          <span className="text-muted-foreground tabular-nums">
+            {clipsByCreator.get(enrollment.user.id) ?? 0}
+            {details.deliverableCount
+              ? ` / ${details.deliverableCount}`
+              : ""}{" "}
+            clips
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function CampaignsContent({ user }: CampaignsContentProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [editCampaignId, setEditCampaignId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: campaigns = [], isLoading } = useQuery(
+    trpc.campaign.list.queryOptions(),
+  );
+
+  const invalidateCampaigns = () => {
+    void queryClient.invalidateQueries({
+      queryKey: trpc.campaign.list.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.campaign.byId.queryKey(),
+    });
+  };
+
+  const createMutation = useMutation(
+    trpc.campaign.create.mutationOptions({
+      onSuccess: () => {
+        toast.success("Campaign created");
+        setCreateOpen(false);
+        invalidateCampaigns();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const updateMutation = useMutation(
+    trpc.campaign.update.mutationOptions({
+      onSuccess: () => {
+        toast.success("Campaign updated");
+        setEditCampaignId(null);
+        invalidateCampaigns();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const deleteMutation = useMutation(
+    trpc.campaign.delete.mutationOptions({
+      onSuccess: () => {
+        toast.success("Campaign deleted");
+        invalidateCampaigns();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const { data: pendingClips = [] } = useQuery(
+    trpc.admin.pendingClips.queryOptions(),
+  );
+
+  const navItems: NavItem[] = useMemo(
+    () =>
+      adminNavItems.map((item) =>
+        item.label === "Dashboard"
+          ? { ...item, badge: pendingClips.length }
+          : item,
+      ),
+    [pendingClips.length],
+  );
+
+  const editCampaign = campaigns.find((c) => c.id === editCampaignId) ?? null;
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={{ ...user, role: "admin" }}
+        title="Admin"
+        logoIcon={LayoutDashboard}
+        items={navItems}
+        bottomContent={
+          <>
+            <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
+              Switch View
+            </p>
+            <Link
+              href="/dashboard"
+              className="text-muted-foreground hover:bg-accent hover:text-foreground flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-colors"
+            >
+              <Video className="size-5" />
+              Creator Dashboard
+            </Link>
+          </>
+        }
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Campaigns
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Briefs creators can join and submit clips against
+              </p>
+            </div>
+            <Button className="gap-2" onClick={() => setCreateOpen(true)}>
+              <Plus className="size-4" />
+              New Campaign
+            </Button>
+          </div>
+        </header>
+
+        <div className="p-8">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+            </div>
+          ) : (
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Campaign
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Status
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Creators
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Clips
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Deadlines
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {campaigns.map((campaign) => (
+                      <Fragment key={campaign.id}>
+                        <tr className="hover:bg-muted/30 transition-colors">
+                          <td className="px-6 py-4">
+                            <button
+                              onClick={() =>
+                                setExpandedId(
+                                  expandedId === campaign.id
+                                    ? null
+                                    : campaign.id,
+                                )
+                              }
+                              className="flex items-center gap-3 text-left"
+                            >
+                              {expandedId === campaign.id ? (
+                                <ChevronDown className="text-muted-foreground size-4" />
+                              ) : (
+                                <ChevronRight className="text-muted-foreground size-4" />
+                              )}
+                              <div className="min-w-0">
+                                <p className="text-foreground font-medium">
+                                  {campaign.name}
+                                </p>
+                                {campaign.hashtags.length > 0 && (
+                                  <p className="text-muted-foreground max-w-[360px] truncate text-xs">
+                                    {campaign.hashtags
+                                      .map((tag) => `#${tag}`)
+                                      .join(" ")}
+                                  </p>
+                                )}
+                              </div>
+                            </button>
+                          </td>
+                          <td className="px-6 py-4">
+                            <span
+                              className={`rounded-full px-2.5 py-1 text-xs font-medium capitalize ${
+                                statusStyles[campaign.status]
+                              }`}
+                            >
+                              {campaign.status}
+                            </span>
+                          </td>
+                          <td className="text-foreground px-6 py-4 text-right tabular-nums">
+                            {campaign.enrolledCreators}
+                          </td>
+                          <td className="text-foreground px-6 py-4 text-right tabular-nums">
+                            {campaign.totalClips}
+                            {campaign.deliverableCount
+                              ? ` / ${campaign.deliverableCount * campaign.enrolledCreators}`
+                              : ""}
+                          </td>
+                          <td className="text-muted-foreground px-6 py-4 text-xs">
+                            <p>
+                              Join by {formatDate(campaign.enrollmentDeadline)}
+                            </p>
+                            <p>
+                              Submit by{" "}
+                              {formatDate(campaign.submissionDeadline)}
+                            </p>
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-2"
+                                onClick={() => setEditCampaignId(campaign.id)}
+                              >
+                                <Pencil className="size-3" />
+                                Edit
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-2 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                                onClick={() => {
+                                  const ok = window.confirm(
+                                    `Delete ${campaign.name}? Its clips stay, but lose the campaign link.`,
+                                  );
+                                  if (!ok) return;
+                                  deleteMutation.mutate({ id: campaign.id });
+                                }}
+                                disabled={deleteMutation.isPending}
+                              >
+                                <Trash2 className="size-3" />
+                                Delete
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                        {expandedId === campaign.id && (
+                          <tr className="bg-muted/20">
+                            <td colSpan={6} className="space-y-4 px-6 py-4">
+                              {campaign.requirements && (
+                                <p className="text-foreground text-sm whitespace-pre-line">
+                                  {campaign.requirements}
+                                </p>
+                              )}
+                              <CampaignCreators campaignId={campaign.id} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+
+                    {campaigns.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-12 text-center">
+                          <Megaphone className="text-muted-foreground/50 mx-auto size-12" />
+                          <p className="text-muted-foreground mt-4 text-sm">
+                            No campaigns yet
+                          </p>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <CampaignFormModal
+        open={createOpen}
+        title="New Campaign"
+        submitLabel="Create Campaign"
+        defaultValues={createDefaults}
+        submitDisabled={createMutation.isPending}
+        onClose={() => setCreateOpen(false)}
+        onSubmit={(values) => createMutation.mutate(values)}
+      />
+
+      {editCampaign && (
+        <CampaignFormModal
+          key={editCampaign.id}
+          open
+          title="Edit Campaign"
+          submitLabel="Save Changes"
+          defaultValues={editCampaign}
+          submitDisabled={updateMutation.isPending}
+          onClose={() => setEditCampaignId(null)}
+          onSubmit={(values) =>
+            updateMutation.mutate({ id: editCampaign.id, data: values })
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { redirect } from "next/navigation";
+
+import { getSession } from "~/auth/server";
+import { CampaignsContent } from "./_components/campaigns-content";
+
+export default async function CampaignsPage() {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user is admin
+  const userRole = (session.user as { role?: string }).role ?? "creator";
+  if (userRole !== "admin") {
+    redirect("/dashboard");
+  }
+
+  return <CampaignsContent user={session.user} />;
+}
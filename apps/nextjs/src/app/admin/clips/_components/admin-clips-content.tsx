@@ -4,17 +4,11 @@ import { useState } from "react";
 import Link from "next/link";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
-  BarChart3,
-  Bot,
   Check,
-  FileVideo,
-  Home,
   LayoutDashboard,
   LogOut,
   Play,
   RefreshCw,
-  Smartphone,
-  Users,
   Video,
   X,
 } from "lucide-react";
@@ -22,12 +16,15 @@ import {
 import { Button } from "@everylab/ui/button";
 
 import { authClient } from "~/auth/client";
+import { ClipMedia } from "~/components/clip-media";
+import { getAdminNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
 
 interface User {
   id: string;
   name: string;
   email: string;
+  role?: string | null;
 }
 
 interface AdminClipsContentProps {
@@ -190,22 +187,20 @@ export function AdminClipsContent({ user }: AdminClipsContentProps) {
 
         {/* Navigation */}
         <nav className="flex-1 space-y-1 p-4">
-          <NavItem icon={Home} label="Dashboard" href="/admin" />
-          <NavItem
-            icon={Smartphone}
-            label="Cloud Phones"
-            href="/admin/cloud-phones"
-          />
-          <NavItem icon={Users} label="Users" href="/admin/users" />
-          <NavItem
-            icon={FileVideo}
-            label="All Clips"
-            active
-            href="/admin/clips"
-            badge={pendingCount > 0 ? pendingCount : undefined}
-          />
-          <NavItem icon={BarChart3} label="Analytics" href="/admin/analytics" />
-          <NavItem icon={Bot} label="Automations" href="/admin/automations" />
+          {getAdminNavItems(user.role).map((item) => (
+            <NavItem
+              key={item.href}
+              icon={item.icon}
+              label={item.label}
+              active={item.href === "/admin/clips"}
+              href={item.href}
+              badge={
+                item.href === "/admin/clips" && pendingCount > 0
+                  ? pendingCount
+                  : undefined
+              }
+            />
+          ))}
 
           <div className="border-border my-4 border-t" />
 
@@ -225,7 +220,9 @@ export function AdminClipsContent({ user }: AdminClipsContentProps) {
               <p className="text-foreground truncate text-sm font-medium">
                 {user.name}
               </p>
-              <p className="text-muted-foreground truncate text-xs">Admin</p>
+              <p className="text-muted-foreground truncate text-xs">
+                {user.role === "admin" ? "Admin" : user.email}
+              </p>
             </div>
             <button
               onClick={async () => {
@@ -318,12 +315,7 @@ export function AdminClipsContent({ user }: AdminClipsContentProps) {
                 >
                   {/* Video Preview */}
                   <div className="bg-muted relative aspect-video">
-                    <video
-                      src={clip.videoUrl}
-                      className="size-full object-cover"
-                      muted
-                      playsInline
-                    />
+                    <ClipMedia clip={clip} />
                     <button className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 transition-opacity hover:opacity-100">
                       <Play className="size-12 text-white" />
                     </button>
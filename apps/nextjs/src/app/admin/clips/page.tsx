@@ -1,5 +1,7 @@
 import { redirect } from "next/navigation";
 
+import { hasPermission } from "@everylab/api";
+
 import { getSession } from "~/auth/server";
 import { AdminClipsContent } from "./_components/admin-clips-content";
 
@@ -10,9 +12,8 @@ export default async function AdminClipsPage() {
     redirect("/auth/signin");
   }
 
-  // Check if user is admin
   const userRole = (session.user as { role?: string }).role ?? "creator";
-  if (userRole !== "admin") {
+  if (!hasPermission(userRole, "clips.review")) {
     redirect("/dashboard");
   }
 
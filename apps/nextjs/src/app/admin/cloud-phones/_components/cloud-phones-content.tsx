@@ -18,13 +18,14 @@ import { Button } from "@everylab/ui/button";
 
 import type { NavItem } from "~/components/sidebar";
 import { Sidebar } from "~/components/sidebar";
-import { adminNavItems } from "~/config/navigation";
+import { getAdminNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
 
 interface User {
   id: string;
   name: string;
   email: string;
+  role?: string | null;
 }
 
 interface CloudPhonesContentProps {
@@ -110,7 +111,7 @@ export function CloudPhonesContent({ user }: CloudPhonesContentProps) {
   );
 
   // Add badge to Dashboard item
-  const navItems: NavItem[] = adminNavItems.map((item) => {
+  const navItems: NavItem[] = getAdminNavItems(user.role).map((item) => {
     if (item.label === "Dashboard") {
       return { ...item, badge: pendingClips.length };
     }
@@ -120,7 +121,7 @@ export function CloudPhonesContent({ user }: CloudPhonesContentProps) {
   return (
     <div className="bg-background flex min-h-screen">
       <Sidebar
-        user={{ ...user, role: "admin" }}
+        user={user}
         title="Admin"
         logoIcon={LayoutDashboard}
         items={navItems}
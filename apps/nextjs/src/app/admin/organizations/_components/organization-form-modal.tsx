@@ -0,0 +1,104 @@
+"use client";
+
+import { X } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+export interface OrganizationFormValues {
+  name: string;
+  slug: string;
+}
+
+export function OrganizationFormModal(props: {
+  open: boolean;
+  title: string;
+  submitLabel: string;
+  defaultValues: OrganizationFormValues;
+  submitDisabled?: boolean;
+  onClose: () => void;
+  onSubmit: (values: OrganizationFormValues) => void;
+}) {
+  const {
+    open,
+    title,
+    submitLabel,
+    defaultValues,
+    submitDisabled,
+    onClose,
+    onSubmit,
+  } = props;
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card w-full max-w-lg rounded-xl p-6 shadow-lg">
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-foreground text-lg font-semibold">{title}</h2>
+            <p className="text-muted-foreground mt-1 text-sm">
+              A client brand with its own admins, accounts and phones.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.currentTarget);
+
+            const nameRaw = formData.get("name");
+            const slugRaw = formData.get("slug");
+
+            onSubmit({
+              name: typeof nameRaw === "string" ? nameRaw.trim() : "",
+              slug:
+                typeof slugRaw === "string" ? slugRaw.trim().toLowerCase() : "",
+            });
+          }}
+        >
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">Name</div>
+            <input
+              name="name"
+              defaultValue={defaultValues.name}
+              placeholder="Acme Agency"
+              className="border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2"
+              required
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">Slug</div>
+            <input
+              name="slug"
+              defaultValue={defaultValues.slug}
+              placeholder="acme-agency"
+              pattern="[a-z0-9]+(-[a-z0-9]+)*"
+              title="Lowercase letters, numbers and dashes"
+              className="border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 font-mono text-sm outline-none focus:ring-2"
+              required
+            />
+          </label>
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitDisabled}>
+              {submitLabel}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Building2,
+  LayoutDashboard,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Video,
+} from "lucide-react";
+
+import type { RouterOutputs } from "@everylab/api";
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import type { OrganizationFormValues } from "./organization-form-modal";
+import type { NavItem } from "~/components/sidebar";
+import { Sidebar } from "~/components/sidebar";
+import { adminNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+import { OrganizationFormModal } from "./organization-form-modal";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface OrganizationsContentProps {
+  user: User;
+}
+
+type ResourceKind =
+  keyof RouterOutputs["organization"]["list"][number]["counts"];
+
+const resourceKinds: { value: ResourceKind; label: string }[] = [
+  { value: "user", label: "Users" },
+  { value: "tiktokAccount", label: "TikTok Accounts" },
+  { value: "cloudPhone", label: "Cloud Phones" },
+  { value: "proxy", label: "Proxies" },
+  { value: "campaign", label: "Campaigns" },
+];
+
+// Filter value for rows outside every organization
+const UNASSIGNED = "none";
+
+const createDefaults: OrganizationFormValues = { name: "", slug: "" };
+
+export function OrganizationsContent({ user }: OrganizationsContentProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [editOrganizationId, setEditOrganizationId] = useState<string | null>(
+    null,
+  );
+  const [kind, setKind] = useState<ResourceKind>("tiktokAccount");
+  const [organizationFilter, setOrganizationFilter] = useState("");
+
+  const { data: organizations = [], isLoading } = useQuery(
+    trpc.organization.list.queryOptions(),
+  );
+
+  const { data: resources = [], isLoading: resourcesLoading } = useQuery(
+    trpc.organization.resources.queryOptions({ kind }),
+  );
+
+  const invalidateOrganizations = () => {
+    void queryClient.invalidateQueries({
+      queryKey: trpc.organization.list.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.organization.current.queryKey(),
+    });
+  };
+
+  const createMutation = useMutation(
+    trpc.organization.create.mutationOptions({
+      onSuccess: () => {
+        toast.success("Organization created");
+        setCreateOpen(false);
+        invalidateOrganizations();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const updateMutation = useMutation(
+    trpc.organization.update.mutationOptions({
+      onSuccess: () => {
+        toast.success("Organization updated");
+        setEditOrganizationId(null);
+        invalidateOrganizations();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const deleteMutation = useMutation(
+    trpc.organization.delete.mutationOptions({
+      onSuccess: () => {
+        toast.success("Organization deleted");
+        invalidateOrganizations();
+        void queryClient.invalidateQueries({
+          queryKey: trpc.organization.resources.queryKey(),
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const assignMutation = useMutation(
+    trpc.organization.assign.mutationOptions({
+      onSuccess: () => {
+        invalidateOrganizations();
+        void queryClient.invalidateQueries({
+          queryKey: trpc.organization.resources.queryKey(),
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const { data: pendingClips = [] } = useQuery(
+    trpc.admin.pendingClips.queryOptions(),
+  );
+
+  const navItems: NavItem[] = useMemo(
+    () =>
+      adminNavItems.map((item) =>
+        item.label === "Dashboard"
+          ? { ...item, badge: pendingClips.length }
+          : item,
+      ),
+    [pendingClips.length],
+  );
+
+  const editOrganization =
+    organizations.find((o) => o.id === editOrganizationId) ?? null;
+
+  const filteredResources = resources.filter((r) =>
+    organizationFilter === ""
+      ? true
+      : organizationFilter === UNASSIGNED
+        ? r.organizationId === null
+        : r.organizationId === organizationFilter,
+  );
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={{ ...user, role: "admin" }}
+        title="Admin"
+        logoIcon={LayoutDashboard}
+        items={navItems}
+        bottomContent={
+          <>
+            <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
+              Switch View
+            </p>
+            <Link
+              href="/dashboard"
+              className="text-muted-foreground hover:bg-accent hover:text-foreground flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-colors"
+            >
+              <Video className="size-5" />
+              Creator Dashboard
+            </Link>
+          </>
+        }
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Organizations
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Client brands and the users, accounts and phones each one owns
+              </p>
+            </div>
+            <Button className="gap-2" onClick={() => setCreateOpen(true)}>
+              <Plus className="size-4" />
+              Add Organization
+            </Button>
+          </div>
+        </header>
+
+        <div className="space-y-8 p-8">
+          {/* Organizations */}
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+            </div>
+          ) : (
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Organization
+                      </th>
+                      {resourceKinds.map((k) => (
+                        <th
+                          key={k.value}
+                          className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase"
+                        >
+                          {k.label}
+                        </th>
+                      ))}
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {organizations.map((organization) => (
+                      <tr
+                        key={organization.id}
+                        className="hover:bg-muted/30 transition-colors"
+                      >
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-3">
+                            <div className="bg-muted flex size-10 items-center justify-center rounded-lg">
+                              <Building2 className="text-muted-foreground size-5" />
+                            </div>
+                            <div className="min-w-0">
+                              <p className="text-foreground font-medium">
+                                {organization.name}
+                              </p>
+                              <p className="text-muted-foreground font-mono text-xs">
+                                {organization.slug}
+                              </p>
+                            </div>
+                          </div>
+                        </td>
+                        {resourceKinds.map((k) => (
+                          <td
+                            key={k.value}
+                            className="text-foreground px-6 py-4 text-right text-sm"
+                          >
+                            {organization.counts[k.value].toLocaleString()}
+                          </td>
+                        ))}
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() =>
+                                setEditOrganizationId(organization.id)
+                              }
+                            >
+                              <Pencil className="size-3" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                              onClick={() => {
+                                const ok = window.confirm(
+                                  `Delete ${organization.name}? Only organizations without users or resources can be deleted.`,
+                                );
+                                if (!ok) return;
+                                deleteMutation.mutate({ id: organization.id });
+                              }}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="size-3" />
+                              Delete
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+
+                    {organizations.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={resourceKinds.length + 2}
+                          className="px-6 py-12 text-center"
+                        >
+                          <Building2 className="text-muted-foreground/50 mx-auto size-12" />
+                          <p className="text-muted-foreground mt-4 text-sm">
+                            No organizations yet. Everything is shared by all
+                            admins until you add one.
+                          </p>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Assignments */}
+          <div>
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-foreground text-lg font-semibold">
+                  Assignments
+                </h2>
+                <p className="text-muted-foreground text-sm">
+                  Admins outside every organization are super-admins
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as ResourceKind)}
+                  className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+                >
+                  {resourceKinds.map((k) => (
+                    <option key={k.value} value={k.value}>
+                      {k.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={organizationFilter}
+                  onChange={(e) => setOrganizationFilter(e.target.value)}
+                  className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+                >
+                  <option value="">All organizations</option>
+                  <option value={UNASSIGNED}>No organization</option>
+                  {organizations.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Name
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Organization
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {filteredResources.map((resource) => (
+                      <tr
+                        key={resource.id}
+                        className="hover:bg-muted/30 transition-colors"
+                      >
+                        <td className="px-6 py-4">
+                          <p className="text-foreground font-medium">
+                            {resource.label ?? resource.id}
+                          </p>
+                          {resource.detail && (
+                            <p className="text-muted-foreground text-xs">
+                              {resource.detail}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <select
+                            value={resource.organizationId ?? ""}
+                            onChange={(e) =>
+                              assignMutation.mutate({
+                                kind,
+                                ids: [resource.id],
+                                organizationId: e.target.value || null,
+                              })
+                            }
+                            disabled={assignMutation.isPending}
+                            className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+                          >
+                            <option value="">No organization</option>
+                            {organizations.map((o) => (
+                              <option key={o.id} value={o.id}>
+                                {o.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+
+                    {!resourcesLoading && filteredResources.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={2}
+                          className="text-muted-foreground px-6 py-12 text-center text-sm"
+                        >
+                          Nothing to show
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <OrganizationFormModal
+        open={createOpen}
+        title="Add Organization"
+        submitLabel="Create"
+        defaultValues={createDefaults}
+        submitDisabled={createMutation.isPending}
+        onClose={() => setCreateOpen(false)}
+        onSubmit={(values) => createMutation.mutate(values)}
+      />
+
+      {editOrganization && (
+        <OrganizationFormModal
+          key={editOrganization.id}
+          open
+          title="Edit Organization"
+          submitLabel="Save"
+          defaultValues={{
+            name: editOrganization.name,
+            slug: editOrganization.slug,
+          }}
+          submitDisabled={updateMutation.isPending}
+          onClose={() => setEditOrganizationId(null)}
+          onSubmit={(values) =>
+            updateMutation.mutate({ id: editOrganization.id, ...values })
+          }
+        />
+      )}
+    </div>
+  );
+}
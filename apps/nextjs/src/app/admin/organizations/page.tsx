@@ -0,0 +1,27 @@
+import { redirect } from "next/navigation";
+
+import { getSession } from "~/auth/server";
+import { OrganizationsContent } from "./_components/organizations-content";
+
+export default async function OrganizationsPage() {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user is admin
+  const userRole = (session.user as { role?: string }).role ?? "creator";
+  if (userRole !== "admin") {
+    redirect("/dashboard");
+  }
+
+  // Only super-admins (admins outside every organization) manage them
+  const organizationId = (session.user as { organizationId?: string | null })
+    .organizationId;
+  if (organizationId) {
+    redirect("/admin");
+  }
+
+  return <OrganizationsContent user={session.user} />;
+}
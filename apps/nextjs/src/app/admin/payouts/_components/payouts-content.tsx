@@ -0,0 +1,903 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Banknote,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  LayoutDashboard,
+  Lock,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Video,
+  X,
+} from "lucide-react";
+
+import type { RouterOutputs } from "@everylab/api";
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import type { RateCardFormValues } from "./rate-card-form-modal";
+import type { NavItem } from "~/components/sidebar";
+import { formatCents, PayoutLedgerTable } from "~/components/payout-ledger";
+import { Sidebar } from "~/components/sidebar";
+import { adminNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+import { RateCardFormModal } from "./rate-card-form-modal";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface PayoutsContentProps {
+  user: User;
+}
+
+type BatchStatus =
+  RouterOutputs["payout"]["batches"]["items"][number]["status"];
+
+type CampaignWithRateCard = RouterOutputs["payout"]["rateCards"][number];
+
+type CreatorBalance = RouterOutputs["payout"]["creatorBalances"][number];
+
+const batchStatusStyles: Record<BatchStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  approved: "bg-amber-100 text-amber-700",
+  paid: "bg-emerald-100 text-emerald-700",
+};
+
+const rateCardDefaults: RateCardFormValues = {
+  cpmCents: 0,
+  flatFeeCents: 0,
+  bonusTiers: [],
+  lockAfterDays: 30,
+};
+
+const inputClassName =
+  "border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2";
+
+function formatDate(date: Date | null) {
+  return date
+    ? date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "—";
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(
+    new Blob([csv], { type: "text/csv;charset=utf-8" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function BatchLines({ batchId }: { batchId: string }) {
+  const trpc = useTRPC();
+  const { data: batch, isLoading } = useQuery(
+    trpc.payout.batchById.queryOptions({ id: batchId }),
+  );
+
+  if (isLoading || !batch) {
+    return <p className="text-muted-foreground text-sm">Loading batch...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {batch.note && (
+        <p className="text-foreground text-sm whitespace-pre-line">
+          {batch.note}
+        </p>
+      )}
+      <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {batch.lines.map((line) => (
+          <li
+            key={line.user.id}
+            className="border-border bg-background flex items-center justify-between gap-3 rounded-lg border px-3 py-2 text-sm"
+          >
+            <div className="min-w-0">
+              <p className="text-foreground truncate font-medium">
+                {line.user.name}
+              </p>
+              <p
+                className={`truncate text-xs ${
+                  line.hasBankDetails ? "text-muted-foreground" : "text-red-600"
+                }`}
+              >
+                {line.hasBankDetails
+                  ? `${line.entryCount} entries`
+                  : "No bank details on file"}
+              </p>
+            </div>
+            <span className="text-foreground font-medium tabular-nums">
+              {formatCents(line.amountCents, batch.currency)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function CreatorLedger({ userId }: { userId: string }) {
+  const trpc = useTRPC();
+  const { data, isLoading } = useQuery(
+    trpc.payout.ledger.queryOptions({ userId, limit: 100 }),
+  );
+
+  if (isLoading) {
+    return <p className="text-muted-foreground text-sm">Loading ledger...</p>;
+  }
+
+  return <PayoutLedgerTable entries={data?.items ?? []} />;
+}
+
+function AdjustmentModal(props: {
+  creator: CreatorBalance;
+  submitDisabled?: boolean;
+  onClose: () => void;
+  onSubmit: (values: { amountCents: number; note: string }) => void;
+}) {
+  const { creator, submitDisabled, onClose, onSubmit } = props;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card w-full max-w-md rounded-xl p-6 shadow-lg">
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-foreground text-lg font-semibold">
+              Adjust {creator.name}
+            </h2>
+            <p className="text-muted-foreground mt-1 text-sm">
+              Use a negative amount to debit the creator.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.currentTarget);
+            const amount = formData.get("amount");
+            const note = formData.get("note");
+
+            onSubmit({
+              amountCents: Math.round(
+                Number(typeof amount === "string" ? amount : 0) * 100,
+              ),
+              note: typeof note === "string" ? note.trim() : "",
+            });
+          }}
+        >
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">
+              Amount ($)
+            </div>
+            <input
+              name="amount"
+              type="number"
+              step="0.01"
+              placeholder="25.00"
+              className={inputClassName}
+              required
+            />
+          </label>
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">Reason</div>
+            <input
+              name="note"
+              placeholder="Bonus for early delivery"
+              className={inputClassName}
+              required
+            />
+          </label>
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitDisabled}>
+              Add Adjustment
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function describeRateCard(rateCard: CampaignWithRateCard["rateCard"]) {
+  if (!rateCard) return null;
+  const parts = [];
+  if (rateCard.flatFeeCents > 0) {
+    parts.push(`${formatCents(rateCard.flatFeeCents)} per clip`);
+  }
+  if (rateCard.cpmCents > 0) {
+    parts.push(`${formatCents(rateCard.cpmCents)} CPM`);
+  }
+  for (const tier of rateCard.bonusTiers) {
+    parts.push(
+      `+${formatCents(tier.bonusCents)} at ${tier.views.toLocaleString()} views`,
+    );
+  }
+  return parts.length > 0 ? parts.join(" · ") : "No rates set";
+}
+
+export function PayoutsContent({ user }: PayoutsContentProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const [expandedCreatorId, setExpandedCreatorId] = useState<string | null>(
+    null,
+  );
+  const [rateCardCampaignId, setRateCardCampaignId] = useState<string | null>(
+    null,
+  );
+  const [adjustCreatorId, setAdjustCreatorId] = useState<string | null>(null);
+
+  const { data: batches, isLoading: isLoadingBatches } = useQuery(
+    trpc.payout.batches.queryOptions({}),
+  );
+  const { data: campaigns = [] } = useQuery(
+    trpc.payout.rateCards.queryOptions(),
+  );
+  const { data: balances = [] } = useQuery(
+    trpc.payout.creatorBalances.queryOptions(),
+  );
+
+  const invalidatePayouts = () => {
+    void queryClient.invalidateQueries({
+      queryKey: trpc.payout.batches.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.payout.batchById.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.payout.rateCards.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.payout.creatorBalances.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.payout.ledger.queryKey(),
+    });
+  };
+
+  const lockMutation = useMutation(
+    trpc.payout.lockEarnings.mutationOptions({
+      onSuccess: (result) => {
+        toast.success(
+          result.locked > 0
+            ? `Locked ${result.locked} clips for ${formatCents(result.totalCents)}`
+            : "No earnings are due yet",
+        );
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const createBatchMutation = useMutation(
+    trpc.payout.createBatch.mutationOptions({
+      onSuccess: (batch) => {
+        toast.success("Draft batch created");
+        setExpandedBatchId(batch.id);
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const approveMutation = useMutation(
+    trpc.payout.approveBatch.mutationOptions({
+      onSuccess: () => {
+        toast.success("Batch approved");
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const markPaidMutation = useMutation(
+    trpc.payout.markBatchPaid.mutationOptions({
+      onSuccess: () => {
+        toast.success("Batch marked paid");
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const cancelMutation = useMutation(
+    trpc.payout.cancelBatch.mutationOptions({
+      onSuccess: () => {
+        toast.success("Batch cancelled");
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const exportMutation = useMutation(
+    trpc.payout.exportBatch.mutationOptions({
+      onSuccess: ({ filename, csv }) => downloadCsv(filename, csv),
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const upsertRateCardMutation = useMutation(
+    trpc.payout.upsertRateCard.mutationOptions({
+      onSuccess: () => {
+        toast.success("Rate card saved");
+        setRateCardCampaignId(null);
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const deleteRateCardMutation = useMutation(
+    trpc.payout.deleteRateCard.mutationOptions({
+      onSuccess: () => {
+        toast.success("Rate card removed");
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const adjustmentMutation = useMutation(
+    trpc.payout.addAdjustment.mutationOptions({
+      onSuccess: () => {
+        toast.success("Adjustment added");
+        setAdjustCreatorId(null);
+        invalidatePayouts();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const { data: pendingClips = [] } = useQuery(
+    trpc.admin.pendingClips.queryOptions(),
+  );
+
+  const navItems: NavItem[] = useMemo(
+    () =>
+      adminNavItems.map((item) =>
+        item.label === "Dashboard"
+          ? { ...item, badge: pendingClips.length }
+          : item,
+      ),
+    [pendingClips.length],
+  );
+
+  const totals = balances.reduce(
+    (sum, b) => ({
+      unbatched: sum.unbatched + b.unbatchedCents,
+      pending: sum.pending + b.pendingCents,
+      paid: sum.paid + b.paidCents,
+    }),
+    { unbatched: 0, pending: 0, paid: 0 },
+  );
+
+  const isBatchBusy =
+    approveMutation.isPending ||
+    markPaidMutation.isPending ||
+    cancelMutation.isPending ||
+    exportMutation.isPending;
+
+  const rateCardCampaign =
+    campaigns.find((c) => c.id === rateCardCampaignId) ?? null;
+  const adjustCreator =
+    balances.find((b) => b.userId === adjustCreatorId) ?? null;
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={{ ...user, role: "admin" }}
+        title="Admin"
+        logoIcon={LayoutDashboard}
+        items={navItems}
+        bottomContent={
+          <>
+            <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
+              Switch View
+            </p>
+            <Link
+              href="/dashboard"
+              className="text-muted-foreground hover:bg-accent hover:text-foreground flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-colors"
+            >
+              <Video className="size-5" />
+              Creator Dashboard
+            </Link>
+          </>
+        }
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">Payouts</h1>
+              <p className="text-muted-foreground text-sm">
+                Creator earnings from campaign rate cards, paid out in batches
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => lockMutation.mutate()}
+                disabled={lockMutation.isPending}
+              >
+                <Lock className="size-4" />
+                Lock Due Earnings
+              </Button>
+              <Button
+                className="gap-2"
+                onClick={() => {
+                  const ok = window.confirm(
+                    "Gather every unbatched earning and adjustment into a new draft batch?",
+                  );
+                  if (!ok) return;
+                  createBatchMutation.mutate({});
+                }}
+                disabled={createBatchMutation.isPending}
+              >
+                <Plus className="size-4" />
+                Create Batch
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <div className="space-y-8 p-8">
+          <div className="grid gap-4 sm:grid-cols-3">
+            {[
+              { label: "Not yet batched", value: totals.unbatched },
+              { label: "In open batches", value: totals.pending },
+              { label: "Paid out", value: totals.paid },
+            ].map((stat) => (
+              <div
+                key={stat.label}
+                className="border-border bg-card rounded-xl border p-6 shadow-sm"
+              >
+                <p className="text-muted-foreground text-sm">{stat.label}</p>
+                <p className="text-foreground mt-2 text-2xl font-semibold tabular-nums">
+                  {formatCents(stat.value)}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Batches */}
+          <div className="border-border bg-card rounded-xl border shadow-sm">
+            <div className="border-border border-b p-4">
+              <h2 className="text-foreground font-semibold">Batches</h2>
+            </div>
+            {isLoadingBatches ? (
+              <div className="flex items-center justify-center py-12">
+                <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Created
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Status
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Creators
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Total
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {batches?.items.map((batch) => (
+                      <Fragment key={batch.id}>
+                        <tr className="hover:bg-muted/30 transition-colors">
+                          <td className="px-6 py-4">
+                            <button
+                              onClick={() =>
+                                setExpandedBatchId(
+                                  expandedBatchId === batch.id
+                                    ? null
+                                    : batch.id,
+                                )
+                              }
+                              className="flex items-center gap-3 text-left"
+                            >
+                              {expandedBatchId === batch.id ? (
+                                <ChevronDown className="text-muted-foreground size-4" />
+                              ) : (
+                                <ChevronRight className="text-muted-foreground size-4" />
+                              )}
+                              <div>
+                                <p className="text-foreground font-medium">
+                                  {formatDate(batch.createdAt)}
+                                </p>
+                                <p className="text-muted-foreground text-xs">
+                                  by {batch.createdBy?.name ?? "—"}
+                                  {batch.approvedBy
+                                    ? `, approved by ${batch.approvedBy.name}`
+                                    : ""}
+                                </p>
+                              </div>
+                            </button>
+                          </td>
+                          <td className="px-6 py-4">
+                            <span
+                              className={`rounded-full px-2.5 py-1 text-xs font-medium capitalize ${
+                                batchStatusStyles[batch.status]
+                              }`}
+                            >
+                              {batch.status}
+                            </span>
+                          </td>
+                          <td className="text-foreground px-6 py-4 text-right tabular-nums">
+                            {batch.creatorCount}
+                          </td>
+                          <td className="text-foreground px-6 py-4 text-right font-medium tabular-nums">
+                            {formatCents(batch.totalCents)}
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            <div className="flex justify-end gap-2">
+                              {batch.status === "draft" && (
+                                <Button
+                                  size="sm"
+                                  className="gap-2"
+                                  onClick={() =>
+                                    approveMutation.mutate({ id: batch.id })
+                                  }
+                                  disabled={isBatchBusy}
+                                >
+                                  <Check className="size-3" />
+                                  Approve
+                                </Button>
+                              )}
+                              {batch.status !== "draft" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="gap-2"
+                                  onClick={() =>
+                                    exportMutation.mutate({ id: batch.id })
+                                  }
+                                  disabled={isBatchBusy}
+                                >
+                                  <Download className="size-3" />
+                                  CSV
+                                </Button>
+                              )}
+                              {batch.status === "approved" && (
+                                <Button
+                                  size="sm"
+                                  className="gap-2"
+                                  onClick={() => {
+                                    const ok = window.confirm(
+                                      `Mark this batch of ${formatCents(batch.totalCents)} as paid? Only do this once finance has sent the transfers.`,
+                                    );
+                                    if (!ok) return;
+                                    markPaidMutation.mutate({ id: batch.id });
+                                  }}
+                                  disabled={isBatchBusy}
+                                >
+                                  <Banknote className="size-3" />
+                                  Mark Paid
+                                </Button>
+                              )}
+                              {batch.status !== "paid" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="gap-2 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                                  onClick={() => {
+                                    const ok = window.confirm(
+                                      "Cancel this batch? Its entries go back to unbatched.",
+                                    );
+                                    if (!ok) return;
+                                    cancelMutation.mutate({ id: batch.id });
+                                  }}
+                                  disabled={isBatchBusy}
+                                >
+                                  <Trash2 className="size-3" />
+                                  Cancel
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                        {expandedBatchId === batch.id && (
+                          <tr className="bg-muted/20">
+                            <td colSpan={5} className="px-6 py-4">
+                              <BatchLines batchId={batch.id} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+
+                    {batches?.items.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-12 text-center">
+                          <Banknote className="text-muted-foreground/50 mx-auto size-12" />
+                          <p className="text-muted-foreground mt-4 text-sm">
+                            No payout batches yet
+                          </p>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Rate cards */}
+          <div className="border-border bg-card rounded-xl border shadow-sm">
+            <div className="border-border border-b p-4">
+              <h2 className="text-foreground font-semibold">Rate Cards</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-border bg-muted/30 border-b">
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      Campaign
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      Rates
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                      Lock After
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-border divide-y">
+                  {campaigns.map((campaign) => (
+                    <tr
+                      key={campaign.id}
+                      className="hover:bg-muted/30 transition-colors"
+                    >
+                      <td className="px-6 py-4">
+                        <p className="text-foreground font-medium">
+                          {campaign.name}
+                        </p>
+                        <p className="text-muted-foreground text-xs capitalize">
+                          {campaign.status}
+                        </p>
+                      </td>
+                      <td className="text-muted-foreground px-6 py-4 text-sm">
+                        {describeRateCard(campaign.rateCard) ?? "Not paid"}
+                      </td>
+                      <td className="text-foreground px-6 py-4 text-right text-sm tabular-nums">
+                        {campaign.rateCard
+                          ? `${campaign.rateCard.lockAfterDays} days`
+                          : "—"}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setRateCardCampaignId(campaign.id)}
+                          >
+                            <Pencil className="size-3" />
+                            {campaign.rateCard ? "Edit" : "Set Rates"}
+                          </Button>
+                          {campaign.rateCard && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                              onClick={() => {
+                                const ok = window.confirm(
+                                  `Remove the rate card for ${campaign.name}? Clips not yet locked won't earn.`,
+                                );
+                                if (!ok) return;
+                                deleteRateCardMutation.mutate({
+                                  campaignId: campaign.id,
+                                });
+                              }}
+                              disabled={deleteRateCardMutation.isPending}
+                            >
+                              <Trash2 className="size-3" />
+                              Remove
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+
+                  {campaigns.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-6 py-12 text-center">
+                        <p className="text-muted-foreground text-sm">
+                          Create a campaign to give it a rate card
+                        </p>
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Creator ledgers */}
+          <div className="border-border bg-card rounded-xl border shadow-sm">
+            <div className="border-border border-b p-4">
+              <h2 className="text-foreground font-semibold">Creators</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-border bg-muted/30 border-b">
+                    <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                      Creator
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                      Unbatched
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                      In Batches
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                      Paid
+                    </th>
+                    <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-border divide-y">
+                  {balances.map((creator) => (
+                    <Fragment key={creator.userId}>
+                      <tr className="hover:bg-muted/30 transition-colors">
+                        <td className="px-6 py-4">
+                          <button
+                            onClick={() =>
+                              setExpandedCreatorId(
+                                expandedCreatorId === creator.userId
+                                  ? null
+                                  : creator.userId,
+                              )
+                            }
+                            className="flex items-center gap-3 text-left"
+                          >
+                            {expandedCreatorId === creator.userId ? (
+                              <ChevronDown className="text-muted-foreground size-4" />
+                            ) : (
+                              <ChevronRight className="text-muted-foreground size-4" />
+                            )}
+                            <div className="min-w-0">
+                              <p className="text-foreground font-medium">
+                                {creator.name}
+                              </p>
+                              <p
+                                className={`text-xs ${
+                                  creator.hasBankDetails
+                                    ? "text-muted-foreground"
+                                    : "text-red-600"
+                                }`}
+                              >
+                                {creator.hasBankDetails
+                                  ? creator.email
+                                  : "No bank details on file"}
+                              </p>
+                            </div>
+                          </button>
+                        </td>
+                        <td className="text-foreground px-6 py-4 text-right tabular-nums">
+                          {formatCents(creator.unbatchedCents)}
+                        </td>
+                        <td className="text-foreground px-6 py-4 text-right tabular-nums">
+                          {formatCents(creator.pendingCents)}
+                        </td>
+                        <td className="text-foreground px-6 py-4 text-right tabular-nums">
+                          {formatCents(creator.paidCents)}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setAdjustCreatorId(creator.userId)}
+                          >
+                            Adjust
+                          </Button>
+                        </td>
+                      </tr>
+                      {expandedCreatorId === creator.userId && (
+                        <tr className="bg-muted/20">
+                          <td colSpan={5} className="px-6 py-4">
+                            <CreatorLedger userId={creator.userId} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+
+                  {balances.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-12 text-center">
+                        <p className="text-muted-foreground text-sm">
+                          No creator has earned anything yet
+                        </p>
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {rateCardCampaign && (
+        <RateCardFormModal
+          key={rateCardCampaign.id}
+          campaignName={rateCardCampaign.name}
+          defaultValues={rateCardCampaign.rateCard ?? rateCardDefaults}
+          submitDisabled={upsertRateCardMutation.isPending}
+          onClose={() => setRateCardCampaignId(null)}
+          onSubmit={(values) =>
+            upsertRateCardMutation.mutate({
+              campaignId: rateCardCampaign.id,
+              ...values,
+            })
+          }
+        />
+      )}
+
+      {adjustCreator && (
+        <AdjustmentModal
+          key={adjustCreator.userId}
+          creator={adjustCreator}
+          submitDisabled={adjustmentMutation.isPending}
+          onClose={() => setAdjustCreatorId(null)}
+          onSubmit={(values) =>
+            adjustmentMutation.mutate({
+              userId: adjustCreator.userId,
+              ...values,
+            })
+          }
+        />
+      )}
+    </div>
+  );
+}
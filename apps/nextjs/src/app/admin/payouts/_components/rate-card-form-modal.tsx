@@ -0,0 +1,174 @@
+"use client";
+
+import { X } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+export interface RateCardFormValues {
+  cpmCents: number;
+  flatFeeCents: number;
+  bonusTiers: { views: number; bonusCents: number }[];
+  lockAfterDays: number;
+}
+
+const inputClassName =
+  "border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2";
+
+function readText(formData: FormData, name: string) {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function toCents(value: string) {
+  return value ? Math.round(Number(value) * 100) : 0;
+}
+
+function toDollars(cents: number) {
+  return cents ? (cents / 100).toFixed(2) : "";
+}
+
+/**
+ * Reads one "views: bonus" pair per line, e.g. "100000: 50"
+ */
+function parseBonusTiers(value: string) {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [views = "", bonus = ""] = line.split(":");
+      return {
+        views: Number(views.replace(/[,\s]/g, "")),
+        bonusCents: toCents(bonus.replace(/[$\s]/g, "")),
+      };
+    });
+}
+
+export function RateCardFormModal(props: {
+  campaignName: string;
+  defaultValues: RateCardFormValues;
+  submitDisabled?: boolean;
+  onClose: () => void;
+  onSubmit: (values: RateCardFormValues) => void;
+}) {
+  const { campaignName, defaultValues, submitDisabled, onClose, onSubmit } =
+    props;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card w-full max-w-lg rounded-xl p-6 shadow-lg">
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-foreground text-lg font-semibold">
+              Rate card: {campaignName}
+            </h2>
+            <p className="text-muted-foreground mt-1 text-sm">
+              Applies to clips locked from now on. Locked earnings keep their
+              rates.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.currentTarget);
+
+            onSubmit({
+              flatFeeCents: toCents(readText(formData, "flatFee")),
+              cpmCents: toCents(readText(formData, "cpm")),
+              bonusTiers: parseBonusTiers(readText(formData, "bonusTiers")),
+              lockAfterDays: Number(readText(formData, "lockAfterDays")),
+            });
+          }}
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block space-y-1">
+              <div className="text-foreground text-sm font-medium">
+                Flat fee per clip ($)
+              </div>
+              <input
+                name="flatFee"
+                type="number"
+                min={0}
+                step="0.01"
+                defaultValue={toDollars(defaultValues.flatFeeCents)}
+                placeholder="0.00"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1">
+              <div className="text-foreground text-sm font-medium">
+                CPM ($ per 1,000 views)
+              </div>
+              <input
+                name="cpm"
+                type="number"
+                min={0}
+                step="0.01"
+                defaultValue={toDollars(defaultValues.cpmCents)}
+                placeholder="0.00"
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">
+              Bonus tiers
+            </div>
+            <textarea
+              name="bonusTiers"
+              defaultValue={defaultValues.bonusTiers
+                .map((tier) => `${tier.views}: ${toDollars(tier.bonusCents)}`)
+                .join("\n")}
+              rows={3}
+              placeholder={"100000: 50\n1000000: 250"}
+              className={inputClassName}
+            />
+            <p className="text-muted-foreground text-xs">
+              One &quot;views: bonus&quot; per line. Every tier a clip reaches
+              is paid.
+            </p>
+          </label>
+
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">
+              Lock views after (days)
+            </div>
+            <input
+              name="lockAfterDays"
+              type="number"
+              min={0}
+              max={365}
+              defaultValue={defaultValues.lockAfterDays}
+              className={inputClassName}
+              required
+            />
+            <p className="text-muted-foreground text-xs">
+              Earnings use the clip&apos;s views this many days after it was
+              published.
+            </p>
+          </label>
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitDisabled}>
+              Save Rate Card
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -19,7 +19,7 @@ import { toast } from "@everylab/ui/toast";
 import type { ProxyFormValues } from "./proxy-form-modal";
 import type { NavItem } from "~/components/sidebar";
 import { Sidebar } from "~/components/sidebar";
-import { adminNavItems } from "~/config/navigation";
+import { getAdminNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
 import { ProxyAssignmentsModal } from "./proxy-assignments-modal";
 import { ProxyFormModal } from "./proxy-form-modal";
@@ -28,6 +28,7 @@ interface User {
   id: string;
   name: string;
   email: string;
+  role?: string | null;
 }
 
 interface ProxiesContentProps {
@@ -121,12 +122,12 @@ export function ProxiesContent({ user }: ProxiesContentProps) {
 
   const navItems: NavItem[] = useMemo(
     () =>
-      adminNavItems.map((item) =>
+      getAdminNavItems(user.role).map((item) =>
         item.label === "Dashboard"
           ? { ...item, badge: pendingClips.length }
           : item,
       ),
-    [pendingClips.length],
+    [pendingClips.length, user.role],
   );
 
   const editProxy = proxies.find((p) => p.id === editProxyId) ?? null;
@@ -148,7 +149,7 @@ export function ProxiesContent({ user }: ProxiesContentProps) {
   return (
     <div className="bg-background flex min-h-screen">
       <Sidebar
-        user={{ ...user, role: "admin" }}
+        user={user}
         title="Admin"
         logoIcon={LayoutDashboard}
         items={navItems}
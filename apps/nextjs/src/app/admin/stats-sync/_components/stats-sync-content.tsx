@@ -0,0 +1,506 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { LayoutDashboard, RefreshCw, Video } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import type { NavItem } from "~/components/sidebar";
+import { Sidebar } from "~/components/sidebar";
+import { adminNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface StatsSyncContentProps {
+  user: User;
+}
+
+type RunStatus = "running" | "succeeded" | "failed";
+
+const PAGE_SIZE = 25;
+
+const runStatusStyles: Record<RunStatus, string> = {
+  running: "bg-blue-100 text-blue-700",
+  succeeded: "bg-emerald-100 text-emerald-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const sourceLabels: Record<"oauth" | "apify", string> = {
+  oauth: "TikTok API",
+  apify: "Apify scraper",
+};
+
+const intervalOptions = [
+  { value: 0, label: "Off" },
+  { value: 60, label: "Every hour" },
+  { value: 180, label: "Every 3 hours" },
+  { value: 360, label: "Every 6 hours" },
+  { value: 720, label: "Every 12 hours" },
+  { value: 1440, label: "Daily" },
+];
+
+function formatDuration(startedAt: Date, finishedAt: Date | null) {
+  if (!finishedAt) return "—";
+  const seconds = Math.round(
+    (finishedAt.getTime() - startedAt.getTime()) / 1000,
+  );
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function StatsSyncContent({ user }: StatsSyncContentProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [accountFilter, setAccountFilter] = useState<string>("");
+  const [statusFilter, setStatusFilter] = useState<RunStatus | "">("");
+  const [offset, setOffset] = useState(0);
+
+  const { data: accounts = [], isLoading } = useQuery(
+    trpc.tiktokStats.syncSchedule.queryOptions(),
+  );
+
+  const {
+    data: runLog,
+    isLoading: runsLoading,
+    refetch: refetchRuns,
+  } = useQuery(
+    trpc.tiktokStats.syncRuns.queryOptions({
+      accountId: accountFilter || undefined,
+      status: statusFilter || undefined,
+      limit: PAGE_SIZE,
+      offset,
+    }),
+  );
+  const runs = runLog?.runs ?? [];
+  const totalRuns = runLog?.total ?? 0;
+
+  const invalidate = () => {
+    void queryClient.invalidateQueries({
+      queryKey: trpc.tiktokStats.syncSchedule.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.tiktokStats.syncRuns.queryKey(),
+    });
+  };
+
+  const syncMutation = useMutation(
+    trpc.tiktokStats.syncAccountStats.mutationOptions({
+      onSuccess: (res) => {
+        toast.success(
+          `Updated ${res.synced} clip${res.synced === 1 ? "" : "s"}`,
+        );
+        invalidate();
+      },
+      onError: (err) => {
+        toast.error(err.message);
+        invalidate();
+      },
+    }),
+  );
+
+  const intervalMutation = useMutation(
+    trpc.tiktokStats.setSyncInterval.mutationOptions({
+      onSuccess: () => {
+        toast.success("Sync schedule updated");
+        invalidate();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const { data: pendingClips = [] } = useQuery(
+    trpc.admin.pendingClips.queryOptions(),
+  );
+
+  const navItems: NavItem[] = useMemo(
+    () =>
+      adminNavItems.map((item) =>
+        item.label === "Dashboard"
+          ? { ...item, badge: pendingClips.length }
+          : item,
+      ),
+    [pendingClips.length],
+  );
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={{ ...user, role: "admin" }}
+        title="Admin"
+        logoIcon={LayoutDashboard}
+        items={navItems}
+        bottomContent={
+          <>
+            <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
+              Switch View
+            </p>
+            <Link
+              href="/dashboard"
+              className="text-muted-foreground hover:bg-accent hover:text-foreground flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-colors"
+            >
+              <Video className="size-5" />
+              Creator Dashboard
+            </Link>
+          </>
+        }
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Stats Sync
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                How often clip stats are collected for each TikTok account
+              </p>
+            </div>
+          </div>
+        </header>
+
+        <div className="space-y-8 p-8">
+          {/* Schedule */}
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+            </div>
+          ) : (
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Account
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Source
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Cadence
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Last Sync
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Next Sync
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {accounts.map((account) => (
+                      <tr
+                        key={account.id}
+                        className="hover:bg-muted/30 transition-colors"
+                      >
+                        <td className="px-6 py-4">
+                          <p className="text-foreground font-medium">
+                            {account.name}
+                          </p>
+                          <p className="text-muted-foreground text-xs">
+                            @{account.tiktokUsername}
+                            {!account.isActive && " · inactive"}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4">
+                          {account.source ? (
+                            <span className="text-foreground text-sm">
+                              {sourceLabels[account.source]}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-red-600">
+                              None available
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <select
+                            value={account.statsSyncIntervalMinutes}
+                            onChange={(e) =>
+                              intervalMutation.mutate({
+                                accountId: account.id,
+                                intervalMinutes: Number(e.target.value),
+                              })
+                            }
+                            disabled={intervalMutation.isPending}
+                            className="border-border bg-background text-foreground rounded-lg border px-3 py-1.5 text-sm"
+                          >
+                            {intervalOptions.some(
+                              (o) =>
+                                o.value === account.statsSyncIntervalMinutes,
+                            ) ? null : (
+                              <option value={account.statsSyncIntervalMinutes}>
+                                Every {account.statsSyncIntervalMinutes} min
+                              </option>
+                            )}
+                            {intervalOptions.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-4">
+                          {account.lastStatsSyncAt ? (
+                            <>
+                              <p className="text-foreground text-sm">
+                                {account.lastStatsSyncAt.toLocaleString()}
+                              </p>
+                              {account.lastRun && (
+                                <span
+                                  className={`mt-1 inline-block rounded-full px-2 py-0.5 text-xs font-medium ${runStatusStyles[account.lastRun.status]}`}
+                                  title={account.lastRun.error ?? undefined}
+                                >
+                                  {account.lastRun.status}
+                                </span>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground text-sm">
+                              Never
+                            </span>
+                          )}
+                        </td>
+                        <td className="text-muted-foreground px-6 py-4 text-sm">
+                          {account.statsSyncIntervalMinutes === 0 ||
+                          !account.isActive
+                            ? "—"
+                            : account.nextStatsSyncAt &&
+                                account.nextStatsSyncAt > new Date()
+                              ? account.nextStatsSyncAt.toLocaleString()
+                              : "Due now"}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() =>
+                              syncMutation.mutate({ accountId: account.id })
+                            }
+                            disabled={syncMutation.isPending}
+                          >
+                            <RefreshCw
+                              className={`size-3 ${
+                                syncMutation.isPending &&
+                                syncMutation.variables.accountId === account.id
+                                  ? "animate-spin"
+                                  : ""
+                              }`}
+                            />
+                            Sync Now
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+
+                    {accounts.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-12 text-center">
+                          <Video className="text-muted-foreground/50 mx-auto size-12" />
+                          <p className="text-muted-foreground mt-4 text-sm">
+                            No TikTok accounts yet
+                          </p>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Run Log */}
+          <div>
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <h2 className="text-foreground text-lg font-semibold">Run Log</h2>
+              <div className="flex items-center gap-3">
+                <select
+                  value={accountFilter}
+                  onChange={(e) => {
+                    setAccountFilter(e.target.value);
+                    setOffset(0);
+                  }}
+                  className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+                >
+                  <option value="">All accounts</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      @{account.tiktokUsername}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => {
+                    setStatusFilter(e.target.value as RunStatus | "");
+                    setOffset(0);
+                  }}
+                  className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+                >
+                  <option value="">All statuses</option>
+                  <option value="running">Running</option>
+                  <option value="succeeded">Succeeded</option>
+                  <option value="failed">Failed</option>
+                </select>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => void refetchRuns()}
+                  disabled={runsLoading}
+                >
+                  <RefreshCw
+                    className={`size-4 ${runsLoading ? "animate-spin" : ""}`}
+                  />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Account
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Status
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Source
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Clips
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Videos
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Started
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {runs.map((run) => (
+                      <tr
+                        key={run.id}
+                        className="hover:bg-muted/30 transition-colors"
+                      >
+                        <td className="px-6 py-4">
+                          <p className="text-foreground text-sm font-medium">
+                            @{run.tiktokAccount.tiktokUsername}
+                          </p>
+                          <p className="text-muted-foreground text-xs capitalize">
+                            {run.trigger}
+                          </p>
+                        </td>
+                        <td className="max-w-[320px] px-6 py-4">
+                          <span
+                            className={`rounded-full px-2.5 py-1 text-xs font-medium ${runStatusStyles[run.status]}`}
+                          >
+                            {run.status}
+                          </span>
+                          {run.error && (
+                            <p
+                              className="mt-1 truncate text-xs text-red-600"
+                              title={run.error}
+                            >
+                              {run.error}
+                            </p>
+                          )}
+                        </td>
+                        <td className="text-foreground px-6 py-4 text-sm">
+                          {run.source ? sourceLabels[run.source] : "—"}
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="text-foreground text-sm">
+                            {run.clipsUpdated} updated
+                          </p>
+                          {run.clipsMissing > 0 && (
+                            <p className="text-xs text-amber-600">
+                              {run.clipsMissing} not found
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="text-foreground text-sm">
+                            {run.videosFetched}
+                          </p>
+                          <p className="text-muted-foreground text-xs">
+                            {run.pagesFetched} page
+                            {run.pagesFetched === 1 ? "" : "s"}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="text-muted-foreground text-sm">
+                            {run.startedAt.toLocaleString()}
+                          </p>
+                          <p className="text-muted-foreground text-xs">
+                            took {formatDuration(run.startedAt, run.finishedAt)}
+                          </p>
+                        </td>
+                      </tr>
+                    ))}
+
+                    {runs.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-12 text-center">
+                          <p className="text-muted-foreground text-sm">
+                            {runsLoading ? "Loading runs..." : "No syncs yet"}
+                          </p>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+
+              {totalRuns > PAGE_SIZE && (
+                <div className="border-border flex items-center justify-between border-t px-6 py-3">
+                  <p className="text-muted-foreground text-sm">
+                    {offset + 1}–{Math.min(offset + PAGE_SIZE, totalRuns)} of{" "}
+                    {totalRuns}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                      disabled={offset === 0}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(offset + PAGE_SIZE)}
+                      disabled={offset + PAGE_SIZE >= totalRuns}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
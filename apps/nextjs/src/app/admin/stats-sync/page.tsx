@@ -0,0 +1,20 @@
+import { redirect } from "next/navigation";
+
+import { getSession } from "~/auth/server";
+import { StatsSyncContent } from "./_components/stats-sync-content";
+
+export default async function StatsSyncPage() {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  // Check if user is admin
+  const userRole = (session.user as { role?: string }).role ?? "creator";
+  if (userRole !== "admin") {
+    redirect("/dashboard");
+  }
+
+  return <StatsSyncContent user={session.user} />;
+}
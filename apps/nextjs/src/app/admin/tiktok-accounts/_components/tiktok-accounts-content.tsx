@@ -47,6 +47,17 @@ interface TikTokAccountsContentProps {
   user: User;
 }
 
+// Warn this long before TikTok stops accepting an account's refresh token
+const RECONNECT_WARNING_DAYS = 14;
+
+function isReconnectDueSoon(refreshTokenExpiresAt: Date | null) {
+  return (
+    !!refreshTokenExpiresAt &&
+    refreshTokenExpiresAt.getTime() - Date.now() <
+      RECONNECT_WARNING_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
 export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -95,6 +106,9 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
     refetch,
   } = useQuery(trpc.tiktokAccount.list.queryOptions());
 
+  const accountsNeedingReconnect =
+    accounts?.filter((a) => a.accessToken && a.needsReconnect) ?? [];
+
   // Get cloud phones for linking
   const { data: cloudPhones } = useQuery(trpc.cloudPhone.list.queryOptions());
 
@@ -282,7 +296,7 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
   // Handle OAuth callback
   useEffect(() => {
     const code = searchParams.get("code");
-    const _state = searchParams.get("state");
+    const state = searchParams.get("state");
     const error = searchParams.get("error");
     const errorDescription = searchParams.get("error_description");
 
@@ -298,7 +312,6 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
         );
         setConnectError(errorDescription ?? error);
         router.replace("/admin/tiktok-accounts");
-        localStorage.removeItem("tiktok_code_verifier");
       }, 0);
       return () => clearTimeout(timer);
     }
@@ -316,24 +329,16 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
         setIsConnecting(true);
         setConnectError(null);
 
-        // Retrieve code verifier from localStorage
-        const codeVerifier = localStorage.getItem("tiktok_code_verifier");
-        if (!codeVerifier) {
-          console.error(
-            "[TikTok OAuth] Code verifier not found in localStorage",
-          );
-          setConnectError("OAuth state error: code_verifier not found");
+        if (!state) {
+          console.error("[TikTok OAuth] State missing from callback");
+          setConnectError("OAuth state error: state not found");
           setIsConnecting(false);
           router.replace("/admin/tiktok-accounts");
           return;
         }
 
-        // Exchange code for token
-        const redirectUri = `${window.location.origin}/admin/tiktok-accounts`;
-        exchangeCode.mutate({ code, redirectUri, codeVerifier });
-
-        // Clear stored code verifier immediately to prevent reuse
-        localStorage.removeItem("tiktok_code_verifier");
+        // The server looks up the code verifier it stored for this state
+        exchangeCode.mutate({ code, state });
       }, 0);
       return () => clearTimeout(timer);
     }
@@ -361,11 +366,6 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
 
       console.log("[Frontend] Received OAuth response:");
       console.log("  - authUrl:", result.authUrl);
-      console.log("  - codeVerifier length:", result.codeVerifier.length);
-
-      // Store code verifier in localStorage for later use
-      localStorage.setItem("tiktok_code_verifier", result.codeVerifier);
-      console.log("[Frontend] Stored codeVerifier in localStorage");
 
       // Redirect to TikTok OAuth
       console.log("[Frontend] Redirecting to TikTok...");
@@ -537,6 +537,27 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
             </div>
           )}
 
+          {/* Reconnect Warning */}
+          {accountsNeedingReconnect.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="mt-0.5 size-5 shrink-0" />
+                <div>
+                  <p className="font-medium">
+                    {accountsNeedingReconnect.length === 1
+                      ? "1 account needs reconnecting"
+                      : `${accountsNeedingReconnect.length} accounts need reconnecting`}
+                  </p>
+                  <p className="mt-1 text-sm">
+                    Their TikTok tokens could not be refreshed, so stats and
+                    syncs are paused for them. Connect them again via OAuth with
+                    the same TikTok login.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Error Message */}
           {connectError && (
             <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
@@ -665,11 +686,29 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
                             </div>
                           </td>
                           <td className="px-6 py-4">
-                            {account.accessToken ? (
-                              <span className="inline-flex items-center gap-1 rounded-full bg-emerald-50 px-2.5 py-1 text-xs font-medium text-emerald-600">
-                                <Check className="size-3" />
-                                Connected
+                            {account.accessToken && account.needsReconnect ? (
+                              <span
+                                className="inline-flex items-center gap-1 rounded-full bg-red-50 px-2.5 py-1 text-xs font-medium text-red-600"
+                                title={account.tokenRefreshError ?? undefined}
+                              >
+                                <AlertCircle className="size-3" />
+                                Needs reconnect
                               </span>
+                            ) : account.accessToken ? (
+                              <div className="space-y-1">
+                                <span className="inline-flex items-center gap-1 rounded-full bg-emerald-50 px-2.5 py-1 text-xs font-medium text-emerald-600">
+                                  <Check className="size-3" />
+                                  Connected
+                                </span>
+                                {isReconnectDueSoon(
+                                  account.refreshTokenExpiresAt,
+                                ) && (
+                                  <p className="text-xs text-amber-600">
+                                    Reconnect by{" "}
+                                    {account.refreshTokenExpiresAt?.toLocaleDateString()}
+                                  </p>
+                                )}
+                              </div>
                             ) : (
                               <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-600">
                                 <X className="size-3" />
@@ -774,6 +813,22 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
                                     <Edit className="size-4" />
                                   </Button>
                                 )}
+                                {account.accessToken &&
+                                  account.needsReconnect &&
+                                  oauthConfig?.configured && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="gap-1"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        void handleConnectAccount();
+                                      }}
+                                    >
+                                      <ExternalLink className="size-3" />
+                                      Reconnect
+                                    </Button>
+                                  )}
                                 {account.accessToken ? (
                                   <Button
                                     variant="ghost"
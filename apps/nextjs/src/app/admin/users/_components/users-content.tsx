@@ -14,7 +14,9 @@ import {
   X,
 } from "lucide-react";
 
+import type { RouterInputs } from "@everylab/api";
 import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
 
 import type { NavItem } from "~/components/sidebar";
 import { Sidebar } from "~/components/sidebar";
@@ -31,11 +33,41 @@ interface UsersContentProps {
   user: User;
 }
 
-const roleConfig: Record<string, { color: string; label: string }> = {
-  admin: { color: "bg-purple-50 text-purple-600", label: "Admin" },
-  creator: { color: "bg-blue-50 text-blue-600", label: "Creator" },
+type Role = RouterInputs["user"]["setRole"]["role"];
+
+const roleConfig: Record<
+  Role,
+  { color: string; label: string; description: string }
+> = {
+  creator: {
+    color: "bg-blue-50 text-blue-600",
+    label: "Creator",
+    description: "Uploads clips from the creator dashboard",
+  },
+  admin: {
+    color: "bg-purple-50 text-purple-600",
+    label: "Admin",
+    description: "Full access to the admin area",
+  },
+  reviewer: {
+    color: "bg-amber-50 text-amber-600",
+    label: "Reviewer",
+    description: "Approves, rejects and comments on clips",
+  },
+  operator: {
+    color: "bg-emerald-50 text-emerald-600",
+    label: "Operator",
+    description: "Runs cloud phones, proxies and automations",
+  },
+  analyst: {
+    color: "bg-sky-50 text-sky-600",
+    label: "Analyst",
+    description: "Reads stats and analytics",
+  },
 };
 
+const roles = Object.keys(roleConfig) as Role[];
+
 export function UsersContent({ user }: UsersContentProps) {
   const [isLinkModalOpen, setIsLinkModalOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
@@ -78,6 +110,18 @@ export function UsersContent({ user }: UsersContentProps) {
     }),
   );
 
+  const setRoleMutation = useMutation(
+    trpc.user.setRole.mutationOptions({
+      onSuccess: (updated) => {
+        toast.success(`Role changed to ${roleConfig[updated.role].label}`);
+        void queryClient.invalidateQueries({
+          queryKey: trpc.user.list.queryKey(),
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
   const handleLinkClick = (userId: string) => {
     setSelectedUserId(userId);
     setIsLinkModalOpen(true);
@@ -140,7 +184,7 @@ export function UsersContent({ user }: UsersContentProps) {
             <div>
               <h1 className="text-foreground text-xl font-semibold">Users</h1>
               <p className="text-muted-foreground text-sm">
-                Manage users and their TikTok account assignments
+                Manage users, their roles and TikTok account assignments
               </p>
             </div>
             <div className="flex items-center gap-3">
@@ -206,14 +250,30 @@ export function UsersContent({ user }: UsersContentProps) {
                           </div>
                         </td>
                         <td className="px-6 py-4">
-                          <span
-                            className={`inline-flex rounded-full px-2.5 py-1 text-xs font-medium ${
-                              roleConfig[u.role]?.color ??
-                              "bg-gray-100 text-gray-600"
-                            }`}
+                          <select
+                            value={u.role}
+                            onChange={(e) =>
+                              setRoleMutation.mutate({
+                                userId: u.id,
+                                role: e.target.value as Role,
+                              })
+                            }
+                            disabled={
+                              u.id === user.id || setRoleMutation.isPending
+                            }
+                            title={
+                              u.id === user.id
+                                ? "You can’t change your own role"
+                                : roleConfig[u.role].description
+                            }
+                            className={`rounded-full border-0 px-2.5 py-1 text-xs font-medium ${roleConfig[u.role].color}`}
                           >
-                            {roleConfig[u.role]?.label ?? u.role}
-                          </span>
+                            {roles.map((role) => (
+                              <option key={role} value={role}>
+                                {roleConfig[role].label}
+                              </option>
+                            ))}
+                          </select>
                         </td>
                         <td className="px-6 py-4">
                           <div className="flex flex-wrap gap-2">
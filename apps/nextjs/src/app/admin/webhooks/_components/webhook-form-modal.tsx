@@ -0,0 +1,156 @@
+"use client";
+
+import { X } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+export const webhookEventOptions = [
+  { value: "clip.submitted", label: "Clip submitted for review" },
+  { value: "clip.approved", label: "Clip approved" },
+  { value: "clip.rejected", label: "Clip returned to draft" },
+  { value: "clip.published", label: "Clip published" },
+  { value: "clip.failed", label: "Clip failed to publish" },
+  { value: "task.updated", label: "GeeLark task status changed" },
+  {
+    value: "account.needs_reconnect",
+    label: "TikTok account needs reconnecting",
+  },
+] as const;
+
+export type WebhookEventValue = (typeof webhookEventOptions)[number]["value"];
+
+export interface WebhookFormValues {
+  name: string;
+  url: string;
+  events: WebhookEventValue[];
+  enabled: boolean;
+}
+
+export function WebhookFormModal(props: {
+  open: boolean;
+  title: string;
+  submitLabel: string;
+  defaultValues: WebhookFormValues;
+  submitDisabled?: boolean;
+  onClose: () => void;
+  onSubmit: (values: WebhookFormValues) => void;
+}) {
+  const {
+    open,
+    title,
+    submitLabel,
+    defaultValues,
+    submitDisabled,
+    onClose,
+    onSubmit,
+  } = props;
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card w-full max-w-lg rounded-xl p-6 shadow-lg">
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-foreground text-lg font-semibold">{title}</h2>
+            <p className="text-muted-foreground mt-1 text-sm">
+              Events are sent as signed JSON POST requests.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const formData = new FormData(e.currentTarget);
+
+            const nameRaw = formData.get("name");
+            const urlRaw = formData.get("url");
+            const selected = formData.getAll("events");
+
+            onSubmit({
+              name: typeof nameRaw === "string" ? nameRaw.trim() : "",
+              url: typeof urlRaw === "string" ? urlRaw.trim() : "",
+              events: webhookEventOptions
+                .map((o) => o.value)
+                .filter((value) => selected.includes(value)),
+              enabled: formData.get("enabled") === "on",
+            });
+          }}
+        >
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">Name</div>
+            <input
+              name="name"
+              defaultValue={defaultValues.name}
+              placeholder="Payout sheet"
+              className="border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2"
+              required
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <div className="text-foreground text-sm font-medium">URL</div>
+            <input
+              name="url"
+              type="url"
+              defaultValue={defaultValues.url}
+              placeholder="https://example.com/webhooks/everylab"
+              className="border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2"
+              required
+            />
+          </label>
+
+          <fieldset className="space-y-2">
+            <legend className="text-foreground mb-1 text-sm font-medium">
+              Events
+            </legend>
+            {webhookEventOptions.map((option) => (
+              <label
+                key={option.value}
+                className="text-foreground flex items-center gap-2 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  name="events"
+                  value={option.value}
+                  defaultChecked={defaultValues.events.includes(option.value)}
+                />
+                <span>{option.label}</span>
+                <span className="text-muted-foreground font-mono text-xs">
+                  {option.value}
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="text-foreground flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              name="enabled"
+              defaultChecked={defaultValues.enabled}
+            />
+            Enabled
+          </label>
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitDisabled}>
+              {submitLabel}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,668 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Copy,
+  KeyRound,
+  LayoutDashboard,
+  Pencil,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+  Video,
+  Webhook,
+  X,
+} from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import type { WebhookFormValues } from "./webhook-form-modal";
+import type { NavItem } from "~/components/sidebar";
+import { Sidebar } from "~/components/sidebar";
+import { adminNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+import { WebhookFormModal } from "./webhook-form-modal";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface WebhooksContentProps {
+  user: User;
+}
+
+type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+const PAGE_SIZE = 25;
+
+const deliveryStatusStyles: Record<DeliveryStatus, string> = {
+  pending: "bg-amber-100 text-amber-700",
+  succeeded: "bg-emerald-100 text-emerald-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const createDefaults: WebhookFormValues = {
+  name: "",
+  url: "",
+  events: ["clip.published", "clip.failed"],
+  enabled: true,
+};
+
+export function WebhooksContent({ user }: WebhooksContentProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [editEndpointId, setEditEndpointId] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{
+    name: string;
+    secret: string;
+  } | null>(null);
+  const [endpointFilter, setEndpointFilter] = useState<string>("");
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "">("");
+  const [offset, setOffset] = useState(0);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(
+    null,
+  );
+
+  const { data: endpoints = [], isLoading } = useQuery(
+    trpc.webhook.list.queryOptions(),
+  );
+
+  const {
+    data: deliveryLog,
+    isLoading: deliveriesLoading,
+    refetch: refetchDeliveries,
+  } = useQuery(
+    trpc.webhook.deliveries.queryOptions({
+      endpointId: endpointFilter || undefined,
+      status: statusFilter || undefined,
+      limit: PAGE_SIZE,
+      offset,
+    }),
+  );
+  const deliveries = deliveryLog?.deliveries ?? [];
+  const totalDeliveries = deliveryLog?.total ?? 0;
+
+  const invalidateEndpoints = () => {
+    void queryClient.invalidateQueries({
+      queryKey: trpc.webhook.list.queryKey(),
+    });
+  };
+
+  const createMutation = useMutation(
+    trpc.webhook.create.mutationOptions({
+      onSuccess: (endpoint) => {
+        setCreateOpen(false);
+        if (endpoint) {
+          setRevealedSecret({ name: endpoint.name, secret: endpoint.secret });
+        }
+        invalidateEndpoints();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const updateMutation = useMutation(
+    trpc.webhook.update.mutationOptions({
+      onSuccess: () => {
+        toast.success("Endpoint updated");
+        setEditEndpointId(null);
+        invalidateEndpoints();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const rotateMutation = useMutation(
+    trpc.webhook.rotateSecret.mutationOptions({
+      onSuccess: (res) => {
+        const endpoint = endpoints.find((e) => e.id === res.id);
+        setRevealedSecret({
+          name: endpoint?.name ?? "Endpoint",
+          secret: res.secret,
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const deleteMutation = useMutation(
+    trpc.webhook.delete.mutationOptions({
+      onSuccess: () => {
+        toast.success("Endpoint deleted");
+        invalidateEndpoints();
+        void queryClient.invalidateQueries({
+          queryKey: trpc.webhook.deliveries.queryKey(),
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const replayMutation = useMutation(
+    trpc.webhook.replay.mutationOptions({
+      onSuccess: (delivery) => {
+        if (delivery.status === "succeeded") {
+          toast.success("Replay delivered");
+        } else {
+          toast.error(
+            `Replay failed: ${delivery.error ?? `HTTP ${delivery.responseStatus}`}`,
+          );
+        }
+        void queryClient.invalidateQueries({
+          queryKey: trpc.webhook.deliveries.queryKey(),
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const { data: pendingClips = [] } = useQuery(
+    trpc.admin.pendingClips.queryOptions(),
+  );
+
+  const navItems: NavItem[] = useMemo(
+    () =>
+      adminNavItems.map((item) =>
+        item.label === "Dashboard"
+          ? { ...item, badge: pendingClips.length }
+          : item,
+      ),
+    [pendingClips.length],
+  );
+
+  const editEndpoint = endpoints.find((e) => e.id === editEndpointId) ?? null;
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success("Secret copied");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={{ ...user, role: "admin" }}
+        title="Admin"
+        logoIcon={LayoutDashboard}
+        items={navItems}
+        bottomContent={
+          <>
+            <p className="text-muted-foreground mb-2 px-3 text-xs font-medium tracking-wider uppercase">
+              Switch View
+            </p>
+            <Link
+              href="/dashboard"
+              className="text-muted-foreground hover:bg-accent hover:text-foreground flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-colors"
+            >
+              <Video className="size-5" />
+              Creator Dashboard
+            </Link>
+          </>
+        }
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Webhooks
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Push clip lifecycle and GeeLark task events to your own tools
+              </p>
+            </div>
+            <Button className="gap-2" onClick={() => setCreateOpen(true)}>
+              <Plus className="size-4" />
+              Add Endpoint
+            </Button>
+          </div>
+        </header>
+
+        <div className="space-y-8 p-8">
+          {/* Endpoints */}
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+            </div>
+          ) : (
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Endpoint
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Events
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Status
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {endpoints.map((endpoint) => (
+                      <tr
+                        key={endpoint.id}
+                        className="hover:bg-muted/30 transition-colors"
+                      >
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-3">
+                            <div className="bg-muted flex size-10 items-center justify-center rounded-lg">
+                              <Webhook className="text-muted-foreground size-5" />
+                            </div>
+                            <div className="min-w-0">
+                              <p className="text-foreground font-medium">
+                                {endpoint.name}
+                              </p>
+                              <p className="text-muted-foreground max-w-[360px] truncate text-xs">
+                                {endpoint.url}
+                              </p>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex flex-wrap gap-1.5">
+                            {endpoint.events.map((event) => (
+                              <span
+                                key={event}
+                                className="border-border bg-muted/40 text-foreground rounded-full border px-2 py-0.5 font-mono text-xs"
+                              >
+                                {event}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span
+                            className={`rounded-full px-2.5 py-1 text-xs font-medium ${
+                              endpoint.enabled
+                                ? "bg-emerald-100 text-emerald-700"
+                                : "bg-muted text-muted-foreground"
+                            }`}
+                          >
+                            {endpoint.enabled ? "Enabled" : "Disabled"}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => setEditEndpointId(endpoint.id)}
+                            >
+                              <Pencil className="size-3" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => {
+                                const ok = window.confirm(
+                                  `Rotate the signing secret for ${endpoint.name}? The current secret stops working immediately.`,
+                                );
+                                if (!ok) return;
+                                rotateMutation.mutate({ id: endpoint.id });
+                              }}
+                              disabled={rotateMutation.isPending}
+                            >
+                              <KeyRound className="size-3" />
+                              Rotate Secret
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                              onClick={() => {
+                                const ok = window.confirm(
+                                  `Delete ${endpoint.name} and its delivery log?`,
+                                );
+                                if (!ok) return;
+                                deleteMutation.mutate({ id: endpoint.id });
+                              }}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="size-3" />
+                              Delete
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+
+                    {endpoints.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-12 text-center">
+                          <Webhook className="text-muted-foreground/50 mx-auto size-12" />
+                          <p className="text-muted-foreground mt-4 text-sm">
+                            No webhook endpoints yet
+                          </p>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Delivery Log */}
+          <div>
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <h2 className="text-foreground text-lg font-semibold">
+                Delivery Log
+              </h2>
+              <div className="flex items-center gap-3">
+                <select
+                  value={endpointFilter}
+                  onChange={(e) => {
+                    setEndpointFilter(e.target.value);
+                    setOffset(0);
+                  }}
+                  className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+                >
+                  <option value="">All endpoints</option>
+                  {endpoints.map((endpoint) => (
+                    <option key={endpoint.id} value={endpoint.id}>
+                      {endpoint.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => {
+                    setStatusFilter(e.target.value as DeliveryStatus | "");
+                    setOffset(0);
+                  }}
+                  className="border-border bg-background text-foreground rounded-lg border px-3 py-2 text-sm"
+                >
+                  <option value="">All statuses</option>
+                  <option value="pending">Pending</option>
+                  <option value="succeeded">Succeeded</option>
+                  <option value="failed">Failed</option>
+                </select>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => void refetchDeliveries()}
+                  disabled={deliveriesLoading}
+                >
+                  <RefreshCw
+                    className={`size-4 ${deliveriesLoading ? "animate-spin" : ""}`}
+                  />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border bg-muted/30 border-b">
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Event
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Endpoint
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Status
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Last Response
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-left text-xs font-medium tracking-wider uppercase">
+                        Created
+                      </th>
+                      <th className="text-muted-foreground px-6 py-3.5 text-right text-xs font-medium tracking-wider uppercase">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-border divide-y">
+                    {deliveries.map((delivery) => (
+                      <Fragment key={delivery.id}>
+                        <tr
+                          onClick={() =>
+                            setExpandedDeliveryId(
+                              expandedDeliveryId === delivery.id
+                                ? null
+                                : delivery.id,
+                            )
+                          }
+                          className="hover:bg-muted/30 cursor-pointer transition-colors"
+                        >
+                          <td className="px-6 py-4">
+                            <p className="text-foreground font-mono text-sm">
+                              {delivery.event}
+                            </p>
+                            {delivery.replayOfId && (
+                              <p className="text-muted-foreground text-xs">
+                                Replay
+                              </p>
+                            )}
+                          </td>
+                          <td className="text-foreground px-6 py-4 text-sm">
+                            {delivery.endpoint.name}
+                          </td>
+                          <td className="px-6 py-4">
+                            <span
+                              className={`rounded-full px-2.5 py-1 text-xs font-medium ${deliveryStatusStyles[delivery.status]}`}
+                            >
+                              {delivery.status}
+                            </span>
+                            <p className="text-muted-foreground mt-1 text-xs">
+                              {delivery.attempts} attempt
+                              {delivery.attempts !== 1 ? "s" : ""}
+                              {delivery.status === "pending" &&
+                                delivery.nextAttemptAt &&
+                                ` · next ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                            </p>
+                          </td>
+                          <td className="max-w-[280px] px-6 py-4">
+                            {delivery.responseStatus !== null ? (
+                              <span className="text-foreground text-sm">
+                                HTTP {delivery.responseStatus}
+                              </span>
+                            ) : delivery.error ? (
+                              <span className="block truncate text-sm text-red-600">
+                                {delivery.error}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground text-sm">
+                                —
+                              </span>
+                            )}
+                          </td>
+                          <td className="text-muted-foreground px-6 py-4 text-sm">
+                            {new Date(delivery.createdAt).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                replayMutation.mutate({
+                                  deliveryId: delivery.id,
+                                });
+                              }}
+                              disabled={replayMutation.isPending}
+                            >
+                              <RotateCcw className="size-3" />
+                              Replay
+                            </Button>
+                          </td>
+                        </tr>
+                        {expandedDeliveryId === delivery.id && (
+                          <tr className="bg-muted/20">
+                            <td colSpan={6} className="space-y-3 px-6 py-4">
+                              <div>
+                                <p className="text-muted-foreground mb-1 text-xs font-medium uppercase">
+                                  Payload
+                                </p>
+                                <pre className="bg-background border-border max-h-64 overflow-auto rounded-lg border p-3 text-xs">
+                                  {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                              </div>
+                              {delivery.responseBody && (
+                                <div>
+                                  <p className="text-muted-foreground mb-1 text-xs font-medium uppercase">
+                                    Response Body
+                                  </p>
+                                  <pre className="bg-background border-border max-h-40 overflow-auto rounded-lg border p-3 text-xs whitespace-pre-wrap">
+                                    {delivery.responseBody}
+                                  </pre>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+
+                    {deliveries.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-12 text-center">
+                          <p className="text-muted-foreground text-sm">
+                            {deliveriesLoading
+                              ? "Loading deliveries..."
+                              : "No deliveries yet"}
+                          </p>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+
+              {totalDeliveries > PAGE_SIZE && (
+                <div className="border-border flex items-center justify-between border-t px-6 py-3">
+                  <p className="text-muted-foreground text-sm">
+                    {offset + 1}–{Math.min(offset + PAGE_SIZE, totalDeliveries)}{" "}
+                    of {totalDeliveries}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                      disabled={offset === 0}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(offset + PAGE_SIZE)}
+                      disabled={offset + PAGE_SIZE >= totalDeliveries}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <WebhookFormModal
+        key="create-webhook"
+        open={createOpen}
+        title="Add Endpoint"
+        submitLabel={createMutation.isPending ? "Creating..." : "Create"}
+        defaultValues={createDefaults}
+        submitDisabled={createMutation.isPending}
+        onClose={() => setCreateOpen(false)}
+        onSubmit={(values) => createMutation.mutate(values)}
+      />
+
+      <WebhookFormModal
+        key={`edit-webhook-${editEndpointId ?? "none"}`}
+        open={editEndpoint !== null}
+        title="Edit Endpoint"
+        submitLabel={updateMutation.isPending ? "Saving..." : "Save"}
+        defaultValues={{
+          name: editEndpoint?.name ?? "",
+          url: editEndpoint?.url ?? "",
+          events: editEndpoint?.events ?? [],
+          enabled: editEndpoint?.enabled ?? true,
+        }}
+        submitDisabled={updateMutation.isPending}
+        onClose={() => setEditEndpointId(null)}
+        onSubmit={(values) => {
+          if (!editEndpoint) return;
+          updateMutation.mutate({ id: editEndpoint.id, ...values });
+        }}
+      />
+
+      {/* Signing Secret Modal */}
+      {revealedSecret && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="bg-card w-full max-w-lg rounded-xl p-6 shadow-lg">
+            <div className="mb-4 flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-foreground text-lg font-semibold">
+                  Signing secret for {revealedSecret.name}
+                </h2>
+                <p className="text-muted-foreground mt-1 text-sm">
+                  Copy it now; it won&apos;t be shown again. Verify requests by
+                  computing the HMAC-SHA256 of{" "}
+                  <code className="font-mono">{"<t>.<body>"}</code> from the{" "}
+                  <code className="font-mono">X-Webhook-Signature</code> header.
+                </p>
+              </div>
+              <button
+                onClick={() => setRevealedSecret(null)}
+                className="text-muted-foreground hover:bg-accent rounded-lg p-2"
+                aria-label="Close"
+              >
+                <X className="size-4" />
+              </button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <code className="border-border bg-muted/40 text-foreground flex-1 overflow-x-auto rounded-lg border px-3 py-2 font-mono text-xs">
+                {revealedSecret.secret}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => void copySecret(revealedSecret.secret)}
+              >
+                <Copy className="size-3" />
+                Copy
+              </Button>
+            </div>
+
+            <div className="mt-6 flex justify-end">
+              <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { NextRequest } from "next/server";
+
+import { cronJobs, isCronJobName } from "@everylab/api";
+import { db } from "@everylab/db/client";
+
+import { env } from "~/env";
+
+/**
+ * Runs a background job from `@everylab/api`.
+ *
+ * Invoked by Vercel Cron (see vercel.json), which authenticates with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+const handler = async (
+  req: NextRequest,
+  props: { params: Promise<{ job: string }> },
+) => {
+  if (
+    !env.CRON_SECRET ||
+    req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+  ) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { job } = await props.params;
+  if (!isCronJobName(job)) {
+    return Response.json({ error: `Unknown job: ${job}` }, { status: 404 });
+  }
+
+  try {
+    const result = await cronJobs[job](db);
+    return Response.json({ job, result });
+  } catch (error) {
+    console.error(`>>> Cron job '${job}' failed`, error);
+    return Response.json(
+      {
+        job,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+};
+
+export { handler as GET };
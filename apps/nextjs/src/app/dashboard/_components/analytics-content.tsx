@@ -12,6 +12,7 @@ import {
 
 import { Button } from "@everylab/ui/button";
 
+import { DailyStatsChart } from "~/components/daily-stats-chart";
 import { Sidebar } from "~/components/sidebar";
 import { creatorNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
@@ -34,6 +35,17 @@ const statusConfig = {
   failed: { color: "bg-red-50 text-red-700", label: "Failed" },
 };
 
+// Days covered by the chart and the clip table
+const RECENT_DAYS = 30;
+
+// Whole UTC days, matching how stats are rolled up
+function getRecentDayRange() {
+  const now = new Date();
+  const to = now.toISOString().slice(0, 10);
+  now.setUTCDate(now.getUTCDate() - (RECENT_DAYS - 1));
+  return { from: now.toISOString().slice(0, 10), to };
+}
+
 // Stat Card Component
 function StatCard({
   title,
@@ -77,12 +89,14 @@ function StatCard({
 export function AnalyticsContent({ user }: AnalyticsContentProps) {
   const trpc = useTRPC();
 
-  // Query for clips stats scoped to the TikTok account(s) assigned to this user
+  // Daily gains and clip stats scoped to the TikTok account(s) assigned to
+  // this user
   const { data, isLoading, refetch, isRefetching } = useQuery(
-    trpc.tiktokStats.getAssignedAccountClipsStats.queryOptions(),
+    trpc.analytics.myAccounts.queryOptions(getRecentDayRange()),
   );
 
   const totals = data?.totals ?? { views: 0, likes: 0, comments: 0, shares: 0 };
+  const series = data?.series ?? [];
   const clips = data?.clips ?? [];
   const assignedAccounts = data?.assignedAccounts ?? [];
   const assignmentLabel =
@@ -168,12 +182,24 @@ export function AnalyticsContent({ user }: AnalyticsContentProps) {
             />
           </div>
 
+          {/* Daily Gains */}
+          <div className="border-border bg-card rounded-xl border p-6 shadow-sm">
+            <h2 className="text-foreground mb-4 font-semibold">
+              Last {RECENT_DAYS} Days
+            </h2>
+            <DailyStatsChart days={series} />
+          </div>
+
           {/* Per-Clip Stats Table */}
           <div className="border-border bg-card rounded-xl border shadow-sm">
             <div className="border-border border-b p-4">
               <h2 className="text-foreground font-semibold">
                 Clip Performance
               </h2>
+              <p className="text-muted-foreground text-sm">
+                Clips with views in the last {RECENT_DAYS} days, ranked by views
+                gained
+              </p>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full">
@@ -191,6 +217,9 @@ export function AnalyticsContent({ user }: AnalyticsContentProps) {
                         Views
                       </div>
                     </th>
+                    <th className="text-muted-foreground px-4 py-3 text-right text-xs font-medium tracking-wider uppercase">
+                      {RECENT_DAYS}d Views
+                    </th>
                     <th className="text-muted-foreground px-4 py-3 text-right text-xs font-medium tracking-wider uppercase">
                       <div className="flex items-center justify-end gap-1">
                         <Heart className="size-3" />
@@ -215,7 +244,7 @@ export function AnalyticsContent({ user }: AnalyticsContentProps) {
                   {isLoading ? (
                     <tr>
                       <td
-                        colSpan={6}
+                        colSpan={7}
                         className="text-muted-foreground px-4 py-8 text-center"
                       >
                         Loading statistics...
@@ -224,12 +253,12 @@ export function AnalyticsContent({ user }: AnalyticsContentProps) {
                   ) : clips.length === 0 ? (
                     <tr>
                       <td
-                        colSpan={6}
+                        colSpan={7}
                         className="text-muted-foreground px-4 py-8 text-center"
                       >
                         {assignedAccounts.length === 0
                           ? "No TikTok account assigned. Ask an admin to link you to an account."
-                          : "No clips found for your assigned TikTok account yet."}
+                          : `No clip activity on your assigned TikTok account in the last ${RECENT_DAYS} days.`}
                       </td>
                     </tr>
                   ) : (
@@ -255,16 +284,19 @@ export function AnalyticsContent({ user }: AnalyticsContentProps) {
                           </span>
                         </td>
                         <td className="text-foreground px-4 py-3 text-right tabular-nums">
-                          {clip.stats?.views.toLocaleString() ?? "-"}
+                          {clip.latestStats?.views.toLocaleString() ?? "-"}
+                        </td>
+                        <td className="px-4 py-3 text-right text-emerald-600 tabular-nums">
+                          +{clip.gained.views.toLocaleString()}
                         </td>
                         <td className="text-foreground px-4 py-3 text-right tabular-nums">
-                          {clip.stats?.likes.toLocaleString() ?? "-"}
+                          {clip.latestStats?.likes.toLocaleString() ?? "-"}
                         </td>
                         <td className="text-foreground px-4 py-3 text-right tabular-nums">
-                          {clip.stats?.comments.toLocaleString() ?? "-"}
+                          {clip.latestStats?.comments.toLocaleString() ?? "-"}
                         </td>
                         <td className="text-foreground px-4 py-3 text-right tabular-nums">
-                          {clip.stats?.shares.toLocaleString() ?? "-"}
+                          {clip.latestStats?.shares.toLocaleString() ?? "-"}
                         </td>
                       </tr>
                     ))
@@ -0,0 +1,59 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+
+import { useTRPC } from "~/trpc/react";
+
+function isTakingSubmissions(submissionDeadline: Date | null) {
+  return !submissionDeadline || submissionDeadline.getTime() > Date.now();
+}
+
+/**
+ * Picks which joined campaign a clip is submitted to. Only campaigns still
+ * taking submissions are offered.
+ */
+export function CampaignSelect(props: {
+  value: string;
+  onChange: (campaignId: string) => void;
+  disabled?: boolean;
+}) {
+  const trpc = useTRPC();
+  const { data: campaigns = [] } = useQuery(
+    trpc.campaign.browse.queryOptions(),
+  );
+
+  const open = campaigns.filter(
+    (c) => c.enrolledAt !== null && isTakingSubmissions(c.submissionDeadline),
+  );
+
+  return (
+    <div>
+      <label className="text-foreground mb-2 block text-sm font-medium">
+        Campaign (optional)
+      </label>
+      <select
+        value={props.value}
+        onChange={(e) => props.onChange(e.target.value)}
+        disabled={props.disabled}
+        className="border-border bg-background focus:border-primary w-full rounded-lg border p-2.5 outline-none disabled:opacity-60"
+      >
+        <option value="">No campaign</option>
+        {open.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+            {c.deliverableCount
+              ? ` (${c.myClipsCount}/${c.deliverableCount} delivered)`
+              : ""}
+          </option>
+        ))}
+      </select>
+      <p className="text-muted-foreground mt-2 text-xs">
+        {open.length === 0 ? "You haven't joined any open campaigns. " : ""}
+        <Link href="/dashboard/campaigns" className="text-primary underline">
+          Browse campaigns
+        </Link>
+      </p>
+    </div>
+  );
+}
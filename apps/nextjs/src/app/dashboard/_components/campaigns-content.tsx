@@ -0,0 +1,292 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  CalendarClock,
+  Hash,
+  Megaphone,
+  Music,
+  RefreshCw,
+  Users,
+  Video,
+} from "lucide-react";
+
+import type { RouterOutputs } from "@everylab/api";
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import { Sidebar } from "~/components/sidebar";
+import { creatorNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface CampaignsContentProps {
+  user: User;
+}
+
+type CreatorCampaign = RouterOutputs["campaign"]["browse"][number];
+
+function formatDeadline(date: Date | null) {
+  return date
+    ? date.toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : null;
+}
+
+function isPast(date: Date | null) {
+  return date !== null && date.getTime() < Date.now();
+}
+
+function CampaignCard(props: {
+  campaign: CreatorCampaign;
+  onJoin?: () => void;
+  onLeave?: () => void;
+  isBusy: boolean;
+}) {
+  const { campaign, onJoin, onLeave, isBusy } = props;
+  const joined = campaign.enrolledAt !== null;
+  const enrollmentClosed = isPast(campaign.enrollmentDeadline);
+  const submissionDeadline = formatDeadline(campaign.submissionDeadline);
+  const enrollmentDeadline = formatDeadline(campaign.enrollmentDeadline);
+
+  return (
+    <div className="border-border bg-card flex flex-col rounded-xl border p-6 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="text-foreground text-lg font-semibold">
+            {campaign.name}
+          </h3>
+          {campaign.description && (
+            <p className="text-muted-foreground mt-1 text-sm">
+              {campaign.description}
+            </p>
+          )}
+        </div>
+        {joined && (
+          <span className="shrink-0 rounded-full bg-emerald-100 px-2.5 py-1 text-xs font-medium text-emerald-700">
+            Joined
+          </span>
+        )}
+      </div>
+
+      {campaign.requirements && (
+        <p className="text-foreground mt-4 text-sm whitespace-pre-line">
+          {campaign.requirements}
+        </p>
+      )}
+
+      <dl className="text-muted-foreground mt-4 space-y-2 text-sm">
+        {campaign.hashtags.length > 0 && (
+          <div className="flex items-start gap-2">
+            <Hash className="mt-0.5 size-4 shrink-0" />
+            <dd className="text-foreground">
+              {campaign.hashtags.map((tag) => `#${tag}`).join(" ")}
+            </dd>
+          </div>
+        )}
+        {campaign.requiredSounds.map((sound) => (
+          <div key={sound} className="flex items-start gap-2">
+            <Music className="mt-0.5 size-4 shrink-0" />
+            <dd className="min-w-0 truncate">
+              <a
+                href={sound}
+                target="_blank"
+                rel="noreferrer"
+                className="text-primary hover:underline"
+              >
+                {sound}
+              </a>
+            </dd>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Users className="size-4 shrink-0" />
+          <dd>
+            {campaign.enrolledCreators} creator
+            {campaign.enrolledCreators !== 1 ? "s" : ""} joined
+          </dd>
+        </div>
+        {(enrollmentDeadline ?? submissionDeadline) && (
+          <div className="flex items-start gap-2">
+            <CalendarClock className="mt-0.5 size-4 shrink-0" />
+            <dd>
+              {enrollmentDeadline && <p>Join by {enrollmentDeadline}</p>}
+              {submissionDeadline && <p>Submit by {submissionDeadline}</p>}
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      <div className="mt-auto flex items-center justify-between gap-4 pt-6">
+        <p className="text-muted-foreground text-sm">
+          {campaign.deliverableCount
+            ? `${campaign.myClipsCount} / ${campaign.deliverableCount} clips delivered`
+            : `${campaign.myClipsCount} clip${campaign.myClipsCount !== 1 ? "s" : ""} delivered`}
+        </p>
+        {joined
+          ? onLeave && (
+              <Button variant="outline" onClick={onLeave} disabled={isBusy}>
+                Leave
+              </Button>
+            )
+          : onJoin && (
+              <Button
+                onClick={onJoin}
+                disabled={isBusy || enrollmentClosed}
+                title={enrollmentClosed ? "Enrollment has closed" : undefined}
+              >
+                Join Campaign
+              </Button>
+            )}
+      </div>
+    </div>
+  );
+}
+
+export function CampaignsContent({ user }: CampaignsContentProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const {
+    data: activeCampaigns = [],
+    isLoading,
+    refetch,
+  } = useQuery(trpc.campaign.browse.queryOptions());
+  const { data: myCampaigns = [] } = useQuery(
+    trpc.campaign.myList.queryOptions(),
+  );
+
+  const invalidateCampaigns = () => {
+    void queryClient.invalidateQueries({
+      queryKey: trpc.campaign.browse.queryKey(),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: trpc.campaign.myList.queryKey(),
+    });
+  };
+
+  const joinMutation = useMutation(
+    trpc.campaign.join.mutationOptions({
+      onSuccess: () => {
+        toast.success("Joined campaign");
+        invalidateCampaigns();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const leaveMutation = useMutation(
+    trpc.campaign.leave.mutationOptions({
+      onSuccess: () => {
+        toast.success("Left campaign");
+        invalidateCampaigns();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const isBusy = joinMutation.isPending || leaveMutation.isPending;
+
+  // Campaigns the creator is part of that are no longer open
+  const pastCampaigns = myCampaigns.filter(
+    (c) => !activeCampaigns.some((active) => active.id === c.id),
+  );
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={user}
+        title="Creator"
+        logoIcon={Video}
+        items={creatorNavItems}
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center justify-between px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Campaigns
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Join a campaign, then pick it when you submit a clip
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => void refetch()}
+              disabled={isLoading}
+            >
+              <RefreshCw
+                className={`size-4 ${isLoading ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+          </div>
+        </header>
+
+        <div className="space-y-8 p-8">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+            </div>
+          ) : activeCampaigns.length === 0 ? (
+            <div className="border-border bg-card rounded-xl border p-12 text-center">
+              <Megaphone className="text-muted-foreground/50 mx-auto size-12" />
+              <p className="text-muted-foreground mt-4 text-sm">
+                No campaigns are running right now
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-6 lg:grid-cols-2">
+              {activeCampaigns.map((campaign) => (
+                <CampaignCard
+                  key={campaign.id}
+                  campaign={campaign}
+                  isBusy={isBusy}
+                  onJoin={() =>
+                    joinMutation.mutate({ campaignId: campaign.id })
+                  }
+                  onLeave={() => {
+                    const ok = window.confirm(
+                      `Leave ${campaign.name}? Clips you already submitted stay in it.`,
+                    );
+                    if (!ok) return;
+                    leaveMutation.mutate({ campaignId: campaign.id });
+                  }}
+                />
+              ))}
+            </div>
+          )}
+
+          {pastCampaigns.length > 0 && (
+            <div>
+              <h2 className="text-foreground mb-4 text-lg font-semibold">
+                Past Campaigns
+              </h2>
+              <div className="grid gap-6 lg:grid-cols-2">
+                {pastCampaigns.map((campaign) => (
+                  <CampaignCard
+                    key={campaign.id}
+                    campaign={campaign}
+                    isBusy={isBusy}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
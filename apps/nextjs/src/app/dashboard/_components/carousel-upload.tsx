@@ -0,0 +1,304 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronUp, Images, X } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+import { useTRPC } from "~/trpc/react";
+
+const IMAGE_EXTENSIONS = ["jpg", "jpeg", "png", "webp"];
+const MAX_IMAGE_SIZE = 20 * 1024 * 1024;
+const MAX_IMAGES = 35;
+
+interface SelectedImage {
+  file: File;
+  previewUrl: string;
+}
+
+/**
+ * Accepts a TikTok video link or a bare video ID and returns the ID, or null
+ * if it's neither
+ */
+function parseTikTokVideoId(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return trimmed;
+  return /\/video\/(\d+)/.exec(trimmed)?.[1] ?? null;
+}
+
+export function CarouselUpload(props: {
+  onUploaded: (clip: { id: string; title: string }) => void;
+}) {
+  const [images, setImages] = useState<SelectedImage[]>([]);
+  const [title, setTitle] = useState("");
+  const [sound, setSound] = useState("");
+  const [soundVolume, setSoundVolume] = useState(50);
+  const [uploadedCount, setUploadedCount] = useState(0);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const presignedUrlMutation = useMutation(
+    trpc.upload.getPresignedUrl.mutationOptions(),
+  );
+  const createClipMutation = useMutation(
+    trpc.clip.create.mutationOptions({
+      onSuccess: () => {
+        void queryClient.invalidateQueries({
+          queryKey: trpc.clip.list.queryKey(),
+        });
+      },
+    }),
+  );
+
+  const soundVideoId = sound.trim() ? parseTikTokVideoId(sound) : null;
+
+  const handleFilesSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    const accepted: SelectedImage[] = [];
+    for (const file of files) {
+      const ext = file.name.split(".").pop()?.toLowerCase();
+      if (!ext || !IMAGE_EXTENSIONS.includes(ext)) {
+        alert(`${file.name}: allowed types are JPG, PNG and WebP`);
+        continue;
+      }
+      if (file.size > MAX_IMAGE_SIZE) {
+        alert(`${file.name}: images must be under 20MB`);
+        continue;
+      }
+      accepted.push({ file, previewUrl: URL.createObjectURL(file) });
+    }
+
+    if (images.length + accepted.length > MAX_IMAGES) {
+      alert(`A carousel can have at most ${MAX_IMAGES} images`);
+      accepted.splice(MAX_IMAGES - images.length);
+    }
+
+    setImages((prev) => [...prev, ...accepted]);
+    if (!title && accepted[0]) {
+      setTitle(accepted[0].file.name.replace(/\.[^/.]+$/, ""));
+    }
+  };
+
+  const moveImage = (index: number, offset: -1 | 1) => {
+    setImages((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      if (moved) next.splice(target, 0, moved);
+      return next;
+    });
+  };
+
+  const removeImage = (index: number) => {
+    setImages((prev) => {
+      const removed = prev[index];
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
+  const handleUpload = async () => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      alert("Please provide a title for this carousel.");
+      return;
+    }
+    if (sound.trim() && !soundVideoId) {
+      alert("Sound must be a TikTok video link or video ID.");
+      return;
+    }
+
+    setIsUploading(true);
+    setUploadedCount(0);
+    try {
+      // Upload one at a time so the order on S3 matches the posting order
+      const imageUrls: string[] = [];
+      for (const image of images) {
+        const { uploadUrl, publicUrl, contentType } =
+          await presignedUrlMutation.mutateAsync({
+            filename: image.file.name,
+            fileSize: image.file.size,
+          });
+        const response = await fetch(uploadUrl, {
+          method: "PUT",
+          headers: { "Content-Type": contentType },
+          body: image.file,
+        });
+        if (!response.ok) {
+          throw new Error(`Upload failed: ${response.status}`);
+        }
+        imageUrls.push(publicUrl);
+        setUploadedCount(imageUrls.length);
+      }
+
+      const created = await createClipMutation.mutateAsync({
+        type: "carousel",
+        title: trimmedTitle,
+        imageUrls,
+        soundVideoId: soundVideoId ?? undefined,
+        soundVolume: soundVideoId ? soundVolume : undefined,
+      });
+      if (!created) throw new Error("Failed to create clip");
+
+      for (const image of images) URL.revokeObjectURL(image.previewUrl);
+      props.onUploaded({ id: created.id, title: created.title });
+    } catch (error) {
+      console.error("Carousel upload error:", error);
+      alert("Upload failed. Please try again.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="border-border bg-muted/30 hover:border-primary/50 hover:bg-muted/50 flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-8 transition-colors">
+        <Images className="text-muted-foreground mb-3 size-10" />
+        <p className="text-foreground mb-1 text-sm font-medium">
+          {images.length > 0 ? "Add more images" : "Click to select images"}
+        </p>
+        <p className="text-muted-foreground text-xs">
+          JPG, PNG or WebP (max 20MB each, up to {MAX_IMAGES})
+        </p>
+        <input
+          type="file"
+          accept=".jpg,.jpeg,.png,.webp"
+          multiple
+          onChange={handleFilesSelect}
+          disabled={isUploading}
+          className="hidden"
+        />
+      </label>
+
+      {images.length > 0 && (
+        <ol className="max-h-72 space-y-2 overflow-y-auto">
+          {images.map((image, index) => (
+            <li
+              key={image.previewUrl}
+              className="border-border flex items-center gap-3 rounded-lg border p-2"
+            >
+              <span className="text-muted-foreground w-5 text-center text-xs">
+                {index + 1}
+              </span>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={image.previewUrl}
+                alt={image.file.name}
+                className="size-12 rounded object-cover"
+              />
+              <p className="text-foreground min-w-0 flex-1 truncate text-sm">
+                {image.file.name}
+              </p>
+              <button
+                onClick={() => moveImage(index, -1)}
+                disabled={index === 0 || isUploading}
+                className="text-muted-foreground hover:bg-accent hover:text-foreground rounded p-1 disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ChevronUp className="size-4" />
+              </button>
+              <button
+                onClick={() => moveImage(index, 1)}
+                disabled={index === images.length - 1 || isUploading}
+                className="text-muted-foreground hover:bg-accent hover:text-foreground rounded p-1 disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ChevronDown className="size-4" />
+              </button>
+              <button
+                onClick={() => removeImage(index)}
+                disabled={isUploading}
+                className="text-muted-foreground hover:bg-accent hover:text-foreground rounded p-1 disabled:opacity-30"
+                aria-label="Remove"
+              >
+                <X className="size-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div>
+        <label className="text-foreground mb-2 block text-sm font-medium">
+          Title *
+        </label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="border-border bg-background focus:border-primary w-full rounded-lg border p-2.5 outline-none"
+        />
+      </div>
+
+      <div>
+        <label className="text-foreground mb-2 block text-sm font-medium">
+          Background sound (optional)
+        </label>
+        <input
+          type="text"
+          value={sound}
+          onChange={(e) => setSound(e.target.value)}
+          placeholder="https://www.tiktok.com/@user/video/7234567890123456789"
+          className="border-border bg-background focus:border-primary w-full rounded-lg border p-2.5 outline-none"
+        />
+        <p className="text-muted-foreground mt-2 text-xs">
+          Link to a TikTok video whose sound should play under the carousel.
+        </p>
+        {sound.trim() && !soundVideoId && (
+          <p className="mt-1 text-xs text-red-600">
+            Not a TikTok video link or ID
+          </p>
+        )}
+      </div>
+
+      {soundVideoId && (
+        <div>
+          <label className="text-foreground mb-2 block text-sm font-medium">
+            Sound volume: {soundVolume}%
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={soundVolume}
+            onChange={(e) => setSoundVolume(Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {isUploading && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Uploading...</span>
+            <span className="text-foreground font-medium">
+              {uploadedCount}/{images.length}
+            </span>
+          </div>
+          <div className="bg-muted h-2 overflow-hidden rounded-full">
+            <div
+              className="bg-primary h-full transition-all"
+              style={{
+                width: `${Math.round((uploadedCount / images.length) * 100)}%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      <Button
+        onClick={handleUpload}
+        disabled={isUploading || images.length === 0 || !title.trim()}
+        className="w-full"
+      >
+        {isUploading ? "Uploading..." : "Upload & Continue"}
+      </Button>
+    </div>
+  );
+}
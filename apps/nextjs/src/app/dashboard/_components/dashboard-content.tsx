@@ -9,6 +9,8 @@ import {
   Eye,
   FileVideo,
   FolderOpen,
+  Images,
+  Pause,
   Play,
   RefreshCw,
   Send,
@@ -20,10 +22,14 @@ import {
 
 import { Button } from "@everylab/ui/button";
 
+import { ClipMedia } from "~/components/clip-media";
 import { Sidebar } from "~/components/sidebar";
 import { creatorNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
 import { AssignedTikTokAccount } from "./assigned-tiktok-account";
+import { CampaignSelect } from "./campaign-select";
+import { CarouselUpload } from "./carousel-upload";
+import { useMultipartUpload } from "./use-multipart-upload";
 
 interface User {
   id: string;
@@ -73,6 +79,7 @@ function toDatetimeLocalValue(date: Date): string {
 
 type ViewMode = "list" | "upload";
 type UploadStep = "upload" | "details" | "review";
+type UploadType = "video" | "carousel";
 
 interface UploadState {
   file: File | null;
@@ -81,6 +88,7 @@ interface UploadState {
   description: string;
   tiktokAccountId: string;
   scheduledAt: string;
+  campaignId: string;
   selectedFromLibrary: boolean;
   selectedClipId: string | null;
 }
@@ -107,12 +115,12 @@ export function DashboardContent({ user }: DashboardContentProps) {
     description: "",
     tiktokAccountId: "",
     scheduledAt: "",
+    campaignId: "",
     selectedFromLibrary: false,
     selectedClipId: null,
   });
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [showLibrary, setShowLibrary] = useState(false);
+  const [uploadType, setUploadType] = useState<UploadType>("video");
 
   const trpc = useTRPC();
   const queryClient = useQueryClient();
@@ -138,6 +146,11 @@ export function DashboardContent({ user }: DashboardContentProps) {
     enabled: viewMode === "upload",
   });
 
+  const { data: campaigns = [] } = useQuery({
+    ...trpc.campaign.browse.queryOptions(),
+    enabled: viewMode === "upload",
+  });
+
   // Mutations
   const deleteMutation = useMutation(
     trpc.clip.delete.mutationOptions({
@@ -160,9 +173,8 @@ export function DashboardContent({ user }: DashboardContentProps) {
     }),
   );
 
-  const presignedUrlMutation = useMutation(
-    trpc.upload.getPresignedUrl.mutationOptions(),
-  );
+  const videoUpload = useMultipartUpload();
+  const { reset: resetVideoUpload } = videoUpload;
 
   const createClipMutation = useMutation(
     trpc.clip.create.mutationOptions({
@@ -184,11 +196,15 @@ export function DashboardContent({ user }: DashboardContentProps) {
     }),
   );
 
+  const isUploading =
+    videoUpload.status === "uploading" || createClipMutation.isPending;
+  const isUploadPaused = videoUpload.status === "paused";
+
   const resetUploadFlow = useCallback(() => {
     setUploadStep("upload");
     setShowLibrary(false);
-    setUploadProgress(0);
-    setIsUploading(false);
+    setUploadType("video");
+    resetVideoUpload();
     setUploadState({
       file: null,
       videoUrl: null,
@@ -196,10 +212,11 @@ export function DashboardContent({ user }: DashboardContentProps) {
       description: "",
       tiktokAccountId: "",
       scheduledAt: "",
+      campaignId: "",
       selectedFromLibrary: false,
       selectedClipId: null,
     });
-  }, []);
+  }, [resetVideoUpload]);
 
   const exitUploadToLibrary = useCallback(() => {
     setViewMode("list");
@@ -232,15 +249,16 @@ export function DashboardContent({ user }: DashboardContentProps) {
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
-        if (file.size > 500 * 1024 * 1024) {
-          alert("File size must be under 500MB");
+        if (file.size > 4 * 1024 * 1024 * 1024) {
+          alert("File size must be under 4GB");
           return;
         }
         const ext = file.name.split(".").pop()?.toLowerCase();
-        if (!ext || !["mp4", "webm", "mov", "avi", "mkv"].includes(ext)) {
-          alert("Invalid file type. Allowed: mp4, webm, mov, avi, mkv");
+        if (!ext || !["mp4", "mov"].includes(ext)) {
+          alert("Invalid file type. Allowed: mp4, mov");
           return;
         }
+        resetVideoUpload();
         setUploadState((prev) => ({
           ...prev,
           file,
@@ -248,37 +266,16 @@ export function DashboardContent({ user }: DashboardContentProps) {
         }));
       }
     },
-    [],
+    [resetVideoUpload],
   );
 
   const handleUpload = async () => {
     if (!uploadState.file) return;
-    setIsUploading(true);
-    setUploadProgress(0);
     try {
-      const { uploadUrl, publicUrl } = await presignedUrlMutation.mutateAsync({
-        filename: uploadState.file.name,
-        fileSize: uploadState.file.size,
-      });
-      const xhr = new XMLHttpRequest();
-      xhr.upload.addEventListener("progress", (e) => {
-        if (e.lengthComputable) {
-          setUploadProgress(Math.round((e.loaded / e.total) * 100));
-        }
-      });
-      await new Promise<void>((resolve, reject) => {
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) resolve();
-          else reject(new Error(`Upload failed: ${xhr.status}`));
-        };
-        xhr.onerror = () => reject(new Error("Upload failed"));
-        xhr.open("PUT", uploadUrl);
-        xhr.setRequestHeader(
-          "Content-Type",
-          uploadState.file?.type ?? "video/mp4",
-        );
-        xhr.send(uploadState.file);
-      });
+      // Resumes where an earlier attempt at this file stopped
+      const publicUrl = await videoUpload.upload(uploadState.file);
+      if (!publicUrl) return;
+
       const title = uploadState.title.trim();
       if (!title) {
         alert("Please provide a title for this video.");
@@ -301,14 +298,30 @@ export function DashboardContent({ user }: DashboardContentProps) {
       setUploadStep("details");
     } catch (error) {
       console.error("Upload error:", error);
-      alert("Upload failed. Please try again.");
-    } finally {
-      setIsUploading(false);
+      // Videos TikTok won't take are refused with the reasons why
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Upload failed. Please try again.",
+      );
     }
   };
 
+  const handleCarouselUploaded = useCallback(
+    (created: { id: string; title: string }) => {
+      setUploadState((prev) => ({
+        ...prev,
+        title: created.title,
+        selectedFromLibrary: true,
+        selectedClipId: created.id,
+      }));
+      setUploadStep("details");
+    },
+    [],
+  );
+
   const handleSubmit = async () => {
-    if (!uploadState.videoUrl) return;
+    if (!uploadState.selectedClipId && !uploadState.videoUrl) return;
     try {
       const title = uploadState.title.trim();
       if (!title) {
@@ -336,7 +349,7 @@ export function DashboardContent({ user }: DashboardContentProps) {
         const created = await createClipMutation.mutateAsync({
           title,
           description: uploadState.description.trim() || undefined,
-          videoUrl: uploadState.videoUrl,
+          videoUrl: uploadState.videoUrl ?? undefined,
         });
         if (!created?.id) throw new Error("Failed to create clip");
         effectiveClipId = created.id;
@@ -357,7 +370,10 @@ export function DashboardContent({ user }: DashboardContentProps) {
         },
       });
 
-      await submitClipMutation.mutateAsync({ id: effectiveClipId });
+      await submitClipMutation.mutateAsync({
+        id: effectiveClipId,
+        campaignId: uploadState.campaignId || undefined,
+      });
     } catch (error) {
       console.error("Submit error:", error);
       alert("Failed to submit. Please try again.");
@@ -508,12 +524,7 @@ export function DashboardContent({ user }: DashboardContentProps) {
                       className="border-border bg-card overflow-hidden rounded-xl border shadow-sm transition-shadow hover:shadow-md"
                     >
                       <div className="bg-muted relative aspect-video">
-                        <video
-                          src={clip.videoUrl}
-                          className="size-full object-cover"
-                          muted
-                          playsInline
-                        />
+                        <ClipMedia clip={clip} />
                         <button className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 transition-opacity hover:opacity-100">
                           <Play className="size-12 text-white" />
                         </button>
@@ -647,7 +658,7 @@ export function DashboardContent({ user }: DashboardContentProps) {
                 {uploadStep === "upload" && (
                   <>
                     <h2 className="text-foreground mb-6 text-lg font-semibold">
-                      Select Video
+                      Select Video or Carousel
                     </h2>
                     <div className="mb-6 flex gap-2">
                       <button
@@ -674,6 +685,29 @@ export function DashboardContent({ user }: DashboardContentProps) {
                       </button>
                     </div>
 
+                    {!showLibrary && (
+                      <div className="mb-6 flex gap-2">
+                        {(["video", "carousel"] as const).map((type) => (
+                          <button
+                            key={type}
+                            onClick={() => setUploadType(type)}
+                            className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                              uploadType === type
+                                ? "border-primary bg-primary/5 text-foreground"
+                                : "border-border text-muted-foreground hover:bg-accent"
+                            }`}
+                          >
+                            {type === "video" ? (
+                              <Video className="mr-2 inline size-4" />
+                            ) : (
+                              <Images className="mr-2 inline size-4" />
+                            )}
+                            {type === "video" ? "Video" : "Photo Carousel"}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
                     {showLibrary ? (
                       <div className="space-y-4">
                         {isLoadingDraftClips ? (
@@ -712,11 +746,7 @@ export function DashboardContent({ user }: DashboardContentProps) {
                                 className="border-border hover:border-primary hover:bg-primary/5 flex w-full items-center gap-3 rounded-lg border p-3 text-left transition-colors"
                               >
                                 <div className="bg-muted relative aspect-video w-20 overflow-hidden rounded">
-                                  <video
-                                    src={clip.videoUrl}
-                                    className="size-full object-cover"
-                                    muted
-                                  />
+                                  <ClipMedia clip={clip} />
                                 </div>
                                 <div className="flex-1 overflow-hidden">
                                   <p className="text-foreground truncate font-medium">
@@ -733,6 +763,8 @@ export function DashboardContent({ user }: DashboardContentProps) {
                           </div>
                         )}
                       </div>
+                    ) : uploadType === "carousel" ? (
+                      <CarouselUpload onUploaded={handleCarouselUploaded} />
                     ) : !uploadState.file ? (
                       <label className="border-border bg-muted/30 hover:border-primary/50 hover:bg-muted/50 flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-12 transition-colors">
                         <FileVideo className="text-muted-foreground mb-4 size-12" />
@@ -740,11 +772,11 @@ export function DashboardContent({ user }: DashboardContentProps) {
                           Click to upload or drag and drop
                         </p>
                         <p className="text-muted-foreground text-xs">
-                          MP4, WebM, MOV, AVI, or MKV (max 500MB)
+                          MP4 or MOV (max 4GB)
                         </p>
                         <input
                           type="file"
-                          accept=".mp4,.webm,.mov,.avi,.mkv"
+                          accept=".mp4,.mov"
                           onChange={handleFileSelect}
                           className="hidden"
                         />
@@ -765,42 +797,61 @@ export function DashboardContent({ user }: DashboardContentProps) {
                             </p>
                           </div>
                           <button
-                            onClick={() =>
+                            onClick={() => {
+                              if (uploadState.file && isUploadPaused) {
+                                videoUpload.cancel(uploadState.file);
+                              }
                               setUploadState((prev) => ({
                                 ...prev,
                                 file: null,
-                              }))
-                            }
-                            className="text-muted-foreground hover:bg-accent hover:text-foreground rounded-lg p-2"
+                              }));
+                            }}
+                            disabled={isUploading}
+                            className="text-muted-foreground hover:bg-accent hover:text-foreground rounded-lg p-2 disabled:opacity-50"
                           >
                             <X className="size-4" />
                           </button>
                         </div>
-                        {isUploading && (
+                        {(isUploading || isUploadPaused) && (
                           <div className="space-y-2">
                             <div className="flex justify-between text-sm">
                               <span className="text-muted-foreground">
-                                Uploading...
+                                {isUploadPaused ? "Paused" : "Uploading..."}
                               </span>
                               <span className="text-foreground font-medium">
-                                {uploadProgress}%
+                                {videoUpload.progress}%
                               </span>
                             </div>
                             <div className="bg-muted h-2 overflow-hidden rounded-full">
                               <div
                                 className="bg-primary h-full transition-all"
-                                style={{ width: `${uploadProgress}%` }}
+                                style={{ width: `${videoUpload.progress}%` }}
                               />
                             </div>
                           </div>
                         )}
-                        <Button
-                          onClick={handleUpload}
-                          disabled={isUploading}
-                          className="w-full"
-                        >
-                          {isUploading ? "Uploading..." : "Upload & Continue"}
-                        </Button>
+                        {videoUpload.status === "uploading" ? (
+                          <Button
+                            variant="outline"
+                            onClick={videoUpload.pause}
+                            className="w-full gap-2"
+                          >
+                            <Pause className="size-4" />
+                            Pause Upload
+                          </Button>
+                        ) : (
+                          <Button
+                            onClick={handleUpload}
+                            disabled={isUploading}
+                            className="w-full"
+                          >
+                            {isUploading
+                              ? "Uploading..."
+                              : isUploadPaused
+                                ? "Resume Upload"
+                                : "Upload & Continue"}
+                          </Button>
+                        )}
                       </div>
                     )}
                   </>
@@ -809,7 +860,7 @@ export function DashboardContent({ user }: DashboardContentProps) {
                 {uploadStep === "details" && (
                   <div className="space-y-6">
                     <h2 className="text-foreground text-lg font-semibold">
-                      Video Details
+                      Clip Details
                     </h2>
                     <div>
                       <label className="text-foreground mb-2 block text-sm font-medium">
@@ -892,6 +943,12 @@ export function DashboardContent({ user }: DashboardContentProps) {
                         post ASAP.
                       </p>
                     </div>
+                    <CampaignSelect
+                      value={uploadState.campaignId}
+                      onChange={(campaignId) =>
+                        setUploadState((prev) => ({ ...prev, campaignId }))
+                      }
+                    />
                     <div className="flex gap-3">
                       <Button
                         variant="outline"
@@ -963,6 +1020,20 @@ export function DashboardContent({ user }: DashboardContentProps) {
                             }
                           </dd>
                         </div>
+                        {uploadState.campaignId && (
+                          <div className="flex justify-between">
+                            <dt className="text-muted-foreground text-sm">
+                              Campaign
+                            </dt>
+                            <dd className="text-sm font-medium">
+                              {
+                                campaigns.find(
+                                  (c) => c.id === uploadState.campaignId,
+                                )?.name
+                              }
+                            </dd>
+                          </div>
+                        )}
                         <div className="flex justify-between">
                           <dt className="text-muted-foreground text-sm">
                             Publish time
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { RefreshCw, Video } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import { formatCents, PayoutLedgerTable } from "~/components/payout-ledger";
+import { Sidebar } from "~/components/sidebar";
+import { creatorNavItems } from "~/config/navigation";
+import { useTRPC } from "~/trpc/react";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface EarningsContentProps {
+  user: User;
+}
+
+const PAGE_SIZE = 50;
+
+function BankDetailsForm(props: {
+  defaultValue: string;
+  submitDisabled: boolean;
+  onSubmit: (bankAccountInfo: string) => void;
+}) {
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const value = new FormData(e.currentTarget).get("bankAccountInfo");
+        props.onSubmit(typeof value === "string" ? value.trim() : "");
+      }}
+    >
+      <textarea
+        name="bankAccountInfo"
+        defaultValue={props.defaultValue}
+        rows={4}
+        placeholder={"Account holder, bank name, account number / IBAN, SWIFT"}
+        className="border-border bg-background text-foreground focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2"
+      />
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground text-xs">
+          Stored encrypted and only shared with our finance team.
+        </p>
+        <Button type="submit" disabled={props.submitDisabled}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function EarningsContent({ user }: EarningsContentProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [offset, setOffset] = useState(0);
+
+  const { data: earnings, isLoading } = useQuery(
+    trpc.payout.myEarnings.queryOptions(),
+  );
+  const { data: ledger } = useQuery(
+    trpc.payout.myLedger.queryOptions({ limit: PAGE_SIZE, offset }),
+  );
+
+  const bankDetailsMutation = useMutation(
+    trpc.payout.updateBankDetails.mutationOptions({
+      onSuccess: () => {
+        toast.success("Bank details saved");
+        void queryClient.invalidateQueries({
+          queryKey: trpc.payout.myEarnings.queryKey(),
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const totalEntries = ledger?.total ?? 0;
+
+  return (
+    <div className="bg-background flex min-h-screen">
+      <Sidebar
+        user={user}
+        title="Creator"
+        logoIcon={Video}
+        items={creatorNavItems}
+      />
+
+      <main className="flex-1 overflow-auto">
+        <header className="border-border bg-background/95 supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
+          <div className="flex h-16 items-center px-8">
+            <div>
+              <h1 className="text-foreground text-xl font-semibold">
+                Earnings
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                Campaign clips earn once their views lock after publishing
+              </p>
+            </div>
+          </div>
+        </header>
+
+        {isLoading || !earnings ? (
+          <div className="flex items-center justify-center py-12">
+            <RefreshCw className="text-muted-foreground size-8 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-8 p-8">
+            <div className="grid gap-4 sm:grid-cols-3">
+              {[
+                {
+                  label: "Awaiting payout",
+                  value: earnings.unbatchedCents + earnings.pendingCents,
+                },
+                { label: "Paid out", value: earnings.paidCents },
+                { label: "Lifetime earnings", value: earnings.lifetimeCents },
+              ].map((stat) => (
+                <div
+                  key={stat.label}
+                  className="border-border bg-card rounded-xl border p-6 shadow-sm"
+                >
+                  <p className="text-muted-foreground text-sm">{stat.label}</p>
+                  <p className="text-foreground mt-2 text-2xl font-semibold tabular-nums">
+                    {formatCents(stat.value, earnings.currency)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="border-border bg-card rounded-xl border p-6 shadow-sm">
+              <h2 className="text-foreground font-semibold">Bank Details</h2>
+              <p className="text-muted-foreground mt-1 mb-4 text-sm">
+                {earnings.bankAccountInfo
+                  ? "Payouts are sent to this account."
+                  : "Add your bank details so we can pay you."}
+              </p>
+              <BankDetailsForm
+                defaultValue={earnings.bankAccountInfo ?? ""}
+                submitDisabled={bankDetailsMutation.isPending}
+                onSubmit={(bankAccountInfo) =>
+                  bankDetailsMutation.mutate({ bankAccountInfo })
+                }
+              />
+            </div>
+
+            <div className="border-border bg-card rounded-xl border shadow-sm">
+              <div className="border-border border-b p-4">
+                <h2 className="text-foreground font-semibold">Ledger</h2>
+              </div>
+              <PayoutLedgerTable
+                entries={ledger?.items ?? []}
+                currency={earnings.currency}
+              />
+
+              {totalEntries > PAGE_SIZE && (
+                <div className="border-border flex items-center justify-between border-t px-6 py-3">
+                  <p className="text-muted-foreground text-sm">
+                    {offset + 1}–{Math.min(offset + PAGE_SIZE, totalEntries)} of{" "}
+                    {totalEntries}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                      disabled={offset === 0}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(offset + PAGE_SIZE)}
+                      disabled={offset + PAGE_SIZE >= totalEntries}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
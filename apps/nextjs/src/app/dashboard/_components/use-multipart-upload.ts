@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+
+import { useTRPC } from "~/trpc/react";
+
+// Parts in flight at once
+const CONCURRENCY = 3;
+// Part URLs fetched per request; a fresh one is fetched for each retry
+const URL_BATCH_SIZE = CONCURRENCY * 4;
+const MAX_PART_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const SAVED_UPLOAD_PREFIX = "everylab:multipart-upload:";
+
+interface SavedUpload {
+  key: string;
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+  publicUrl: string;
+}
+
+export type MultipartUploadStatus =
+  | "idle"
+  | "uploading"
+  | "paused"
+  | "completed";
+
+// Uploads are saved by file so picking the same file after a reload resumes
+function getSavedUploadKey(file: File) {
+  return `${SAVED_UPLOAD_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function loadSavedUpload(file: File): SavedUpload | null {
+  try {
+    const saved = localStorage.getItem(getSavedUploadKey(file));
+    return saved ? (JSON.parse(saved) as SavedUpload) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(new DOMException("Upload paused", "AbortError"));
+    });
+  });
+}
+
+/**
+ * PUT one part, reporting bytes sent as it goes. XHR rather than fetch for
+ * the upload progress events.
+ */
+function putPart(
+  url: string,
+  body: Blob,
+  signal: AbortSignal,
+  onProgress: (loaded: number) => void,
+) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.upload.addEventListener("progress", (e) => onProgress(e.loaded));
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve();
+      else reject(new Error(`Part upload failed: ${xhr.status}`));
+    };
+    xhr.onerror = () => reject(new Error("Part upload failed"));
+    xhr.onabort = () => reject(new DOMException("Upload paused", "AbortError"));
+    signal.addEventListener("abort", () => xhr.abort());
+    xhr.open("PUT", url);
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload a video to S3 in parts. Failed parts are retried with backoff, the
+ * upload can be paused and resumed, and one cut off by a reload or closed
+ * tab resumes from its last part when the same file is uploaded again.
+ */
+export function useMultipartUpload() {
+  const trpc = useTRPC();
+
+  const createMutation = useMutation(
+    trpc.upload.createMultipartUpload.mutationOptions(),
+  );
+  const partUrlsMutation = useMutation(
+    trpc.upload.getPartUrls.mutationOptions(),
+  );
+  const listPartsMutation = useMutation(
+    trpc.upload.listUploadedParts.mutationOptions(),
+  );
+  const completeMutation = useMutation(
+    trpc.upload.completeMultipartUpload.mutationOptions(),
+  );
+  const abortMutation = useMutation(
+    trpc.upload.abortMultipartUpload.mutationOptions(),
+  );
+
+  const [status, setStatus] = useState<MultipartUploadStatus>("idle");
+  const [progress, setProgress] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Upload `file`, resuming an earlier upload of it if there is one. Resolves
+   * to the public URL, or null if the upload was paused or cancelled.
+   */
+  const upload = useCallback(
+    async (file: File): Promise<string | null> => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const { signal } = controller;
+      setStatus("uploading");
+
+      // Bytes of each part sent so far
+      const sentBytes = new Map<number, number>();
+      const reportProgress = () => {
+        let sent = 0;
+        for (const bytes of sentBytes.values()) sent += bytes;
+        setProgress(Math.min(99, Math.floor((sent / file.size) * 100)));
+      };
+
+      try {
+        let saved = loadSavedUpload(file);
+        if (saved) {
+          try {
+            const parts = await listPartsMutation.mutateAsync({
+              key: saved.key,
+              uploadId: saved.uploadId,
+            });
+            for (const part of parts) sentBytes.set(part.partNumber, part.size);
+          } catch {
+            // Swept or cancelled elsewhere: start over
+            localStorage.removeItem(getSavedUploadKey(file));
+            saved = null;
+          }
+        }
+
+        if (!saved) {
+          saved = await createMutation.mutateAsync({
+            filename: file.name,
+            fileSize: file.size,
+          });
+          localStorage.setItem(getSavedUploadKey(file), JSON.stringify(saved));
+        }
+        const { key, uploadId, partSize, partCount } = saved;
+        reportProgress();
+
+        const pending: number[] = [];
+        for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+          if (!sentBytes.has(partNumber)) pending.push(partNumber);
+        }
+
+        const getPartUrl = async (partNumber: number) => {
+          const [part] = await partUrlsMutation.mutateAsync({
+            key,
+            uploadId,
+            partNumbers: [partNumber],
+          });
+          if (!part) throw new Error(`No URL for part ${partNumber}`);
+          return part.url;
+        };
+
+        const uploadPart = async (partNumber: number, firstUrl: string) => {
+          const start = (partNumber - 1) * partSize;
+          const body = file.slice(start, Math.min(start + partSize, file.size));
+
+          for (let attempt = 1; ; attempt++) {
+            signal.throwIfAborted();
+            try {
+              const url =
+                attempt === 1 ? firstUrl : await getPartUrl(partNumber);
+              await putPart(url, body, signal, (loaded) => {
+                sentBytes.set(partNumber, loaded);
+                reportProgress();
+              });
+              sentBytes.set(partNumber, body.size);
+              reportProgress();
+              return;
+            } catch (error) {
+              sentBytes.delete(partNumber);
+              if (isAbortError(error) || attempt >= MAX_PART_ATTEMPTS) {
+                throw error;
+              }
+              await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+            }
+          }
+        };
+
+        for (let i = 0; i < pending.length; i += URL_BATCH_SIZE) {
+          const batch = await partUrlsMutation.mutateAsync({
+            key,
+            uploadId,
+            partNumbers: pending.slice(i, i + URL_BATCH_SIZE),
+          });
+
+          const queue = [...batch];
+          await Promise.all(
+            Array.from({ length: CONCURRENCY }, async () => {
+              for (let part = queue.shift(); part; part = queue.shift()) {
+                await uploadPart(part.partNumber, part.url);
+              }
+            }),
+          );
+        }
+
+        const { publicUrl } = await completeMutation.mutateAsync({
+          key,
+          uploadId,
+          partCount,
+        });
+        localStorage.removeItem(getSavedUploadKey(file));
+
+        setProgress(100);
+        setStatus("completed");
+        return publicUrl;
+      } catch (error) {
+        // Paused by the user, or gave up on a part: either way stop the other
+        // parts in flight, and the upload can resume later. Cancelling
+        // clears the controller first.
+        const cancelled = controllerRef.current !== controller;
+        controller.abort();
+        setStatus(cancelled ? "idle" : "paused");
+        if (isAbortError(error)) return null;
+        throw error;
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      }
+    },
+    [completeMutation, createMutation, listPartsMutation, partUrlsMutation],
+  );
+
+  /**
+   * Stop uploading; the parts sent so far are kept for `upload` to resume
+   */
+  const pause = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Stop uploading `file` and discard the parts sent so far
+   */
+  const cancel = useCallback(
+    (file: File) => {
+      const controller = controllerRef.current;
+      controllerRef.current = null;
+      controller?.abort();
+      const saved = loadSavedUpload(file);
+      localStorage.removeItem(getSavedUploadKey(file));
+      if (saved) {
+        abortMutation.mutate({ key: saved.key, uploadId: saved.uploadId });
+      }
+      setStatus("idle");
+      setProgress(0);
+    },
+    [abortMutation],
+  );
+
+  /**
+   * Forget the current upload's state, e.g. when another file is picked. Its
+   * parts are kept, so picking the file again still resumes it.
+   */
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    setStatus("idle");
+    setProgress(0);
+  }, []);
+
+  return { upload, pause, cancel, reset, status, progress };
+}
@@ -0,0 +1,14 @@
+import { redirect } from "next/navigation";
+
+import { getSession } from "~/auth/server";
+import { CampaignsContent } from "../_components/campaigns-content";
+
+export default async function CampaignsPage() {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  return <CampaignsContent user={session.user} />;
+}
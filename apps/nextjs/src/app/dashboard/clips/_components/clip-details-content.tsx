@@ -7,6 +7,9 @@ import { ArrowLeft, Edit, RefreshCw, Send, Video, X } from "lucide-react";
 
 import { Button } from "@everylab/ui/button";
 
+import { ClipMedia } from "~/components/clip-media";
+import { ClipPerformance } from "~/components/clip-performance";
+import { ClipReviewThread } from "~/components/clip-review-thread";
 import { Sidebar } from "~/components/sidebar";
 import { creatorNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
@@ -40,6 +43,12 @@ export function ClipDetailsContent(props: {
   });
   const clip = clipQuery.data ?? null;
 
+  const performanceQuery = useQuery({
+    ...trpc.clip.getPerformance.queryOptions({ clipId: props.clipId }),
+    enabled: Boolean(clip?.publishedAt),
+  });
+  const performance = performanceQuery.data ?? null;
+
   const withdrawMutation = useMutation(
     trpc.clip.withdraw.mutationOptions({
       onSuccess: () => {
@@ -53,6 +62,16 @@ export function ClipDetailsContent(props: {
     }),
   );
 
+  const reviewCommentMutation = useMutation(
+    trpc.clip.addReviewComment.mutationOptions({
+      onSuccess: () => {
+        void queryClient.invalidateQueries({
+          queryKey: trpc.clip.byId.queryKey({ id: props.clipId }),
+        });
+      },
+    }),
+  );
+
   const title = useMemo(() => {
     if (clipQuery.fetchStatus === "fetching") return "Clip";
     if (!clip) return "Clip not found";
@@ -147,12 +166,7 @@ export function ClipDetailsContent(props: {
             <div className="grid gap-6 lg:grid-cols-5">
               <div className="border-border bg-card overflow-hidden rounded-xl border lg:col-span-3">
                 <div className="bg-muted aspect-video">
-                  <video
-                    src={clip.videoUrl}
-                    className="size-full object-cover"
-                    controls
-                    playsInline
-                  />
+                  <ClipMedia clip={clip} controls />
                 </div>
               </div>
 
@@ -200,7 +214,90 @@ export function ClipDetailsContent(props: {
                           : "—"}
                       </dd>
                     </div>
+                    {clip.publishedAt && (
+                      <div className="flex justify-between gap-4">
+                        <dt className="text-muted-foreground">Published</dt>
+                        <dd className="text-foreground font-medium">
+                          {clip.tiktokVideoUrl ? (
+                            <a
+                              href={clip.tiktokVideoUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-primary hover:underline"
+                            >
+                              {new Date(clip.publishedAt).toLocaleString()}
+                            </a>
+                          ) : (
+                            new Date(clip.publishedAt).toLocaleString()
+                          )}
+                        </dd>
+                      </div>
+                    )}
+                    {clip.publishAttempts.length > 1 && (
+                      <div className="flex justify-between gap-4">
+                        <dt className="text-muted-foreground">
+                          Publish attempts
+                        </dt>
+                        <dd className="text-foreground font-medium">
+                          {clip.publishAttempts.length}
+                        </dd>
+                      </div>
+                    )}
                   </dl>
+
+                  {clip.status === "approved" && clip.nextRetryAt && (
+                    <div className="mt-6 rounded-lg bg-amber-50 p-3">
+                      <p className="text-xs font-medium text-amber-800">
+                        Publishing failed, retrying automatically at{" "}
+                        {new Date(clip.nextRetryAt).toLocaleString()}
+                      </p>
+                      {clip.failDesc && (
+                        <p className="mt-1 text-sm text-amber-700">
+                          {clip.failDesc}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {clip.status === "failed" && (
+                    <div className="mt-6 rounded-lg bg-red-50 p-3">
+                      <p className="text-xs font-medium text-red-800">
+                        Publishing failed
+                        {clip.failCode !== null && ` (Code: ${clip.failCode})`}
+                      </p>
+                      <p className="mt-1 text-sm text-red-700">
+                        {clip.failDesc ?? "No reason was reported by GeeLark"}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {performance && (
+                  <div className="border-border bg-card rounded-xl border p-6">
+                    <h3 className="text-foreground font-semibold">
+                      Performance
+                    </h3>
+                    <p className="text-muted-foreground mt-1 mb-4 text-sm">
+                      Views since publishing against your account’s typical clip
+                    </p>
+                    <ClipPerformance performance={performance} />
+                  </div>
+                )}
+
+                <div className="border-border bg-card rounded-xl border p-6">
+                  <h3 className="text-foreground mb-4 font-semibold">Review</h3>
+                  <ClipReviewThread
+                    reviews={clip.reviews}
+                    currentUserId={props.user.id}
+                    onReply={(body) =>
+                      reviewCommentMutation.mutateAsync({
+                        clipId: clip.id,
+                        body,
+                      })
+                    }
+                    isReplying={reviewCommentMutation.isPending}
+                    emptyText="No feedback from reviewers yet"
+                  />
                 </div>
               </div>
             </div>
@@ -9,9 +9,12 @@ import { ArrowLeft, RefreshCw, Save, Send, Video, XCircle } from "lucide-react";
 import type { RouterOutputs } from "@everylab/api";
 import { Button } from "@everylab/ui/button";
 
+import { ClipMedia } from "~/components/clip-media";
 import { Sidebar } from "~/components/sidebar";
 import { creatorNavItems } from "~/config/navigation";
 import { useTRPC } from "~/trpc/react";
+import { CampaignSelect } from "../../_components/campaign-select";
+import { CoverPicker } from "./cover-picker";
 
 function toDatetimeLocalValue(date: Date): string {
   const pad = (n: number) => String(n).padStart(2, "0");
@@ -159,6 +162,7 @@ function ClipEditPanel(props: {
     scheduledAt: clip.scheduledAt
       ? toDatetimeLocalValue(new Date(clip.scheduledAt))
       : "",
+    campaignId: "",
   }));
 
   const updateMutation = useMutation(
@@ -230,9 +234,13 @@ function ClipEditPanel(props: {
         scheduledAt: new Date(form.scheduledAt),
       },
     });
-    await submitMutation.mutateAsync({ id: clip.id });
+    await submitMutation.mutateAsync({
+      id: clip.id,
+      campaignId: form.campaignId || undefined,
+    });
   }, [
     clip.id,
+    form.campaignId,
     form.description,
     form.scheduledAt,
     form.tiktokAccountId,
@@ -243,15 +251,15 @@ function ClipEditPanel(props: {
 
   return (
     <div className="grid gap-6 lg:grid-cols-5">
-      <div className="border-border bg-card overflow-hidden rounded-xl border lg:col-span-3">
-        <div className="bg-muted aspect-video">
-          <video
-            src={clip.videoUrl}
-            className="size-full object-cover"
-            controls
-            playsInline
-          />
+      <div className="space-y-6 lg:col-span-3">
+        <div className="border-border bg-card overflow-hidden rounded-xl border">
+          <div className="bg-muted aspect-video">
+            <ClipMedia clip={clip} controls />
+          </div>
         </div>
+        {clip.type === "video" && clip.videoUrl && (
+          <CoverPicker clip={clip} disabled={!canEdit} />
+        )}
       </div>
 
       <div className="lg:col-span-2">
@@ -351,6 +359,14 @@ function ClipEditPanel(props: {
                     className="border-border bg-background focus:border-primary w-full rounded-lg border p-2.5 outline-none disabled:opacity-60"
                   />
                 </div>
+
+                <CampaignSelect
+                  value={form.campaignId}
+                  onChange={(campaignId) =>
+                    setForm((p) => ({ ...p, campaignId }))
+                  }
+                  disabled={!canEdit}
+                />
               </div>
             </div>
 
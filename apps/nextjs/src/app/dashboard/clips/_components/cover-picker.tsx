@@ -0,0 +1,147 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ImageIcon } from "lucide-react";
+
+import type { RouterOutputs } from "@everylab/api";
+import { Button } from "@everylab/ui/button";
+import { toast } from "@everylab/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+type ClipById = NonNullable<RouterOutputs["clip"]["byId"]>;
+
+// Matches the frame the media worker uses when nothing was picked
+const DEFAULT_COVER_TIME_MS = 1000;
+
+/**
+ * Scrub through an uploaded video and use one of its frames as the thumbnail
+ */
+export function CoverPicker(props: { clip: ClipById; disabled?: boolean }) {
+  const { clip, disabled = false } = props;
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const [timeMs, setTimeMs] = useState(
+    clip.coverTimeMs ?? DEFAULT_COVER_TIME_MS,
+  );
+  const [durationMs, setDurationMs] = useState(
+    (clip.durationSeconds ?? 0) * 1000,
+  );
+
+  const setCoverMutation = useMutation(
+    trpc.clip.setCover.mutationOptions({
+      onSuccess: (updated) => {
+        toast.success("Cover updated");
+        // Patch rather than refetch, which would reset the unsaved edit form
+        queryClient.setQueryData(
+          trpc.clip.byId.queryKey({ id: clip.id }),
+          (prev) =>
+            prev && updated
+              ? {
+                  ...prev,
+                  thumbnailUrl: updated.thumbnailUrl,
+                  coverTimeMs: updated.coverTimeMs,
+                }
+              : prev,
+        );
+        void queryClient.invalidateQueries({
+          queryKey: trpc.clip.list.queryKey(),
+        });
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  const seek = (nextMs: number) => {
+    setTimeMs(nextMs);
+    if (videoRef.current) videoRef.current.currentTime = nextMs / 1000;
+  };
+
+  const isGenerating = !clip.mediaProcessedAt && !clip.thumbnailUrl;
+
+  return (
+    <div className="border-border bg-card rounded-xl border p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-foreground text-sm font-medium">Cover</p>
+          <p className="text-muted-foreground mt-1 text-xs">
+            Shown in your library and to reviewers. Scrub to a frame and use it
+            as the cover.
+          </p>
+        </div>
+        {clip.thumbnailUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={clip.thumbnailUrl}
+            alt="Current cover"
+            className="border-border h-20 rounded border object-cover"
+          />
+        ) : (
+          <div className="border-border bg-muted flex size-20 items-center justify-center rounded border">
+            <ImageIcon className="text-muted-foreground size-6" />
+          </div>
+        )}
+      </div>
+
+      <div className="bg-muted mt-4 aspect-video overflow-hidden rounded-lg">
+        <video
+          ref={videoRef}
+          src={clip.videoUrl ?? undefined}
+          className="size-full object-contain"
+          muted
+          playsInline
+          preload="metadata"
+          onLoadedMetadata={(e) => {
+            const { duration } = e.currentTarget;
+            if (Number.isFinite(duration)) {
+              setDurationMs(Math.floor(duration * 1000));
+            }
+            e.currentTarget.currentTime = timeMs / 1000;
+          }}
+        />
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={durationMs}
+        step={100}
+        value={Math.min(timeMs, durationMs)}
+        onChange={(e) => seek(Number(e.target.value))}
+        disabled={disabled || durationMs === 0}
+        className="mt-3 w-full"
+        aria-label="Cover frame"
+      />
+
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <span className="text-muted-foreground text-xs tabular-nums">
+          {(timeMs / 1000).toFixed(1)}s
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2"
+          onClick={() => setCoverMutation.mutate({ id: clip.id, timeMs })}
+          disabled={disabled || setCoverMutation.isPending}
+        >
+          <ImageIcon className="size-4" />
+          {setCoverMutation.isPending ? "Saving..." : "Use this frame"}
+        </Button>
+      </div>
+
+      {isGenerating && (
+        <p className="text-muted-foreground mt-3 text-xs">
+          A cover is generated automatically a few minutes after upload.
+        </p>
+      )}
+      {clip.mediaError && (
+        <p className="mt-3 text-xs text-red-600">
+          Couldn’t generate a cover automatically: {clip.mediaError}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { redirect } from "next/navigation";
+
+import { getSession } from "~/auth/server";
+import { EarningsContent } from "../_components/earnings-content";
+
+export default async function EarningsPage() {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/auth/signin");
+  }
+
+  return <EarningsContent user={session.user} />;
+}
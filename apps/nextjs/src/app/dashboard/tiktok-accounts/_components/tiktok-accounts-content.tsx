@@ -37,6 +37,17 @@ interface TikTokAccountsContentProps {
   user: User;
 }
 
+// Warn this long before TikTok stops accepting an account's refresh token
+const RECONNECT_WARNING_DAYS = 14;
+
+function isReconnectDueSoon(refreshTokenExpiresAt: Date | null) {
+  return (
+    !!refreshTokenExpiresAt &&
+    refreshTokenExpiresAt.getTime() - Date.now() <
+      RECONNECT_WARNING_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
 export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -73,6 +84,9 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
     refetch,
   } = useQuery(trpc.tiktokOAuth.creatorMyAccounts.queryOptions());
 
+  const accountsNeedingReconnect =
+    accounts?.filter((a) => a.accessToken && a.needsReconnect) ?? [];
+
   // Get account details/stats
   const { data: accountStats } = useQuery(
     trpc.tiktokAccount.creatorGetStats.queryOptions(
@@ -150,6 +164,7 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
   // Handle OAuth callback
   useEffect(() => {
     const code = searchParams.get("code");
+    const state = searchParams.get("state");
     const error = searchParams.get("error");
     const errorDescription = searchParams.get("error_description");
 
@@ -164,7 +179,6 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
         );
         setConnectError(errorDescription ?? error);
         router.replace("/dashboard/tiktok-accounts");
-        localStorage.removeItem("tiktok_creator_code_verifier");
       }, 0);
       return () => clearTimeout(timer);
     }
@@ -181,23 +195,15 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
         setIsConnecting(true);
         setConnectError(null);
 
-        const codeVerifier = localStorage.getItem(
-          "tiktok_creator_code_verifier",
-        );
-        if (!codeVerifier) {
-          console.error(
-            "[TikTok OAuth Creator] Code verifier not found in localStorage",
-          );
-          setConnectError("OAuth state error: code_verifier not found");
+        if (!state) {
+          console.error("[TikTok OAuth Creator] State missing from callback");
+          setConnectError("OAuth state error: state not found");
           setIsConnecting(false);
           router.replace("/dashboard/tiktok-accounts");
           return;
         }
 
-        const redirectUri = `${window.location.origin}/dashboard/tiktok-accounts`;
-        exchangeCode.mutate({ code, redirectUri, codeVerifier });
-
-        localStorage.removeItem("tiktok_creator_code_verifier");
+        exchangeCode.mutate({ code, state });
       }, 0);
       return () => clearTimeout(timer);
     }
@@ -225,12 +231,6 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
 
       console.log("[TikTok OAuth Creator] Received OAuth response:");
       console.log("  - authUrl:", result.authUrl);
-      console.log("  - codeVerifier length:", result.codeVerifier.length);
-
-      localStorage.setItem("tiktok_creator_code_verifier", result.codeVerifier);
-      console.log(
-        "[TikTok OAuth Creator] Stored codeVerifier in localStorage",
-      );
 
       console.log("[TikTok OAuth Creator] Redirecting to TikTok...");
       window.location.href = result.authUrl;
@@ -322,6 +322,30 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
             </div>
           )}
 
+          {/* Reconnect Warning */}
+          {accountsNeedingReconnect.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="mt-0.5 size-5 shrink-0" />
+                <div>
+                  <p className="font-medium">
+                    {accountsNeedingReconnect.length === 1
+                      ? "1 account needs reconnecting"
+                      : `${accountsNeedingReconnect.length} accounts need reconnecting`}
+                  </p>
+                  <p className="mt-1 text-sm">
+                    TikTok no longer accepts our access for{" "}
+                    {accountsNeedingReconnect
+                      .map((a) => `@${a.tiktokUsername}`)
+                      .join(", ")}
+                    . Connect them again with the same TikTok login to keep your
+                    stats updating.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Error Message */}
           {connectError && (
             <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-800">
@@ -431,11 +455,29 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
                             </div>
                           </td>
                           <td className="px-6 py-4">
-                            {account.accessToken ? (
-                              <span className="inline-flex items-center gap-1 rounded-full bg-emerald-50 px-2.5 py-1 text-xs font-medium text-emerald-600">
-                                <Check className="size-3" />
-                                Connected
+                            {account.accessToken && account.needsReconnect ? (
+                              <span
+                                className="inline-flex items-center gap-1 rounded-full bg-red-50 px-2.5 py-1 text-xs font-medium text-red-600"
+                                title={account.tokenRefreshError ?? undefined}
+                              >
+                                <AlertCircle className="size-3" />
+                                Needs reconnect
                               </span>
+                            ) : account.accessToken ? (
+                              <div className="space-y-1">
+                                <span className="inline-flex items-center gap-1 rounded-full bg-emerald-50 px-2.5 py-1 text-xs font-medium text-emerald-600">
+                                  <Check className="size-3" />
+                                  Connected
+                                </span>
+                                {isReconnectDueSoon(
+                                  account.refreshTokenExpiresAt,
+                                ) && (
+                                  <p className="text-xs text-amber-600">
+                                    Reconnect by{" "}
+                                    {account.refreshTokenExpiresAt?.toLocaleDateString()}
+                                  </p>
+                                )}
+                              </div>
                             ) : (
                               <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-600">
                                 <X className="size-3" />
@@ -467,6 +509,23 @@ export function TikTokAccountsContent({ user }: TikTokAccountsContentProps) {
                                   Sync
                                 </Button>
                               )}
+                              {account.accessToken &&
+                                account.needsReconnect &&
+                                oauthConfig?.configured && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="gap-1"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      void handleConnectAccount();
+                                    }}
+                                    disabled={getAuthUrl.isPending}
+                                  >
+                                    <Plus className="size-3" />
+                                    Reconnect
+                                  </Button>
+                                )}
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -0,0 +1,89 @@
+"use client";
+
+import { Images } from "lucide-react";
+
+export interface ClipMediaSource {
+  type: "video" | "carousel";
+  videoUrl: string | null;
+  imageUrls: string[];
+  thumbnailUrl?: string | null;
+  previewUrl?: string | null;
+}
+
+/**
+ * A clip's video, or its carousel images. With `controls` the video plays and
+ * carousel images scroll sideways; without, videos show their thumbnail and
+ * play their preview on hover, and carousels show their first image and the
+ * image count.
+ */
+export function ClipMedia(props: {
+  clip: ClipMediaSource;
+  controls?: boolean;
+}) {
+  const { clip, controls = false } = props;
+
+  if (clip.type === "video" && !controls && clip.previewUrl) {
+    return (
+      <video
+        src={clip.previewUrl}
+        poster={clip.thumbnailUrl ?? undefined}
+        className="size-full object-cover"
+        muted
+        loop
+        playsInline
+        preload="none"
+        onMouseEnter={(e) => void e.currentTarget.play().catch(() => null)}
+        onMouseLeave={(e) => {
+          e.currentTarget.pause();
+          e.currentTarget.currentTime = 0;
+        }}
+      />
+    );
+  }
+
+  if (clip.type === "video") {
+    return (
+      <video
+        src={clip.videoUrl ?? undefined}
+        poster={clip.thumbnailUrl ?? undefined}
+        className="size-full object-cover"
+        controls={controls}
+        muted={!controls}
+        playsInline
+      />
+    );
+  }
+
+  if (controls) {
+    return (
+      <div className="flex size-full snap-x snap-mandatory overflow-x-auto">
+        {clip.imageUrls.map((url, i) => (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={url}
+            src={url}
+            alt={`Image ${i + 1} of ${clip.imageUrls.length}`}
+            className="size-full shrink-0 snap-center object-contain"
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative size-full">
+      {clip.imageUrls[0] && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={clip.imageUrls[0]}
+          alt="Carousel cover"
+          className="size-full object-cover"
+        />
+      )}
+      <span className="absolute bottom-2 left-2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-xs font-medium text-white">
+        <Images className="size-3" />
+        {clip.imageUrls.length}
+      </span>
+    </div>
+  );
+}
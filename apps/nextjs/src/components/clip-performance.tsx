@@ -0,0 +1,147 @@
+"use client";
+
+import type { RouterOutputs } from "@everylab/api";
+
+type ClipPerformanceData = NonNullable<RouterOutputs["clip"]["getPerformance"]>;
+type VelocityScore = ClipPerformanceData["velocity"][number];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const velocityFlagConfig: Record<
+  VelocityScore["flag"],
+  { color: string; label: string }
+> = {
+  breakout: { color: "bg-emerald-50 text-emerald-700", label: "Breakout" },
+  normal: { color: "bg-gray-100 text-gray-600", label: "On track" },
+  underperforming: {
+    color: "bg-red-50 text-red-700",
+    label: "Underperforming",
+  },
+};
+
+export function formatHours(hours: number) {
+  return hours < 24 ? `${hours}h` : `${hours / 24}d`;
+}
+
+export function VelocityBadge(props: { velocity: VelocityScore }) {
+  const { velocity } = props;
+  const config = velocityFlagConfig[velocity.flag];
+
+  return (
+    <span
+      className={`inline-flex rounded-full px-2.5 py-1 text-xs font-medium ${config.color}`}
+      title={`${velocity.views.toLocaleString()} views vs a median of ${velocity.medianViews.toLocaleString()}`}
+    >
+      {config.label}
+      {velocity.score !== null && ` · ${velocity.score}×`}
+    </span>
+  );
+}
+
+function toPolyline(
+  values: (number | null)[],
+  peak: number,
+  step: number,
+): string {
+  return values
+    .flatMap((value, i) =>
+      value === null
+        ? []
+        : [`${i * step},${CHART_HEIGHT - (value / peak) * CHART_HEIGHT}`],
+    )
+    .join(" ");
+}
+
+/**
+ * Views at each checkpoint since publishing (solid) against the median of
+ * the account's earlier clips (dashed), with velocity scores at 1h, 6h and
+ * 24h
+ */
+export function ClipPerformance(props: { performance: ClipPerformanceData }) {
+  const { checkpoints, velocity, baselineClips } = props.performance;
+  const peak = Math.max(
+    1,
+    ...checkpoints.flatMap((c) => [c.views ?? 0, c.medianViews ?? 0]),
+  );
+  const step = CHART_WIDTH / Math.max(1, checkpoints.length - 1);
+  const hasViews = checkpoints.some((c) => c.views !== null);
+
+  return (
+    <div className="space-y-4">
+      {hasViews ? (
+        <div>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="h-40 w-full overflow-visible"
+          >
+            <polyline
+              points={toPolyline(
+                checkpoints.map((c) => c.medianViews),
+                peak,
+                step,
+              )}
+              fill="none"
+              stroke="#9ca3af"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+            <polyline
+              points={toPolyline(
+                checkpoints.map((c) => c.views),
+                peak,
+                step,
+              )}
+              fill="none"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          <div className="text-muted-foreground mt-2 flex justify-between text-xs">
+            {checkpoints.map((c) => (
+              <span
+                key={c.hours}
+                title={`${c.views?.toLocaleString() ?? "—"} views · median ${c.medianViews?.toLocaleString() ?? "—"}`}
+              >
+                {formatHours(c.hours)}
+              </span>
+            ))}
+          </div>
+          <div className="text-muted-foreground mt-3 flex gap-4 text-xs">
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-0.5 w-4 bg-blue-500" />
+              This clip
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-0.5 w-4 border-t-2 border-dashed border-gray-400" />
+              Account median ({baselineClips} clip
+              {baselineClips !== 1 ? "s" : ""})
+            </span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-sm">
+          No stats since publishing yet
+        </p>
+      )}
+
+      {velocity.length > 0 && (
+        <dl className="space-y-2 text-sm">
+          {velocity.map((v) => (
+            <div key={v.hours} className="flex items-center justify-between">
+              <dt className="text-muted-foreground">
+                After {formatHours(v.hours)}
+              </dt>
+              <dd>
+                <VelocityBadge velocity={v} />
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { MessageSquare, Send } from "lucide-react";
+
+import { Button } from "@everylab/ui/button";
+
+export const rejectionReasonLabels: Record<string, string> = {
+  audio: "Audio",
+  branding: "Branding",
+  length: "Length",
+  content: "Content",
+  other: "Other",
+};
+
+export interface ClipReviewEntry {
+  id: string;
+  kind: "rejection" | "comment";
+  reason: string | null;
+  body: string;
+  createdAt: Date;
+  author: { id: string; name: string; role: string };
+}
+
+export function ClipReviewThread(props: {
+  reviews: ClipReviewEntry[];
+  currentUserId: string;
+  onReply: (body: string) => Promise<unknown>;
+  isReplying: boolean;
+  emptyText?: string;
+}) {
+  const [draft, setDraft] = useState("");
+
+  const handleReply = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    try {
+      await props.onReply(body);
+      setDraft("");
+    } catch (error) {
+      console.error("[Review] Failed to post comment:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {props.reviews.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          {props.emptyText ?? "No review comments yet"}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {props.reviews.map((review) => (
+            <li
+              key={review.id}
+              className={`rounded-lg p-3 text-sm ${
+                review.kind === "rejection"
+                  ? "border border-red-200 bg-red-50"
+                  : review.author.id === props.currentUserId
+                    ? "bg-primary/5"
+                    : "bg-muted"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-foreground font-medium">
+                  {review.author.name}
+                  {review.author.role !== "creator" && (
+                    <span className="text-muted-foreground ml-1 text-xs font-normal">
+                      (Reviewer)
+                    </span>
+                  )}
+                </span>
+                <span className="text-muted-foreground text-xs">
+                  {new Date(review.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {review.kind === "rejection" && (
+                <p className="mt-1 text-xs font-medium text-red-800">
+                  Returned to draft
+                  {review.reason &&
+                    ` · ${rejectionReasonLabels[review.reason] ?? review.reason}`}
+                </p>
+              )}
+              <p className="text-foreground mt-1 whitespace-pre-wrap">
+                {review.body}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={2}
+          placeholder="Write a reply..."
+          className="border-border bg-background text-foreground focus:border-primary focus:ring-primary w-full rounded-lg border px-3 py-2 text-sm focus:ring-1 focus:outline-none"
+        />
+        <Button
+          size="sm"
+          onClick={handleReply}
+          disabled={props.isReplying || !draft.trim()}
+          className="gap-2"
+        >
+          {props.isReplying ? (
+            <MessageSquare className="size-4 animate-pulse" />
+          ) : (
+            <Send className="size-4" />
+          )}
+          Reply
+        </Button>
+      </div>
+    </div>
+  );
+}
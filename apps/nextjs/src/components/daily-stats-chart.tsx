@@ -0,0 +1,70 @@
+"use client";
+
+export interface DailyStatsPoint {
+  day: string;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+type Metric = "views" | "likes" | "comments" | "shares";
+
+function formatDay(day: string) {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Bar chart of one metric gained per day, oldest day on the left. Hovering a
+ * bar shows the day and its value.
+ */
+export function DailyStatsChart(props: {
+  days: DailyStatsPoint[];
+  metric?: Metric;
+  color?: string;
+}) {
+  const { days, metric = "views", color = "#3b82f6" } = props;
+  if (days.length === 0) return null;
+
+  const peak = Math.max(0, ...days.map((d) => d[metric]));
+  const total = days.reduce((sum, d) => sum + d[metric], 0);
+
+  return (
+    <div>
+      <div className="mb-3 flex items-baseline justify-between">
+        <p className="text-muted-foreground text-sm capitalize">
+          {metric} gained per day
+        </p>
+        <p className="text-foreground text-sm font-medium tabular-nums">
+          {total.toLocaleString()} total
+        </p>
+      </div>
+      <div className="flex h-40 items-end gap-px">
+        {days.map((d) => (
+          <div
+            key={d.day}
+            title={`${formatDay(d.day)}: ${d[metric].toLocaleString()} ${metric}`}
+            className="hover:bg-muted/50 flex h-full flex-1 items-end rounded-t"
+          >
+            <div
+              className="w-full rounded-t"
+              style={{
+                height: peak > 0 ? `${(d[metric] / peak) * 100}%` : 0,
+                minHeight: d[metric] > 0 ? 2 : 0,
+                backgroundColor: color,
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="text-muted-foreground mt-2 flex justify-between text-xs">
+        <span>{formatDay(days[0]?.day ?? "")}</span>
+        <span>{formatDay(days[days.length - 1]?.day ?? "")}</span>
+      </div>
+    </div>
+  );
+}
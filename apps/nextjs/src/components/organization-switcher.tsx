@@ -0,0 +1,62 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Building2 } from "lucide-react";
+
+import { toast } from "@everylab/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+/**
+ * The organization an admin is working in. Super-admins can switch between
+ * organizations or view all of them; org admins just see theirs.
+ */
+export function OrganizationSwitcher() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery(trpc.organization.current.queryOptions());
+
+  const switchMutation = useMutation(
+    trpc.organization.switch.mutationOptions({
+      onSuccess: () => {
+        // Everything an admin sees depends on the organization
+        void queryClient.invalidateQueries();
+      },
+      onError: (err) => toast.error(err.message),
+    }),
+  );
+
+  if (!data) return null;
+  if (!data.isSuperAdmin && !data.organization) return null;
+
+  return (
+    <div className="border-border border-b px-4 py-3">
+      <p className="text-muted-foreground mb-1.5 flex items-center gap-1.5 px-1 text-xs font-medium tracking-wider uppercase">
+        <Building2 className="size-3.5" />
+        Organization
+      </p>
+      {data.isSuperAdmin ? (
+        <select
+          value={data.organization?.id ?? ""}
+          onChange={(e) =>
+            switchMutation.mutate({ organizationId: e.target.value || null })
+          }
+          disabled={switchMutation.isPending}
+          className="border-border bg-background text-foreground w-full rounded-lg border px-3 py-2 text-sm"
+        >
+          <option value="">All organizations</option>
+          {data.organizations.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <p className="text-foreground truncate px-1 text-sm font-medium">
+          {data.organization?.name}
+        </p>
+      )}
+    </div>
+  );
+}
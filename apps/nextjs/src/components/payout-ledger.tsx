@@ -0,0 +1,120 @@
+"use client";
+
+import type { RouterOutputs } from "@everylab/api";
+
+type LedgerEntry = RouterOutputs["payout"]["myLedger"]["items"][number];
+
+const kindLabels: Record<LedgerEntry["kind"], string> = {
+  earning: "Earning",
+  adjustment: "Adjustment",
+  payout: "Payout",
+};
+
+export function formatCents(cents: number, currency = "USD") {
+  return (cents / 100).toLocaleString("en-US", {
+    style: "currency",
+    currency,
+  });
+}
+
+function formatDate(date: Date | null) {
+  return date
+    ? date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "—";
+}
+
+function describeEntry(entry: LedgerEntry) {
+  if (entry.kind === "earning") {
+    const clip = entry.clip?.title ?? "Deleted clip";
+    return entry.campaign ? `${clip} · ${entry.campaign.name}` : clip;
+  }
+  return entry.note ?? "";
+}
+
+/**
+ * A creator's ledger entries, newest first. Earnings show the views they were
+ * locked with.
+ */
+export function PayoutLedgerTable(props: {
+  entries: LedgerEntry[];
+  currency?: string;
+}) {
+  const { entries, currency } = props;
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-muted-foreground py-6 text-center text-sm">
+        No ledger entries yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-border bg-muted/30 border-b">
+            <th className="text-muted-foreground px-4 py-3 text-left text-xs font-medium tracking-wider uppercase">
+              Date
+            </th>
+            <th className="text-muted-foreground px-4 py-3 text-left text-xs font-medium tracking-wider uppercase">
+              Type
+            </th>
+            <th className="text-muted-foreground px-4 py-3 text-left text-xs font-medium tracking-wider uppercase">
+              Details
+            </th>
+            <th className="text-muted-foreground px-4 py-3 text-right text-xs font-medium tracking-wider uppercase">
+              Views
+            </th>
+            <th className="text-muted-foreground px-4 py-3 text-right text-xs font-medium tracking-wider uppercase">
+              Amount
+            </th>
+            <th className="text-muted-foreground px-4 py-3 text-left text-xs font-medium tracking-wider uppercase">
+              Batch
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-border divide-y">
+          {entries.map((entry) => (
+            <tr key={entry.id} className="hover:bg-muted/30 transition-colors">
+              <td className="text-muted-foreground px-4 py-3 text-sm whitespace-nowrap">
+                {formatDate(entry.createdAt)}
+              </td>
+              <td className="text-foreground px-4 py-3 text-sm">
+                {kindLabels[entry.kind]}
+              </td>
+              <td className="max-w-[320px] px-4 py-3 text-sm">
+                <p className="text-foreground truncate">
+                  {describeEntry(entry)}
+                </p>
+                {entry.kind === "earning" && (
+                  <p className="text-muted-foreground truncate text-xs">
+                    Locked {formatDate(entry.lockedAt)}
+                    {entry.note ? ` · ${entry.note}` : ""}
+                  </p>
+                )}
+              </td>
+              <td className="text-muted-foreground px-4 py-3 text-right text-sm tabular-nums">
+                {entry.views !== null ? entry.views.toLocaleString() : "—"}
+              </td>
+              <td
+                className={`px-4 py-3 text-right text-sm font-medium tabular-nums ${
+                  entry.amountCents < 0 ? "text-red-600" : "text-foreground"
+                }`}
+              >
+                {formatCents(entry.amountCents, currency)}
+              </td>
+              <td className="text-muted-foreground px-4 py-3 text-sm capitalize">
+                {entry.batch?.status ?? "Unbatched"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
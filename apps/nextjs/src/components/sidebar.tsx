@@ -13,6 +13,7 @@ import {
 } from "@everylab/ui/dropdown-menu";
 
 import { authClient } from "~/auth/client";
+import { OrganizationSwitcher } from "~/components/organization-switcher";
 
 export interface NavItem {
   icon: React.ElementType;
@@ -25,7 +26,7 @@ export interface SidebarProps {
   user: {
     name: string;
     email: string;
-    role?: string;
+    role?: string | null;
   };
   title: string;
   logoIcon: React.ElementType;
@@ -88,6 +89,8 @@ export function Sidebar({
         <span className="text-lg font-semibold tracking-tight">{title}</span>
       </div>
 
+      {user.role === "admin" && <OrganizationSwitcher />}
+
       {/* Navigation */}
       <nav className="flex-1 space-y-1 p-4">
         {items.map((item) => (
@@ -145,7 +148,7 @@ export function Sidebar({
                   window.location.href = "/";
                 });
               }}
-              className="text-red-600 focus:text-red-600 focus:bg-red-50"
+              className="text-red-600 focus:bg-red-50 focus:text-red-600"
             >
               <LogOut className="mr-2 size-4" />
               Sign out
@@ -1,15 +1,31 @@
 import {
+  Banknote,
   BarChart3,
   Bot,
+  Building2,
+  CalendarDays,
   FileVideo,
   Home,
+  Megaphone,
+  RefreshCw,
+  ScrollText,
   Shield,
   Smartphone,
   Users,
   Video,
+  Webhook,
 } from "lucide-react";
 
-export const adminNavItems = [
+import type { Permission } from "@everylab/api/permissions";
+import { hasPermission } from "@everylab/api/permissions";
+
+import type { NavItem } from "~/components/sidebar";
+
+/**
+ * Items without a permission are for admins only, matching how each admin
+ * page gates itself
+ */
+export const adminNavItems: (NavItem & { permission?: Permission })[] = [
   {
     label: "Dashboard",
     href: "/admin",
@@ -24,11 +40,13 @@ export const adminNavItems = [
     label: "Cloud Phones",
     href: "/admin/cloud-phones",
     icon: Smartphone,
+    permission: "devices.operate",
   },
   {
     label: "Proxies",
     href: "/admin/proxies",
     icon: Shield,
+    permission: "devices.operate",
   },
   {
     label: "Users",
@@ -39,19 +57,68 @@ export const adminNavItems = [
     label: "All Clips",
     href: "/admin/clips",
     icon: FileVideo,
+    permission: "clips.review",
+  },
+  {
+    label: "Campaigns",
+    href: "/admin/campaigns",
+    icon: Megaphone,
+  },
+  {
+    label: "Payouts",
+    href: "/admin/payouts",
+    icon: Banknote,
+  },
+  {
+    label: "Calendar",
+    href: "/admin/calendar",
+    icon: CalendarDays,
   },
   {
     label: "Automations",
     href: "/admin/automations",
     icon: Bot,
+    permission: "devices.operate",
+  },
+  {
+    label: "Webhooks",
+    href: "/admin/webhooks",
+    icon: Webhook,
   },
   {
     label: "Analytics",
     href: "/admin/analytics",
     icon: BarChart3,
+    permission: "analytics.read",
+  },
+  {
+    label: "Stats Sync",
+    href: "/admin/stats-sync",
+    icon: RefreshCw,
+  },
+  {
+    label: "Audit Log",
+    href: "/admin/audit-log",
+    icon: ScrollText,
+  },
+  {
+    label: "Organizations",
+    href: "/admin/organizations",
+    icon: Building2,
   },
 ];
 
+/**
+ * The admin nav items a staff role can open
+ */
+export function getAdminNavItems(role: string | null | undefined) {
+  return adminNavItems.filter((item) =>
+    item.permission
+      ? hasPermission(role ?? undefined, item.permission)
+      : role === "admin",
+  );
+}
+
 export const creatorNavItems = [
   {
     label: "Dashboard",
@@ -63,6 +130,16 @@ export const creatorNavItems = [
     href: "/dashboard/tiktok-accounts",
     icon: Video,
   },
+  {
+    label: "Campaigns",
+    href: "/dashboard/campaigns",
+    icon: Megaphone,
+  },
+  {
+    label: "Earnings",
+    href: "/dashboard/earnings",
+    icon: Banknote,
+  },
   {
     label: "Analytics",
     href: "/dashboard/analytics",
@@ -17,6 +17,8 @@ export const env = createEnv({
    */
   server: {
     POSTGRES_URL: z.string().url(),
+    // Shared secret Vercel Cron sends when invoking /api/cron/*
+    CRON_SECRET: z.string().min(1).optional(),
   },
 
   /**
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeNextRun,
+  nextCronRun,
+  nextTimesPerDayRun,
+  parseCronExpression,
+} from "../services/automation-schedules";
+
+describe("parseCronExpression", () => {
+  it("expands ranges, lists and steps", () => {
+    const cron = parseCronExpression("*/15 9-17 1,15 * 1-5");
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.anyDayOfMonth).toBe(false);
+    expect(cron.anyDayOfWeek).toBe(false);
+  });
+
+  it("steps from a single start value to the end of the range", () => {
+    expect([...parseCronExpression("5/20 * * * *").minutes]).toEqual([
+      5, 25, 45,
+    ]);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it.each([
+    ["* * * *"],
+    ["* * * * * *"],
+    ["60 * * * *"],
+    ["* 24 * * *"],
+    ["* * 0 * *"],
+    ["*/0 * * * *"],
+    ["30-10 * * * *"],
+    ["a * * * *"],
+  ])("rejects %s", (expression) => {
+    expect(() => parseCronExpression(expression)).toThrow();
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute", () => {
+    expect(
+      nextCronRun("30 9 * * *", new Date("2026-03-02T08:00:00Z"), "UTC"),
+    ).toEqual(new Date("2026-03-02T09:30:00Z"));
+  });
+
+  it("only returns times strictly after the given one", () => {
+    expect(
+      nextCronRun("30 9 * * *", new Date("2026-03-02T09:30:00Z"), "UTC"),
+    ).toEqual(new Date("2026-03-03T09:30:00Z"));
+  });
+
+  it("evaluates the expression in the schedule's time zone", () => {
+    const zone = "America/New_York";
+
+    expect(
+      nextCronRun("0 9 * * *", new Date("2026-01-15T00:00:00Z"), zone),
+    ).toEqual(new Date("2026-01-15T14:00:00Z"));
+    // Daylight saving time
+    expect(
+      nextCronRun("0 9 * * *", new Date("2026-07-15T00:00:00Z"), zone),
+    ).toEqual(new Date("2026-07-15T13:00:00Z"));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th or any Friday; 2026-10-23 is the first Friday after the 19th
+    expect(
+      nextCronRun("0 12 13 * 5", new Date("2026-10-19T00:00:00Z"), "UTC"),
+    ).toEqual(new Date("2026-10-23T12:00:00Z"));
+  });
+
+  it("throws when the expression never matches", () => {
+    expect(() =>
+      nextCronRun("0 0 30 2 *", new Date("2026-01-01T00:00:00Z"), "UTC"),
+    ).toThrow("does not match any time in the next year");
+  });
+});
+
+describe("nextTimesPerDayRun", () => {
+  it("runs in the middle of each slot of the day", () => {
+    expect(
+      nextTimesPerDayRun(3, new Date("2026-03-02T05:00:00Z"), "UTC"),
+    ).toEqual(new Date("2026-03-02T12:00:00Z"));
+  });
+
+  it("wraps to the first slot of the next day", () => {
+    expect(
+      nextTimesPerDayRun(3, new Date("2026-03-02T21:00:00Z"), "UTC"),
+    ).toEqual(new Date("2026-03-03T04:00:00Z"));
+  });
+});
+
+describe("computeNextRun", () => {
+  const after = new Date("2026-03-02T08:00:00Z");
+
+  it("falls back to UTC for an unknown time zone", () => {
+    expect(
+      computeNextRun(
+        {
+          mode: "cron",
+          cronExpression: "30 9 * * *",
+          timesPerDay: null,
+          timeZone: "Not/AZone",
+        },
+        after,
+      ),
+    ).toEqual(new Date("2026-03-02T09:30:00Z"));
+  });
+
+  it("throws when the schedule's mode has nothing to run on", () => {
+    expect(() =>
+      computeNextRun(
+        { mode: "cron", cronExpression: null, timesPerDay: 3, timeZone: "UTC" },
+        after,
+      ),
+    ).toThrow("Schedule has no cron expression");
+    expect(() =>
+      computeNextRun(
+        {
+          mode: "times_per_day",
+          cronExpression: null,
+          timesPerDay: 0,
+          timeZone: "UTC",
+        },
+        after,
+      ),
+    ).toThrow("Schedule has no times per day");
+  });
+});
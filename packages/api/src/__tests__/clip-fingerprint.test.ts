@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { getPerceptualDistance } from "../services/clip-fingerprint";
+
+// Two frames of 64 bits each, as hex
+const hash = "0f0f0f0f0f0f0f0f" + "00ff00ff00ff00ff";
+
+describe("getPerceptualDistance", () => {
+  it("is zero for the same hash", () => {
+    expect(getPerceptualDistance(hash, hash)).toBe(0);
+  });
+
+  it("averages the differing bits over the frames", () => {
+    // One bit flipped in the first frame
+    expect(
+      getPerceptualDistance(hash, "0f0f0f0f0f0f0f0e" + "00ff00ff00ff00ff"),
+    ).toBe(0.5);
+    // Every bit flipped in the second frame
+    expect(
+      getPerceptualDistance(hash, "0f0f0f0f0f0f0f0f" + "ff00ff00ff00ff00"),
+    ).toBe(32);
+  });
+
+  it("is symmetric", () => {
+    const other = "1f0f0f0f0f0f0f0f" + "00ff00ff00ff01ff";
+
+    expect(getPerceptualDistance(hash, other)).toBe(
+      getPerceptualDistance(other, hash),
+    );
+  });
+
+  it("treats hashes with different frame counts as unrelated", () => {
+    expect(getPerceptualDistance(hash, hash.slice(0, 16))).toBe(Infinity);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { computeClipEarnings, getClipLockDate } from "../services/payouts";
+
+const rateCard = {
+  cpmCents: 250,
+  flatFeeCents: 1000,
+  bonusTiers: [
+    { views: 100_000, bonusCents: 5000 },
+    { views: 1_000_000, bonusCents: 20_000 },
+  ],
+};
+
+describe("computeClipEarnings", () => {
+  it("pays the flat fee even without views", () => {
+    expect(computeClipEarnings(rateCard, 0)).toEqual({
+      flatFeeCents: 1000,
+      viewCents: 0,
+      bonusCents: 0,
+      totalCents: 1000,
+    });
+  });
+
+  it("rounds the CPM down to whole cents", () => {
+    expect(computeClipEarnings(rateCard, 1999).viewCents).toBe(499);
+  });
+
+  it("pays every bonus tier reached", () => {
+    expect(computeClipEarnings(rateCard, 99_999).bonusCents).toBe(0);
+    expect(computeClipEarnings(rateCard, 100_000).bonusCents).toBe(5000);
+    expect(computeClipEarnings(rateCard, 1_500_000)).toEqual({
+      flatFeeCents: 1000,
+      viewCents: 375_000,
+      bonusCents: 25_000,
+      totalCents: 401_000,
+    });
+  });
+
+  it("doesn't depend on the order of the tiers", () => {
+    const reversed = {
+      ...rateCard,
+      bonusTiers: [...rateCard.bonusTiers].reverse(),
+    };
+
+    expect(computeClipEarnings(reversed, 1_500_000)).toEqual(
+      computeClipEarnings(rateCard, 1_500_000),
+    );
+  });
+});
+
+describe("getClipLockDate", () => {
+  it("adds the lock period to the publish date", () => {
+    expect(getClipLockDate(new Date("2026-03-02T10:00:00Z"), 30)).toEqual(
+      new Date("2026-04-01T10:00:00Z"),
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import type { PostingLimits } from "../services/posting-calendar";
+import { pickNextSlot } from "../services/posting-calendar";
+
+const limits: PostingLimits = {
+  maxPostsPerDay: 3,
+  minPostGapMinutes: 60,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+describe("pickNextSlot", () => {
+  it("returns the requested time when it's free", () => {
+    expect(
+      pickNextSlot({
+        earliest: new Date("2026-03-02T10:00:00Z"),
+        booked: [],
+        limits,
+        timeZone: "UTC",
+      }),
+    ).toEqual(new Date("2026-03-02T10:00:00Z"));
+  });
+
+  it("keeps the minimum gap from booked posts", () => {
+    expect(
+      pickNextSlot({
+        earliest: new Date("2026-03-02T10:30:00Z"),
+        booked: [
+          new Date("2026-03-02T10:00:00Z"),
+          new Date("2026-03-02T11:30:00Z"),
+        ],
+        limits,
+        timeZone: "UTC",
+      }),
+    ).toEqual(new Date("2026-03-02T12:30:00Z"));
+  });
+
+  it("skips quiet hours that wrap past midnight", () => {
+    expect(
+      pickNextSlot({
+        earliest: new Date("2026-03-02T23:00:00Z"),
+        booked: [],
+        limits: { ...limits, quietHoursStart: 22, quietHoursEnd: 7 },
+        timeZone: "UTC",
+      }),
+    ).toEqual(new Date("2026-03-03T07:00:00Z"));
+  });
+
+  it("moves to the next local day once the day is full", () => {
+    // 10:00 in New York, with an 08:00 post already booked
+    expect(
+      pickNextSlot({
+        earliest: new Date("2026-03-02T15:00:00Z"),
+        booked: [new Date("2026-03-02T13:00:00Z")],
+        limits: { ...limits, maxPostsPerDay: 1 },
+        timeZone: "America/New_York",
+      }),
+    ).toEqual(new Date("2026-03-03T05:00:00Z"));
+  });
+
+  it("throws when no slot is free", () => {
+    expect(() =>
+      pickNextSlot({
+        earliest: new Date("2026-03-02T10:00:00Z"),
+        booked: [],
+        limits: { ...limits, maxPostsPerDay: 0 },
+        timeZone: "UTC",
+      }),
+    ).toThrow("No free posting slot");
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const oldKey = `old:${Buffer.alloc(32, 1).toString("base64")}`;
+const newKey = `new:${Buffer.alloc(32, 2).toString("base64")}`;
+
+/**
+ * A fresh copy of the module, since the keyring is read once and cached
+ */
+async function loadSecrets(keys: string | undefined) {
+  if (keys === undefined) {
+    delete process.env.SECRETS_ENCRYPTION_KEYS;
+  } else {
+    process.env.SECRETS_ENCRYPTION_KEYS = keys;
+  }
+  vi.resetModules();
+  return import("../services/secrets");
+}
+
+afterEach(() => {
+  delete process.env.SECRETS_ENCRYPTION_KEYS;
+  vi.restoreAllMocks();
+});
+
+describe("encryptSecret", () => {
+  it("encrypts with the first key and decrypts back", async () => {
+    const { encryptSecret, decryptSecret } = await loadSecrets(
+      `${oldKey},${newKey}`,
+    );
+
+    const stored = await encryptSecret("hunter2");
+
+    expect(stored).toMatch(/^enc:v1:old:/);
+    expect(stored).not.toContain("hunter2");
+    expect(await decryptSecret(stored)).toBe("hunter2");
+  });
+
+  it("uses a new data key and IV for every value", async () => {
+    const { encryptSecret } = await loadSecrets(oldKey);
+
+    expect(await encryptSecret("hunter2")).not.toBe(
+      await encryptSecret("hunter2"),
+    );
+  });
+
+  it("leaves null alone", async () => {
+    const { encryptSecret, decryptSecret } = await loadSecrets(oldKey);
+
+    expect(await encryptSecret(null)).toBeNull();
+    expect(await decryptSecret(null)).toBeNull();
+  });
+
+  it("stores plaintext when no key is configured outside production", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const { encryptSecret } = await loadSecrets(undefined);
+
+    expect(await encryptSecret("hunter2")).toBe("hunter2");
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("rejects malformed keys", async () => {
+    const { encryptSecret } = await loadSecrets("old:dG9vIHNob3J0");
+
+    await expect(encryptSecret("hunter2")).rejects.toThrow(
+      "SECRETS_ENCRYPTION_KEYS entries must look like",
+    );
+  });
+});
+
+describe("decryptSecret", () => {
+  it("returns legacy plaintext unchanged", async () => {
+    const { decryptSecret } = await loadSecrets(oldKey);
+
+    expect(await decryptSecret("hunter2")).toBe("hunter2");
+  });
+
+  it("throws when the value's key is no longer configured", async () => {
+    const stored = await (await loadSecrets(oldKey)).encryptSecret("hunter2");
+    const { decryptSecret } = await loadSecrets(newKey);
+
+    await expect(decryptSecret(stored)).rejects.toThrow(
+      'Encryption key "old" is not in SECRETS_ENCRYPTION_KEYS',
+    );
+  });
+
+  it("throws on malformed values", async () => {
+    const { decryptSecret } = await loadSecrets(oldKey);
+
+    await expect(decryptSecret("enc:v1:old:abc")).rejects.toThrow(
+      "Malformed encrypted secret",
+    );
+  });
+});
+
+describe("reencryptSecret", () => {
+  it("encrypts legacy plaintext", async () => {
+    const { reencryptSecret, decryptSecret } = await loadSecrets(oldKey);
+
+    const stored = await reencryptSecret("hunter2");
+
+    expect(stored).toMatch(/^enc:v1:old:/);
+    expect(await decryptSecret(stored ?? "")).toBe("hunter2");
+  });
+
+  it("returns null for values under the current key", async () => {
+    const { encryptSecret, reencryptSecret } = await loadSecrets(oldKey);
+
+    expect(await reencryptSecret(await encryptSecret("hunter2"))).toBeNull();
+  });
+
+  it("returns null when there is no key to encrypt with", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const { reencryptSecret } = await loadSecrets(undefined);
+
+    expect(await reencryptSecret("hunter2")).toBeNull();
+  });
+
+  it("re-wraps the data key with a rotated key and keeps the ciphertext", async () => {
+    const stored = await (await loadSecrets(oldKey)).encryptSecret("hunter2");
+    const { reencryptSecret } = await loadSecrets(`${newKey},${oldKey}`);
+
+    const rotated = await reencryptSecret(stored);
+
+    expect(rotated).toMatch(/^enc:v1:new:/);
+    // IV and ciphertext are the last two parts
+    expect(rotated?.split(":").slice(-2)).toEqual(stored.split(":").slice(-2));
+
+    // The old key is no longer needed
+    const { decryptSecret } = await loadSecrets(newKey);
+    expect(await decryptSecret(rotated ?? "")).toBe("hunter2");
+  });
+});
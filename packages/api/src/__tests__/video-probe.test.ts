@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+
+import { probeVideo } from "../services/video-probe";
+
+function box(type: string, ...children: Uint8Array[]) {
+  const size = 8 + children.reduce((sum, child) => sum + child.length, 0);
+  const bytes = new Uint8Array(size);
+  new DataView(bytes.buffer).setUint32(0, size);
+  bytes.set(new TextEncoder().encode(type), 4);
+  let offset = 8;
+  for (const child of children) {
+    bytes.set(child, offset);
+    offset += child.length;
+  }
+  return bytes;
+}
+
+/**
+ * Payload of `size` zero bytes with 32-bit values written at the given offsets
+ */
+function payload(size: number, values: Record<number, number> = {}) {
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  for (const [offset, value] of Object.entries(values)) {
+    view.setInt32(Number(offset), value);
+  }
+  return bytes;
+}
+
+function ftyp(brand: string) {
+  return box("ftyp", new TextEncoder().encode(`${brand}\0\0\0\0`));
+}
+
+function mvhd(timescale: number, duration: number) {
+  return box("mvhd", payload(100, { 12: timescale, 16: duration }));
+}
+
+function track(params: {
+  handler: string;
+  codec: string;
+  width?: number;
+  height?: number;
+  rotation?: 0 | 90;
+}) {
+  const rotated = params.rotation === 90;
+  // Matrix a, b, c, d in 16.16 fixed point, then width and height
+  const tkhd = payload(84, {
+    40: rotated ? 0 : 0x10000,
+    44: rotated ? 0x10000 : 0,
+    52: rotated ? -0x10000 : 0,
+    56: rotated ? 0 : 0x10000,
+    76: (params.width ?? 0) * 0x10000,
+    80: (params.height ?? 0) * 0x10000,
+  });
+
+  const hdlr = payload(24);
+  hdlr.set(new TextEncoder().encode(params.handler), 8);
+  const stsd = payload(24, { 4: 1, 8: 16 });
+  stsd.set(new TextEncoder().encode(params.codec), 12);
+
+  return box(
+    "trak",
+    box("tkhd", tkhd),
+    box("mdia", box("hdlr", hdlr), box("minf", box("stbl", box("stsd", stsd)))),
+  );
+}
+
+function concat(...parts: Uint8Array[]) {
+  const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/**
+ * Probe `file`, returning the metadata and how many bytes were read
+ */
+async function probe(file: Uint8Array) {
+  let bytesRead = 0;
+  const metadata = await probeVideo((start, end) => {
+    bytesRead += end - start + 1;
+    return Promise.resolve(file.subarray(start, end + 1));
+  }, file.length);
+  return { metadata, bytesRead };
+}
+
+describe("probeVideo", () => {
+  it("reads an MP4's codecs, size and duration", async () => {
+    const file = concat(
+      ftyp("isom"),
+      box(
+        "moov",
+        mvhd(1000, 15_500),
+        track({ handler: "vide", codec: "avc1", width: 1080, height: 1920 }),
+        track({ handler: "soun", codec: "mp4a" }),
+      ),
+      box("mdat", new Uint8Array(1024)),
+    );
+
+    expect((await probe(file)).metadata).toEqual({
+      container: "mp4",
+      videoCodec: "avc1",
+      audioCodec: "mp4a",
+      width: 1080,
+      height: 1920,
+      durationSeconds: 15.5,
+      sizeBytes: file.length,
+    });
+  });
+
+  it("reads a MOV with the index after the media without reading the media", async () => {
+    const file = concat(
+      ftyp("qt  "),
+      box("mdat", new Uint8Array(256 * 1024)),
+      box(
+        "moov",
+        mvhd(600, 6000),
+        track({ handler: "vide", codec: "hvc1", width: 1920, height: 1080 }),
+      ),
+    );
+
+    const { metadata, bytesRead } = await probe(file);
+
+    expect(metadata).toMatchObject({
+      container: "mov",
+      videoCodec: "hvc1",
+      audioCodec: null,
+      durationSeconds: 10,
+    });
+    expect(bytesRead).toBeLessThan(1024);
+  });
+
+  it("swaps width and height for rotated videos", async () => {
+    const file = concat(
+      ftyp("isom"),
+      box(
+        "moov",
+        mvhd(1000, 1000),
+        track({
+          handler: "vide",
+          codec: "avc1",
+          width: 1920,
+          height: 1080,
+          rotation: 90,
+        }),
+      ),
+    );
+
+    expect((await probe(file)).metadata).toMatchObject({
+      width: 1080,
+      height: 1920,
+    });
+  });
+
+  it("rejects files that aren't MP4 or MOV", async () => {
+    await expect(
+      probe(concat(box("RIFF", new Uint8Array(32)))),
+    ).rejects.toThrow("Not an MP4 or MOV file");
+  });
+
+  it("rejects files without a moov box", async () => {
+    await expect(
+      probe(concat(ftyp("isom"), box("mdat", new Uint8Array(32)))),
+    ).rejects.toThrow("The video has no moov box");
+  });
+
+  it("rejects files without a video track", async () => {
+    const file = concat(
+      ftyp("isom"),
+      box("moov", mvhd(1000, 1000), track({ handler: "soun", codec: "mp4a" })),
+    );
+
+    await expect(probe(file)).rejects.toThrow("The file has no video track");
+  });
+});
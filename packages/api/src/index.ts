@@ -19,4 +19,6 @@ type RouterOutputs = inferRouterOutputs<AppRouter>;
 
 export { type AppRouter, appRouter } from "./root";
 export { createTRPCContext } from "./trpc";
+export { hasPermission, type Permission } from "./permissions";
+export { cronJobs, isCronJobName, type CronJobName } from "./jobs";
 export type { RouterInputs, RouterOutputs };
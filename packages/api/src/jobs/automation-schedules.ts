@@ -0,0 +1,52 @@
+/**
+ * Automation Schedules Job
+ *
+ * Runs every active automation schedule whose next run is due, moving it on
+ * to the following run and creating its GeeLark tasks. Each schedule is
+ * claimed as it's moved on, so overlapping runs don't create its tasks
+ * twice. See services/automation-schedules.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, asc, eq, lte } from "@everylab/db";
+import { automationSchedule } from "@everylab/db/schema";
+
+import { runAutomationSchedule } from "../services/automation-schedules";
+
+export async function runDueAutomationSchedules(db: Database) {
+  const due = await db.query.automationSchedule.findMany({
+    where: and(
+      eq(automationSchedule.status, "active"),
+      lte(automationSchedule.nextRunAt, new Date()),
+    ),
+    orderBy: asc(automationSchedule.nextRunAt),
+  });
+
+  let ran = 0;
+  let tasksCreated = 0;
+  let failed = 0;
+  let errors = 0;
+
+  for (const schedule of due) {
+    try {
+      const result = await runAutomationSchedule(db, schedule);
+      if (!result) continue;
+      ran++;
+      tasksCreated += result.tasksCreated;
+      failed += result.failed;
+    } catch (error) {
+      errors++;
+      console.error(
+        `[Automation Schedules] Failed to run schedule ${schedule.id}:`,
+        error,
+      );
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(
+      `[Automation Schedules] Ran ${ran} of ${due.length} due schedules: ${tasksCreated} tasks created, ${failed} failed, ${errors} errors`,
+    );
+  }
+
+  return { schedules: ran, tasksCreated, failed, errors };
+}
@@ -0,0 +1,112 @@
+/**
+ * Clip Media Job
+ *
+ * Makes thumbnails and previews for uploaded videos that don't have them
+ * yet, newest first, and fingerprints them for duplicate checks. Clips from
+ * before the media worker existed are queued too, so they're backfilled
+ * behind new uploads. Clips awaiting review that still have no fingerprint
+ * (from before fingerprinting existed, or whose fingerprint failed) are
+ * fingerprinted after each batch.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, asc, desc, eq, isNotNull, isNull } from "@everylab/db";
+import { clip } from "@everylab/db/schema";
+
+import { fingerprintClip } from "../services/clip-fingerprint";
+import { generateClipMedia } from "../services/clip-media";
+
+// ffmpeg takes a few seconds a clip; keep each run well inside the timeout
+const BATCH_SIZE = 5;
+
+export async function generatePendingClipMedia(db: Database) {
+  const pending = await db.query.clip.findMany({
+    where: and(
+      eq(clip.type, "video"),
+      isNotNull(clip.videoUrl),
+      isNull(clip.mediaProcessedAt),
+    ),
+    orderBy: [desc(clip.createdAt)],
+    limit: BATCH_SIZE,
+    columns: {
+      id: true,
+    },
+  });
+
+  let generated = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const pendingClip of pending) {
+    try {
+      if (await generateClipMedia(db, pendingClip.id)) generated++;
+      else skipped++;
+    } catch (error) {
+      errors++;
+      console.error(
+        `[Clip Media] Failed to generate media for clip ${pendingClip.id}:`,
+        error,
+      );
+
+      // Don't retry a video ffmpeg can't handle on every run
+      await db
+        .update(clip)
+        .set({
+          mediaProcessedAt: new Date(),
+          mediaError: error instanceof Error ? error.message : String(error),
+          updatedAt: new Date(),
+        })
+        .where(eq(clip.id, pendingClip.id));
+    }
+
+    // Clips awaiting review are retried below, so a failure can wait
+    try {
+      await fingerprintClip(db, pendingClip.id);
+    } catch (error) {
+      console.error(
+        `[Clip Media] Failed to fingerprint clip ${pendingClip.id}:`,
+        error,
+      );
+    }
+  }
+
+  const unhashed = await db.query.clip.findMany({
+    where: and(
+      eq(clip.type, "video"),
+      eq(clip.status, "pending"),
+      isNotNull(clip.videoUrl),
+      isNotNull(clip.mediaProcessedAt),
+      isNull(clip.contentHash),
+    ),
+    orderBy: [asc(clip.createdAt)],
+    limit: BATCH_SIZE,
+    columns: {
+      id: true,
+    },
+  });
+
+  let fingerprinted = 0;
+  for (const unhashedClip of unhashed) {
+    try {
+      if (await fingerprintClip(db, unhashedClip.id)) fingerprinted++;
+    } catch (error) {
+      console.error(
+        `[Clip Media] Failed to fingerprint clip ${unhashedClip.id}:`,
+        error,
+      );
+    }
+  }
+
+  if (pending.length > 0 || unhashed.length > 0) {
+    console.log(
+      `[Clip Media] ${generated} generated, ${skipped} skipped, ${errors} errors, ${fingerprinted} fingerprinted`,
+    );
+  }
+
+  return {
+    pending: pending.length,
+    generated,
+    skipped,
+    errors,
+    fingerprinted,
+  };
+}
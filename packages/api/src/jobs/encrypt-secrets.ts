@@ -0,0 +1,129 @@
+/**
+ * Encrypt Secrets Job
+ *
+ * One-shot migration for stored credentials: encrypts TikTok tokens, proxy
+ * passwords and creator bank details still saved as plaintext, and re-wraps
+ * values encrypted under an older key after SECRETS_ENCRYPTION_KEYS is
+ * rotated. Safe to run repeatedly; values that are already current are left
+ * alone.
+ *
+ * Each row is only written back if it still holds the values that were read,
+ * so a token refresh in between isn't overwritten with the old, rotated-out
+ * token. A skipped row is picked up on the next run.
+ */
+import type { SQLWrapper } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
+import { and, eq, isNotNull, isNull, or } from "@everylab/db";
+import { geelarkProxy, tiktokAccount, user } from "@everylab/db/schema";
+
+import { reencryptSecret } from "../services/secrets";
+
+// Matches a column still holding `value`, null included
+function unchanged(column: SQLWrapper, value: string | null) {
+  return value === null ? isNull(column) : eq(column, value);
+}
+
+export async function encryptStoredSecrets(db: Database) {
+  let tiktokAccounts = 0;
+  let proxies = 0;
+  let users = 0;
+
+  const accounts = await db.query.tiktokAccount.findMany({
+    where: or(
+      isNotNull(tiktokAccount.accessToken),
+      isNotNull(tiktokAccount.refreshToken),
+    ),
+    columns: {
+      id: true,
+      accessToken: true,
+      refreshToken: true,
+    },
+  });
+
+  for (const account of accounts) {
+    const accessToken = account.accessToken
+      ? await reencryptSecret(account.accessToken)
+      : null;
+    const refreshToken = account.refreshToken
+      ? await reencryptSecret(account.refreshToken)
+      : null;
+
+    if (!accessToken && !refreshToken) continue;
+
+    const [updated] = await db
+      .update(tiktokAccount)
+      .set({
+        ...(accessToken ? { accessToken } : {}),
+        ...(refreshToken ? { refreshToken } : {}),
+      })
+      .where(
+        and(
+          eq(tiktokAccount.id, account.id),
+          unchanged(tiktokAccount.accessToken, account.accessToken),
+          unchanged(tiktokAccount.refreshToken, account.refreshToken),
+        ),
+      )
+      .returning({ id: tiktokAccount.id });
+    if (updated) tiktokAccounts++;
+  }
+
+  const storedProxies = await db.query.geelarkProxy.findMany({
+    where: isNotNull(geelarkProxy.password),
+    columns: {
+      id: true,
+      password: true,
+    },
+  });
+
+  for (const proxy of storedProxies) {
+    const password = proxy.password
+      ? await reencryptSecret(proxy.password)
+      : null;
+    if (!password) continue;
+
+    const [updated] = await db
+      .update(geelarkProxy)
+      .set({ password })
+      .where(
+        and(
+          eq(geelarkProxy.id, proxy.id),
+          unchanged(geelarkProxy.password, proxy.password),
+        ),
+      )
+      .returning({ id: geelarkProxy.id });
+    if (updated) proxies++;
+  }
+
+  const usersWithBankDetails = await db.query.user.findMany({
+    where: isNotNull(user.bankAccountInfo),
+    columns: {
+      id: true,
+      bankAccountInfo: true,
+    },
+  });
+
+  for (const creator of usersWithBankDetails) {
+    const bankAccountInfo = creator.bankAccountInfo
+      ? await reencryptSecret(creator.bankAccountInfo)
+      : null;
+    if (!bankAccountInfo) continue;
+
+    const [updated] = await db
+      .update(user)
+      .set({ bankAccountInfo })
+      .where(
+        and(
+          eq(user.id, creator.id),
+          unchanged(user.bankAccountInfo, creator.bankAccountInfo),
+        ),
+      )
+      .returning({ id: user.id });
+    if (updated) users++;
+  }
+
+  console.log(
+    `[Encrypt Secrets] Updated ${tiktokAccounts} TikTok accounts, ${proxies} proxies and ${users} users`,
+  );
+
+  return { tiktokAccounts, proxies, users };
+}
@@ -0,0 +1,45 @@
+/**
+ * Background Jobs
+ *
+ * Scheduled work that runs without an admin clicking anything. Each job is
+ * exposed by the Next.js app at `/api/cron/<name>` and scheduled in
+ * `apps/nextjs/vercel.json`. Jobs missing from vercel.json (like
+ * `encrypt-secrets`) are run by hand with the same bearer token.
+ */
+import type { Database } from "@everylab/db/client";
+
+import { runDueAutomationSchedules } from "./automation-schedules";
+import { generatePendingClipMedia } from "./clip-media";
+import { encryptStoredSecrets } from "./encrypt-secrets";
+import { abortAbandonedMultipartUploads } from "./multipart-upload-sweeper";
+import { lockPayoutEarnings } from "./payout-earnings";
+import { reconcilePublishStatus } from "./publish-reconciler";
+import { retryFailedPublishes } from "./publish-retry";
+import { rollupStats } from "./stats-rollup";
+import { syncDueAccountStats } from "./stats-sync";
+import { collectStorageGarbage } from "./storage-gc";
+import { refreshTikTokTokens } from "./tiktok-token-refresh";
+import { runWarmupPrograms } from "./warmup-scheduler";
+import { deliverPendingWebhooks } from "./webhook-delivery";
+
+export const cronJobs = {
+  "automation-schedules": runDueAutomationSchedules,
+  "clip-media": generatePendingClipMedia,
+  "encrypt-secrets": encryptStoredSecrets,
+  "multipart-upload-sweeper": abortAbandonedMultipartUploads,
+  "payout-earnings": lockPayoutEarnings,
+  "publish-reconciler": reconcilePublishStatus,
+  "publish-retry": retryFailedPublishes,
+  "stats-rollup": rollupStats,
+  "stats-sync": syncDueAccountStats,
+  "storage-gc": collectStorageGarbage,
+  "tiktok-token-refresh": refreshTikTokTokens,
+  "warmup-scheduler": runWarmupPrograms,
+  "webhook-delivery": deliverPendingWebhooks,
+} satisfies Record<string, (db: Database) => Promise<unknown>>;
+
+export type CronJobName = keyof typeof cronJobs;
+
+export function isCronJobName(name: string): name is CronJobName {
+  return Object.hasOwn(cronJobs, name);
+}
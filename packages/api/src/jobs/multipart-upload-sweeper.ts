@@ -0,0 +1,42 @@
+/**
+ * Multipart Upload Sweeper Job
+ *
+ * Aborts video uploads that were started but never completed, e.g. when a
+ * creator closed the tab and never came back. Until aborted, their parts sit
+ * in the bucket (and are billed) without ever becoming a file.
+ */
+import type { Database } from "@everylab/db/client";
+import { createStorageFromEnv } from "@everylab/storage";
+
+// Long enough to pause an upload overnight and resume it the next morning
+const ABANDONED_AFTER_HOURS = 48;
+
+export async function abortAbandonedMultipartUploads(_db: Database) {
+  const storage = createStorageFromEnv();
+  const cutoff = new Date(Date.now() - ABANDONED_AFTER_HOURS * 60 * 60 * 1000);
+
+  const uploads = await storage.listMultipartUploads("clips/");
+  const abandoned = uploads.filter((upload) => upload.initiatedAt < cutoff);
+
+  let aborted = 0;
+  let errors = 0;
+
+  for (const upload of abandoned) {
+    try {
+      await storage.abortMultipartUpload(upload.key, upload.uploadId);
+      aborted++;
+    } catch (error) {
+      errors++;
+      console.error(
+        `[Multipart Sweeper] Failed to abort upload of ${upload.key}:`,
+        error,
+      );
+    }
+  }
+
+  if (abandoned.length > 0) {
+    console.log(`[Multipart Sweeper] ${aborted} aborted, ${errors} errors`);
+  }
+
+  return { inProgress: uploads.length, aborted, errors };
+}
@@ -0,0 +1,19 @@
+/**
+ * Payout Earnings Job
+ *
+ * Locks earnings for published campaign clips whose lock date has passed and
+ * books them on the creator's ledger. See services/payouts.
+ */
+import type { Database } from "@everylab/db/client";
+
+import { lockDueEarnings } from "../services/payouts";
+
+export async function lockPayoutEarnings(db: Database) {
+  const result = await lockDueEarnings(db);
+
+  console.log(
+    `[Payouts] Locked earnings for ${result.locked} clips, ${result.totalCents} cents`,
+  );
+
+  return result;
+}
@@ -0,0 +1,67 @@
+/**
+ * Publish Reconciler Job
+ *
+ * Polls GeeLark for every approved clip with a live publish task and moves the
+ * clip to `published` or `failed` once its task settles. Failures that the
+ * retry policy allows are left for the publish retry job.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, eq, isNotNull, isNull } from "@everylab/db";
+import { clip } from "@everylab/db/schema";
+
+import { applyPublishTaskToClip } from "../services/clip-publishing";
+import { getGeeLarkClient, upsertGeeLarkTask } from "../services/geelark-tasks";
+
+// GeeLark accepts at most 100 task IDs per query
+const BATCH_SIZE = 100;
+
+export async function reconcilePublishStatus(db: Database) {
+  const inFlight = await db.query.clip.findMany({
+    where: and(
+      eq(clip.status, "approved"),
+      isNotNull(clip.geelarkTaskId),
+      isNull(clip.nextRetryAt),
+    ),
+    columns: {
+      id: true,
+      geelarkTaskId: true,
+    },
+  });
+
+  const taskIds = inFlight
+    .map((c) => c.geelarkTaskId)
+    .filter((id): id is string => !!id);
+
+  if (taskIds.length === 0) {
+    return { checked: 0, published: 0, failed: 0, retrying: 0 };
+  }
+
+  console.log(
+    `[Publish Reconciler] Checking ${taskIds.length} in-flight publish tasks`,
+  );
+
+  const geelark = getGeeLarkClient();
+  let published = 0;
+  let failed = 0;
+  let retrying = 0;
+
+  for (let i = 0; i < taskIds.length; i += BATCH_SIZE) {
+    const batch = taskIds.slice(i, i + BATCH_SIZE);
+    const result = await geelark.queryTasks(batch);
+
+    for (const task of result.items) {
+      await upsertGeeLarkTask(db, task);
+
+      const outcome = await applyPublishTaskToClip(db, task);
+      if (outcome === "published") published++;
+      if (outcome === "failed") failed++;
+      if (outcome === "retrying") retrying++;
+    }
+  }
+
+  console.log(
+    `[Publish Reconciler] ${published} published, ${failed} failed, ${retrying} retrying, ${taskIds.length - published - failed - retrying} still in flight`,
+  );
+
+  return { checked: taskIds.length, published, failed, retrying };
+}
@@ -0,0 +1,66 @@
+/**
+ * Publish Retry Job
+ *
+ * Retries failed publish tasks whose backoff has elapsed, following the retry
+ * policy for the task type. Due clips are claimed by pushing their retry time
+ * out by a lease, so an overlapping run skips them; if a run dies, they're due
+ * again once the lease runs out.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, eq, lte } from "@everylab/db";
+import { clip } from "@everylab/db/schema";
+
+import {
+  deferClipPublishRetry,
+  retryClipPublish,
+} from "../services/clip-publishing";
+
+const RETRY_LEASE_MS = 10 * 60 * 1000;
+
+export async function retryFailedPublishes(db: Database) {
+  const now = new Date();
+  const due = await db
+    .update(clip)
+    .set({ nextRetryAt: new Date(now.getTime() + RETRY_LEASE_MS) })
+    .where(and(eq(clip.status, "approved"), lte(clip.nextRetryAt, now)))
+    .returning({ id: clip.id });
+
+  let retried = 0;
+  let recreated = 0;
+  let failed = 0;
+  let errors = 0;
+
+  for (const dueClip of due) {
+    try {
+      const method = await retryClipPublish(db, dueClip.id);
+      if (method === "retry") retried++;
+      else if (method === "recreate") recreated++;
+      else failed++;
+    } catch (error) {
+      errors++;
+      console.error(
+        `[Publish Retry] Failed to retry clip ${dueClip.id}:`,
+        error,
+      );
+
+      // Most errors here are GeeLark or the network having a bad moment, so
+      // back off and try again rather than giving up on the clip
+      try {
+        await deferClipPublishRetry(db, dueClip.id, error);
+      } catch (deferError) {
+        console.error(
+          `[Publish Retry] Failed to reschedule retry of clip ${dueClip.id}:`,
+          deferError,
+        );
+      }
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(
+      `[Publish Retry] ${retried} retried, ${recreated} recreated, ${failed} failed, ${errors} errors`,
+    );
+  }
+
+  return { due: due.length, retried, recreated, failed, errors };
+}
@@ -0,0 +1,19 @@
+/**
+ * Stats Rollup Job
+ *
+ * Rolls clip stats snapshots up into per-day gains for clips, accounts,
+ * creators and campaigns. See services/daily-stats.
+ */
+import type { Database } from "@everylab/db/client";
+
+import { rollupDailyStats } from "../services/daily-stats";
+
+export async function rollupStats(db: Database) {
+  const result = await rollupDailyStats(db);
+
+  console.log(
+    `[Stats Rollup] Rolled up ${result.days} days, ${result.clipDays} clip days`,
+  );
+
+  return result;
+}
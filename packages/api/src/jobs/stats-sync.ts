@@ -0,0 +1,44 @@
+/**
+ * Stats Sync Job
+ *
+ * Picks up active accounts whose stats are due (per their
+ * `statsSyncIntervalMinutes`) and syncs them one at a time. Runs are logged in
+ * `stats_sync_run`; see services/stats-sync for how the source is chosen.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, asc, eq, gt, isNull, lte, or } from "@everylab/db";
+import { tiktokAccount } from "@everylab/db/schema";
+
+import { syncAccountStats } from "../services/stats-sync";
+
+// Apify scrapes can take minutes, so only take a few accounts per run
+const BATCH_SIZE = 5;
+
+export async function syncDueAccountStats(db: Database) {
+  const due = await db.query.tiktokAccount.findMany({
+    where: and(
+      eq(tiktokAccount.isActive, true),
+      gt(tiktokAccount.statsSyncIntervalMinutes, 0),
+      or(
+        isNull(tiktokAccount.nextStatsSyncAt),
+        lte(tiktokAccount.nextStatsSyncAt, new Date()),
+      ),
+    ),
+    orderBy: asc(tiktokAccount.nextStatsSyncAt),
+    limit: BATCH_SIZE,
+    columns: {
+      id: true,
+    },
+  });
+
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const account of due) {
+    const run = await syncAccountStats(db, account.id, "scheduled");
+    if (run.status === "succeeded") succeeded++;
+    else failed++;
+  }
+
+  return { synced: due.length, succeeded, failed };
+}
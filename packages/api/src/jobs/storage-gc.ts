@@ -0,0 +1,195 @@
+/**
+ * Storage GC Job
+ *
+ * Reconciles the files under `clips/` in the bucket against the media clips
+ * point at. Files no clip references (uploads that never became clips,
+ * replaced videos, thumbnails of deleted clips) are deleted once they're
+ * older than a grace period, so uploads in progress are never touched.
+ *
+ * With `STORAGE_ARCHIVE_AFTER_DAYS` set, the source videos of clips published
+ * that long ago also move to archival storage. They keep their URLs, so they
+ * can still be played, just more slowly and at a per-read cost.
+ */
+import type { Database } from "@everylab/db/client";
+import type { Storage, StoredObject } from "@everylab/storage";
+import { and, eq, isNull, lte } from "@everylab/db";
+import { clip } from "@everylab/db/schema";
+import { createStorageFromEnv } from "@everylab/storage";
+
+// Unreferenced files younger than this may belong to a clip being created
+const ORPHAN_GRACE_DAYS = 7;
+// Bound each run; a backlog is worked through over the following runs
+const MAX_DELETES_PER_RUN = 1000;
+const MAX_ARCHIVES_PER_RUN = 200;
+const ARCHIVE_STORAGE_CLASS = "GLACIER_IR";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getArchiveAfterDays() {
+  const days = Number(process.env.STORAGE_ARCHIVE_AFTER_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+/**
+ * Keys of every file in the bucket a clip points at
+ */
+async function getReferencedKeys(db: Database, storage: Storage) {
+  const clips = await db
+    .select({
+      videoUrl: clip.videoUrl,
+      thumbnailUrl: clip.thumbnailUrl,
+      previewUrl: clip.previewUrl,
+      imageUrls: clip.imageUrls,
+    })
+    .from(clip);
+
+  const keys = new Set<string>();
+  let mediaUrls = 0;
+
+  for (const row of clips) {
+    for (const url of [
+      row.videoUrl,
+      row.thumbnailUrl,
+      row.previewUrl,
+      ...row.imageUrls,
+    ]) {
+      if (!url) continue;
+      mediaUrls++;
+      const key = storage.getKeyFromPublicUrl(url);
+      if (key) keys.add(key);
+    }
+  }
+
+  return { keys, mediaUrls };
+}
+
+async function deleteOrphans(
+  storage: Storage,
+  objects: StoredObject[],
+  referencedKeys: Set<string>,
+) {
+  const cutoff = new Date(Date.now() - ORPHAN_GRACE_DAYS * DAY_MS);
+  const orphans = objects.filter(
+    (object) => !referencedKeys.has(object.key) && object.lastModified < cutoff,
+  );
+
+  const batch = orphans.slice(0, MAX_DELETES_PER_RUN);
+  const failed = new Set(await storage.deleteMany(batch.map((o) => o.key)));
+  const deleted = batch.filter((object) => !failed.has(object.key));
+
+  for (const key of failed) {
+    console.error(`[Storage GC] Failed to delete ${key}`);
+  }
+
+  return {
+    orphans: orphans.length,
+    deleted: deleted.length,
+    reclaimedBytes: deleted.reduce((sum, object) => sum + object.size, 0),
+    errors: failed.size,
+  };
+}
+
+async function archivePublishedSources(
+  db: Database,
+  storage: Storage,
+  objects: StoredObject[],
+  archiveAfterDays: number,
+) {
+  const due = await db.query.clip.findMany({
+    where: and(
+      eq(clip.type, "video"),
+      eq(clip.status, "published"),
+      lte(clip.publishedAt, new Date(Date.now() - archiveAfterDays * DAY_MS)),
+      isNull(clip.sourceArchivedAt),
+    ),
+    columns: {
+      id: true,
+      userId: true,
+      videoUrl: true,
+    },
+    limit: MAX_ARCHIVES_PER_RUN,
+  });
+
+  const objectsByKey = new Map(objects.map((o) => [o.key, o]));
+  let archived = 0;
+  let archivedBytes = 0;
+  let errors = 0;
+
+  for (const dueClip of due) {
+    const key = dueClip.videoUrl
+      ? storage.getKeyFromPublicUrl(dueClip.videoUrl)
+      : null;
+    const object = key ? objectsByKey.get(key) : undefined;
+
+    try {
+      // Imported clips have no source in our bucket; there's nothing to move
+      if (
+        key?.startsWith(`clips/${dueClip.userId}/`) &&
+        object &&
+        object.storageClass !== ARCHIVE_STORAGE_CLASS
+      ) {
+        await storage.setStorageClass(key, ARCHIVE_STORAGE_CLASS);
+        archived++;
+        archivedBytes += object.size;
+      }
+
+      await db
+        .update(clip)
+        .set({ sourceArchivedAt: new Date(), updatedAt: new Date() })
+        .where(eq(clip.id, dueClip.id));
+    } catch (error) {
+      errors++;
+      console.error(
+        `[Storage GC] Failed to archive the source of clip ${dueClip.id}:`,
+        error,
+      );
+    }
+  }
+
+  return { archived, archivedBytes, errors };
+}
+
+export async function collectStorageGarbage(db: Database) {
+  const storage = createStorageFromEnv();
+
+  const [objects, referenced] = await Promise.all([
+    storage.listObjects("clips/"),
+    getReferencedKeys(db, storage),
+  ]);
+
+  // If no clip URL maps to a key, S3_PUBLIC_URL most likely changed and
+  // every file would look orphaned. Refuse rather than empty the bucket.
+  if (
+    objects.length > 0 &&
+    referenced.mediaUrls > 0 &&
+    referenced.keys.size === 0
+  ) {
+    throw new Error(
+      "No clip media URL matches the bucket's public URL; check S3_PUBLIC_URL",
+    );
+  }
+
+  const gc = await deleteOrphans(storage, objects, referenced.keys);
+
+  const archiveAfterDays = getArchiveAfterDays();
+  const archive = archiveAfterDays
+    ? await archivePublishedSources(db, storage, objects, archiveAfterDays)
+    : { archived: 0, archivedBytes: 0, errors: 0 };
+
+  if (gc.deleted > 0 || archive.archived > 0) {
+    console.log(
+      `[Storage GC] Deleted ${gc.deleted} orphans (${(gc.reclaimedBytes / 1024 / 1024).toFixed(1)}MB), archived ${archive.archived} sources (${(archive.archivedBytes / 1024 / 1024).toFixed(1)}MB)`,
+    );
+  }
+
+  return {
+    scanned: objects.length,
+    referenced: referenced.keys.size,
+    orphans: gc.orphans,
+    deleted: gc.deleted,
+    reclaimedBytes: gc.reclaimedBytes,
+    archived: archive.archived,
+    archivedBytes: archive.archivedBytes,
+    errors: gc.errors + archive.errors,
+  };
+}
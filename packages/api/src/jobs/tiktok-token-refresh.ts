@@ -0,0 +1,61 @@
+/**
+ * TikTok Token Refresh Job
+ *
+ * Refreshes access tokens shortly before they expire so syncs never run into
+ * a stale token. Accounts whose refresh fails once their access token is gone
+ * are flagged as needing reconnect (see services/tiktok-oauth).
+ */
+import type { Database } from "@everylab/db/client";
+import { and, isNotNull, isNull, lte, or } from "@everylab/db";
+import { tiktokAccount } from "@everylab/db/schema";
+import { isTikTokConfigured } from "@everylab/tiktok";
+
+import { refreshTikTokAccountToken } from "../services/tiktok-oauth";
+
+// Tokens expiring within this window are refreshed. Twice the cron interval,
+// so a failed run still leaves one more attempt before the token expires.
+const REFRESH_WINDOW_MINUTES = 120;
+
+export async function refreshTikTokTokens(db: Database) {
+  if (!isTikTokConfigured()) {
+    return { checked: 0, refreshed: 0, failed: 0 };
+  }
+
+  const refreshBefore = new Date(
+    Date.now() + REFRESH_WINDOW_MINUTES * 60 * 1000,
+  );
+
+  const accounts = await db.query.tiktokAccount.findMany({
+    where: and(
+      isNotNull(tiktokAccount.accessToken),
+      isNotNull(tiktokAccount.refreshToken),
+      or(
+        isNull(tiktokAccount.tokenExpiresAt),
+        lte(tiktokAccount.tokenExpiresAt, refreshBefore),
+      ),
+    ),
+  });
+
+  if (accounts.length === 0) {
+    return { checked: 0, refreshed: 0, failed: 0 };
+  }
+
+  console.log(
+    `[TikTok Token Refresh] Refreshing ${accounts.length} expiring tokens`,
+  );
+
+  let refreshed = 0;
+  let failed = 0;
+
+  for (const account of accounts) {
+    try {
+      await refreshTikTokAccountToken(db, account);
+      refreshed++;
+    } catch {
+      // Already recorded on the account
+      failed++;
+    }
+  }
+
+  return { checked: accounts.length, refreshed, failed };
+}
@@ -0,0 +1,69 @@
+/**
+ * Warmup Scheduler Job
+ *
+ * Refreshes the status of warmup tasks still waiting or running in GeeLark,
+ * creates tasks for enrollment days that are coming up, and marks enrollments
+ * complete once their last day has run. See services/warmup.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, eq, inArray, isNotNull } from "@everylab/db";
+import { geelarkTask, warmupEnrollment } from "@everylab/db/schema";
+
+import { getGeeLarkClient, upsertGeeLarkTask } from "../services/geelark-tasks";
+import {
+  completeFinishedWarmups,
+  scheduleWarmupEnrollment,
+} from "../services/warmup";
+
+// GeeLark accepts at most 100 task IDs per query
+const BATCH_SIZE = 100;
+
+export async function runWarmupPrograms(db: Database) {
+  const inFlight = await db.query.geelarkTask.findMany({
+    where: and(
+      isNotNull(geelarkTask.warmupEnrollmentId),
+      inArray(geelarkTask.status, ["waiting", "in_progress"]),
+    ),
+    columns: {
+      id: true,
+    },
+  });
+
+  if (inFlight.length > 0) {
+    const geelark = getGeeLarkClient();
+    const taskIds = inFlight.map((t) => t.id);
+
+    for (let i = 0; i < taskIds.length; i += BATCH_SIZE) {
+      const result = await geelark.queryTasks(taskIds.slice(i, i + BATCH_SIZE));
+      for (const task of result.items) {
+        await upsertGeeLarkTask(db, task);
+      }
+    }
+  }
+
+  const active = await db.query.warmupEnrollment.findMany({
+    where: eq(warmupEnrollment.status, "active"),
+    columns: {
+      id: true,
+    },
+  });
+
+  let tasksCreated = 0;
+  for (const enrollment of active) {
+    const result = await scheduleWarmupEnrollment(db, enrollment.id);
+    tasksCreated += result.tasksCreated;
+  }
+
+  const completed = await completeFinishedWarmups(db);
+
+  console.log(
+    `[Warmup] ${inFlight.length} tasks refreshed, ${tasksCreated} tasks created across ${active.length} enrollments, ${completed} completed`,
+  );
+
+  return {
+    refreshed: inFlight.length,
+    enrollments: active.length,
+    tasksCreated,
+    completed,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Webhook Delivery Job
+ *
+ * Sends queued webhook deliveries whose next attempt is due, oldest first.
+ * Deliveries are claimed before they're sent, so overlapping runs never send
+ * the same one twice.
+ */
+import type { Database } from "@everylab/db/client";
+
+import {
+  attemptWebhookDelivery,
+  claimDueWebhookDeliveries,
+} from "../services/webhooks";
+
+// Requests in flight at once. Each times out after 10s, so a full batch takes
+// at most BATCH_SIZE / CONCURRENCY * 10s = 50s.
+const CONCURRENCY = 10;
+const BATCH_SIZE = 50;
+
+export async function deliverPendingWebhooks(db: Database) {
+  const due = await claimDueWebhookDeliveries(db, BATCH_SIZE);
+
+  let succeeded = 0;
+  let retrying = 0;
+  let failed = 0;
+
+  const queue = [...due];
+  await Promise.all(
+    Array.from({ length: CONCURRENCY }, async () => {
+      for (let delivery = queue.shift(); delivery; delivery = queue.shift()) {
+        try {
+          const result = await attemptWebhookDelivery(db, delivery.id);
+          if (result.status === "succeeded") succeeded++;
+          else if (result.status === "failed") failed++;
+          else retrying++;
+        } catch (error) {
+          failed++;
+          console.error(
+            `[Webhook Delivery] Failed to deliver ${delivery.id}:`,
+            error,
+          );
+        }
+      }
+    }),
+  );
+
+  if (due.length > 0) {
+    console.log(
+      `[Webhook Delivery] ${succeeded} delivered, ${retrying} retrying, ${failed} failed`,
+    );
+  }
+
+  return { due: due.length, succeeded, retrying, failed };
+}
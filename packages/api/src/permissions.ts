@@ -0,0 +1,28 @@
+/**
+ * What each staff role besides admin may do. Admins can do everything.
+ */
+const rolePermissions = {
+  // Approve, reject and comment on clips
+  reviewer: ["clips.review"],
+  // Cloud phones, proxies, GeeLark tasks and automations
+  operator: ["devices.operate"],
+  // Read-only stats and analytics
+  analyst: ["analytics.read"],
+} as const;
+
+export type Permission =
+  (typeof rolePermissions)[keyof typeof rolePermissions][number];
+
+/**
+ * Whether a user with this role can use procedures guarded by `permission`
+ */
+export function hasPermission(
+  role: string | undefined,
+  permission: Permission,
+) {
+  if (role === "admin") return true;
+  if (!role || !(role in rolePermissions)) return false;
+  const granted: readonly Permission[] =
+    rolePermissions[role as keyof typeof rolePermissions];
+  return granted.includes(permission);
+}
@@ -1,14 +1,21 @@
 import { adminRouter } from "./router/admin";
+import { analyticsRouter } from "./router/analytics";
+import { auditLogRouter } from "./router/audit-log";
 import { authRouter } from "./router/auth";
+import { automationScheduleRouter } from "./router/automation-schedule";
 import { campaignRouter } from "./router/campaign";
 import { clipRouter } from "./router/clip";
 import { cloudPhoneRouter } from "./router/cloudphone";
+import { organizationRouter } from "./router/organization";
+import { payoutRouter } from "./router/payout";
 import { proxyRouter } from "./router/proxy";
 import { tiktokAccountRouter } from "./router/tiktok-account";
 import { tiktokOAuthRouter } from "./router/tiktok-oauth";
 import { tiktokStatsRouter } from "./router/tiktok-stats";
 import { uploadRouter } from "./router/upload";
 import { userRouter } from "./router/user";
+import { warmupRouter } from "./router/warmup";
+import { webhookRouter } from "./router/webhook";
 import { createTRPCRouter } from "./trpc";
 
 export const appRouter = createTRPCRouter({
@@ -21,13 +28,20 @@ export const appRouter = createTRPCRouter({
 
   // Admin features
   admin: adminRouter,
+  analytics: analyticsRouter,
+  auditLog: auditLogRouter,
+  automationSchedule: automationScheduleRouter,
   campaign: campaignRouter,
   cloudPhone: cloudPhoneRouter,
+  organization: organizationRouter,
+  payout: payoutRouter,
   proxy: proxyRouter,
   tiktokAccount: tiktokAccountRouter,
   tiktokOAuth: tiktokOAuthRouter,
   tiktokStats: tiktokStatsRouter,
   user: userRouter,
+  warmup: warmupRouter,
+  webhook: webhookRouter,
 });
 
 // export type definition of API
@@ -6,19 +6,64 @@
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { and, desc, eq, gte, sql } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
 import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lt,
+  notInArray,
+  sql,
+} from "@everylab/db";
+import {
+  campaign,
+  campaignClip,
   clip,
+  clipDailyStats,
+  clipRejectionReasonEnum,
+  clipReview,
   clipStats,
   clipStatusEnum,
   cloudPhone,
+  creatorDailyStats,
+  geelarkRetryPolicy,
+  geelarkRetryStrategyEnum,
   geelarkTask,
   geelarkTaskStatusEnum,
+  tiktokAccount,
   user,
 } from "@everylab/db/schema";
 import { GeeLarkClient, geelarkEnv } from "@everylab/geelark";
 
-import { adminProcedure } from "../trpc";
+import type { ClipPublishRequest } from "../services/clip-publishing";
+import { findClipDuplicates } from "../services/clip-fingerprint";
+import {
+  applyPublishTaskToClip,
+  createClipPublishTask,
+  createClipPublishTasks,
+  defaultRetryPolicy,
+  getClipPublishMedia,
+  reassignPublishAttempt,
+  recordPublishAttempt,
+} from "../services/clip-publishing";
+import { upsertGeeLarkTask } from "../services/geelark-tasks";
+import {
+  clipInOrganization,
+  inOrganization,
+  phoneInOrganization,
+  userInOrganization,
+} from "../services/organizations";
+import { findNextPublishSlot } from "../services/posting-calendar";
+import { emitClipEvent } from "../services/webhooks";
+import {
+  adminProcedure,
+  permissionProcedure,
+  superAdminProcedure,
+} from "../trpc";
 
 // Valid clip status values
 const clipStatusValues = clipStatusEnum.enumValues;
@@ -31,19 +76,65 @@ function getGeeLarkClient() {
   });
 }
 
+// Per-clip outcome of a bulk review action
+export interface BulkClipResult {
+  clipId: string;
+  success: boolean;
+  error?: string;
+  taskId?: string;
+  scheduledAt?: Date;
+}
+
+function summarizeBulkResults(results: BulkClipResult[]) {
+  return {
+    succeeded: results.filter((r) => r.success).length,
+    failed: results.filter((r) => !r.success).length,
+    results,
+  };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Org admins can only act on tasks run on their organization's phones
+async function assertTaskInOrganization(
+  db: Database,
+  organizationId: string | null,
+  taskId: string,
+) {
+  if (!organizationId) return;
+
+  const task = await db.query.geelarkTask.findFirst({
+    where: and(
+      eq(geelarkTask.id, taskId),
+      phoneInOrganization(db, organizationId, geelarkTask.cloudPhoneId),
+    ),
+    columns: { id: true },
+  });
+  if (!task) {
+    throw new Error("Task not found");
+  }
+}
+
 export const adminRouter = {
   /**
    * Get dashboard overview stats
    */
-  overview: adminProcedure.query(async ({ ctx }) => {
+  overview: permissionProcedure("analytics.read").query(async ({ ctx }) => {
     // Count creators
     const creators = await ctx.db.query.user.findMany({
-      where: eq(user.role, "creator"),
+      where: and(
+        eq(user.role, "creator"),
+        inOrganization(ctx.organizationId, user.organizationId),
+      ),
     });
     const totalCreators = creators.length;
 
     // Count clips
-    const allClips = await ctx.db.query.clip.findMany();
+    const allClips = await ctx.db.query.clip.findMany({
+      where: userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+    });
     const totalClips = allClips.length;
     const publishedClips = allClips.filter(
       (c) => c.status === "published",
@@ -53,41 +144,49 @@ export const adminRouter = {
     ).length; // Approved are scheduled
 
     // Count campaigns
-    const campaigns = await ctx.db.query.campaign.findMany();
+    const campaigns = await ctx.db.query.campaign.findMany({
+      where: inOrganization(ctx.organizationId, campaign.organizationId),
+    });
     const totalCampaigns = campaigns.length;
     const activeCampaigns = campaigns.filter(
       (c) => c.status === "active",
     ).length;
 
     // Count TikTok accounts
-    const accounts = await ctx.db.query.tiktokAccount.findMany();
+    const accounts = await ctx.db.query.tiktokAccount.findMany({
+      where: inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+    });
     const totalAccounts = accounts.length;
     const activeAccounts = accounts.filter((a) => a.isActive).length;
 
-    // Get aggregate stats from all clips
-    const latestStats = await ctx.db.query.clipStats.findMany({
-      orderBy: desc(clipStats.recordedAt),
-    });
-
-    // Get unique clip stats (latest per clip)
-    const latestPerClip = new Map<string, (typeof latestStats)[0]>();
-    for (const stat of latestStats) {
-      if (!latestPerClip.has(stat.clipId)) {
-        latestPerClip.set(stat.clipId, stat);
-      }
-    }
-
-    let totalViews = 0;
-    let totalLikes = 0;
-    let totalComments = 0;
-    let totalShares = 0;
-
-    for (const stat of latestPerClip.values()) {
-      totalViews += stat.views;
-      totalLikes += stat.likes;
-      totalComments += stat.comments;
-      totalShares += stat.shares;
-    }
+    // Gains summed over every rolled-up day add up to current totals
+    const [totals] = await ctx.db
+      .select({
+        views:
+          sql<number>`coalesce(sum(${creatorDailyStats.viewsGained}), 0)`.mapWith(
+            Number,
+          ),
+        likes:
+          sql<number>`coalesce(sum(${creatorDailyStats.likesGained}), 0)`.mapWith(
+            Number,
+          ),
+        comments:
+          sql<number>`coalesce(sum(${creatorDailyStats.commentsGained}), 0)`.mapWith(
+            Number,
+          ),
+        shares:
+          sql<number>`coalesce(sum(${creatorDailyStats.sharesGained}), 0)`.mapWith(
+            Number,
+          ),
+      })
+      .from(creatorDailyStats)
+      .where(
+        userInOrganization(
+          ctx.db,
+          ctx.organizationId,
+          creatorDailyStats.userId,
+        ),
+      );
 
     return {
       creators: {
@@ -106,20 +205,33 @@ export const adminRouter = {
         total: totalAccounts,
         active: activeAccounts,
       },
-      stats: {
-        views: totalViews,
-        likes: totalLikes,
-        comments: totalComments,
-        shares: totalShares,
-      },
+      stats: totals ?? { views: 0, likes: 0, comments: 0, shares: 0 },
     };
   }),
 
   /**
-   * Get top performing clips
+   * Get top performing clips by views gained, all time
    */
-  topClips: adminProcedure.query(async ({ ctx }) => {
+  topClips: permissionProcedure("analytics.read").query(async ({ ctx }) => {
+    const viewsGained = sql<number>`sum(${clipDailyStats.viewsGained})`.mapWith(
+      Number,
+    );
+    const top = await ctx.db
+      .select({ clipId: clipDailyStats.clipId, viewsGained })
+      .from(clipDailyStats)
+      .where(
+        clipInOrganization(ctx.db, ctx.organizationId, clipDailyStats.clipId),
+      )
+      .groupBy(clipDailyStats.clipId)
+      .orderBy(desc(viewsGained))
+      .limit(10);
+    if (top.length === 0) return [];
+
     const clips = await ctx.db.query.clip.findMany({
+      where: inArray(
+        clip.id,
+        top.map((t) => t.clipId),
+      ),
       with: {
         user: true,
         tiktokAccount: true,
@@ -129,101 +241,144 @@ export const adminRouter = {
         },
       },
     });
+    const clipsById = new Map(clips.map((c) => [c.id, c]));
 
-    // Sort by views
-    return clips
-      .map((c) => ({
-        ...c,
-        latestStats: c.stats[0] ?? null,
-      }))
-      .sort((a, b) => (b.latestStats?.views ?? 0) - (a.latestStats?.views ?? 0))
-      .slice(0, 10);
+    return top.flatMap((t) => {
+      const c = clipsById.get(t.clipId);
+      return c ? [{ ...c, latestStats: c.stats[0] ?? null }] : [];
+    });
   }),
 
   /**
-   * Get top creators by performance
+   * Get top creators by views gained, all time
    */
-  topCreators: adminProcedure.query(async ({ ctx }) => {
-    const creators = await ctx.db.query.user.findMany({
-      where: eq(user.role, "creator"),
-    });
-
-    const creatorStats = await Promise.all(
-      creators.map(async (creator) => {
-        const creatorClips = await ctx.db.query.clip.findMany({
-          where: eq(clip.userId, creator.id),
-          with: {
-            stats: {
-              orderBy: desc(clipStats.recordedAt),
-              limit: 1,
-            },
-          },
-        });
-
-        let totalViews = 0;
-        let totalLikes = 0;
-
-        for (const c of creatorClips) {
-          const latestStats = c.stats[0];
-          if (latestStats) {
-            totalViews += latestStats.views;
-            totalLikes += latestStats.likes;
-          }
-        }
-
-        return {
-          user: creator,
-          clipCount: creatorClips.length,
-          totalViews,
-          totalLikes,
-        };
-      }),
+  topCreators: permissionProcedure("analytics.read").query(async ({ ctx }) => {
+    const totalViews =
+      sql<number>`sum(${creatorDailyStats.viewsGained})`.mapWith(Number);
+    const totalLikes =
+      sql<number>`sum(${creatorDailyStats.likesGained})`.mapWith(Number);
+    const top = await ctx.db
+      .select({ user, totalViews, totalLikes })
+      .from(creatorDailyStats)
+      .innerJoin(user, eq(user.id, creatorDailyStats.userId))
+      .where(
+        and(
+          eq(user.role, "creator"),
+          inOrganization(ctx.organizationId, user.organizationId),
+        ),
+      )
+      .groupBy(user.id)
+      .orderBy(desc(totalViews))
+      .limit(10);
+    if (top.length === 0) return [];
+
+    const clipCounts = await ctx.db
+      .select({ userId: clip.userId, clipCount: count() })
+      .from(clip)
+      .where(
+        inArray(
+          clip.userId,
+          top.map((t) => t.user.id),
+        ),
+      )
+      .groupBy(clip.userId);
+    const clipCountByUser = new Map(
+      clipCounts.map((c) => [c.userId, c.clipCount]),
     );
 
-    // Sort by total views
-    return creatorStats
-      .sort((a, b) => b.totalViews - a.totalViews)
-      .slice(0, 10);
+    return top.map((t) => ({
+      ...t,
+      clipCount: clipCountByUser.get(t.user.id) ?? 0,
+    }));
   }),
 
   /**
    * Get recent activity
    */
-  recentActivity: adminProcedure.query(async ({ ctx }) => {
-    const recentClips = await ctx.db.query.clip.findMany({
-      orderBy: desc(clip.createdAt),
-      limit: 10,
-      with: {
-        user: true,
-      },
-    });
+  recentActivity: permissionProcedure("analytics.read").query(
+    async ({ ctx }) => {
+      const recentClips = await ctx.db.query.clip.findMany({
+        where: userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        orderBy: desc(clip.createdAt),
+        limit: 10,
+        with: {
+          user: true,
+        },
+      });
 
-    return {
-      recentClips,
-    };
-  }),
+      return {
+        recentClips,
+      };
+    },
+  ),
 
   /**
-   * Get all pending clips for review (backwards compatibility)
+   * Get all pending clips for review, each with the campaign it was submitted
+   * to. `campaignId: null` narrows to clips outside any campaign.
    */
-  pendingClips: adminProcedure.query(async ({ ctx }) => {
-    const pending = await ctx.db.query.clip.findMany({
-      where: eq(clip.status, "pending"),
-      orderBy: desc(clip.createdAt),
-      with: {
-        user: true,
-        tiktokAccount: true,
-      },
-    });
+  pendingClips: permissionProcedure("clips.review")
+    .input(
+      z
+        .object({
+          campaignId: z.string().uuid().nullable().optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      const campaignClipIds = ctx.db
+        .select({ clipId: campaignClip.clipId })
+        .from(campaignClip);
+
+      const campaignFilter =
+        input?.campaignId === undefined
+          ? undefined
+          : input.campaignId === null
+            ? notInArray(clip.id, campaignClipIds)
+            : inArray(
+                clip.id,
+                campaignClipIds.where(
+                  eq(campaignClip.campaignId, input.campaignId),
+                ),
+              );
+
+      const pending = await ctx.db.query.clip.findMany({
+        where: and(
+          eq(clip.status, "pending"),
+          campaignFilter,
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
+        orderBy: desc(clip.createdAt),
+        with: {
+          user: true,
+          tiktokAccount: true,
+          reviews: {
+            orderBy: asc(clipReview.createdAt),
+            with: {
+              author: { columns: { id: true, name: true, role: true } },
+            },
+          },
+          campaignClips: {
+            orderBy: asc(campaignClip.createdAt),
+            limit: 1,
+            with: { campaign: { columns: { id: true, name: true } } },
+          },
+        },
+      });
 
-    console.log(`[Admin] Found ${pending.length} pending clips`);
-    return pending;
-  }),
+      console.log(`[Admin] Found ${pending.length} pending clips`);
+      return Promise.all(
+        pending.map(async ({ campaignClips, ...pendingClip }) => ({
+          ...pendingClip,
+          campaign: campaignClips[0]?.campaign ?? null,
+          duplicates: await findClipDuplicates(ctx.db, pendingClip.id),
+        })),
+      );
+    }),
 
   /**
    * Get all submissions with optional status filter
    */
-  submissions: adminProcedure
+  submissions: permissionProcedure("clips.review")
     .input(
       z
         .object({
@@ -232,9 +387,10 @@ export const adminRouter = {
         .optional(),
     )
     .query(async ({ ctx, input }) => {
-      const whereClause = input?.status
-        ? eq(clip.status, input.status)
-        : undefined;
+      const whereClause = and(
+        input?.status ? eq(clip.status, input.status) : undefined,
+        userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+      );
 
       const submissions = await ctx.db.query.clip.findMany({
         where: whereClause,
@@ -254,7 +410,7 @@ export const adminRouter = {
   /**
    * Get all clips across all users for admin view
    */
-  allClips: adminProcedure
+  allClips: permissionProcedure("clips.review")
     .input(
       z
         .object({
@@ -265,9 +421,10 @@ export const adminRouter = {
         .optional(),
     )
     .query(async ({ ctx, input }) => {
-      const whereClause = input?.status
-        ? eq(clip.status, input.status)
-        : undefined;
+      const whereClause = and(
+        input?.status ? eq(clip.status, input.status) : undefined,
+        userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+      );
 
       const clips = await ctx.db.query.clip.findMany({
         where: whereClause,
@@ -303,20 +460,25 @@ export const adminRouter = {
     }),
 
   /**
-   * Approve a clip and trigger GeeLark publishing
+   * Approve a clip and trigger GeeLark publishing. A clip matching content
+   * already submitted or posted is only approved with `allowDuplicates`.
    */
-  approveClip: adminProcedure
+  approveClip: permissionProcedure("clips.review")
     .input(
       z.object({
         clipId: z.string().uuid(),
         title: z.string().optional(),
         description: z.string().optional(),
+        allowDuplicates: z.boolean().default(false),
       }),
     )
     .mutation(async ({ ctx, input }) => {
       // Get the clip with its TikTok account and cloud phone
       const existingClip = await ctx.db.query.clip.findFirst({
-        where: eq(clip.id, input.clipId),
+        where: and(
+          eq(clip.id, input.clipId),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
         with: {
           tiktokAccount: {
             with: {
@@ -342,6 +504,21 @@ export const adminRouter = {
         throw new Error("TikTok account is not linked to a cloud phone");
       }
 
+      let duplicates: Awaited<ReturnType<typeof findClipDuplicates>> = [];
+      try {
+        duplicates = await findClipDuplicates(ctx.db, existingClip.id);
+      } catch (error) {
+        console.error(
+          `[Admin] Failed to check clip ${existingClip.id} for duplicates:`,
+          error,
+        );
+      }
+      if (duplicates.length > 0 && !input.allowDuplicates) {
+        throw new Error(
+          `This clip matches ${duplicates.length} clip${duplicates.length === 1 ? "" : "s"} already submitted or posted`,
+        );
+      }
+
       // Update clip with any edits
       const updateData: Partial<typeof clip.$inferInsert> = {
         status: "approved",
@@ -349,35 +526,49 @@ export const adminRouter = {
       if (input.title) updateData.title = input.title;
       if (input.description) updateData.description = input.description;
 
-      // Get GeeLark client
-      const geelark = getGeeLarkClient();
+      // Book the first free slot at or after the requested time that keeps
+      // the account within its posting limits
+      const slot = await findNextPublishSlot(ctx.db, {
+        tiktokAccountId: existingClip.tiktokAccount.id,
+        limits: existingClip.tiktokAccount,
+        timeZone: existingClip.tiktokAccount.cloudPhone.timeZone,
+        requestedAt: existingClip.scheduledAt,
+        excludeClipId: existingClip.id,
+      });
+      const scheduleAt = Math.floor(slot.getTime() / 1000);
 
-      // Calculate schedule time (now + 1 minute if not scheduled)
-      const nowSec = Math.floor(Date.now() / 1000);
-      const requestedSec = existingClip.scheduledAt
-        ? Math.floor(existingClip.scheduledAt.getTime() / 1000)
-        : null;
-      const scheduleAt =
-        requestedSec && requestedSec >= nowSec + 60
-          ? requestedSec
-          : nowSec + 60;
+      // Claim the clip, so an approval racing this one stops here instead of
+      // creating a second publish task
+      const [claimed] = await ctx.db
+        .update(clip)
+        .set({ status: "approved" })
+        .where(and(eq(clip.id, input.clipId), eq(clip.status, "pending")))
+        .returning({ id: clip.id });
+      if (!claimed) {
+        throw new Error("Clip is not in pending status");
+      }
 
       console.log(
         `[Admin] Creating GeeLark publish task for clip ${input.clipId}, scheduleAt: ${scheduleAt}`,
       );
 
-      // Create GeeLark publish task
-      const taskResult = await geelark.createPublishVideoTask({
-        envId: existingClip.tiktokAccount.cloudPhone.id,
-        video: existingClip.videoUrl,
-        scheduleAt,
-        videoDesc: input.description ?? existingClip.description ?? undefined,
-        planName: `Publish: ${input.title ?? existingClip.title}`,
-      });
-
-      const taskId = taskResult.taskIds[0];
-      if (!taskId) {
-        throw new Error("GeeLark returned no taskId");
+      // Create GeeLark publish task (also cached locally so it appears without requiring a refresh)
+      let taskId: string;
+      try {
+        taskId = await createClipPublishTask(ctx.db, {
+          clipId: input.clipId,
+          title: input.title ?? existingClip.title,
+          description: input.description ?? existingClip.description,
+          media: getClipPublishMedia(existingClip),
+          cloudPhone: existingClip.tiktokAccount.cloudPhone,
+          scheduleAt,
+        });
+      } catch (error) {
+        await ctx.db
+          .update(clip)
+          .set({ status: "pending" })
+          .where(and(eq(clip.id, input.clipId), eq(clip.status, "approved")));
+        throw error;
       }
 
       console.log(`[Admin] GeeLark task created, taskId: ${taskId}`);
@@ -387,51 +578,44 @@ export const adminRouter = {
         .update(clip)
         .set({
           ...updateData,
+          scheduledAt: slot,
           geelarkTaskId: taskId,
+          failCode: null,
+          failDesc: null,
+          nextRetryAt: null,
         })
         .where(eq(clip.id, input.clipId))
         .returning();
 
-      // Upsert task into local cache immediately (so it appears without requiring a refresh)
-      await ctx.db
-        .insert(geelarkTask)
-        .values({
-          id: taskId,
-          planName: `Publish: ${input.title ?? existingClip.title}`,
-          taskType: 1,
-          cloudPhoneId: existingClip.tiktokAccount.cloudPhone.id,
-          serialName: existingClip.tiktokAccount.cloudPhone.serialName,
-          scheduleAt: new Date(scheduleAt * 1000),
-          status: "waiting",
-          clipId: input.clipId,
-          lastSyncedAt: new Date(),
-          createdAt: new Date(),
-        })
-        .onConflictDoUpdate({
-          target: geelarkTask.id,
-          set: {
-            planName: `Publish: ${input.title ?? existingClip.title}`,
-            taskType: 1,
-            cloudPhoneId: existingClip.tiktokAccount.cloudPhone.id,
-            serialName: existingClip.tiktokAccount.cloudPhone.serialName,
-            scheduleAt: new Date(scheduleAt * 1000),
-            status: "waiting",
-            clipId: input.clipId,
-            lastSyncedAt: new Date(),
-          },
-        });
+      await recordPublishAttempt(ctx.db, {
+        clipId: input.clipId,
+        method: "initial",
+        geelarkTaskId: taskId,
+        scheduleAt,
+      });
+
+      await emitClipEvent(ctx.db, "clip.approved", input.clipId);
 
       return updatedClip;
     }),
 
   /**
-   * Return a clip to draft status (instead of reject)
+   * Return a clip to draft status with a reason the creator can see
    */
-  rejectClip: adminProcedure
-    .input(z.object({ clipId: z.string().uuid() }))
+  rejectClip: permissionProcedure("clips.review")
+    .input(
+      z.object({
+        clipId: z.string().uuid(),
+        reason: z.enum(clipRejectionReasonEnum.enumValues),
+        comment: z.string().trim().min(1).max(2000),
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
       const existing = await ctx.db.query.clip.findFirst({
-        where: eq(clip.id, input.clipId),
+        where: and(
+          eq(clip.id, input.clipId),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
       });
 
       if (!existing) {
@@ -442,185 +626,651 @@ export const adminRouter = {
         throw new Error("Clip is not pending review");
       }
 
-      // Return to draft instead of rejected (since rejected no longer exists)
+      // Return to draft instead of rejected (since rejected no longer exists).
+      // Only while still pending, so a clip approved meanwhile keeps its
+      // publish task.
       const [updated] = await ctx.db
         .update(clip)
         .set({ status: "draft" })
-        .where(eq(clip.id, input.clipId))
+        .where(and(eq(clip.id, input.clipId), eq(clip.status, "pending")))
         .returning();
 
-      console.log(`[Admin] Returned clip ${input.clipId} to draft`);
+      if (!updated) {
+        throw new Error("Clip is not pending review");
+      }
+
+      // Record why, so the creator sees it on the clip details page
+      await ctx.db.insert(clipReview).values({
+        clipId: input.clipId,
+        authorId: ctx.session.user.id,
+        kind: "rejection",
+        reason: input.reason,
+        body: input.comment,
+      });
+
+      console.log(
+        `[Admin] Returned clip ${input.clipId} to draft (reason: ${input.reason})`,
+      );
+
+      await emitClipEvent(ctx.db, "clip.rejected", input.clipId, {
+        reason: input.reason,
+        comment: input.comment,
+      });
 
       return updated;
     }),
 
   /**
-   * Get all users for stats selector dropdown
+   * Reply in a clip's review thread as the reviewer
    */
-  users: adminProcedure.query(async ({ ctx }) => {
-    const users = await ctx.db.query.user.findMany({
-      orderBy: desc(user.createdAt),
-    });
+  addClipReviewComment: permissionProcedure("clips.review")
+    .input(
+      z.object({
+        clipId: z.string().uuid(),
+        body: z.string().trim().min(1).max(2000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.clip.findFirst({
+        where: and(
+          eq(clip.id, input.clipId),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
+      });
 
-    return users.map((u) => ({
-      id: u.id,
-      name: u.name,
-      email: u.email,
-      role: u.role,
-    }));
-  }),
+      if (!existing) {
+        throw new Error("Clip not found");
+      }
+
+      const [comment] = await ctx.db
+        .insert(clipReview)
+        .values({
+          clipId: input.clipId,
+          authorId: ctx.session.user.id,
+          kind: "comment",
+          body: input.body,
+        })
+        .returning();
+
+      return comment;
+    }),
 
   /**
-   * Get stats for a specific user's clips
+   * Approve many pending clips at once. Each clip is validated on its own and
+   * the valid ones are submitted to GeeLark in a single batched request.
    */
-  getUserStats: adminProcedure
+  bulkApproveClips: permissionProcedure("clips.review")
     .input(
       z.object({
-        userId: z.string(),
-        dateFrom: z.string().datetime().optional(),
+        clipIds: z.array(z.string().uuid()).min(1).max(100),
       }),
     )
-    .query(async ({ ctx, input }) => {
-      const { userId, dateFrom } = input;
-
-      const dateFilter = dateFrom
-        ? and(eq(clip.userId, userId), gte(clip.createdAt, new Date(dateFrom)))
-        : eq(clip.userId, userId);
-
-      const userClips = await ctx.db.query.clip.findMany({
-        where: dateFilter,
+    .mutation(async ({ ctx, input }) => {
+      const clips = await ctx.db.query.clip.findMany({
+        where: and(
+          inArray(clip.id, input.clipIds),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
         with: {
-          stats: {
-            orderBy: desc(clipStats.recordedAt),
-            limit: 1,
+          tiktokAccount: {
+            with: {
+              cloudPhone: true,
+            },
           },
         },
       });
 
-      let totalViews = 0;
-      let totalLikes = 0;
-      let totalComments = 0;
-      let totalShares = 0;
-
-      const clipsWithStats = userClips.map((c) => {
-        const latestStats = c.stats[0];
-        if (latestStats) {
-          totalViews += latestStats.views;
-          totalLikes += latestStats.likes;
-          totalComments += latestStats.comments;
-          totalShares += latestStats.shares;
+      const results: BulkClipResult[] = [];
+      const requests: ClipPublishRequest[] = [];
+      // Slots handed out in this batch, per account
+      const newSlots = new Map<string, Date[]>();
+
+      for (const clipId of input.clipIds) {
+        const existingClip = clips.find((c) => c.id === clipId);
+
+        if (!existingClip) {
+          results.push({ clipId, success: false, error: "Clip not found" });
+          continue;
         }
-        return {
-          ...c,
-          latestStats: latestStats ?? null,
-        };
+
+        if (existingClip.status !== "pending") {
+          results.push({
+            clipId,
+            success: false,
+            error: "Clip is not in pending status",
+          });
+          continue;
+        }
+
+        const account = existingClip.tiktokAccount;
+        if (!account) {
+          results.push({
+            clipId,
+            success: false,
+            error: "Clip has no TikTok account assigned",
+          });
+          continue;
+        }
+
+        if (!account.cloudPhone) {
+          results.push({
+            clipId,
+            success: false,
+            error: "TikTok account is not linked to a cloud phone",
+          });
+          continue;
+        }
+
+        try {
+          // Duplicates need a reviewer to look at them one by one
+          const duplicates = await findClipDuplicates(ctx.db, clipId).catch(
+            (error: unknown) => {
+              console.error(
+                `[Admin] Failed to check clip ${clipId} for duplicates:`,
+                error,
+              );
+              return [];
+            },
+          );
+          if (duplicates.length > 0) {
+            results.push({
+              clipId,
+              success: false,
+              error:
+                "Matches content already submitted or posted; approve it on its own",
+            });
+            continue;
+          }
+
+          const booked = newSlots.get(account.id) ?? [];
+          const slot = await findNextPublishSlot(ctx.db, {
+            tiktokAccountId: account.id,
+            limits: account,
+            timeZone: account.cloudPhone.timeZone,
+            requestedAt: existingClip.scheduledAt,
+            excludeClipId: existingClip.id,
+            alsoBooked: booked,
+          });
+          newSlots.set(account.id, [...booked, slot]);
+
+          requests.push({
+            clipId,
+            title: existingClip.title,
+            description: existingClip.description,
+            media: getClipPublishMedia(existingClip),
+            cloudPhone: account.cloudPhone,
+            scheduleAt: Math.floor(slot.getTime() / 1000),
+          });
+        } catch (error) {
+          results.push({ clipId, success: false, error: errorMessage(error) });
+        }
+      }
+
+      // Claim the clips, so an approval racing this one can't create a
+      // second publish task for any of them
+      const claimed =
+        requests.length > 0
+          ? await ctx.db
+              .update(clip)
+              .set({ status: "approved" })
+              .where(
+                and(
+                  inArray(
+                    clip.id,
+                    requests.map((request) => request.clipId),
+                  ),
+                  eq(clip.status, "pending"),
+                ),
+              )
+              .returning({ id: clip.id })
+          : [];
+      const claimedIds = new Set(claimed.map((c) => c.id));
+      const claimedRequests = requests.filter((request) => {
+        if (claimedIds.has(request.clipId)) return true;
+        results.push({
+          clipId: request.clipId,
+          success: false,
+          error: "Clip is not in pending status",
+        });
+        return false;
       });
 
-      return {
-        totalViews,
-        totalLikes,
-        totalComments,
-        totalShares,
-        clips: clipsWithStats,
-      };
+      if (claimedRequests.length > 0) {
+        // Each clip is saved as soon as its batch is created on GeeLark, so
+        // a later batch failing can't leave published tasks unrecorded
+        const created = await createClipPublishTasks(
+          ctx.db,
+          claimedRequests,
+          async (request, taskId) => {
+            const scheduledAt = new Date(request.scheduleAt * 1000);
+
+            await ctx.db
+              .update(clip)
+              .set({
+                status: "approved",
+                scheduledAt,
+                geelarkTaskId: taskId,
+                failCode: null,
+                failDesc: null,
+                nextRetryAt: null,
+              })
+              .where(eq(clip.id, request.clipId));
+
+            await recordPublishAttempt(ctx.db, {
+              clipId: request.clipId,
+              method: "initial",
+              geelarkTaskId: taskId,
+              scheduleAt: request.scheduleAt,
+            });
+
+            await emitClipEvent(ctx.db, "clip.approved", request.clipId);
+
+            results.push({
+              clipId: request.clipId,
+              success: true,
+              taskId,
+              scheduledAt,
+            });
+          },
+        );
+
+        for (const result of created) {
+          if (result.error === undefined) continue;
+
+          // Without a task nothing will publish it, so it can be approved
+          // again
+          if (!result.taskId) {
+            await ctx.db
+              .update(clip)
+              .set({ status: "pending" })
+              .where(
+                and(eq(clip.id, result.clipId), eq(clip.status, "approved")),
+              );
+          }
+
+          results.push({
+            clipId: result.clipId,
+            success: false,
+            error: result.error,
+          });
+        }
+      }
+
+      const summary = summarizeBulkResults(results);
+      console.log(
+        `[Admin] Bulk approve: ${summary.succeeded} approved, ${summary.failed} failed`,
+      );
+
+      return summary;
     }),
 
   /**
-   * Get aggregated stats for all clips with date range and pagination
-   * Used for the admin "All Accounts" view
+   * Return many pending clips to draft with the same reason and comment
    */
-  getAllClipsStats: adminProcedure
+  bulkRejectClips: permissionProcedure("clips.review")
     .input(
       z.object({
-        dateFrom: z.string().datetime().optional(),
-        limit: z.number().min(1).max(100).default(10),
-        offset: z.number().min(0).default(0),
+        clipIds: z.array(z.string().uuid()).min(1).max(100),
+        reason: z.enum(clipRejectionReasonEnum.enumValues),
+        comment: z.string().trim().min(1).max(2000),
       }),
     )
-    .query(async ({ ctx, input }) => {
-      const { dateFrom, limit, offset } = input;
+    .mutation(async ({ ctx, input }) => {
+      const clips = await ctx.db.query.clip.findMany({
+        where: and(
+          inArray(clip.id, input.clipIds),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
+        columns: { id: true, status: true },
+      });
+
+      const results: BulkClipResult[] = input.clipIds.map((clipId) => {
+        const existing = clips.find((c) => c.id === clipId);
+        if (!existing) {
+          return { clipId, success: false, error: "Clip not found" };
+        }
+        if (existing.status !== "pending") {
+          return {
+            clipId,
+            success: false,
+            error: "Clip is not pending review",
+          };
+        }
+        return { clipId, success: true };
+      });
+
+      const pendingIds = results.filter((r) => r.success).map((r) => r.clipId);
+
+      // Claim the clips that are still pending, so one approved meanwhile
+      // keeps its publish task
+      const claimed =
+        pendingIds.length > 0
+          ? await ctx.db
+              .update(clip)
+              .set({ status: "draft" })
+              .where(
+                and(inArray(clip.id, pendingIds), eq(clip.status, "pending")),
+              )
+              .returning({ id: clip.id })
+          : [];
+      const rejectIds = claimed.map((c) => c.id);
+
+      for (const result of results) {
+        if (result.success && !rejectIds.includes(result.clipId)) {
+          result.success = false;
+          result.error = "Clip is not pending review";
+        }
+      }
+
+      if (rejectIds.length > 0) {
+        await ctx.db.insert(clipReview).values(
+          rejectIds.map((clipId) => ({
+            clipId,
+            authorId: ctx.session.user.id,
+            kind: "rejection" as const,
+            reason: input.reason,
+            body: input.comment,
+          })),
+        );
+
+        for (const clipId of rejectIds) {
+          await emitClipEvent(ctx.db, "clip.rejected", clipId, {
+            reason: input.reason,
+            comment: input.comment,
+          });
+        }
+      }
 
       console.log(
-        `[Admin] Getting all clips stats, dateFrom: ${dateFrom ?? "all time"}, limit: ${limit}, offset: ${offset}`,
+        `[Admin] Bulk reject: returned ${rejectIds.length} clips to draft (reason: ${input.reason})`,
       );
 
-      // Build where clause for clips based on date filter
-      const dateFilter = dateFrom
-        ? gte(clip.createdAt, new Date(dateFrom))
-        : undefined;
+      return summarizeBulkResults(results);
+    }),
 
-      // Get all clips matching the date filter (for aggregate stats)
-      const allClips = await ctx.db.query.clip.findMany({
-        where: dateFilter,
+  /**
+   * Move many clips to a new time. Pending clips get a new requested time;
+   * approved clips whose task hasn't started are cancelled on GeeLark and
+   * re-created in the first free slot at or after the new time.
+   */
+  bulkRescheduleClips: adminProcedure
+    .input(
+      z.object({
+        clipIds: z.array(z.string().uuid()).min(1).max(100),
+        scheduledAt: z.date(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const clips = await ctx.db.query.clip.findMany({
+        where: and(
+          inArray(clip.id, input.clipIds),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
         with: {
-          user: true,
-          stats: {
-            orderBy: desc(clipStats.recordedAt),
-            limit: 1,
+          tiktokAccount: {
+            with: {
+              cloudPhone: true,
+            },
           },
         },
       });
 
-      // Calculate aggregate stats
-      let totalViews = 0;
-      let totalLikes = 0;
-      let totalComments = 0;
-      let totalShares = 0;
-
-      for (const c of allClips) {
-        const latestStats = c.stats[0];
-        if (latestStats) {
-          totalViews += latestStats.views;
-          totalLikes += latestStats.likes;
-          totalComments += latestStats.comments;
-          totalShares += latestStats.shares;
+      const queuedTaskIds = clips
+        .map((c) => c.geelarkTaskId)
+        .filter((id): id is string => !!id);
+      const tasks =
+        queuedTaskIds.length > 0
+          ? await ctx.db.query.geelarkTask.findMany({
+              where: inArray(geelarkTask.id, queuedTaskIds),
+              columns: { id: true, status: true },
+            })
+          : [];
+
+      const results: BulkClipResult[] = [];
+      const pendingIds: string[] = [];
+      const queued: (typeof clips)[number][] = [];
+
+      for (const clipId of input.clipIds) {
+        const existingClip = clips.find((c) => c.id === clipId);
+
+        if (!existingClip) {
+          results.push({ clipId, success: false, error: "Clip not found" });
+          continue;
+        }
+
+        if (existingClip.status === "pending") {
+          pendingIds.push(clipId);
+          continue;
         }
+
+        const task = tasks.find((t) => t.id === existingClip.geelarkTaskId);
+        if (
+          existingClip.status === "approved" &&
+          !existingClip.nextRetryAt &&
+          task?.status === "waiting"
+        ) {
+          queued.push(existingClip);
+          continue;
+        }
+
+        results.push({
+          clipId,
+          success: false,
+          error: "Only pending clips and queued posts can be rescheduled",
+        });
       }
 
-      // Get paginated clips (sorted by creation date descending)
-      const paginatedClips = await ctx.db.query.clip.findMany({
-        where: dateFilter,
-        orderBy: desc(clip.createdAt),
-        limit,
-        offset,
+      if (pendingIds.length > 0) {
+        await ctx.db
+          .update(clip)
+          .set({ scheduledAt: input.scheduledAt })
+          .where(inArray(clip.id, pendingIds));
+
+        for (const clipId of pendingIds) {
+          results.push({
+            clipId,
+            success: true,
+            scheduledAt: input.scheduledAt,
+          });
+        }
+      }
+
+      if (queued.length > 0) {
+        const geelark = getGeeLarkClient();
+        const cancelResult = await geelark.cancelTasks(
+          queued.map((c) => c.geelarkTaskId ?? ""),
+        );
+        const cancelFailures = new Map(
+          (cancelResult.failDetails ?? []).map((d) => [d.id, d.msg]),
+        );
+
+        const requests: ClipPublishRequest[] = [];
+        const replaced: { clipId: string; fromTaskId: string }[] = [];
+        const newSlots = new Map<string, Date[]>();
+
+        for (const queuedClip of queued) {
+          const fromTaskId = queuedClip.geelarkTaskId ?? "";
+          const cancelError = cancelFailures.get(fromTaskId);
+          if (cancelError !== undefined) {
+            results.push({
+              clipId: queuedClip.id,
+              success: false,
+              error: `GeeLark could not cancel the queued task: ${cancelError}`,
+            });
+            continue;
+          }
+
+          await ctx.db
+            .update(geelarkTask)
+            .set({ status: "cancelled", lastSyncedAt: new Date() })
+            .where(eq(geelarkTask.id, fromTaskId));
+
+          const account = queuedClip.tiktokAccount;
+          if (!account?.cloudPhone) {
+            results.push({
+              clipId: queuedClip.id,
+              success: false,
+              error: "TikTok account is not linked to a cloud phone",
+            });
+            continue;
+          }
+
+          const booked = newSlots.get(account.id) ?? [];
+          const slot = await findNextPublishSlot(ctx.db, {
+            tiktokAccountId: account.id,
+            limits: account,
+            timeZone: account.cloudPhone.timeZone,
+            requestedAt: input.scheduledAt,
+            excludeClipId: queuedClip.id,
+            alsoBooked: booked,
+          });
+          newSlots.set(account.id, [...booked, slot]);
+
+          requests.push({
+            clipId: queuedClip.id,
+            title: queuedClip.title,
+            description: queuedClip.description,
+            media: getClipPublishMedia(queuedClip),
+            cloudPhone: account.cloudPhone,
+            scheduleAt: Math.floor(slot.getTime() / 1000),
+          });
+          replaced.push({ clipId: queuedClip.id, fromTaskId });
+        }
+
+        const created =
+          requests.length > 0
+            ? await createClipPublishTasks(
+                ctx.db,
+                requests,
+                async (request, taskId) => {
+                  const fromTaskId =
+                    replaced.find((r) => r.clipId === request.clipId)
+                      ?.fromTaskId ?? "";
+                  const scheduledAt = new Date(request.scheduleAt * 1000);
+
+                  await ctx.db
+                    .update(clip)
+                    .set({ scheduledAt, geelarkTaskId: taskId })
+                    .where(eq(clip.id, request.clipId));
+
+                  await reassignPublishAttempt(ctx.db, {
+                    clipId: request.clipId,
+                    fromTaskId,
+                    toTaskId: taskId,
+                    scheduleAt: request.scheduleAt,
+                  });
+
+                  results.push({
+                    clipId: request.clipId,
+                    success: true,
+                    taskId,
+                    scheduledAt,
+                  });
+                },
+              )
+            : [];
+
+        for (const result of created) {
+          if (result.error === undefined) continue;
+
+          // The old task is already cancelled, so this clip can't publish
+          console.error(
+            `[Admin] Bulk reschedule task creation failed for clip ${result.clipId}: ${result.error}`,
+          );
+          await ctx.db
+            .update(clip)
+            .set({
+              status: "failed",
+              failDesc: `Rescheduling failed: ${result.error}`,
+            })
+            .where(eq(clip.id, result.clipId));
+          await emitClipEvent(ctx.db, "clip.failed", result.clipId);
+
+          results.push({
+            clipId: result.clipId,
+            success: false,
+            error: result.error,
+          });
+        }
+      }
+
+      const summary = summarizeBulkResults(results);
+      console.log(
+        `[Admin] Bulk reschedule: ${summary.succeeded} rescheduled, ${summary.failed} failed`,
+      );
+
+      return summary;
+    }),
+
+  /**
+   * Posting calendar: queued and published posts per TikTok account in a date range
+   */
+  postingCalendar: adminProcedure
+    .input(
+      z.object({
+        from: z.date(),
+        days: z.number().int().min(1).max(31).default(7),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const to = new Date(input.from.getTime() + input.days * 86400000);
+
+      const accounts = await ctx.db.query.tiktokAccount.findMany({
+        where: and(
+          eq(tiktokAccount.isActive, true),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
+        orderBy: asc(tiktokAccount.tiktokUsername),
+        columns: {
+          id: true,
+          name: true,
+          tiktokUsername: true,
+          maxPostsPerDay: true,
+          minPostGapMinutes: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+        },
         with: {
-          user: true,
-          stats: {
-            orderBy: desc(clipStats.recordedAt),
-            limit: 1,
+          cloudPhone: {
+            columns: { id: true, serialName: true, timeZone: true },
+          },
+          clips: {
+            where: and(
+              inArray(clip.status, ["approved", "published"]),
+              gte(clip.scheduledAt, input.from),
+              lt(clip.scheduledAt, to),
+            ),
+            orderBy: asc(clip.scheduledAt),
+            columns: {
+              id: true,
+              title: true,
+              status: true,
+              scheduledAt: true,
+              nextRetryAt: true,
+            },
           },
         },
       });
 
-      const clipsWithStats = paginatedClips.map((c) => ({
-        id: c.id,
-        title: c.title,
-        status: c.status,
-        createdAt: c.createdAt,
-        user: { id: c.user.id, name: c.user.name, email: c.user.email },
-        latestStats: c.stats[0]
-          ? {
-              views: c.stats[0].views,
-              likes: c.stats[0].likes,
-              comments: c.stats[0].comments,
-              shares: c.stats[0].shares,
-            }
-          : null,
-      }));
+      return { from: input.from, to, accounts };
+    }),
 
-      console.log(
-        `[Admin] Found ${allClips.length} total clips, returning ${clipsWithStats.length} clips for page`,
-      );
+  /**
+   * Get all users for stats selector dropdown
+   */
+  users: permissionProcedure("analytics.read").query(async ({ ctx }) => {
+    const users = await ctx.db.query.user.findMany({
+      where: inOrganization(ctx.organizationId, user.organizationId),
+      orderBy: desc(user.createdAt),
+    });
 
-      return {
-        totalViews,
-        totalLikes,
-        totalComments,
-        totalShares,
-        totalClips: allClips.length,
-        clips: clipsWithStats,
-      };
-    }),
+    return users.map((u) => ({
+      id: u.id,
+      name: u.name,
+      email: u.email,
+      role: u.role,
+    }));
+  }),
 
   // ============================================================================
   // GEELARK TASK MANAGEMENT
@@ -629,7 +1279,7 @@ export const adminRouter = {
   /**
    * Get cached tasks from database
    */
-  getTasks: adminProcedure
+  getTasks: permissionProcedure("devices.operate")
     .input(
       z
         .object({
@@ -653,6 +1303,12 @@ export const adminRouter = {
         conditions.push(eq(geelarkTask.taskType, input.taskType));
       if (input?.cloudPhoneId)
         conditions.push(eq(geelarkTask.cloudPhoneId, input.cloudPhoneId));
+      const inScope = phoneInOrganization(
+        ctx.db,
+        ctx.organizationId,
+        geelarkTask.cloudPhoneId,
+      );
+      if (inScope) conditions.push(inScope);
 
       const whereConditions =
         conditions.length > 0 ? and(...conditions) : undefined;
@@ -694,7 +1350,7 @@ export const adminRouter = {
    * - /open/v1/task/add for post_video/warmup/carousel
    * - /open/v1/rpa/task/* for rpa automations
    */
-  triggerAutomation: adminProcedure
+  triggerAutomation: permissionProcedure("devices.operate")
     .input(
       z.discriminatedUnion("automationId", [
         z.object({
@@ -755,8 +1411,14 @@ export const adminRouter = {
       const scheduleAt = input.scheduleAt ?? Math.floor(Date.now() / 1000) + 60;
 
       const phone = await ctx.db.query.cloudPhone.findFirst({
-        where: eq(cloudPhone.id, input.cloudPhoneId),
+        where: and(
+          eq(cloudPhone.id, input.cloudPhoneId),
+          inOrganization(ctx.organizationId, cloudPhone.organizationId),
+        ),
       });
+      if (!phone && ctx.organizationId) {
+        throw new Error("Cloud phone not found");
+      }
 
       const serialName = phone?.serialName ?? null;
 
@@ -927,93 +1589,53 @@ export const adminRouter = {
   /**
    * Refresh tasks from GeeLark API and update database cache
    */
-  refreshTasksFromGeeLark: adminProcedure.mutation(async ({ ctx }) => {
-    const geelark = getGeeLarkClient();
-
-    console.log("[Admin] Fetching tasks from GeeLark API...");
-
-    // Fetch all tasks from history (last 7 days)
-    const result = await geelark.batchQueryTasks({ size: 100 });
-
-    console.log(`[Admin] Got ${result.items.length} tasks from GeeLark`);
-
-    // Map GeeLark status codes to our enum
-    const mapStatus = (
-      status: number,
-    ): (typeof geelarkTaskStatusEnum.enumValues)[number] => {
-      switch (status) {
-        case 1:
-          return "waiting";
-        case 2:
-          return "in_progress";
-        case 3:
-          return "completed";
-        case 4:
-          return "failed";
-        case 7:
-          return "cancelled";
-        default:
-          return "waiting";
-      }
-    };
+  refreshTasksFromGeeLark: permissionProcedure("devices.operate").mutation(
+    async ({ ctx }) => {
+      const geelark = getGeeLarkClient();
 
-    // Upsert tasks into database
-    let updated = 0;
-    let inserted = 0;
+      console.log("[Admin] Fetching tasks from GeeLark API...");
 
-    for (const task of result.items) {
-      const existing = await ctx.db.query.geelarkTask.findFirst({
-        where: eq(geelarkTask.id, task.id),
-      });
+      // Fetch all tasks from history (last 7 days)
+      const result = await geelark.batchQueryTasks({ size: 100 });
 
-      const taskData = {
-        id: task.id,
-        planName: task.planName,
-        taskType: task.taskType,
-        cloudPhoneId: task.envId,
-        serialName: task.serialName,
-        scheduleAt: task.scheduleAt ? new Date(task.scheduleAt * 1000) : null,
-        status: mapStatus(task.status),
-        failCode: task.failCode ?? null,
-        failDesc: task.failDesc ?? null,
-        cost: task.cost ?? null,
-        shareLink: task.shareLink ?? null,
-        lastSyncedAt: new Date(),
-      };
+      console.log(`[Admin] Got ${result.items.length} tasks from GeeLark`);
 
-      if (existing) {
-        await ctx.db
-          .update(geelarkTask)
-          .set(taskData)
-          .where(eq(geelarkTask.id, task.id));
-        updated++;
-      } else {
-        await ctx.db.insert(geelarkTask).values({
-          ...taskData,
-          createdAt: new Date(),
-        });
-        inserted++;
+      // Upsert tasks into database
+      let updated = 0;
+      let inserted = 0;
+      let clipsSettled = 0;
+
+      for (const task of result.items) {
+        const outcome = await upsertGeeLarkTask(ctx.db, task);
+        if (outcome === "inserted") inserted++;
+        else updated++;
+
+        // Close the loop on clips whose publish task has settled
+        if (await applyPublishTaskToClip(ctx.db, task)) clipsSettled++;
       }
-    }
 
-    console.log(
-      `[Admin] Synced tasks: ${inserted} inserted, ${updated} updated`,
-    );
+      console.log(
+        `[Admin] Synced tasks: ${inserted} inserted, ${updated} updated, ${clipsSettled} clips settled`,
+      );
 
-    return {
-      total: result.total,
-      synced: result.items.length,
-      inserted,
-      updated,
-    };
-  }),
+      return {
+        total: result.total,
+        synced: result.items.length,
+        inserted,
+        updated,
+        clipsSettled,
+      };
+    },
+  ),
 
   /**
    * Get detailed task information from GeeLark
    */
-  getTaskDetail: adminProcedure
+  getTaskDetail: permissionProcedure("devices.operate")
     .input(z.object({ taskId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await assertTaskInOrganization(ctx.db, ctx.organizationId, input.taskId);
+
       const geelark = getGeeLarkClient();
 
       const detail = await geelark.getTaskDetail({ id: input.taskId });
@@ -1028,9 +1650,11 @@ export const adminRouter = {
   /**
    * Cancel a waiting or in-progress task
    */
-  cancelTask: adminProcedure
+  cancelTask: permissionProcedure("devices.operate")
     .input(z.object({ taskId: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      await assertTaskInOrganization(ctx.db, ctx.organizationId, input.taskId);
+
       const geelark = getGeeLarkClient();
 
       console.log(`[Admin] Cancelling task ${input.taskId}`);
@@ -1051,9 +1675,11 @@ export const adminRouter = {
   /**
    * Retry a failed or cancelled task
    */
-  retryTask: adminProcedure
+  retryTask: permissionProcedure("devices.operate")
     .input(z.object({ taskId: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      await assertTaskInOrganization(ctx.db, ctx.organizationId, input.taskId);
+
       const geelark = getGeeLarkClient();
 
       console.log(`[Admin] Retrying task ${input.taskId}`);
@@ -1066,8 +1692,82 @@ export const adminRouter = {
           .update(geelarkTask)
           .set({ status: "waiting", lastSyncedAt: new Date() })
           .where(eq(geelarkTask.id, input.taskId));
+
+        // Put a clip that gave up on this task back in flight
+        const failedClip = await ctx.db.query.clip.findFirst({
+          where: and(
+            eq(clip.geelarkTaskId, input.taskId),
+            eq(clip.status, "failed"),
+          ),
+        });
+
+        if (failedClip) {
+          await ctx.db
+            .update(clip)
+            .set({
+              status: "approved",
+              nextRetryAt: null,
+              updatedAt: new Date(),
+            })
+            .where(eq(clip.id, failedClip.id));
+
+          await recordPublishAttempt(ctx.db, {
+            clipId: failedClip.id,
+            method: "manual",
+            geelarkTaskId: input.taskId,
+          });
+        }
       }
 
       return result;
     }),
+
+  /**
+   * Get the automatic retry policy for each publish task type
+   */
+  getRetryPolicies: permissionProcedure("devices.operate").query(
+    async ({ ctx }) => {
+      const saved = await ctx.db.query.geelarkRetryPolicy.findMany();
+
+      // Publish task types: 1 = video, 3 = image set
+      return [1, 3].map(
+        (taskType) =>
+          saved.find((p) => p.taskType === taskType) ??
+          defaultRetryPolicy(taskType),
+      );
+    },
+  ),
+
+  /**
+   * Update the automatic retry policy for a task type. Policies apply to
+   * every organization, so only super-admins change them.
+   */
+  updateRetryPolicy: superAdminProcedure
+    .input(
+      z.object({
+        taskType: z.number().int(),
+        enabled: z.boolean(),
+        maxAttempts: z.number().int().min(1).max(10),
+        backoffSeconds: z.number().int().min(60),
+        backoffMultiplier: z.number().int().min(1).max(10),
+        strategy: z.enum(geelarkRetryStrategyEnum.enumValues),
+        terminalFailCodes: z.array(z.number().int()),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { taskType, ...policy } = input;
+
+      const [updated] = await ctx.db
+        .insert(geelarkRetryPolicy)
+        .values(input)
+        .onConflictDoUpdate({
+          target: geelarkRetryPolicy.taskType,
+          set: { ...policy, updatedAt: new Date() },
+        })
+        .returning();
+
+      console.log(`[Admin] Updated retry policy for task type ${taskType}`);
+
+      return updated;
+    }),
 } satisfies TRPCRouterRecord;
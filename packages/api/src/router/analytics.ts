@@ -0,0 +1,482 @@
+/**
+ * Analytics Router
+ *
+ * Views, likes, comments and shares gained per day, read from the daily
+ * rollups in services/daily-stats rather than raw snapshots, and per-clip
+ * performance curves from services/clip-performance
+ */
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import type { SQL } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
+import {
+  and,
+  countDistinct,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lte,
+  sql,
+} from "@everylab/db";
+import {
+  accountDailyStats,
+  campaign,
+  campaignDailyStats,
+  clip,
+  clipDailyStats,
+  creatorDailyStats,
+  user,
+  userTiktokAccount,
+} from "@everylab/db/schema";
+
+import {
+  getClipPerformance,
+  getVelocityAlerts,
+} from "../services/clip-performance";
+import { fillDays } from "../services/daily-stats";
+import {
+  accountInOrganization,
+  clipInOrganization,
+  userInOrganization,
+} from "../services/organizations";
+import { permissionProcedure, protectedProcedure } from "../trpc";
+
+type DailyStatsTable =
+  | typeof clipDailyStats
+  | typeof accountDailyStats
+  | typeof creatorDailyStats
+  | typeof campaignDailyStats;
+
+// Longest range a time series can be asked for, in days
+const MAX_SERIES_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scopeValues = ["all", "clip", "account", "creator", "campaign"] as const;
+
+const RangeInput = z
+  .object({
+    from: z.iso.date(),
+    to: z.iso.date(),
+  })
+  .refine((range) => range.from <= range.to, {
+    message: "Range starts after it ends",
+    path: ["from"],
+  });
+
+const ScopeInput = z.object({
+  scope: z.enum(scopeValues).default("all"),
+  id: z.string().optional(),
+});
+
+function gainSums(table: DailyStatsTable) {
+  return {
+    views: sql<number>`coalesce(sum(${table.viewsGained}), 0)`.mapWith(Number),
+    likes: sql<number>`coalesce(sum(${table.likesGained}), 0)`.mapWith(Number),
+    comments: sql<number>`coalesce(sum(${table.commentsGained}), 0)`.mapWith(
+      Number,
+    ),
+    shares: sql<number>`coalesce(sum(${table.sharesGained}), 0)`.mapWith(
+      Number,
+    ),
+  };
+}
+
+function inRange(table: DailyStatsTable, from?: string, to?: string) {
+  return and(
+    from ? gte(table.day, from) : undefined,
+    to ? lte(table.day, to) : undefined,
+  );
+}
+
+/**
+ * The rollup table a scope reads from, and the filter for its ID within the
+ * organization. "all" sums the creator rollup, since every clip has a
+ * creator.
+ */
+function resolveScope(
+  db: Database,
+  organizationId: string | null,
+  scope: (typeof scopeValues)[number],
+  id?: string,
+): { table: DailyStatsTable; where: SQL | undefined } {
+  if (scope !== "all" && !id) {
+    throw new Error(`An ID is required for ${scope} analytics`);
+  }
+  const scopeId = id ?? "";
+
+  switch (scope) {
+    case "all":
+      return {
+        table: creatorDailyStats,
+        where: userInOrganization(db, organizationId, creatorDailyStats.userId),
+      };
+    case "clip":
+      return {
+        table: clipDailyStats,
+        where: and(
+          eq(clipDailyStats.clipId, scopeId),
+          clipInOrganization(db, organizationId, clipDailyStats.clipId),
+        ),
+      };
+    case "account":
+      return {
+        table: accountDailyStats,
+        where: and(
+          eq(accountDailyStats.tiktokAccountId, scopeId),
+          accountInOrganization(
+            db,
+            organizationId,
+            accountDailyStats.tiktokAccountId,
+          ),
+        ),
+      };
+    case "creator":
+      return {
+        table: creatorDailyStats,
+        where: and(
+          eq(creatorDailyStats.userId, scopeId),
+          userInOrganization(db, organizationId, creatorDailyStats.userId),
+        ),
+      };
+    case "campaign":
+      return {
+        table: campaignDailyStats,
+        where: and(
+          eq(campaignDailyStats.campaignId, scopeId),
+          organizationId
+            ? inArray(
+                campaignDailyStats.campaignId,
+                db
+                  .select({ id: campaign.id })
+                  .from(campaign)
+                  .where(eq(campaign.organizationId, organizationId)),
+              )
+            : undefined,
+        ),
+      };
+  }
+}
+
+async function getSeries(
+  db: Database,
+  table: DailyStatsTable,
+  where: SQL | undefined,
+  range: { from: string; to: string },
+) {
+  const days = (Date.parse(range.to) - Date.parse(range.from)) / DAY_MS + 1;
+  if (days > MAX_SERIES_DAYS) {
+    throw new Error(`Ranges are limited to ${MAX_SERIES_DAYS} days`);
+  }
+
+  const rows = await db
+    .select({ day: table.day, ...gainSums(table) })
+    .from(table)
+    .where(and(where, inRange(table, range.from, range.to)))
+    .groupBy(table.day)
+    .orderBy(table.day);
+
+  return fillDays(range.from, range.to, rows);
+}
+
+async function getTotals(
+  db: Database,
+  table: DailyStatsTable,
+  where: SQL | undefined,
+  range: { from?: string; to?: string },
+) {
+  const [totals] = await db
+    .select(gainSums(table))
+    .from(table)
+    .where(and(where, inRange(table, range.from, range.to)));
+
+  return totals ?? { views: 0, likes: 0, comments: 0, shares: 0 };
+}
+
+/**
+ * Clips ranked by views gained in the range, with what they have now
+ */
+async function getClipGains(
+  db: Database,
+  params: {
+    where: SQL | undefined;
+    from?: string;
+    to?: string;
+    limit: number;
+    offset: number;
+  },
+) {
+  const where = and(
+    params.where,
+    inRange(clipDailyStats, params.from, params.to),
+  );
+  const gains = gainSums(clipDailyStats);
+
+  const rows = await db
+    .select({ clipId: clipDailyStats.clipId, ...gains })
+    .from(clipDailyStats)
+    .innerJoin(clip, eq(clip.id, clipDailyStats.clipId))
+    .where(where)
+    .groupBy(clipDailyStats.clipId)
+    .orderBy(desc(gains.views), clipDailyStats.clipId)
+    .limit(params.limit)
+    .offset(params.offset);
+
+  const [totals] = await db
+    .select({ total: countDistinct(clipDailyStats.clipId) })
+    .from(clipDailyStats)
+    .innerJoin(clip, eq(clip.id, clipDailyStats.clipId))
+    .where(where);
+
+  const clipIds = rows.map((row) => row.clipId);
+  const clips =
+    clipIds.length > 0
+      ? await db.query.clip.findMany({
+          where: inArray(clip.id, clipIds),
+          columns: {
+            id: true,
+            title: true,
+            status: true,
+            createdAt: true,
+            publishedAt: true,
+          },
+          with: {
+            user: { columns: { id: true, name: true, email: true } },
+            tiktokAccount: {
+              columns: { id: true, name: true, tiktokUsername: true },
+            },
+          },
+        })
+      : [];
+  const clipsById = new Map(clips.map((c) => [c.id, c]));
+
+  const current =
+    clipIds.length > 0
+      ? await db
+          .selectDistinctOn([clipDailyStats.clipId], {
+            clipId: clipDailyStats.clipId,
+            views: clipDailyStats.views,
+            likes: clipDailyStats.likes,
+            comments: clipDailyStats.comments,
+            shares: clipDailyStats.shares,
+          })
+          .from(clipDailyStats)
+          .where(inArray(clipDailyStats.clipId, clipIds))
+          .orderBy(clipDailyStats.clipId, desc(clipDailyStats.day))
+      : [];
+  const currentById = new Map(current.map((c) => [c.clipId, c]));
+
+  return {
+    clips: rows.flatMap(({ clipId, ...gained }) => {
+      const details = clipsById.get(clipId);
+      if (!details) return [];
+      const latest = currentById.get(clipId);
+      return [
+        {
+          ...details,
+          gained,
+          latestStats: latest
+            ? {
+                views: latest.views,
+                likes: latest.likes,
+                comments: latest.comments,
+                shares: latest.shares,
+              }
+            : null,
+        },
+      ];
+    }),
+    total: totals?.total ?? 0,
+  };
+}
+
+export const analyticsRouter = {
+  /**
+   * Gains per day over a range, for everything or one clip, account, creator
+   * or campaign. Days without activity are returned as zeros.
+   */
+  timeSeries: permissionProcedure("analytics.read")
+    .input(RangeInput.and(ScopeInput))
+    .query(async ({ ctx, input }) => {
+      const { table, where } = resolveScope(
+        ctx.db,
+        ctx.organizationId,
+        input.scope,
+        input.id,
+      );
+      return getSeries(ctx.db, table, where, input);
+    }),
+
+  /**
+   * Gains summed over a range. Without a range this is the current total.
+   */
+  totals: permissionProcedure("analytics.read")
+    .input(
+      ScopeInput.extend({
+        from: z.iso.date().optional(),
+        to: z.iso.date().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const { table, where } = resolveScope(
+        ctx.db,
+        ctx.organizationId,
+        input.scope,
+        input.id,
+      );
+      return getTotals(ctx.db, table, where, input);
+    }),
+
+  /**
+   * Clips ranked by views gained over a range, optionally for one creator
+   */
+  clips: permissionProcedure("analytics.read")
+    .input(
+      z.object({
+        userId: z.string().optional(),
+        from: z.iso.date().optional(),
+        to: z.iso.date().optional(),
+        limit: z.number().min(1).max(100).default(10),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return getClipGains(ctx.db, {
+        where: and(
+          input.userId ? eq(clip.userId, input.userId) : undefined,
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
+        from: input.from,
+        to: input.to,
+        limit: input.limit,
+        offset: input.offset,
+      });
+    }),
+
+  /**
+   * Creators ranked by views gained over a range
+   */
+  topCreators: permissionProcedure("analytics.read")
+    .input(
+      z.object({
+        from: z.iso.date().optional(),
+        to: z.iso.date().optional(),
+        limit: z.number().min(1).max(50).default(10),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const gains = gainSums(creatorDailyStats);
+
+      return ctx.db
+        .select({
+          user: { id: user.id, name: user.name, email: user.email },
+          ...gains,
+        })
+        .from(creatorDailyStats)
+        .innerJoin(user, eq(user.id, creatorDailyStats.userId))
+        .where(
+          and(
+            inRange(creatorDailyStats, input.from, input.to),
+            userInOrganization(
+              ctx.db,
+              ctx.organizationId,
+              creatorDailyStats.userId,
+            ),
+          ),
+        )
+        .groupBy(user.id, user.name, user.email)
+        .orderBy(desc(gains.views))
+        .limit(input.limit);
+    }),
+
+  /**
+   * A clip's growth curve since publishing against its account's median curve
+   */
+  clipPerformance: permissionProcedure("analytics.read")
+    .input(z.object({ clipId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const target = await ctx.db.query.clip.findFirst({
+        where: and(
+          eq(clip.id, input.clipId),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
+      });
+      if (!target) {
+        throw new Error("Clip not found");
+      }
+
+      return getClipPerformance(ctx.db, target);
+    }),
+
+  /**
+   * Clips published in the last week that are breaking out or
+   * underperforming, judged by their latest velocity score
+   */
+  velocityAlerts: permissionProcedure("analytics.read").query(
+    async ({ ctx }) => {
+      return getVelocityAlerts(ctx.db, ctx.organizationId);
+    },
+  ),
+
+  /**
+   * Daily gains, totals and per-clip numbers for the TikTok accounts assigned
+   * to the current user
+   */
+  myAccounts: protectedProcedure
+    .input(RangeInput)
+    .query(async ({ ctx, input }) => {
+      const links = await ctx.db.query.userTiktokAccount.findMany({
+        where: eq(userTiktokAccount.userId, ctx.session.user.id),
+        orderBy: desc(userTiktokAccount.createdAt),
+        with: {
+          tiktokAccount: {
+            columns: {
+              id: true,
+              name: true,
+              tiktokUsername: true,
+            },
+          },
+        },
+      });
+
+      const assignedAccounts = links.map((l) => l.tiktokAccount);
+      const accountIds = assignedAccounts.map((a) => a.id);
+
+      if (accountIds.length === 0) {
+        return {
+          assignedAccounts,
+          series: fillDays(input.from, input.to, []),
+          totals: { views: 0, likes: 0, comments: 0, shares: 0 },
+          clips: [],
+        };
+      }
+
+      const accountFilter = inArray(
+        accountDailyStats.tiktokAccountId,
+        accountIds,
+      );
+      const series = await getSeries(
+        ctx.db,
+        accountDailyStats,
+        accountFilter,
+        input,
+      );
+      const totals = await getTotals(
+        ctx.db,
+        accountDailyStats,
+        accountFilter,
+        {},
+      );
+      const { clips } = await getClipGains(ctx.db, {
+        where: inArray(clip.tiktokAccountId, accountIds),
+        from: input.from,
+        to: input.to,
+        limit: 100,
+        offset: 0,
+      });
+
+      return { assignedAccounts, series, totals, clips };
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,107 @@
+/**
+ * Audit Log Router
+ *
+ * Search the append-only record of staff mutations written by the audit
+ * middleware (see services/audit-log). There is deliberately no way to edit
+ * or delete entries.
+ */
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import type { SQL } from "@everylab/db";
+import {
+  and,
+  arrayContains,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  lt,
+} from "@everylab/db";
+import { auditLog, auditLogStatusEnum } from "@everylab/db/schema";
+
+import { inOrganization } from "../services/organizations";
+import { adminProcedure } from "../trpc";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const auditLogRouter = {
+  /**
+   * Entries matching the filters, newest first. `to` is inclusive.
+   */
+  list: adminProcedure
+    .input(
+      z.object({
+        actorId: z.string().optional(),
+        path: z.string().max(256).optional(),
+        status: z.enum(auditLogStatusEnum.enumValues).optional(),
+        targetId: z.string().max(256).optional(),
+        from: z.iso.date().optional(),
+        to: z.iso.date().optional(),
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const conditions: (SQL | undefined)[] = [
+        inOrganization(ctx.organizationId, auditLog.organizationId),
+      ];
+      if (input.actorId) {
+        conditions.push(eq(auditLog.actorId, input.actorId));
+      }
+      if (input.path) {
+        conditions.push(eq(auditLog.path, input.path));
+      }
+      if (input.status) {
+        conditions.push(eq(auditLog.status, input.status));
+      }
+      if (input.targetId) {
+        conditions.push(arrayContains(auditLog.targetIds, [input.targetId]));
+      }
+      if (input.from) {
+        conditions.push(gte(auditLog.createdAt, new Date(input.from)));
+      }
+      if (input.to) {
+        conditions.push(
+          lt(
+            auditLog.createdAt,
+            new Date(new Date(input.to).getTime() + DAY_MS),
+          ),
+        );
+      }
+      const where = and(...conditions);
+
+      const items = await ctx.db.query.auditLog.findMany({
+        where,
+        orderBy: [desc(auditLog.createdAt)],
+        limit: input.limit,
+        offset: input.offset,
+        with: {
+          actor: {
+            columns: { id: true, name: true, email: true },
+          },
+        },
+      });
+
+      const [totals] = await ctx.db
+        .select({ total: count() })
+        .from(auditLog)
+        .where(where);
+
+      return { items, total: totals?.total ?? 0 };
+    }),
+
+  /**
+   * Procedures that appear in the log, for the filter dropdown
+   */
+  paths: adminProcedure.query(async ({ ctx }) => {
+    const rows = await ctx.db
+      .selectDistinct({ path: auditLog.path })
+      .from(auditLog)
+      .where(inOrganization(ctx.organizationId, auditLog.organizationId))
+      .orderBy(asc(auditLog.path));
+
+    return rows.map((r) => r.path);
+  }),
+} satisfies TRPCRouterRecord;
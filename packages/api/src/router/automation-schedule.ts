@@ -0,0 +1,238 @@
+/**
+ * Automation Schedule Router
+ *
+ * Admin and operator management of recurring random-like, comment and warmup
+ * schedules. The `automation-schedules` job does the actual runs.
+ */
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, count, desc, eq, gte, inArray } from "@everylab/db";
+import {
+  automationSchedule,
+  cloudPhone,
+  CreateAutomationScheduleSchema,
+  geelarkTask,
+  UpdateAutomationScheduleSchema,
+} from "@everylab/db/schema";
+
+import { computeNextRun } from "../services/automation-schedules";
+import { inOrganization } from "../services/organizations";
+import { resolveTimeZone } from "../services/posting-calendar";
+import { permissionProcedure } from "../trpc";
+
+// Window for the per-schedule task counts shown in the list
+const RECENT_TASK_DAYS = 7;
+
+/**
+ * Matches one schedule, as long as it belongs to the organization
+ */
+function scheduleInScope(id: string, organizationId: string | null) {
+  return and(
+    eq(automationSchedule.id, id),
+    inOrganization(organizationId, automationSchedule.organizationId),
+  );
+}
+
+/**
+ * Check the time zone and cron spec up front, so a bad schedule fails on save
+ * instead of in the job. Returns the first run.
+ */
+function firstRunAt(
+  schedule: z.infer<typeof CreateAutomationScheduleSchema>,
+): Date {
+  const timeZone = schedule.timeZone ?? "UTC";
+  if (resolveTimeZone(timeZone) !== timeZone) {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+
+  return computeNextRun(
+    {
+      mode: schedule.mode,
+      cronExpression: schedule.cronExpression ?? null,
+      timesPerDay: schedule.timesPerDay ?? null,
+      timeZone,
+    },
+    new Date(),
+  );
+}
+
+export const automationScheduleRouter = {
+  /**
+   * List schedules with task counts by status for the last week
+   */
+  list: permissionProcedure("devices.operate").query(async ({ ctx }) => {
+    const schedules = await ctx.db.query.automationSchedule.findMany({
+      where: inOrganization(
+        ctx.organizationId,
+        automationSchedule.organizationId,
+      ),
+      orderBy: [desc(automationSchedule.createdAt)],
+    });
+
+    const taskCounts =
+      schedules.length > 0
+        ? await ctx.db
+            .select({
+              scheduleId: geelarkTask.automationScheduleId,
+              status: geelarkTask.status,
+              total: count(),
+            })
+            .from(geelarkTask)
+            .where(
+              and(
+                inArray(
+                  geelarkTask.automationScheduleId,
+                  schedules.map((s) => s.id),
+                ),
+                gte(
+                  geelarkTask.createdAt,
+                  new Date(Date.now() - RECENT_TASK_DAYS * 24 * 60 * 60 * 1000),
+                ),
+              ),
+            )
+            .groupBy(geelarkTask.automationScheduleId, geelarkTask.status)
+        : [];
+
+    return schedules.map((schedule) => {
+      const recentTasks: Record<string, number> = {};
+      for (const row of taskCounts) {
+        if (row.scheduleId === schedule.id) {
+          recentTasks[row.status] = row.total;
+        }
+      }
+      return { ...schedule, recentTasks };
+    });
+  }),
+
+  /**
+   * Every tag found on synced cloud phones, for targeting by tag
+   */
+  tags: permissionProcedure("devices.operate").query(async ({ ctx }) => {
+    const phones = await ctx.db.query.cloudPhone.findMany({
+      where: inOrganization(ctx.organizationId, cloudPhone.organizationId),
+      columns: { tags: true },
+    });
+    return [...new Set(phones.flatMap((p) => p.tags))].sort();
+  }),
+
+  /**
+   * Create a schedule. It starts active, with its first run computed now.
+   */
+  create: permissionProcedure("devices.operate")
+    .input(CreateAutomationScheduleSchema)
+    .mutation(async ({ ctx, input }) => {
+      const nextRunAt = firstRunAt(input);
+
+      const [schedule] = await ctx.db
+        .insert(automationSchedule)
+        .values({
+          ...input,
+          nextRunAt,
+          organizationId: ctx.organizationId,
+          createdById: ctx.session.user.id,
+        })
+        .returning();
+
+      console.log(
+        `[Automation Schedules] Created "${input.name}", first run at ${nextRunAt.toISOString()}`,
+      );
+
+      return schedule;
+    }),
+
+  /**
+   * Replace a schedule's spec. Active schedules get their next run recomputed.
+   */
+  update: permissionProcedure("devices.operate")
+    .input(UpdateAutomationScheduleSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+
+      const existing = await ctx.db.query.automationSchedule.findFirst({
+        where: scheduleInScope(id, ctx.organizationId),
+        columns: { status: true },
+      });
+
+      if (!existing) {
+        throw new Error("Automation schedule not found");
+      }
+
+      const nextRunAt = firstRunAt(data);
+
+      const [updated] = await ctx.db
+        .update(automationSchedule)
+        .set({
+          ...data,
+          ...(existing.status === "active" && { nextRunAt }),
+          updatedAt: new Date(),
+        })
+        .where(eq(automationSchedule.id, id))
+        .returning({ id: automationSchedule.id });
+
+      return updated;
+    }),
+
+  /**
+   * Delete a schedule. Tasks it already created stay in GeeLark.
+   */
+  delete: permissionProcedure("devices.operate")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(automationSchedule)
+        .where(scheduleInScope(input.id, ctx.organizationId));
+
+      return { success: true };
+    }),
+
+  /**
+   * Stop a schedule from running until it is resumed
+   */
+  pause: permissionProcedure("devices.operate")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [updated] = await ctx.db
+        .update(automationSchedule)
+        .set({ status: "paused", nextRunAt: null, updatedAt: new Date() })
+        .where(scheduleInScope(input.id, ctx.organizationId))
+        .returning({ id: automationSchedule.id });
+
+      if (!updated) {
+        throw new Error("Automation schedule not found");
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Resume a paused schedule from its next run after now. Runs missed while
+   * paused are skipped.
+   */
+  resume: permissionProcedure("devices.operate")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const schedule = await ctx.db.query.automationSchedule.findFirst({
+        where: scheduleInScope(input.id, ctx.organizationId),
+      });
+
+      if (!schedule) {
+        throw new Error("Automation schedule not found");
+      }
+
+      const [updated] = await ctx.db
+        .update(automationSchedule)
+        .set({
+          status: "active",
+          nextRunAt: computeNextRun(schedule, new Date()),
+          updatedAt: new Date(),
+        })
+        .where(eq(automationSchedule.id, schedule.id))
+        .returning({
+          id: automationSchedule.id,
+          nextRunAt: automationSchedule.nextRunAt,
+        });
+
+      return updated;
+    }),
+} satisfies TRPCRouterRecord;
@@ -1,29 +1,120 @@
 /**
  * Campaign Router
  *
- * Handles campaign management for admins
+ * Handles campaign management for admins, and lets creators browse active
+ * campaigns and join them before submitting clips against their brief
  */
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { desc, eq, sql } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  or,
+  sql,
+} from "@everylab/db";
 import {
   campaign,
   campaignClip,
+  campaignEnrollment,
   clip,
   clipStats,
   CreateCampaignSchema,
   UpdateCampaignSchema,
 } from "@everylab/db/schema";
 
+import {
+  getSessionOrganizationId,
+  inOrganization,
+  sameOrganization,
+  userInOrganization,
+} from "../services/organizations";
 import { adminProcedure, protectedProcedure } from "../trpc";
 
+/**
+ * Matches one campaign, as long as it belongs to the organization
+ */
+function campaignInScope(id: string, organizationId: string | null) {
+  return and(
+    eq(campaign.id, id),
+    inOrganization(organizationId, campaign.organizationId),
+  );
+}
+
+/**
+ * Campaigns with their brief, how many creators have joined, and the given
+ * creator's own enrollment and clip count
+ */
+async function getCreatorCampaigns(
+  db: Database,
+  userId: string,
+  campaignIds: string[],
+) {
+  if (campaignIds.length === 0) return [];
+
+  const campaigns = await db.query.campaign.findMany({
+    where: inArray(campaign.id, campaignIds),
+    orderBy: [asc(campaign.submissionDeadline), desc(campaign.createdAt)],
+  });
+
+  const enrollmentCounts = await db
+    .select({ campaignId: campaignEnrollment.campaignId, total: count() })
+    .from(campaignEnrollment)
+    .where(inArray(campaignEnrollment.campaignId, campaignIds))
+    .groupBy(campaignEnrollment.campaignId);
+
+  const myEnrollments = await db.query.campaignEnrollment.findMany({
+    where: and(
+      eq(campaignEnrollment.userId, userId),
+      inArray(campaignEnrollment.campaignId, campaignIds),
+    ),
+    columns: { campaignId: true, createdAt: true },
+  });
+
+  const myClipCounts = await db
+    .select({ campaignId: campaignClip.campaignId, total: count() })
+    .from(campaignClip)
+    .innerJoin(clip, eq(campaignClip.clipId, clip.id))
+    .where(
+      and(
+        eq(clip.userId, userId),
+        inArray(campaignClip.campaignId, campaignIds),
+      ),
+    )
+    .groupBy(campaignClip.campaignId);
+
+  const enrolledByCampaign = new Map(
+    enrollmentCounts.map((row) => [row.campaignId, row.total]),
+  );
+  const enrolledAtByCampaign = new Map(
+    myEnrollments.map((e) => [e.campaignId, e.createdAt]),
+  );
+  const myClipsByCampaign = new Map(
+    myClipCounts.map((row) => [row.campaignId, row.total]),
+  );
+
+  return campaigns.map((c) => ({
+    ...c,
+    enrolledCreators: enrolledByCampaign.get(c.id) ?? 0,
+    enrolledAt: enrolledAtByCampaign.get(c.id) ?? null,
+    myClipsCount: myClipsByCampaign.get(c.id) ?? 0,
+  }));
+}
+
 export const campaignRouter = {
   /**
    * List all campaigns (admin only)
    */
   list: adminProcedure.query(async ({ ctx }) => {
     const campaigns = await ctx.db.query.campaign.findMany({
+      where: inOrganization(ctx.organizationId, campaign.organizationId),
       orderBy: desc(campaign.createdAt),
       with: {
         campaignClips: {
@@ -35,11 +126,14 @@ export const campaignRouter = {
             },
           },
         },
+        enrollments: {
+          columns: { id: true },
+        },
       },
     });
 
     // Calculate totals for each campaign
-    return campaigns.map((c) => {
+    return campaigns.map(({ enrollments, ...c }) => {
       const totalClips = c.campaignClips.length;
       const uniqueCreators = new Set(
         c.campaignClips.map((cc) => cc.clip.userId),
@@ -49,6 +143,7 @@ export const campaignRouter = {
         ...c,
         totalClips,
         uniqueCreators,
+        enrolledCreators: enrollments.length,
       };
     });
   }),
@@ -60,8 +155,14 @@ export const campaignRouter = {
     .input(z.object({ id: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
       return ctx.db.query.campaign.findFirst({
-        where: eq(campaign.id, input.id),
+        where: campaignInScope(input.id, ctx.organizationId),
         with: {
+          enrollments: {
+            orderBy: asc(campaignEnrollment.createdAt),
+            with: {
+              user: { columns: { id: true, name: true, email: true } },
+            },
+          },
           campaignClips: {
             with: {
               clip: {
@@ -87,7 +188,7 @@ export const campaignRouter = {
     .mutation(async ({ ctx, input }) => {
       const [newCampaign] = await ctx.db
         .insert(campaign)
-        .values(input)
+        .values({ ...input, organizationId: ctx.organizationId })
         .returning();
 
       return newCampaign;
@@ -107,7 +208,7 @@ export const campaignRouter = {
       const [updated] = await ctx.db
         .update(campaign)
         .set(input.data)
-        .where(eq(campaign.id, input.id))
+        .where(campaignInScope(input.id, ctx.organizationId))
         .returning();
 
       return updated;
@@ -119,7 +220,9 @@ export const campaignRouter = {
   delete: adminProcedure
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
-      await ctx.db.delete(campaign).where(eq(campaign.id, input.id));
+      await ctx.db
+        .delete(campaign)
+        .where(campaignInScope(input.id, ctx.organizationId));
       return { success: true };
     }),
 
@@ -134,6 +237,25 @@ export const campaignRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const target = await ctx.db.query.campaign.findFirst({
+        where: campaignInScope(input.campaignId, ctx.organizationId),
+        columns: { id: true },
+      });
+      if (!target) {
+        throw new Error("Campaign not found");
+      }
+
+      const clips = await ctx.db.query.clip.findMany({
+        where: and(
+          inArray(clip.id, input.clipIds),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
+        columns: { id: true },
+      });
+      if (clips.length !== new Set(input.clipIds).size) {
+        throw new Error("Clip not found");
+      }
+
       const values = input.clipIds.map((clipId) => ({
         campaignId: input.campaignId,
         clipId,
@@ -154,6 +276,14 @@ export const campaignRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const target = await ctx.db.query.campaign.findFirst({
+        where: campaignInScope(input.campaignId, ctx.organizationId),
+        columns: { id: true },
+      });
+      if (!target) {
+        throw new Error("Campaign not found");
+      }
+
       await ctx.db
         .delete(campaignClip)
         .where(
@@ -163,51 +293,117 @@ export const campaignRouter = {
     }),
 
   /**
-   * Get campaigns for a specific user (for creators to see their campaigns)
+   * Active campaigns of the creator's organization they can browse, with
+   * whether the current user has joined and how many clips they've put in
    */
-  myList: protectedProcedure.query(async ({ ctx }) => {
-    // Find all clips belonging to this user that are in campaigns
-    const userClips = await ctx.db.query.clip.findMany({
-      where: eq(clip.userId, ctx.session.user.id),
-      with: {
-        campaignClips: {
-          with: {
-            campaign: true,
-          },
-        },
-      },
+  browse: protectedProcedure.query(async ({ ctx }) => {
+    const active = await ctx.db.query.campaign.findMany({
+      where: and(
+        eq(campaign.status, "active"),
+        sameOrganization(
+          getSessionOrganizationId(ctx.session),
+          campaign.organizationId,
+        ),
+        or(isNull(campaign.endDate), gt(campaign.endDate, new Date())),
+      ),
+      columns: { id: true },
     });
 
-    // Extract unique campaigns with type-safe map
-    const campaignsMap = new Map<
-      string,
-      {
-        id: string;
-        name: string;
-        description: string | null;
-        status: string;
-        myClipsCount: number;
+    return getCreatorCampaigns(
+      ctx.db,
+      ctx.session.user.id,
+      active.map((c) => c.id),
+    );
+  }),
+
+  /**
+   * Join an active campaign. Joining twice is a no-op.
+   */
+  join: protectedProcedure
+    .input(z.object({ campaignId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.campaign.findFirst({
+        where: and(
+          eq(campaign.id, input.campaignId),
+          sameOrganization(
+            getSessionOrganizationId(ctx.session),
+            campaign.organizationId,
+          ),
+        ),
+        columns: {
+          id: true,
+          name: true,
+          status: true,
+          enrollmentDeadline: true,
+        },
+      });
+
+      if (existing?.status !== "active") {
+        throw new Error("Campaign not found or not accepting creators");
       }
-    >();
-
-    for (const c of userClips) {
-      for (const cc of c.campaignClips) {
-        const campaignData = cc.campaign;
-        let existing = campaignsMap.get(campaignData.id);
-        if (!existing) {
-          existing = {
-            id: campaignData.id,
-            name: campaignData.name,
-            description: campaignData.description,
-            status: campaignData.status,
-            myClipsCount: 0,
-          };
-          campaignsMap.set(campaignData.id, existing);
-        }
-        existing.myClipsCount += 1;
+
+      if (
+        existing.enrollmentDeadline &&
+        existing.enrollmentDeadline.getTime() < Date.now()
+      ) {
+        throw new Error("The enrollment deadline for this campaign has passed");
       }
-    }
 
-    return Array.from(campaignsMap.values());
+      await ctx.db
+        .insert(campaignEnrollment)
+        .values({ campaignId: existing.id, userId: ctx.session.user.id })
+        .onConflictDoNothing();
+
+      console.log(
+        `[Campaign] User ${ctx.session.user.id} joined "${existing.name}"`,
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Leave a campaign. Clips already submitted to it stay in it.
+   */
+  leave: protectedProcedure
+    .input(z.object({ campaignId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(campaignEnrollment)
+        .where(
+          and(
+            eq(campaignEnrollment.campaignId, input.campaignId),
+            eq(campaignEnrollment.userId, ctx.session.user.id),
+          ),
+        );
+
+      return { success: true };
+    }),
+
+  /**
+   * Campaigns the current user has joined or has clips in
+   */
+  myList: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
+
+    const enrollments = await ctx.db.query.campaignEnrollment.findMany({
+      where: eq(campaignEnrollment.userId, userId),
+      columns: { campaignId: true },
+    });
+
+    // Clips an admin added to a campaign count too, even without enrolling
+    const clipCampaigns = await ctx.db
+      .selectDistinct({ campaignId: campaignClip.campaignId })
+      .from(campaignClip)
+      .innerJoin(clip, eq(campaignClip.clipId, clip.id))
+      .where(eq(clip.userId, userId));
+
+    const campaignIds = [
+      ...new Set([
+        ...enrollments.map((e) => e.campaignId),
+        ...clipCampaigns.map((c) => c.campaignId),
+      ]),
+    ];
+
+    return getCreatorCampaigns(ctx.db, userId, campaignIds);
   }),
 } satisfies TRPCRouterRecord;
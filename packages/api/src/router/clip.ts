@@ -6,47 +6,83 @@
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { and, desc, eq } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
+import { and, asc, desc, eq } from "@everylab/db";
 import {
+  campaign,
+  campaignClip,
+  campaignEnrollment,
   clip,
+  clipPublishAttempt,
+  clipReview,
   clipStats,
   clipStatusEnum,
+  clipTypeEnum,
   UpdateClipSchema,
 } from "@everylab/db/schema";
 import { createStorageFromEnv } from "@everylab/storage";
 
+import { findClipDuplicates } from "../services/clip-fingerprint";
+import { setClipCover } from "../services/clip-media";
+import { getClipPerformance } from "../services/clip-performance";
+import { verifyUploadedImages } from "../services/image-ingest";
+import { ingestUploadedVideo } from "../services/video-ingest";
+import { emitClipEvent } from "../services/webhooks";
 import { protectedProcedure } from "../trpc";
 
 // Valid clip status values
 const clipStatusValues = clipStatusEnum.enumValues;
 
-function extractStorageKeyFromPublicUrl(args: {
-  storage: ReturnType<typeof createStorageFromEnv>;
-  publicUrl: string;
+/**
+ * Why a clip's media isn't ready to publish, or null if it is. Video clips
+ * need a video, carousels at least one image.
+ */
+function getClipMediaError(args: {
+  type: (typeof clipTypeEnum.enumValues)[number];
+  videoUrl?: string | null;
+  imageUrls?: string[];
 }): string | null {
-  const probeKey = "__probe_key__";
-  const probeUrl = new URL(args.storage.getPublicUrl(probeKey));
-  // Remove the probeKey segment to get the base path prefix used by getPublicUrl()
-  probeUrl.pathname = probeUrl.pathname.replace(/\/__probe_key__$/, "");
-
-  let candidate: URL;
-  try {
-    candidate = new URL(args.publicUrl);
-  } catch {
-    return null;
+  if (args.type === "carousel") {
+    return args.imageUrls?.length ? null : "Add at least one carousel image";
+  }
+  return args.videoUrl ? null : "Upload a video first";
+}
+
+/**
+ * Throws unless the campaign is active, the creator has joined it and its
+ * submission deadline hasn't passed
+ */
+async function assertCanSubmitToCampaign(
+  db: Database,
+  campaignId: string,
+  userId: string,
+) {
+  const target = await db.query.campaign.findFirst({
+    where: eq(campaign.id, campaignId),
+    columns: { status: true, submissionDeadline: true },
+  });
+
+  if (target?.status !== "active") {
+    throw new Error("Campaign not found or not accepting submissions");
   }
 
-  if (candidate.origin !== probeUrl.origin) return null;
-  if (!candidate.pathname.startsWith(probeUrl.pathname)) return null;
+  if (
+    target.submissionDeadline &&
+    target.submissionDeadline.getTime() < Date.now()
+  ) {
+    throw new Error("The submission deadline for this campaign has passed");
+  }
 
-  let key = candidate.pathname.slice(probeUrl.pathname.length);
-  if (key.startsWith("/")) key = key.slice(1);
-  if (!key) return null;
+  const enrollment = await db.query.campaignEnrollment.findFirst({
+    where: and(
+      eq(campaignEnrollment.campaignId, campaignId),
+      eq(campaignEnrollment.userId, userId),
+    ),
+    columns: { id: true },
+  });
 
-  try {
-    return decodeURIComponent(key);
-  } catch {
-    return key;
+  if (!enrollment) {
+    throw new Error("Join the campaign before submitting clips to it");
   }
 }
 
@@ -182,6 +218,15 @@ export const clipRouter = {
             orderBy: desc(clipStats.recordedAt),
             limit: 30, // Last 30 data points for charts
           },
+          publishAttempts: {
+            orderBy: asc(clipPublishAttempt.attempt),
+          },
+          reviews: {
+            orderBy: asc(clipReview.createdAt),
+            with: {
+              author: { columns: { id: true, name: true, role: true } },
+            },
+          },
         },
       });
 
@@ -194,24 +239,93 @@ export const clipRouter = {
     }),
 
   /**
-   * Create a new clip (draft)
+   * Reply in the review thread of one of the user's clips
+   */
+  addReviewComment: protectedProcedure
+    .input(
+      z.object({
+        clipId: z.string().uuid(),
+        body: z.string().trim().min(1).max(2000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.clip.findFirst({
+        where: eq(clip.id, input.clipId),
+      });
+
+      if (!existing || existing.userId !== ctx.session.user.id) {
+        throw new Error("Clip not found or access denied");
+      }
+
+      const [comment] = await ctx.db
+        .insert(clipReview)
+        .values({
+          clipId: input.clipId,
+          authorId: ctx.session.user.id,
+          kind: "comment",
+          body: input.body,
+        })
+        .returning();
+
+      return comment;
+    }),
+
+  /**
+   * Create a new clip (draft). Video clips need `videoUrl`, which is probed
+   * and refused if TikTok won't take it; carousels need `imageUrls` in
+   * posting order and can borrow the sound of a TikTok video.
    */
   create: protectedProcedure
     .input(
       z.object({
+        type: z.enum(clipTypeEnum.enumValues).default("video"),
         title: z.string().min(1).max(256),
         description: z.string().optional(),
-        videoUrl: z.url(),
+        videoUrl: z.url().optional(),
+        imageUrls: z.array(z.url()).max(35).optional(),
+        soundVideoId: z.string().regex(/^\d+$/).optional(),
+        soundVolume: z.number().int().min(0).max(100).optional(),
         scheduledAt: z.date().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const mediaError = getClipMediaError(input);
+      if (mediaError) {
+        throw new Error(mediaError);
+      }
+
+      const isCarousel = input.type === "carousel";
+
+      if (isCarousel && input.imageUrls) {
+        await verifyUploadedImages(createStorageFromEnv(), {
+          imageUrls: input.imageUrls,
+          userId: ctx.session.user.id,
+        });
+      }
+
+      const videoMetadata =
+        !isCarousel && input.videoUrl
+          ? await ingestUploadedVideo(createStorageFromEnv(), {
+              videoUrl: input.videoUrl,
+              userId: ctx.session.user.id,
+            })
+          : null;
+
       const [newClip] = await ctx.db
         .insert(clip)
         .values({
+          type: input.type,
           title: input.title,
           description: input.description,
-          videoUrl: input.videoUrl,
+          videoUrl: isCarousel ? null : input.videoUrl,
+          durationSeconds: videoMetadata
+            ? Math.round(videoMetadata.durationSeconds)
+            : null,
+          videoMetadata,
+          imageUrls: isCarousel ? input.imageUrls : [],
+          thumbnailUrl: isCarousel ? input.imageUrls?.[0] : undefined,
+          soundVideoId: isCarousel ? input.soundVideoId : undefined,
+          soundVolume: isCarousel ? input.soundVolume : undefined,
           scheduledAt: input.scheduledAt,
           userId: ctx.session.user.id,
           status: "draft",
@@ -226,10 +340,16 @@ export const clipRouter = {
     }),
 
   /**
-   * Submit a clip for review
+   * Submit a clip for review, optionally against a campaign the creator has
+   * joined
    */
   submit: protectedProcedure
-    .input(z.object({ id: z.string().uuid() }))
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        campaignId: z.string().uuid().optional(),
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
       // Verify ownership
       const existing = await ctx.db.query.clip.findFirst({
@@ -249,6 +369,11 @@ export const clipRouter = {
         throw new Error("Only draft clips can be submitted for review");
       }
 
+      const mediaError = getClipMediaError(existing);
+      if (mediaError) {
+        throw new Error(mediaError);
+      }
+
       if (!existing.description?.trim()) {
         throw new Error("Add a caption before submitting for review");
       }
@@ -266,17 +391,61 @@ export const clipRouter = {
         throw new Error("Publish time must be at least 1 minute in the future");
       }
 
+      // Exact copies are refused outright; near-identical ones are left for
+      // the reviewer, who sees them when approving. The media job
+      // fingerprints uploads, so a failed check doesn't block submission.
+      let duplicates: Awaited<ReturnType<typeof findClipDuplicates>> = [];
+      try {
+        duplicates = await findClipDuplicates(ctx.db, input.id);
+      } catch (error) {
+        console.error(
+          `[Clip] Failed to check clip ${input.id} for duplicates:`,
+          error,
+        );
+      }
+      if (duplicates.some((duplicate) => duplicate.match === "exact")) {
+        throw new Error(
+          "This video has already been submitted or posted. Upload a video that hasn't been posted before.",
+        );
+      }
+
+      if (input.campaignId) {
+        await assertCanSubmitToCampaign(
+          ctx.db,
+          input.campaignId,
+          ctx.session.user.id,
+        );
+      }
+
       const [updated] = await ctx.db
         .update(clip)
         .set({ status: "pending" })
         .where(eq(clip.id, input.id))
         .returning();
 
+      if (input.campaignId) {
+        const linked = await ctx.db.query.campaignClip.findFirst({
+          where: and(
+            eq(campaignClip.campaignId, input.campaignId),
+            eq(campaignClip.clipId, input.id),
+          ),
+          columns: { id: true },
+        });
+        if (!linked) {
+          await ctx.db
+            .insert(campaignClip)
+            .values({ campaignId: input.campaignId, clipId: input.id });
+        }
+      }
+
+      await emitClipEvent(ctx.db, "clip.submitted", input.id);
+
       return updated;
     }),
 
   /**
-   * Update a clip
+   * Update a clip. A new `videoUrl` is probed, and new `imageUrls` checked,
+   * like on create.
    */
   update: protectedProcedure
     .input(
@@ -295,15 +464,76 @@ export const clipRouter = {
         throw new Error("Clip not found or access denied");
       }
 
+      const { videoUrl, imageUrls } = input.data;
+
+      if (imageUrls) {
+        await verifyUploadedImages(createStorageFromEnv(), {
+          imageUrls,
+          userId: ctx.session.user.id,
+        });
+      }
+
+      let video: Partial<typeof clip.$inferInsert> = {};
+      if (videoUrl !== undefined && videoUrl !== existing.videoUrl) {
+        const videoMetadata = videoUrl
+          ? await ingestUploadedVideo(createStorageFromEnv(), {
+              videoUrl,
+              userId: ctx.session.user.id,
+            })
+          : null;
+        // Queue the new video for the media worker
+        video = {
+          durationSeconds: videoMetadata
+            ? Math.round(videoMetadata.durationSeconds)
+            : null,
+          videoMetadata,
+          thumbnailUrl: null,
+          previewUrl: null,
+          coverTimeMs: null,
+          mediaProcessedAt: null,
+          mediaError: null,
+          contentHash: null,
+          perceptualHash: null,
+        };
+      }
+
       const [updated] = await ctx.db
         .update(clip)
-        .set(input.data)
+        .set({ ...input.data, ...video })
         .where(eq(clip.id, input.id))
         .returning();
 
       return updated;
     }),
 
+  /**
+   * Use the frame `timeMs` into a draft's uploaded video as its thumbnail
+   */
+  setCover: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        timeMs: z.number().int().min(0),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.clip.findFirst({
+        where: eq(clip.id, input.id),
+      });
+
+      if (!existing || existing.userId !== ctx.session.user.id) {
+        throw new Error("Clip not found or access denied");
+      }
+      if (existing.status !== "draft") {
+        throw new Error("Only draft clips can be edited");
+      }
+      if (existing.type !== "video") {
+        throw new Error("Carousels use their first image as the cover");
+      }
+
+      return setClipCover(ctx.db, existing.id, input.timeMs);
+    }),
+
   /**
    * Delete a clip
    */
@@ -324,24 +554,34 @@ export const clipRouter = {
       const storage = createStorageFromEnv();
       const expectedPrefix = `clips/${ctx.session.user.id}/`;
 
-      const videoKey = extractStorageKeyFromPublicUrl({
-        storage,
-        publicUrl: existing.videoUrl,
-      });
-      if (videoKey?.startsWith(expectedPrefix)) {
-        await storage.delete(videoKey);
-      } else {
-        console.warn(
-          `[Clip] Skipping S3 delete for clip ${existing.id}: could not derive safe key from videoUrl`,
-          { videoUrl: existing.videoUrl, derivedKey: videoKey },
-        );
+      const mediaUrls = existing.videoUrl
+        ? [existing.videoUrl, ...existing.imageUrls]
+        : existing.imageUrls;
+      for (const publicUrl of mediaUrls) {
+        const mediaKey = storage.getKeyFromPublicUrl(publicUrl);
+        if (mediaKey?.startsWith(expectedPrefix)) {
+          await storage.delete(mediaKey);
+        } else {
+          console.warn(
+            `[Clip] Skipping S3 delete for clip ${existing.id}: could not derive safe key from media URL`,
+            { publicUrl, derivedKey: mediaKey },
+          );
+        }
       }
 
-      if (existing.thumbnailUrl) {
-        const thumbKey = extractStorageKeyFromPublicUrl({
-          storage,
-          publicUrl: existing.thumbnailUrl,
-        });
+      if (existing.previewUrl) {
+        const previewKey = storage.getKeyFromPublicUrl(existing.previewUrl);
+        if (previewKey?.startsWith(expectedPrefix)) {
+          await storage.delete(previewKey);
+        }
+      }
+
+      // Carousels use their first image as the thumbnail, deleted above
+      if (
+        existing.thumbnailUrl &&
+        !existing.imageUrls.includes(existing.thumbnailUrl)
+      ) {
+        const thumbKey = storage.getKeyFromPublicUrl(existing.thumbnailUrl);
         if (thumbKey?.startsWith(expectedPrefix)) {
           await storage.delete(thumbKey);
         }
@@ -414,6 +654,24 @@ export const clipRouter = {
       return stats;
     }),
 
+  /**
+   * Get a published clip's growth curve since publishing, compared against
+   * the median curve of its TikTok account's earlier clips
+   */
+  getPerformance: protectedProcedure
+    .input(z.object({ clipId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const existingClip = await ctx.db.query.clip.findFirst({
+        where: eq(clip.id, input.clipId),
+      });
+
+      if (!existingClip || existingClip.userId !== ctx.session.user.id) {
+        throw new Error("Clip not found or access denied");
+      }
+
+      return getClipPerformance(ctx.db, existingClip);
+    }),
+
   /**
    * Note: Stats refresh is now handled by tiktokStats.syncClipStats
    * This endpoint just returns current stats from database
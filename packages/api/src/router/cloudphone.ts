@@ -6,11 +6,12 @@
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { eq, sql } from "@everylab/db";
+import { and, eq, sql } from "@everylab/db";
 import { cloudPhone, tiktokAccount } from "@everylab/db/schema";
 import { GeeLarkClient, geelarkEnv } from "@everylab/geelark";
 
-import { adminProcedure } from "../trpc";
+import { inOrganization } from "../services/organizations";
+import { permissionProcedure } from "../trpc";
 
 // Create GeeLark client instance
 function getGeeLarkClient() {
@@ -25,8 +26,9 @@ export const cloudPhoneRouter = {
    * List all cloud phones from database cache
    * Includes linked TikTok account info
    */
-  list: adminProcedure.query(async ({ ctx }) => {
+  list: permissionProcedure("devices.operate").query(async ({ ctx }) => {
     const phones = await ctx.db.query.cloudPhone.findMany({
+      where: inOrganization(ctx.organizationId, cloudPhone.organizationId),
       orderBy: (cp, { desc }) => desc(cp.lastSyncedAt),
       with: {
         tiktokAccounts: {
@@ -45,11 +47,14 @@ export const cloudPhoneRouter = {
   /**
    * Get a single cloud phone by ID
    */
-  byId: adminProcedure
+  byId: permissionProcedure("devices.operate")
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       const phone = await ctx.db.query.cloudPhone.findFirst({
-        where: eq(cloudPhone.id, input.id),
+        where: and(
+          eq(cloudPhone.id, input.id),
+          inOrganization(ctx.organizationId, cloudPhone.organizationId),
+        ),
         with: {
           tiktokAccounts: {
             columns: {
@@ -65,9 +70,10 @@ export const cloudPhoneRouter = {
     }),
 
   /**
-   * Sync cloud phones from GeeLark API to local database
+   * Sync cloud phones from GeeLark API to local database. New phones don't
+   * belong to an organization until a super-admin assigns them.
    */
-  sync: adminProcedure.mutation(async ({ ctx }) => {
+  sync: permissionProcedure("devices.operate").mutation(async ({ ctx }) => {
     const client = getGeeLarkClient();
 
     // Fetch all cloud phones from GeeLark
@@ -91,6 +97,8 @@ export const cloudPhoneRouter = {
           proxyServer: phone.proxy.server,
           proxyPort: phone.proxy.port,
           countryName: phone.equipmentInfo.countryName,
+          timeZone: phone.equipmentInfo.timeZone,
+          tags: phone.tags.map((tag) => tag.name),
           lastSyncedAt: now,
         })
         .onConflictDoUpdate({
@@ -102,6 +110,8 @@ export const cloudPhoneRouter = {
             proxyServer: phone.proxy.server,
             proxyPort: phone.proxy.port,
             countryName: phone.equipmentInfo.countryName,
+            timeZone: phone.equipmentInfo.timeZone,
+            tags: phone.tags.map((tag) => tag.name),
             lastSyncedAt: now,
             updatedAt: sql`now()`,
           },
@@ -119,7 +129,7 @@ export const cloudPhoneRouter = {
   /**
    * Link a cloud phone to a TikTok account
    */
-  linkToAccount: adminProcedure
+  linkToAccount: permissionProcedure("devices.operate")
     .input(
       z.object({
         cloudPhoneId: z.string(),
@@ -127,12 +137,27 @@ export const cloudPhoneRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const phone = await ctx.db.query.cloudPhone.findFirst({
+        where: and(
+          eq(cloudPhone.id, input.cloudPhoneId),
+          inOrganization(ctx.organizationId, cloudPhone.organizationId),
+        ),
+      });
+      if (!phone) {
+        throw new Error("Cloud phone not found");
+      }
+
       // Update the TikTok account with the cloud phone ID
       // Explicitly set updatedAt to avoid $onUpdateFn serialization issues
       const [updated] = await ctx.db
         .update(tiktokAccount)
         .set({ cloudPhoneId: input.cloudPhoneId, updatedAt: new Date() })
-        .where(eq(tiktokAccount.id, input.tiktokAccountId))
+        .where(
+          and(
+            eq(tiktokAccount.id, input.tiktokAccountId),
+            inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+          ),
+        )
         .returning();
 
       return updated;
@@ -141,14 +166,19 @@ export const cloudPhoneRouter = {
   /**
    * Unlink a cloud phone from a TikTok account
    */
-  unlinkFromAccount: adminProcedure
+  unlinkFromAccount: permissionProcedure("devices.operate")
     .input(z.object({ tiktokAccountId: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
       // Explicitly set updatedAt to avoid $onUpdateFn serialization issues
       const [updated] = await ctx.db
         .update(tiktokAccount)
         .set({ cloudPhoneId: null, updatedAt: new Date() })
-        .where(eq(tiktokAccount.id, input.tiktokAccountId))
+        .where(
+          and(
+            eq(tiktokAccount.id, input.tiktokAccountId),
+            inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+          ),
+        )
         .returning();
 
       return updated;
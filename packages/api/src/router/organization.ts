@@ -0,0 +1,327 @@
+/**
+ * Organization Router
+ *
+ * Super-admin management of organizations, which organization users and
+ * resources belong to, and which organization a super-admin is viewing. See
+ * services/organizations.
+ */
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { asc, count, eq, inArray } from "@everylab/db";
+import {
+  campaign,
+  cloudPhone,
+  geelarkProxy,
+  organization,
+  session,
+  tiktokAccount,
+  user,
+} from "@everylab/db/schema";
+
+import { adminProcedure, superAdminProcedure } from "../trpc";
+
+const resourceKinds = [
+  "user",
+  "tiktokAccount",
+  "cloudPhone",
+  "proxy",
+  "campaign",
+] as const;
+
+type ResourceKind = (typeof resourceKinds)[number];
+
+const OrganizationInput = z.object({
+  name: z.string().min(1).max(256),
+  slug: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+      message: "Use lowercase letters, numbers and dashes",
+    }),
+});
+
+function ownerTable(kind: ResourceKind) {
+  switch (kind) {
+    case "user":
+      return user;
+    case "tiktokAccount":
+      return tiktokAccount;
+    case "cloudPhone":
+      return cloudPhone;
+    case "proxy":
+      return geelarkProxy;
+    case "campaign":
+      return campaign;
+  }
+}
+
+export const organizationRouter = {
+  /**
+   * The organization the current admin is limited to, and the ones they can
+   * switch between
+   */
+  current: adminProcedure.query(async ({ ctx }) => {
+    const organizations = ctx.isSuperAdmin
+      ? await ctx.db.query.organization.findMany({
+          orderBy: asc(organization.name),
+        })
+      : ctx.organizationId
+        ? await ctx.db.query.organization.findMany({
+            where: eq(organization.id, ctx.organizationId),
+          })
+        : [];
+
+    return {
+      isSuperAdmin: ctx.isSuperAdmin,
+      organization:
+        organizations.find((o) => o.id === ctx.organizationId) ?? null,
+      organizations,
+    };
+  }),
+
+  /**
+   * View one organization, or all of them with `organizationId: null`
+   */
+  switch: superAdminProcedure
+    .input(z.object({ organizationId: z.string().uuid().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.organizationId) {
+        const target = await ctx.db.query.organization.findFirst({
+          where: eq(organization.id, input.organizationId),
+        });
+        if (!target) {
+          throw new Error("Organization not found");
+        }
+      }
+
+      await ctx.db
+        .update(session)
+        .set({
+          activeOrganizationId: input.organizationId,
+          updatedAt: new Date(),
+        })
+        .where(eq(session.id, ctx.session.session.id));
+
+      return { organizationId: input.organizationId };
+    }),
+
+  /**
+   * List organizations with how many users and resources each has
+   */
+  list: superAdminProcedure.query(async ({ ctx }) => {
+    const organizations = await ctx.db.query.organization.findMany({
+      orderBy: asc(organization.name),
+    });
+
+    const counts = await Promise.all(
+      resourceKinds.map(async (kind) => {
+        const table = ownerTable(kind);
+        const rows = await ctx.db
+          .select({ organizationId: table.organizationId, count: count() })
+          .from(table)
+          .groupBy(table.organizationId);
+        return [
+          kind,
+          new Map(rows.map((r) => [r.organizationId, r.count])),
+        ] as const;
+      }),
+    );
+
+    return organizations.map((o) => ({
+      ...o,
+      counts: Object.fromEntries(
+        counts.map(([kind, byOrg]) => [kind, byOrg.get(o.id) ?? 0]),
+      ) as Record<ResourceKind, number>,
+    }));
+  }),
+
+  /**
+   * Create an organization
+   */
+  create: superAdminProcedure
+    .input(OrganizationInput)
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.organization.findFirst({
+        where: eq(organization.slug, input.slug),
+      });
+      if (existing) {
+        throw new Error("An organization with this slug already exists");
+      }
+
+      const [created] = await ctx.db
+        .insert(organization)
+        .values(input)
+        .returning();
+
+      console.log(`[Organizations] Created ${input.slug}`);
+
+      return created;
+    }),
+
+  /**
+   * Rename an organization or change its slug
+   */
+  update: superAdminProcedure
+    .input(OrganizationInput.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+
+      const existing = await ctx.db.query.organization.findFirst({
+        where: eq(organization.slug, data.slug),
+      });
+      if (existing && existing.id !== id) {
+        throw new Error("An organization with this slug already exists");
+      }
+
+      const [updated] = await ctx.db
+        .update(organization)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(organization.id, id))
+        .returning();
+
+      if (!updated) {
+        throw new Error("Organization not found");
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Delete an organization that has no users or resources left. Its admins
+   * would otherwise be left without an organization, which makes them
+   * super-admins.
+   */
+  delete: superAdminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const assigned = await Promise.all(
+        resourceKinds.map(async (kind) => {
+          const table = ownerTable(kind);
+          const [row] = await ctx.db
+            .select({ count: count() })
+            .from(table)
+            .where(eq(table.organizationId, input.id));
+          return row?.count ?? 0;
+        }),
+      );
+      if (assigned.some((n) => n > 0)) {
+        throw new Error(
+          "Move this organization's users and resources out before deleting it",
+        );
+      }
+
+      // Users still block the delete at the database, should one be moved in
+      // meanwhile
+      const [deleted] = await ctx.db
+        .delete(organization)
+        .where(eq(organization.id, input.id))
+        .returning({ id: organization.id });
+
+      if (!deleted) {
+        throw new Error("Organization not found");
+      }
+
+      console.log(`[Organizations] Deleted ${input.id}`);
+
+      return { success: true };
+    }),
+
+  /**
+   * Every user or resource of one kind with the organization it belongs to
+   */
+  resources: superAdminProcedure
+    .input(z.object({ kind: z.enum(resourceKinds) }))
+    .query(async ({ ctx, input }) => {
+      switch (input.kind) {
+        case "user":
+          return ctx.db
+            .select({
+              id: user.id,
+              label: user.name,
+              detail: user.email,
+              organizationId: user.organizationId,
+            })
+            .from(user)
+            .orderBy(asc(user.name));
+        case "tiktokAccount":
+          return ctx.db
+            .select({
+              id: tiktokAccount.id,
+              label: tiktokAccount.name,
+              detail: tiktokAccount.tiktokUsername,
+              organizationId: tiktokAccount.organizationId,
+            })
+            .from(tiktokAccount)
+            .orderBy(asc(tiktokAccount.name));
+        case "cloudPhone":
+          return ctx.db
+            .select({
+              id: cloudPhone.id,
+              label: cloudPhone.serialName,
+              detail: cloudPhone.serialNo,
+              organizationId: cloudPhone.organizationId,
+            })
+            .from(cloudPhone)
+            .orderBy(asc(cloudPhone.serialName));
+        case "proxy":
+          return ctx.db
+            .select({
+              id: geelarkProxy.id,
+              label: geelarkProxy.server,
+              detail: geelarkProxy.scheme,
+              organizationId: geelarkProxy.organizationId,
+            })
+            .from(geelarkProxy)
+            .orderBy(asc(geelarkProxy.server));
+        case "campaign":
+          return ctx.db
+            .select({
+              id: campaign.id,
+              label: campaign.name,
+              detail: campaign.status,
+              organizationId: campaign.organizationId,
+            })
+            .from(campaign)
+            .orderBy(asc(campaign.name));
+      }
+    }),
+
+  /**
+   * Move users or resources to an organization, or out of every organization
+   * with `organizationId: null`. Moving an admin out of every organization
+   * makes them a super-admin.
+   */
+  assign: superAdminProcedure
+    .input(
+      z.object({
+        kind: z.enum(resourceKinds),
+        ids: z.array(z.string().min(1)).min(1).max(500),
+        organizationId: z.string().uuid().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.organizationId) {
+        const target = await ctx.db.query.organization.findFirst({
+          where: eq(organization.id, input.organizationId),
+        });
+        if (!target) {
+          throw new Error("Organization not found");
+        }
+      }
+
+      const table = ownerTable(input.kind);
+      const updated = await ctx.db
+        .update(table)
+        .set({ organizationId: input.organizationId, updatedAt: new Date() })
+        .where(inArray(table.id, input.ids))
+        .returning({ id: table.id });
+
+      console.log(
+        `[Organizations] Moved ${updated.length} ${input.kind} rows to ${input.organizationId ?? "no organization"}`,
+      );
+
+      return { updated: updated.length };
+    }),
+} satisfies TRPCRouterRecord;
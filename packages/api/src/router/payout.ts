@@ -0,0 +1,529 @@
+/**
+ * Payout Router
+ *
+ * Admin management of campaign rate cards, creator ledgers and payout
+ * batches, and each creator's own earnings and bank details
+ */
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import type { SQL } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
+import { and, asc, count, desc, eq, sql } from "@everylab/db";
+import {
+  campaign,
+  campaignRateCard,
+  payoutBatch,
+  payoutLedgerEntry,
+  UpsertCampaignRateCardSchema,
+  user,
+} from "@everylab/db/schema";
+
+import {
+  inOrganization,
+  userInOrganization,
+} from "../services/organizations";
+import {
+  buildPayoutBatchCsv,
+  createPayoutBatch,
+  getPayoutBatchLines,
+  lockDueEarnings,
+  markPayoutBatchPaid,
+  PAYOUT_CURRENCY,
+} from "../services/payouts";
+import { decryptSecret, encryptSecret } from "../services/secrets";
+import { adminProcedure, protectedProcedure } from "../trpc";
+
+/**
+ * Ledger totals per creator: not yet batched, waiting in a draft or approved
+ * batch, and already paid out
+ */
+async function getCreatorBalances(db: Database, where: SQL | undefined) {
+  const isCredit = sql`${payoutLedgerEntry.kind} <> 'payout'`;
+
+  return db
+    .select({
+      userId: payoutLedgerEntry.userId,
+      name: user.name,
+      email: user.email,
+      hasBankDetails: sql<boolean>`${user.bankAccountInfo} is not null`,
+      unbatchedCents:
+        sql<number>`coalesce(sum(${payoutLedgerEntry.amountCents}) filter (where ${isCredit} and ${payoutLedgerEntry.batchId} is null), 0)`.mapWith(
+          Number,
+        ),
+      pendingCents:
+        sql<number>`coalesce(sum(${payoutLedgerEntry.amountCents}) filter (where ${isCredit} and ${payoutBatch.status} in ('draft', 'approved')), 0)`.mapWith(
+          Number,
+        ),
+      paidCents:
+        sql<number>`coalesce(-sum(${payoutLedgerEntry.amountCents}) filter (where ${payoutLedgerEntry.kind} = 'payout'), 0)`.mapWith(
+          Number,
+        ),
+      lifetimeCents:
+        sql<number>`coalesce(sum(${payoutLedgerEntry.amountCents}) filter (where ${isCredit}), 0)`.mapWith(
+          Number,
+        ),
+    })
+    .from(payoutLedgerEntry)
+    .innerJoin(user, eq(user.id, payoutLedgerEntry.userId))
+    .leftJoin(payoutBatch, eq(payoutBatch.id, payoutLedgerEntry.batchId))
+    .where(where)
+    .groupBy(
+      payoutLedgerEntry.userId,
+      user.name,
+      user.email,
+      user.bankAccountInfo,
+    )
+    .orderBy(asc(user.name));
+}
+
+/**
+ * Throws unless the batch belongs to the organization
+ */
+async function assertBatchInOrganization(
+  db: Database,
+  organizationId: string | null,
+  batchId: string,
+) {
+  const batch = await db.query.payoutBatch.findFirst({
+    where: and(
+      eq(payoutBatch.id, batchId),
+      inOrganization(organizationId, payoutBatch.organizationId),
+    ),
+    columns: { id: true },
+  });
+  if (!batch) {
+    throw new Error("Payout batch not found");
+  }
+}
+
+async function getLedgerPage(
+  db: Database,
+  where: SQL | undefined,
+  limit: number,
+  offset: number,
+) {
+  const items = await db.query.payoutLedgerEntry.findMany({
+    where,
+    orderBy: [desc(payoutLedgerEntry.createdAt)],
+    limit,
+    offset,
+    with: {
+      campaign: {
+        columns: { id: true, name: true },
+      },
+      clip: {
+        columns: { id: true, title: true, tiktokVideoUrl: true },
+      },
+      batch: {
+        columns: { id: true, status: true },
+      },
+    },
+  });
+
+  const [totals] = await db
+    .select({ total: count() })
+    .from(payoutLedgerEntry)
+    .where(where);
+
+  return { items, total: totals?.total ?? 0 };
+}
+
+const LedgerPageInput = z.object({
+  limit: z.number().min(1).max(100).default(50),
+  offset: z.number().min(0).default(0),
+});
+
+export const payoutRouter = {
+  /**
+   * Every campaign with its rate card, if it has one
+   */
+  rateCards: adminProcedure.query(async ({ ctx }) => {
+    return ctx.db.query.campaign.findMany({
+      where: inOrganization(ctx.organizationId, campaign.organizationId),
+      orderBy: [desc(campaign.createdAt)],
+      columns: {
+        id: true,
+        name: true,
+        status: true,
+      },
+      with: {
+        rateCard: true,
+      },
+    });
+  }),
+
+  /**
+   * Create or replace a campaign's rate card. Earnings already locked keep
+   * the rates they were locked with.
+   */
+  upsertRateCard: adminProcedure
+    .input(UpsertCampaignRateCardSchema)
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.campaign.findFirst({
+        where: and(
+          eq(campaign.id, input.campaignId),
+          inOrganization(ctx.organizationId, campaign.organizationId),
+        ),
+        columns: { id: true },
+      });
+      if (!existing) {
+        throw new Error("Campaign not found");
+      }
+
+      const bonusTiers = [...(input.bonusTiers ?? [])].sort(
+        (a, b) => a.views - b.views,
+      );
+
+      const [rateCard] = await ctx.db
+        .insert(campaignRateCard)
+        .values({ ...input, bonusTiers })
+        .onConflictDoUpdate({
+          target: campaignRateCard.campaignId,
+          set: {
+            cpmCents: input.cpmCents ?? 0,
+            flatFeeCents: input.flatFeeCents ?? 0,
+            bonusTiers,
+            lockAfterDays: input.lockAfterDays ?? 30,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      return rateCard;
+    }),
+
+  /**
+   * Stop a campaign from earning. Locked earnings stay on the ledger.
+   */
+  deleteRateCard: adminProcedure
+    .input(z.object({ campaignId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.query.campaign.findFirst({
+        where: and(
+          eq(campaign.id, input.campaignId),
+          inOrganization(ctx.organizationId, campaign.organizationId),
+        ),
+        columns: { id: true },
+      });
+      if (!existing) {
+        throw new Error("Campaign not found");
+      }
+
+      await ctx.db
+        .delete(campaignRateCard)
+        .where(eq(campaignRateCard.campaignId, input.campaignId));
+
+      return { success: true };
+    }),
+
+  /**
+   * Ledger totals for every creator with at least one entry
+   */
+  creatorBalances: adminProcedure.query(async ({ ctx }) => {
+    return getCreatorBalances(
+      ctx.db,
+      userInOrganization(ctx.db, ctx.organizationId, payoutLedgerEntry.userId),
+    );
+  }),
+
+  /**
+   * Ledger entries, newest first, optionally for one creator or batch
+   */
+  ledger: adminProcedure
+    .input(
+      LedgerPageInput.extend({
+        userId: z.string().optional(),
+        batchId: z.string().uuid().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const conditions = [];
+      const inScope = userInOrganization(
+        ctx.db,
+        ctx.organizationId,
+        payoutLedgerEntry.userId,
+      );
+      if (inScope) conditions.push(inScope);
+      if (input.userId) {
+        conditions.push(eq(payoutLedgerEntry.userId, input.userId));
+      }
+      if (input.batchId) {
+        conditions.push(eq(payoutLedgerEntry.batchId, input.batchId));
+      }
+
+      return getLedgerPage(
+        ctx.db,
+        conditions.length > 0 ? and(...conditions) : undefined,
+        input.limit,
+        input.offset,
+      );
+    }),
+
+  /**
+   * Credit or debit a creator by hand, e.g. a bonus or a clawback
+   */
+  addAdjustment: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().min(1),
+        amountCents: z
+          .number()
+          .int()
+          .min(-10_000_000)
+          .max(10_000_000)
+          .refine((amount) => amount !== 0, "Amount can't be zero"),
+        note: z.string().trim().min(1).max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const creator = await ctx.db.query.user.findFirst({
+        where: and(
+          eq(user.id, input.userId),
+          inOrganization(ctx.organizationId, user.organizationId),
+        ),
+        columns: { id: true },
+      });
+      if (!creator) {
+        throw new Error("User not found");
+      }
+
+      const [entry] = await ctx.db
+        .insert(payoutLedgerEntry)
+        .values({
+          userId: input.userId,
+          kind: "adjustment",
+          amountCents: input.amountCents,
+          note: input.note,
+          createdById: ctx.session.user.id,
+        })
+        .returning();
+
+      return entry;
+    }),
+
+  /**
+   * Lock earnings that are due now instead of waiting for the daily job
+   */
+  lockEarnings: adminProcedure.mutation(async ({ ctx }) => {
+    return lockDueEarnings(ctx.db);
+  }),
+
+  /**
+   * Payout batches, newest first
+   */
+  batches: adminProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const where = inOrganization(
+        ctx.organizationId,
+        payoutBatch.organizationId,
+      );
+
+      const items = await ctx.db.query.payoutBatch.findMany({
+        where,
+        orderBy: [desc(payoutBatch.createdAt)],
+        limit: input.limit,
+        offset: input.offset,
+        with: {
+          createdBy: {
+            columns: { id: true, name: true },
+          },
+          approvedBy: {
+            columns: { id: true, name: true },
+          },
+        },
+      });
+
+      const [totals] = await ctx.db
+        .select({ total: count() })
+        .from(payoutBatch)
+        .where(where);
+
+      return { items, total: totals?.total ?? 0 };
+    }),
+
+  /**
+   * A batch with what each creator in it is owed
+   */
+  batchById: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const batch = await ctx.db.query.payoutBatch.findFirst({
+        where: and(
+          eq(payoutBatch.id, input.id),
+          inOrganization(ctx.organizationId, payoutBatch.organizationId),
+        ),
+      });
+      if (!batch) {
+        throw new Error("Payout batch not found");
+      }
+
+      const lines = await getPayoutBatchLines(ctx.db, input.id);
+
+      return {
+        ...batch,
+        currency: PAYOUT_CURRENCY,
+        lines: lines.map(({ user: creator, ...line }) => ({
+          ...line,
+          user: {
+            id: creator.id,
+            name: creator.name,
+            email: creator.email,
+          },
+          hasBankDetails: creator.bankAccountInfo !== null,
+        })),
+      };
+    }),
+
+  /**
+   * Gather all unbatched earnings and adjustments into a draft batch
+   */
+  createBatch: adminProcedure
+    .input(z.object({ note: z.string().max(500).nullish() }))
+    .mutation(async ({ ctx, input }) => {
+      return createPayoutBatch(ctx.db, {
+        createdById: ctx.session.user.id,
+        organizationId: ctx.organizationId,
+        note: input.note,
+      });
+    }),
+
+  /**
+   * Approve a draft batch so it can be exported for finance
+   */
+  approveBatch: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [updated] = await ctx.db
+        .update(payoutBatch)
+        .set({
+          status: "approved",
+          approvedById: ctx.session.user.id,
+          approvedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(payoutBatch.id, input.id),
+            eq(payoutBatch.status, "draft"),
+            inOrganization(ctx.organizationId, payoutBatch.organizationId),
+          ),
+        )
+        .returning();
+
+      if (!updated) {
+        throw new Error("Only draft batches can be approved");
+      }
+
+      console.log(`[Payouts] Batch ${input.id} approved`);
+
+      return updated;
+    }),
+
+  /**
+   * Record that finance sent the money. Books a payout debit per creator.
+   */
+  markBatchPaid: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertBatchInOrganization(ctx.db, ctx.organizationId, input.id);
+      return markPayoutBatchPaid(ctx.db, input.id);
+    }),
+
+  /**
+   * Delete a batch that hasn't been paid. Its entries go back to unbatched.
+   */
+  cancelBatch: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [deleted] = await ctx.db
+        .delete(payoutBatch)
+        .where(
+          and(
+            eq(payoutBatch.id, input.id),
+            sql`${payoutBatch.status} <> 'paid'`,
+            inOrganization(ctx.organizationId, payoutBatch.organizationId),
+          ),
+        )
+        .returning({ id: payoutBatch.id });
+
+      if (!deleted) {
+        throw new Error("Paid batches can't be cancelled");
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * CSV of an approved or paid batch, one row per creator
+   */
+  exportBatch: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertBatchInOrganization(ctx.db, ctx.organizationId, input.id);
+      return buildPayoutBatchCsv(ctx.db, input.id);
+    }),
+
+  /**
+   * The current creator's balances and bank details
+   */
+  myEarnings: protectedProcedure.query(async ({ ctx }) => {
+    const [balances] = await getCreatorBalances(
+      ctx.db,
+      eq(payoutLedgerEntry.userId, ctx.session.user.id),
+    );
+
+    const me = await ctx.db.query.user.findFirst({
+      where: eq(user.id, ctx.session.user.id),
+      columns: { bankAccountInfo: true },
+    });
+
+    return {
+      currency: PAYOUT_CURRENCY,
+      unbatchedCents: balances?.unbatchedCents ?? 0,
+      pendingCents: balances?.pendingCents ?? 0,
+      paidCents: balances?.paidCents ?? 0,
+      lifetimeCents: balances?.lifetimeCents ?? 0,
+      bankAccountInfo: await decryptSecret(me?.bankAccountInfo ?? null),
+    };
+  }),
+
+  /**
+   * The current creator's ledger, newest first
+   */
+  myLedger: protectedProcedure
+    .input(LedgerPageInput)
+    .query(async ({ ctx, input }) => {
+      return getLedgerPage(
+        ctx.db,
+        eq(payoutLedgerEntry.userId, ctx.session.user.id),
+        input.limit,
+        input.offset,
+      );
+    }),
+
+  /**
+   * Save the bank details finance pays the current creator to
+   */
+  updateBankDetails: protectedProcedure
+    .input(z.object({ bankAccountInfo: z.string().trim().max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .update(user)
+        .set({
+          bankAccountInfo: input.bankAccountInfo
+            ? await encryptSecret(input.bankAccountInfo)
+            : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(user.id, ctx.session.user.id));
+
+      return { success: true };
+    }),
+} satisfies TRPCRouterRecord;
@@ -2,11 +2,13 @@
  * Proxy Router (GeeLark)
  *
  * Provides CRUD + sync for GeeLark proxies, and local proxy↔cloud-phone assignment.
+ * Passwords are encrypted before they're cached (see services/secrets).
  */
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { eq, inArray, sql } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
+import { and, eq, inArray, sql } from "@everylab/db";
 import {
   cloudPhone,
   geelarkProxy,
@@ -14,7 +16,9 @@ import {
 } from "@everylab/db/schema";
 import { GeeLarkClient, geelarkEnv } from "@everylab/geelark";
 
-import { adminProcedure } from "../trpc";
+import { inOrganization } from "../services/organizations";
+import { encryptSecret } from "../services/secrets";
+import { permissionProcedure } from "../trpc";
 
 function getGeeLarkClient() {
   return new GeeLarkClient({
@@ -23,6 +27,30 @@ function getGeeLarkClient() {
   });
 }
 
+/**
+ * Throws unless every proxy exists in the organization
+ */
+async function assertProxiesInOrganization(
+  db: Database,
+  organizationId: string | null,
+  ids: string[],
+) {
+  const proxies = await db
+    .select({ id: geelarkProxy.id })
+    .from(geelarkProxy)
+    .where(
+      and(
+        inArray(geelarkProxy.id, ids),
+        inOrganization(organizationId, geelarkProxy.organizationId),
+      ),
+    );
+  const found = new Set(proxies.map((p) => p.id));
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Unknown proxy ids: ${missing.join(", ")}`);
+  }
+}
+
 const ProxyCreateSchema = z.object({
   scheme: z.string().min(1).max(16),
   server: z.string().min(1).max(256),
@@ -44,8 +72,9 @@ export const proxyRouter = {
    *
    * Password is never returned to the client.
    */
-  list: adminProcedure.query(async ({ ctx }) => {
+  list: permissionProcedure("devices.operate").query(async ({ ctx }) => {
     const proxies = await ctx.db.query.geelarkProxy.findMany({
+      where: inOrganization(ctx.organizationId, geelarkProxy.organizationId),
       orderBy: (p, { desc }) => desc(p.lastSyncedAt),
       columns: {
         password: false,
@@ -74,9 +103,10 @@ export const proxyRouter = {
   }),
 
   /**
-   * Sync proxies from GeeLark into DB cache.
+   * Sync proxies from GeeLark into DB cache. New proxies don't belong to an
+   * organization until a super-admin assigns them.
    */
-  sync: adminProcedure.mutation(async ({ ctx }) => {
+  sync: permissionProcedure("devices.operate").mutation(async ({ ctx }) => {
     const client = getGeeLarkClient();
 
     const pageSize = 100;
@@ -98,6 +128,8 @@ export const proxyRouter = {
 
     const now = new Date();
     for (const p of all) {
+      const password = await encryptSecret(p.password ?? null);
+
       await ctx.db
         .insert(geelarkProxy)
         .values({
@@ -107,7 +139,7 @@ export const proxyRouter = {
           server: p.server,
           port: p.port,
           username: p.username ?? null,
-          password: p.password ?? null,
+          password,
           lastSyncedAt: now,
         })
         .onConflictDoUpdate({
@@ -118,7 +150,7 @@ export const proxyRouter = {
             server: p.server,
             port: p.port,
             username: p.username ?? null,
-            password: p.password ?? null,
+            password,
             lastSyncedAt: now,
             updatedAt: sql`now()`,
           },
@@ -135,7 +167,7 @@ export const proxyRouter = {
   /**
    * Add proxy(ies) to GeeLark and upsert them locally.
    */
-  add: adminProcedure
+  add: permissionProcedure("devices.operate")
     .input(z.object({ list: z.array(ProxyCreateSchema).min(1).max(100) }))
     .mutation(async ({ ctx, input }) => {
       const client = getGeeLarkClient();
@@ -154,6 +186,8 @@ export const proxyRouter = {
 
         const now = new Date();
         for (const p of fetched.list) {
+          const password = await encryptSecret(p.password ?? null);
+
           await ctx.db
             .insert(geelarkProxy)
             .values({
@@ -163,7 +197,8 @@ export const proxyRouter = {
               server: p.server,
               port: p.port,
               username: p.username ?? null,
-              password: p.password ?? null,
+              password,
+              organizationId: ctx.organizationId,
               lastSyncedAt: now,
             })
             .onConflictDoUpdate({
@@ -174,7 +209,7 @@ export const proxyRouter = {
                 server: p.server,
                 port: p.port,
                 username: p.username ?? null,
-                password: p.password ?? null,
+                password,
                 lastSyncedAt: now,
                 updatedAt: sql`now()`,
               },
@@ -191,9 +226,15 @@ export const proxyRouter = {
   /**
    * Update proxy(ies) on GeeLark and upsert them locally.
    */
-  update: adminProcedure
+  update: permissionProcedure("devices.operate")
     .input(z.object({ list: z.array(ProxyUpdateSchema).min(1).max(100) }))
     .mutation(async ({ ctx, input }) => {
+      await assertProxiesInOrganization(
+        ctx.db,
+        ctx.organizationId,
+        input.list.map((p) => p.id),
+      );
+
       const client = getGeeLarkClient();
 
       const result = await client.updateProxies(
@@ -216,6 +257,8 @@ export const proxyRouter = {
 
       const now = new Date();
       for (const p of fetched.list) {
+        const password = await encryptSecret(p.password ?? null);
+
         await ctx.db
           .insert(geelarkProxy)
           .values({
@@ -225,7 +268,7 @@ export const proxyRouter = {
             server: p.server,
             port: p.port,
             username: p.username ?? null,
-            password: p.password ?? null,
+            password,
             lastSyncedAt: now,
           })
           .onConflictDoUpdate({
@@ -236,7 +279,7 @@ export const proxyRouter = {
               server: p.server,
               port: p.port,
               username: p.username ?? null,
-              password: p.password ?? null,
+              password,
               lastSyncedAt: now,
               updatedAt: sql`now()`,
             },
@@ -249,9 +292,11 @@ export const proxyRouter = {
   /**
    * Delete proxies from GeeLark and remove them locally (successful ones).
    */
-  delete: adminProcedure
+  delete: permissionProcedure("devices.operate")
     .input(z.object({ ids: z.array(z.string().min(1)).min(1).max(100) }))
     .mutation(async ({ ctx, input }) => {
+      await assertProxiesInOrganization(ctx.db, ctx.organizationId, input.ids);
+
       const client = getGeeLarkClient();
 
       const result = await client.deleteProxies(input.ids);
@@ -279,7 +324,7 @@ export const proxyRouter = {
    * - max 3 cloud phones per proxy
    * - a cloud phone can only be assigned to one proxy
    */
-  setAssignments: adminProcedure
+  setAssignments: permissionProcedure("devices.operate")
     .input(
       z.object({
         proxyId: z.string().min(1),
@@ -294,13 +339,19 @@ export const proxyRouter = {
       }
 
       const proxy = await ctx.db.query.geelarkProxy.findFirst({
-        where: eq(geelarkProxy.id, input.proxyId),
+        where: and(
+          eq(geelarkProxy.id, input.proxyId),
+          inOrganization(ctx.organizationId, geelarkProxy.organizationId),
+        ),
       });
       if (!proxy) throw new Error("Proxy not found");
 
       if (cloudPhoneIds.length > 0) {
         const phones = await ctx.db.query.cloudPhone.findMany({
-          where: inArray(cloudPhone.id, cloudPhoneIds),
+          where: and(
+            inArray(cloudPhone.id, cloudPhoneIds),
+            inOrganization(ctx.organizationId, cloudPhone.organizationId),
+          ),
           columns: { id: true },
         });
         const found = new Set(phones.map((p) => p.id));
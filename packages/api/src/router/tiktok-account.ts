@@ -10,14 +10,36 @@ import { and, desc, eq } from "@everylab/db";
 import {
   clip,
   clipStats,
+  cloudPhone,
   CreateTiktokAccountSchema,
   tiktokAccount,
   UpdateTiktokAccountSchema,
+  user,
   userTiktokAccount,
 } from "@everylab/db/schema";
 
 import { scrapeTikTokProfileVideosViaApify } from "../services/apify-tiktok-profile-scraper";
-import { adminProcedure, protectedProcedure } from "../trpc";
+import {
+  accountInOrganization,
+  getSessionOrganizationId,
+  inOrganization,
+  sameOrganization,
+} from "../services/organizations";
+import {
+  adminProcedure,
+  permissionProcedure,
+  protectedProcedure,
+} from "../trpc";
+
+/**
+ * Matches one TikTok account, as long as it belongs to the organization
+ */
+function accountInScope(id: string, organizationId: string | null) {
+  return and(
+    eq(tiktokAccount.id, id),
+    inOrganization(organizationId, tiktokAccount.organizationId),
+  );
+}
 
 export const tiktokAccountRouter = {
   /**
@@ -49,10 +71,12 @@ export const tiktokAccountRouter = {
   }),
 
   /**
-   * List all TikTok accounts with linked cloud phone and users (admin only)
+   * List all TikTok accounts with linked cloud phone and users (admins and
+   * operators)
    */
-  list: adminProcedure.query(async ({ ctx }) => {
+  list: permissionProcedure("devices.operate").query(async ({ ctx }) => {
     return ctx.db.query.tiktokAccount.findMany({
+      where: inOrganization(ctx.organizationId, tiktokAccount.organizationId),
       orderBy: desc(tiktokAccount.createdAt),
       with: {
         cloudPhone: true,
@@ -73,11 +97,17 @@ export const tiktokAccountRouter = {
 
   /**
    * List available TikTok accounts for publishing (for creators)
-   * Only returns public info, not tokens
+   * Only returns public info, not tokens, of the creator's organization
    */
   available: protectedProcedure.query(async ({ ctx }) => {
     const accounts = await ctx.db.query.tiktokAccount.findMany({
-      where: eq(tiktokAccount.isActive, true),
+      where: and(
+        eq(tiktokAccount.isActive, true),
+        sameOrganization(
+          getSessionOrganizationId(ctx.session),
+          tiktokAccount.organizationId,
+        ),
+      ),
       orderBy: desc(tiktokAccount.followerCount),
     });
 
@@ -97,7 +127,7 @@ export const tiktokAccountRouter = {
     .input(z.object({ id: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
       return ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.id, input.id),
+        where: accountInScope(input.id, ctx.organizationId),
         with: {
           cloudPhone: true,
           userTiktokAccounts: {
@@ -127,7 +157,7 @@ export const tiktokAccountRouter = {
     .mutation(async ({ ctx, input }) => {
       const [newAccount] = await ctx.db
         .insert(tiktokAccount)
-        .values(input)
+        .values({ ...input, organizationId: ctx.organizationId })
         .returning();
 
       return newAccount;
@@ -147,7 +177,7 @@ export const tiktokAccountRouter = {
       const [updated] = await ctx.db
         .update(tiktokAccount)
         .set({ ...input.data, updatedAt: new Date() })
-        .where(eq(tiktokAccount.id, input.id))
+        .where(accountInScope(input.id, ctx.organizationId))
         .returning();
 
       return updated;
@@ -164,10 +194,22 @@ export const tiktokAccountRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      if (input.cloudPhoneId) {
+        const phone = await ctx.db.query.cloudPhone.findFirst({
+          where: and(
+            eq(cloudPhone.id, input.cloudPhoneId),
+            inOrganization(ctx.organizationId, cloudPhone.organizationId),
+          ),
+        });
+        if (!phone) {
+          throw new Error("Cloud phone not found");
+        }
+      }
+
       const [updated] = await ctx.db
         .update(tiktokAccount)
         .set({ cloudPhoneId: input.cloudPhoneId, updatedAt: new Date() })
-        .where(eq(tiktokAccount.id, input.tiktokAccountId))
+        .where(accountInScope(input.tiktokAccountId, ctx.organizationId))
         .returning();
 
       return updated;
@@ -180,7 +222,7 @@ export const tiktokAccountRouter = {
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
       const existing = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.id, input.id),
+        where: accountInScope(input.id, ctx.organizationId),
       });
 
       if (!existing) {
@@ -202,7 +244,9 @@ export const tiktokAccountRouter = {
   delete: adminProcedure
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
-      await ctx.db.delete(tiktokAccount).where(eq(tiktokAccount.id, input.id));
+      await ctx.db
+        .delete(tiktokAccount)
+        .where(accountInScope(input.id, ctx.organizationId));
       return { success: true };
     }),
 
@@ -213,7 +257,14 @@ export const tiktokAccountRouter = {
     .input(z.object({ id: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
       const accountClips = await ctx.db.query.clip.findMany({
-        where: eq(clip.tiktokAccountId, input.id),
+        where: and(
+          eq(clip.tiktokAccountId, input.id),
+          accountInOrganization(
+            ctx.db,
+            ctx.organizationId,
+            clip.tiktokAccountId,
+          ),
+        ),
         with: {
           stats: {
             orderBy: desc(clipStats.recordedAt),
@@ -257,9 +308,13 @@ export const tiktokAccountRouter = {
     )
     .query(async ({ ctx, input }) => {
       const { id, limit, offset } = input;
+      const where = and(
+        eq(clip.tiktokAccountId, id),
+        accountInOrganization(ctx.db, ctx.organizationId, clip.tiktokAccountId),
+      );
 
       const clips = await ctx.db.query.clip.findMany({
-        where: eq(clip.tiktokAccountId, id),
+        where,
         orderBy: desc(clip.createdAt),
         limit,
         offset,
@@ -271,9 +326,7 @@ export const tiktokAccountRouter = {
         },
       });
 
-      const totalCount = await ctx.db.query.clip.findMany({
-        where: eq(clip.tiktokAccountId, id),
-      });
+      const totalCount = await ctx.db.query.clip.findMany({ where });
 
       return {
         clips: clips.map((c) => ({
@@ -291,7 +344,14 @@ export const tiktokAccountRouter = {
     .input(z.object({ id: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
       const linkedUsers = await ctx.db.query.userTiktokAccount.findMany({
-        where: eq(userTiktokAccount.tiktokAccountId, input.id),
+        where: and(
+          eq(userTiktokAccount.tiktokAccountId, input.id),
+          accountInOrganization(
+            ctx.db,
+            ctx.organizationId,
+            userTiktokAccount.tiktokAccountId,
+          ),
+        ),
         with: {
           user: {
             columns: {
@@ -318,6 +378,19 @@ export const tiktokAccountRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const account = await ctx.db.query.tiktokAccount.findFirst({
+        where: accountInScope(input.tiktokAccountId, ctx.organizationId),
+      });
+      const linkedUser = await ctx.db.query.user.findFirst({
+        where: and(
+          eq(user.id, input.userId),
+          inOrganization(ctx.organizationId, user.organizationId),
+        ),
+      });
+      if (!account || !linkedUser) {
+        throw new Error("Account or user not found");
+      }
+
       // Check if already linked
       const existing = await ctx.db.query.userTiktokAccount.findFirst({
         where: and(
@@ -355,6 +428,11 @@ export const tiktokAccountRouter = {
           and(
             eq(userTiktokAccount.tiktokAccountId, input.tiktokAccountId),
             eq(userTiktokAccount.userId, input.userId),
+            accountInOrganization(
+              ctx.db,
+              ctx.organizationId,
+              userTiktokAccount.tiktokAccountId,
+            ),
           ),
         );
 
@@ -497,7 +575,7 @@ export const tiktokAccountRouter = {
     )
     .mutation(async ({ ctx, input }) => {
       const account = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.id, input.accountId),
+        where: accountInScope(input.accountId, ctx.organizationId),
       });
 
       if (!account) {
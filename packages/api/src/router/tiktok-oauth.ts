@@ -13,27 +13,22 @@ import {
   tiktokAccount,
   userTiktokAccount,
 } from "@everylab/db/schema";
-import {
-  createTikTokClient,
-  isTikTokConfigured,
-  tiktokEnv,
-} from "@everylab/tiktok";
+import { isTikTokConfigured } from "@everylab/tiktok";
 
+import {
+  getSessionOrganizationId,
+  inOrganization,
+} from "../services/organizations";
+import { decryptSecret } from "../services/secrets";
+import {
+  completeTikTokAuthorization,
+  getTikTokAccessToken,
+  getTikTokClient,
+  refreshTikTokAccountToken,
+  startTikTokAuthorization,
+} from "../services/tiktok-oauth";
 import { adminProcedure, protectedProcedure } from "../trpc";
 
-// Create TikTok client if configured
-function getTikTokClient() {
-  if (!isTikTokConfigured()) {
-    throw new Error(
-      "TikTok API is not configured. Please set TIKTOK_CLIENT_KEY and TIKTOK_CLIENT_SECRET environment variables.",
-    );
-  }
-  return createTikTokClient({
-    clientKey: tiktokEnv.TIKTOK_CLIENT_KEY,
-    clientSecret: tiktokEnv.TIKTOK_CLIENT_SECRET,
-  });
-}
-
 export const tiktokOAuthRouter = {
   /**
    * Check if TikTok OAuth is configured
@@ -49,131 +44,34 @@ export const tiktokOAuthRouter = {
    * Admin will be redirected to TikTok to authorize the app
    */
   getAuthorizationUrl: adminProcedure
-    .input(
-      z.object({
-        redirectUri: z.string().url(),
-        state: z.string().optional(),
-      }),
-    )
-    .mutation(async ({ input }) => {
-      const client = getTikTokClient();
-
-      // Generate a random state if not provided
-      const state = input.state ?? Math.random().toString(36).substring(2, 15);
-
-      const { url: authUrl, codeVerifier } = await client.getAuthorizationUrl(
-        input.redirectUri,
-        state,
-      );
+    .input(z.object({ redirectUri: z.string().url() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await startTikTokAuthorization(ctx.db, {
+        userId: ctx.session.user.id,
+        flow: "admin",
+        redirectUri: input.redirectUri,
+      });
 
-      console.log("[TikTok OAuth] Generated auth URL, state:", state);
+      console.log("[TikTok OAuth] Generated auth URL, state:", result.state);
 
-      return {
-        authUrl,
-        state,
-        codeVerifier,
-      };
+      return result;
     }),
 
   /**
    * Exchange authorization code for tokens and save account
    */
   exchangeCode: adminProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        redirectUri: z.string().url(),
-        codeVerifier: z.string(),
-      }),
-    )
+    .input(z.object({ code: z.string(), state: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const client = getTikTokClient();
-
       console.log("[TikTok OAuth] Exchanging code for token...");
 
-      // Exchange code for token
-      const tokenData = await client.exchangeCodeForToken(
-        input.code,
-        input.redirectUri,
-        input.codeVerifier,
-      );
-
-      console.log("[TikTok OAuth] Token received, openId:", tokenData.openId);
-
-      // Get user info from TikTok
-      const userInfo = await client.getUserInfo(tokenData.accessToken);
-
-      console.log("[TikTok OAuth] User info received:", userInfo.display_name);
-
-      const generatedUsername = userInfo.display_name
-        .replace(/\s+/g, "_")
-        .toLowerCase();
-
-      // Check if account already exists by OpenID
-      let existingAccount = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.tiktokUserId, tokenData.openId),
+      return completeTikTokAuthorization(ctx.db, {
+        userId: ctx.session.user.id,
+        flow: "admin",
+        organizationId: ctx.organizationId,
+        code: input.code,
+        state: input.state,
       });
-
-      // If not found by OpenID, check by username (to handle manual -> oauth upgrade)
-      if (!existingAccount) {
-        existingAccount = await ctx.db.query.tiktokAccount.findFirst({
-          where: eq(tiktokAccount.tiktokUsername, generatedUsername),
-        });
-      }
-
-      if (existingAccount) {
-        // Update existing account with new tokens
-        console.log(
-          "[TikTok OAuth] Updating existing account:",
-          existingAccount.id,
-        );
-
-        const [updatedAccount] = await ctx.db
-          .update(tiktokAccount)
-          .set({
-            tiktokUserId: tokenData.openId, // Update to OpenID
-            accessToken: tokenData.accessToken,
-            refreshToken: tokenData.refreshToken,
-            tokenExpiresAt: tokenData.expiresAt,
-            name: userInfo.display_name,
-            followerCount: userInfo.follower_count ?? 0,
-            isActive: true,
-          })
-          .where(eq(tiktokAccount.id, existingAccount.id))
-          .returning();
-
-        return {
-          account: updatedAccount,
-          isNew: false,
-        };
-      }
-
-      // Create new account
-      console.log(
-        "[TikTok OAuth] Creating new account for:",
-        userInfo.display_name,
-      );
-
-      const [newAccount] = await ctx.db
-        .insert(tiktokAccount)
-        .values({
-          name: userInfo.display_name,
-          tiktokUsername: generatedUsername,
-          tiktokUserId: tokenData.openId,
-          accessToken: tokenData.accessToken,
-          refreshToken: tokenData.refreshToken,
-          tokenExpiresAt: tokenData.expiresAt,
-          followerCount: userInfo.follower_count ?? 0,
-          isActive: true,
-        })
-        .returning();
-
-      console.log("[TikTok OAuth] New account created:", newAccount?.id);
-
-      return {
-        account: newAccount,
-        isNew: true,
-      };
     }),
 
   /**
@@ -182,39 +80,24 @@ export const tiktokOAuthRouter = {
   refreshToken: adminProcedure
     .input(z.object({ accountId: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
-      const client = getTikTokClient();
-
       const account = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.id, input.accountId),
+        where: and(
+          eq(tiktokAccount.id, input.accountId),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
       });
 
       if (!account) {
         throw new Error("Account not found");
       }
 
-      if (!account.refreshToken) {
-        throw new Error("Account has no refresh token");
-      }
-
       console.log("[TikTok OAuth] Refreshing token for account:", account.id);
 
-      const newTokenData = await client.refreshAccessToken(
-        account.refreshToken,
-      );
+      await refreshTikTokAccountToken(ctx.db, account);
 
-      const [updatedAccount] = await ctx.db
-        .update(tiktokAccount)
-        .set({
-          accessToken: newTokenData.accessToken,
-          refreshToken: newTokenData.refreshToken,
-          tokenExpiresAt: newTokenData.expiresAt,
-        })
-        .where(eq(tiktokAccount.id, input.accountId))
-        .returning();
-
-      console.log("[TikTok OAuth] Token refreshed for account:", account.id);
-
-      return updatedAccount;
+      return ctx.db.query.tiktokAccount.findFirst({
+        where: eq(tiktokAccount.id, input.accountId),
+      });
     }),
 
   /**
@@ -226,7 +109,10 @@ export const tiktokOAuthRouter = {
       const client = getTikTokClient();
 
       const account = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.id, input.accountId),
+        where: and(
+          eq(tiktokAccount.id, input.accountId),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
       });
 
       if (!account) {
@@ -236,7 +122,7 @@ export const tiktokOAuthRouter = {
       // Revoke the token if it exists
       if (account.accessToken) {
         try {
-          await client.revokeToken(account.accessToken);
+          await client.revokeToken(await decryptSecret(account.accessToken));
           console.log("[TikTok OAuth] Token revoked for account:", account.id);
         } catch (error) {
           console.error("[TikTok OAuth] Failed to revoke token:", error);
@@ -251,6 +137,9 @@ export const tiktokOAuthRouter = {
           accessToken: null,
           refreshToken: null,
           tokenExpiresAt: null,
+          refreshTokenExpiresAt: null,
+          tokenRefreshError: null,
+          needsReconnect: false,
           isActive: false,
         })
         .where(eq(tiktokAccount.id, input.accountId))
@@ -268,7 +157,10 @@ export const tiktokOAuthRouter = {
       const client = getTikTokClient();
 
       const account = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.id, input.accountId),
+        where: and(
+          eq(tiktokAccount.id, input.accountId),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
       });
 
       if (!account) {
@@ -281,42 +173,9 @@ export const tiktokOAuthRouter = {
 
       console.log("[TikTok OAuth] Syncing account info:", account.id);
 
-      // Check if token needs refresh
-      if (account.tokenExpiresAt && account.tokenExpiresAt <= new Date()) {
-        if (!account.refreshToken) {
-          throw new Error("Token expired and no refresh token available");
-        }
-
-        const newTokenData = await client.refreshAccessToken(
-          account.refreshToken,
-        );
-
-        await ctx.db
-          .update(tiktokAccount)
-          .set({
-            accessToken: newTokenData.accessToken,
-            refreshToken: newTokenData.refreshToken,
-            tokenExpiresAt: newTokenData.expiresAt,
-          })
-          .where(eq(tiktokAccount.id, input.accountId));
-
-        // Use the new access token
-        const userInfo = await client.getUserInfo(newTokenData.accessToken);
-
-        const [updatedAccount] = await ctx.db
-          .update(tiktokAccount)
-          .set({
-            name: userInfo.display_name,
-            followerCount: userInfo.follower_count ?? 0,
-          })
-          .where(eq(tiktokAccount.id, input.accountId))
-          .returning();
-
-        return updatedAccount;
-      }
-
-      // Token is still valid
-      const userInfo = await client.getUserInfo(account.accessToken);
+      // Refreshes the token first if it has expired
+      const accessToken = await getTikTokAccessToken(ctx.db, account);
+      const userInfo = await client.getUserInfo(accessToken);
 
       const [updatedAccount] = await ctx.db
         .update(tiktokAccount)
@@ -332,7 +191,7 @@ export const tiktokOAuthRouter = {
       // Sync videos
       try {
         console.log("[TikTok OAuth] Syncing videos for account:", account.id);
-        const videoData = await client.getVideoList(account.accessToken);
+        const videoData = await client.getVideoList(accessToken);
 
         console.log(`[TikTok OAuth] Found ${videoData.videos.length} videos`);
 
@@ -422,157 +281,38 @@ export const tiktokOAuthRouter = {
    * Get OAuth authorization URL for creators
    */
   creatorGetAuthorizationUrl: protectedProcedure
-    .input(
-      z.object({
-        redirectUri: z.string().url(),
-        state: z.string().optional(),
-      }),
-    )
-    .mutation(async ({ input }) => {
-      const client = getTikTokClient();
-
-      const state = input.state ?? Math.random().toString(36).substring(2, 15);
+    .input(z.object({ redirectUri: z.string().url() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await startTikTokAuthorization(ctx.db, {
+        userId: ctx.session.user.id,
+        flow: "creator",
+        redirectUri: input.redirectUri,
+      });
 
-      const { url: authUrl, codeVerifier } = await client.getAuthorizationUrl(
-        input.redirectUri,
-        state,
+      console.log(
+        "[TikTok OAuth Creator] Generated auth URL, state:",
+        result.state,
       );
 
-      console.log("[TikTok OAuth Creator] Generated auth URL, state:", state);
-
-      return {
-        authUrl,
-        state,
-        codeVerifier,
-      };
+      return result;
     }),
 
   /**
    * Exchange authorization code for tokens and link to user (creator)
    */
   creatorExchangeCode: protectedProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        redirectUri: z.string().url(),
-        codeVerifier: z.string(),
-      }),
-    )
+    .input(z.object({ code: z.string(), state: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const client = getTikTokClient();
-
       console.log("[TikTok OAuth Creator] Exchanging code for token...");
 
-      const tokenData = await client.exchangeCodeForToken(
-        input.code,
-        input.redirectUri,
-        input.codeVerifier,
-      );
-
-      console.log(
-        "[TikTok OAuth Creator] Token received, openId:",
-        tokenData.openId,
-      );
-
-      const userInfo = await client.getUserInfo(tokenData.accessToken);
-
-      console.log(
-        "[TikTok OAuth Creator] User info received:",
-        userInfo.display_name,
-      );
-
-      const generatedUsername = userInfo.display_name
-        .replace(/\s+/g, "_")
-        .toLowerCase();
-
-      // Check if account already exists by OpenID
-      const existingAccount = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.tiktokUserId, tokenData.openId),
+      const { account, isNew } = await completeTikTokAuthorization(ctx.db, {
+        userId: ctx.session.user.id,
+        flow: "creator",
+        organizationId: getSessionOrganizationId(ctx.session),
+        code: input.code,
+        state: input.state,
       });
 
-      let account;
-      let isNew = false;
-
-      if (existingAccount) {
-        // Update existing account with new tokens
-        console.log(
-          "[TikTok OAuth Creator] Updating existing account (by OpenID):",
-          existingAccount.id,
-        );
-
-        const [updatedAccount] = await ctx.db
-          .update(tiktokAccount)
-          .set({
-            accessToken: tokenData.accessToken,
-            refreshToken: tokenData.refreshToken,
-            tokenExpiresAt: tokenData.expiresAt,
-            name: userInfo.display_name,
-            followerCount: userInfo.follower_count ?? 0,
-            isActive: true,
-          })
-          .where(eq(tiktokAccount.id, existingAccount.id))
-          .returning();
-
-        account = updatedAccount;
-      } else {
-        // Check by username (to handle manual -> oauth upgrade)
-        const existingAccountByUsername =
-          await ctx.db.query.tiktokAccount.findFirst({
-            where: eq(tiktokAccount.tiktokUsername, generatedUsername),
-          });
-
-        if (existingAccountByUsername) {
-          console.log(
-            "[TikTok OAuth Creator] Updating existing account (by Username):",
-            existingAccountByUsername.id,
-          );
-
-          const [updatedAccount] = await ctx.db
-            .update(tiktokAccount)
-            .set({
-              tiktokUserId: tokenData.openId, // Update to OpenID
-              accessToken: tokenData.accessToken,
-              refreshToken: tokenData.refreshToken,
-              tokenExpiresAt: tokenData.expiresAt,
-              name: userInfo.display_name,
-              followerCount: userInfo.follower_count ?? 0,
-              isActive: true,
-            })
-            .where(eq(tiktokAccount.id, existingAccountByUsername.id))
-            .returning();
-
-          account = updatedAccount;
-        } else {
-          // Create new account
-          console.log(
-            "[TikTok OAuth Creator] Creating new account for:",
-            userInfo.display_name,
-          );
-
-          const [newAccount] = await ctx.db
-            .insert(tiktokAccount)
-            .values({
-              name: userInfo.display_name,
-              tiktokUsername: generatedUsername,
-              tiktokUserId: tokenData.openId,
-              accessToken: tokenData.accessToken,
-              refreshToken: tokenData.refreshToken,
-              tokenExpiresAt: tokenData.expiresAt,
-              followerCount: userInfo.follower_count ?? 0,
-              isActive: true,
-            })
-            .returning();
-
-          account = newAccount;
-          isNew = true;
-
-          console.log(
-            "[TikTok OAuth Creator] New account created:",
-            newAccount?.id,
-          );
-        }
-      }
-
       // Link account to user if not already linked
       if (account) {
         const existingLink = await ctx.db.query.userTiktokAccount.findFirst({
@@ -673,6 +413,9 @@ export const tiktokOAuthRouter = {
             accessToken: null,
             refreshToken: null,
             tokenExpiresAt: null,
+            refreshTokenExpiresAt: null,
+            tokenRefreshError: null,
+            needsReconnect: false,
             isActive: false,
             updatedAt: new Date(),
           })
@@ -713,28 +456,8 @@ export const tiktokOAuthRouter = {
 
       console.log("[TikTok OAuth Creator] Syncing account info:", account.id);
 
-      // Check if token needs refresh
-      let accessToken = account.accessToken;
-      if (account.tokenExpiresAt && account.tokenExpiresAt <= new Date()) {
-        if (!account.refreshToken) {
-          throw new Error("Token expired and no refresh token available");
-        }
-
-        const newTokenData = await client.refreshAccessToken(
-          account.refreshToken,
-        );
-
-        await ctx.db
-          .update(tiktokAccount)
-          .set({
-            accessToken: newTokenData.accessToken,
-            refreshToken: newTokenData.refreshToken,
-            tokenExpiresAt: newTokenData.expiresAt,
-          })
-          .where(eq(tiktokAccount.id, input.accountId));
-
-        accessToken = newTokenData.accessToken;
-      }
+      // Refreshes the token first if it has expired
+      const accessToken = await getTikTokAccessToken(ctx.db, account);
 
       const userInfo = await client.getUserInfo(accessToken);
 
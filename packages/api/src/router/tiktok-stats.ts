@@ -6,12 +6,13 @@
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { desc, eq, inArray } from "@everylab/db";
+import { and, asc, count, desc, eq } from "@everylab/db";
 import {
   clip,
   clipStats,
+  statsSyncRun,
+  statsSyncRunStatusEnum,
   tiktokAccount,
-  userTiktokAccount,
 } from "@everylab/db/schema";
 import {
   createTikTokClient,
@@ -19,7 +20,18 @@ import {
   tiktokEnv,
 } from "@everylab/tiktok";
 
-import { adminProcedure, protectedProcedure } from "../trpc";
+import {
+  accountInOrganization,
+  inOrganization,
+  userInOrganization,
+} from "../services/organizations";
+import { pickStatsSyncSource, syncAccountStats } from "../services/stats-sync";
+import { getTikTokAccessToken } from "../services/tiktok-oauth";
+import {
+  adminProcedure,
+  permissionProcedure,
+  protectedProcedure,
+} from "../trpc";
 
 // Create TikTok client if configured
 function getTikTokClient() {
@@ -34,102 +46,164 @@ function getTikTokClient() {
 
 export const tiktokStatsRouter = {
   /**
-   * Fetch and update stats for all published clips from a TikTok account
+   * Fetch and update stats for all published clips from a TikTok account.
+   * Same sync as the stats-sync job, logged as a manual run.
    */
   syncAccountStats: adminProcedure
     .input(z.object({ accountId: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
-      const client = getTikTokClient();
-
-      if (!client) {
-        throw new Error("TikTok API is not configured");
-      }
-
       const account = await ctx.db.query.tiktokAccount.findFirst({
-        where: eq(tiktokAccount.id, input.accountId),
+        where: and(
+          eq(tiktokAccount.id, input.accountId),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
+        columns: { id: true },
       });
-
       if (!account) {
         throw new Error("Account not found");
       }
 
-      if (!account.accessToken) {
-        throw new Error("Account is not connected to TikTok");
+      const run = await syncAccountStats(ctx.db, input.accountId, "manual");
+
+      if (run.status === "failed") {
+        throw new Error(run.error ?? "Stats sync failed");
       }
 
-      console.log("[TikTok Stats] Syncing stats for account:", account.id);
+      return { synced: run.clipsUpdated, run };
+    }),
 
-      // Get all published clips for this account
-      const publishedClips = await ctx.db.query.clip.findMany({
-        where: eq(clip.tiktokAccountId, input.accountId),
+  /**
+   * Stats sync cadence, source and latest run for every account
+   */
+  syncSchedule: permissionProcedure("analytics.read").query(async ({ ctx }) => {
+    const accounts = await ctx.db.query.tiktokAccount.findMany({
+      where: inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+      orderBy: asc(tiktokAccount.name),
+      columns: {
+        id: true,
+        name: true,
+        tiktokUsername: true,
+        isActive: true,
+        accessToken: true,
+        needsReconnect: true,
+        statsSyncIntervalMinutes: true,
+        lastStatsSyncAt: true,
+        nextStatsSyncAt: true,
+      },
+      with: {
+        statsSyncRuns: {
+          orderBy: desc(statsSyncRun.startedAt),
+          limit: 1,
+        },
+      },
+    });
+
+    return accounts.map(({ accessToken, statsSyncRuns, ...account }) => ({
+      ...account,
+      source: pickStatsSyncSource({
+        accessToken,
+        needsReconnect: account.needsReconnect,
+      }),
+      lastRun: statsSyncRuns[0] ?? null,
+    }));
+  }),
+
+  /**
+   * Change how often an account's stats are collected (0 turns it off)
+   */
+  setSyncInterval: adminProcedure
+    .input(
+      z.object({
+        accountId: z.string().uuid(),
+        intervalMinutes: z.number().int().min(0).max(10080),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const account = await ctx.db.query.tiktokAccount.findFirst({
+        where: and(
+          eq(tiktokAccount.id, input.accountId),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
+        columns: { lastStatsSyncAt: true },
       });
 
-      if (publishedClips.length === 0) {
-        console.log(
-          "[TikTok Stats] No published clips for account:",
-          account.id,
-        );
-        return { synced: 0 };
+      if (!account) {
+        throw new Error("Account not found");
       }
 
-      // Get video list from TikTok
-      let videos;
-      try {
-        const result = await client.getVideoList(account.accessToken, {
-          maxCount: 50,
+      // Next sync is one interval after the last one (or right away if that has passed)
+      const nextStatsSyncAt =
+        input.intervalMinutes === 0
+          ? null
+          : account.lastStatsSyncAt
+            ? new Date(
+                account.lastStatsSyncAt.getTime() +
+                  input.intervalMinutes * 60_000,
+              )
+            : null;
+
+      const [updated] = await ctx.db
+        .update(tiktokAccount)
+        .set({
+          statsSyncIntervalMinutes: input.intervalMinutes,
+          nextStatsSyncAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(tiktokAccount.id, input.accountId))
+        .returning({
+          id: tiktokAccount.id,
+          statsSyncIntervalMinutes: tiktokAccount.statsSyncIntervalMinutes,
+          nextStatsSyncAt: tiktokAccount.nextStatsSyncAt,
         });
-        videos = result.videos;
-      } catch (error) {
-        console.error("[TikTok Stats] Failed to fetch videos:", error);
-        throw new Error("Failed to fetch videos from TikTok");
-      }
 
-      console.log(
-        "[TikTok Stats] Fetched",
-        videos.length,
-        "videos from TikTok",
-      );
+      return updated;
+    }),
 
-      // Create a map of TikTok video ID to stats
-      const videoStatsMap = new Map<
-        string,
-        { views: number; likes: number; comments: number; shares: number }
-      >(
-        videos.map((v) => [
-          v.id,
-          {
-            views: v.view_count ?? 0,
-            likes: v.like_count ?? 0,
-            comments: v.comment_count ?? 0,
-            shares: v.share_count ?? 0,
-          },
-        ]),
+  /**
+   * Stats sync run log, newest first
+   */
+  syncRuns: permissionProcedure("analytics.read")
+    .input(
+      z.object({
+        accountId: z.string().uuid().optional(),
+        status: z.enum(statsSyncRunStatusEnum.enumValues).optional(),
+        limit: z.number().int().min(1).max(100).default(25),
+        offset: z.number().int().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const where = and(
+        input.accountId
+          ? eq(statsSyncRun.tiktokAccountId, input.accountId)
+          : undefined,
+        input.status ? eq(statsSyncRun.status, input.status) : undefined,
+        accountInOrganization(
+          ctx.db,
+          ctx.organizationId,
+          statsSyncRun.tiktokAccountId,
+        ),
       );
 
-      // Update stats for each published clip
-      let syncedCount = 0;
-
-      for (const publishedClip of publishedClips) {
-        if (!publishedClip.tiktokVideoId) continue;
-
-        const stats = videoStatsMap.get(publishedClip.tiktokVideoId);
-        if (!stats) continue;
-
-        // Insert new stats record
-        await ctx.db.insert(clipStats).values({
-          clipId: publishedClip.id,
-          views: stats.views,
-          likes: stats.likes,
-          comments: stats.comments,
-          shares: stats.shares,
-        });
-
-        syncedCount++;
-      }
-
-      console.log("[TikTok Stats] Synced stats for", syncedCount, "clips");
+      const [runs, [totalRow]] = await Promise.all([
+        ctx.db.query.statsSyncRun.findMany({
+          where,
+          orderBy: desc(statsSyncRun.startedAt),
+          limit: input.limit,
+          offset: input.offset,
+          with: {
+            tiktokAccount: {
+              columns: {
+                id: true,
+                name: true,
+                tiktokUsername: true,
+              },
+            },
+          },
+        }),
+        ctx.db.select({ total: count() }).from(statsSyncRun).where(where),
+      ]);
 
-      return { synced: syncedCount };
+      return { runs, total: totalRow?.total ?? 0 };
     }),
 
   /**
@@ -145,7 +219,10 @@ export const tiktokStatsRouter = {
       }
 
       const existingClip = await ctx.db.query.clip.findFirst({
-        where: eq(clip.id, input.clipId),
+        where: and(
+          eq(clip.id, input.clipId),
+          userInOrganization(ctx.db, ctx.organizationId, clip.userId),
+        ),
         with: {
           tiktokAccount: true,
         },
@@ -165,13 +242,17 @@ export const tiktokStatsRouter = {
 
       console.log("[TikTok Stats] Syncing stats for clip:", input.clipId);
 
+      const accessToken = await getTikTokAccessToken(
+        ctx.db,
+        existingClip.tiktokAccount,
+      );
+
       // Query the specific video
       let videos;
       try {
-        videos = await client.queryVideos(
-          existingClip.tiktokAccount.accessToken,
-          [existingClip.tiktokVideoId],
-        );
+        videos = await client.queryVideos(accessToken, [
+          existingClip.tiktokVideoId,
+        ]);
       } catch (error) {
         console.error("[TikTok Stats] Failed to query video:", error);
         throw new Error("Failed to fetch video stats from TikTok");
@@ -265,96 +346,4 @@ export const tiktokStatsRouter = {
       clips: clipsWithStats,
     };
   }),
-
-  /**
-   * Get stats for clips published under TikTok account(s) assigned to the current user.
-   * This is account-scoped (not "my uploads").
-   */
-  getAssignedAccountClipsStats: protectedProcedure.query(async ({ ctx }) => {
-    const links = await ctx.db.query.userTiktokAccount.findMany({
-      where: eq(userTiktokAccount.userId, ctx.session.user.id),
-      orderBy: desc(userTiktokAccount.createdAt),
-      with: {
-        tiktokAccount: {
-          columns: {
-            id: true,
-            name: true,
-            tiktokUsername: true,
-          },
-        },
-      },
-    });
-
-    const assignedAccounts = links.map((l) => l.tiktokAccount);
-    const assignedAccountIds = assignedAccounts.map((a) => a.id);
-
-    if (assignedAccountIds.length === 0) {
-      return {
-        assignedAccounts: [],
-        totals: { views: 0, likes: 0, comments: 0, shares: 0 },
-        clips: [],
-      };
-    }
-
-    const accountClips = await ctx.db.query.clip.findMany({
-      where: inArray(clip.tiktokAccountId, assignedAccountIds),
-      orderBy: desc(clip.createdAt),
-      with: {
-        stats: {
-          orderBy: desc(clipStats.recordedAt),
-          limit: 1,
-        },
-        tiktokAccount: {
-          columns: {
-            id: true,
-            name: true,
-            tiktokUsername: true,
-          },
-        },
-      },
-    });
-
-    let totalViews = 0;
-    let totalLikes = 0;
-    let totalComments = 0;
-    let totalShares = 0;
-
-    const clipsWithStats = accountClips.map((c) => {
-      const latestStats = c.stats[0];
-      if (latestStats) {
-        totalViews += latestStats.views;
-        totalLikes += latestStats.likes;
-        totalComments += latestStats.comments;
-        totalShares += latestStats.shares;
-      }
-
-      return {
-        id: c.id,
-        title: c.title,
-        status: c.status,
-        createdAt: c.createdAt,
-        publishedAt: c.publishedAt,
-        tiktokAccount: c.tiktokAccount,
-        stats: latestStats
-          ? {
-              views: latestStats.views,
-              likes: latestStats.likes,
-              comments: latestStats.comments,
-              shares: latestStats.shares,
-            }
-          : null,
-      };
-    });
-
-    return {
-      assignedAccounts,
-      totals: {
-        views: totalViews,
-        likes: totalLikes,
-        comments: totalComments,
-        shares: totalShares,
-      },
-      clips: clipsWithStats,
-    };
-  }),
 } satisfies TRPCRouterRecord;
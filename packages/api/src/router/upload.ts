@@ -1,7 +1,9 @@
 /**
  * Upload Router
  *
- * Handles file upload operations - presigned URLs for S3
+ * Handles file upload operations - presigned URLs for S3. Videos go up as
+ * multipart uploads so a dropped connection only costs the part in flight;
+ * uploads abandoned halfway are aborted by the multipart upload sweeper job.
  */
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
@@ -10,24 +12,50 @@ import { eq } from "@everylab/db";
 import { userTiktokAccount } from "@everylab/db/schema";
 import { createStorageFromEnv } from "@everylab/storage";
 
+import { MAX_VIDEO_SIZE_BYTES } from "../services/video-ingest";
 import { protectedProcedure } from "../trpc";
 
-// Allowed video extensions
-const ALLOWED_EXTENSIONS = ["mp4", "webm", "mov", "avi", "mkv"];
-const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+// Allowed video extensions; only MP4 and MOV can be probed on ingest
+const VIDEO_EXTENSIONS = ["mp4", "mov"];
+// Allowed carousel image extensions
+const IMAGE_EXTENSIONS = ["jpg", "jpeg", "png", "webp"];
+const ALLOWED_EXTENSIONS = [...VIDEO_EXTENSIONS, ...IMAGE_EXTENSIONS];
+const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB in a single PUT
+const MAX_IMAGE_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Multipart parts must be at least 5MB (except the last) and number at most
+// 10,000; 10MB parts keep a 4GB video to about 400
+const PART_SIZE = 10 * 1024 * 1024;
+const MAX_PARTS = 10_000;
+const MAX_PART_URLS_PER_REQUEST = 50;
 
 // Content type mapping
 const CONTENT_TYPES: Record<string, string> = {
   mp4: "video/mp4",
-  webm: "video/webm",
   mov: "video/quicktime",
-  avi: "video/x-msvideo",
-  mkv: "video/x-matroska",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
 };
 
+const multipartUploadInput = z.object({
+  key: z.string().min(1),
+  uploadId: z.string().min(1),
+});
+
+/**
+ * Throw unless `key` is one of the user's own uploads
+ */
+function assertOwnUpload(key: string, userId: string) {
+  if (!key.startsWith(`clips/${userId}/`)) {
+    throw new Error("Upload not found");
+  }
+}
+
 export const uploadRouter = {
   /**
-   * Get a presigned URL for uploading a video to S3
+   * Get a presigned URL for uploading a video or carousel image to S3
    */
   getPresignedUrl: protectedProcedure
     .input(
@@ -50,6 +78,12 @@ export const uploadRouter = {
         );
       }
 
+      if (IMAGE_EXTENSIONS.includes(ext) && input.fileSize > MAX_IMAGE_SIZE) {
+        throw new Error(
+          `Images must be under ${MAX_IMAGE_SIZE / 1024 / 1024}MB`,
+        );
+      }
+
       const contentType = CONTENT_TYPES[ext] ?? "video/mp4";
       const userId = ctx.session.user.id;
 
@@ -78,6 +112,165 @@ export const uploadRouter = {
       };
     }),
 
+  /**
+   * Start a multipart upload of a video. The client uploads `partCount`
+   * parts of `partSize` bytes (the last may be smaller) to URLs from
+   * getPartUrls, then calls completeMultipartUpload.
+   */
+  createMultipartUpload: protectedProcedure
+    .input(
+      z.object({
+        filename: z.string(),
+        fileSize: z
+          .number()
+          .int()
+          .min(1)
+          .max(
+            MAX_VIDEO_SIZE_BYTES,
+            `Videos must be under ${MAX_VIDEO_SIZE_BYTES / 1024 / 1024 / 1024}GB`,
+          ),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ext = input.filename.split(".").pop()?.toLowerCase();
+      if (!ext || !VIDEO_EXTENSIONS.includes(ext)) {
+        throw new Error(
+          `Invalid file type. Allowed: ${VIDEO_EXTENSIONS.join(", ")}`,
+        );
+      }
+
+      const partSize = Math.max(
+        PART_SIZE,
+        Math.ceil(input.fileSize / MAX_PARTS),
+      );
+      const partCount = Math.ceil(input.fileSize / partSize);
+
+      const storage = createStorageFromEnv();
+      const key = storage.generateKey(
+        `clips/${ctx.session.user.id}`,
+        input.filename,
+      );
+      const uploadId = await storage.createMultipartUpload(
+        key,
+        CONTENT_TYPES[ext] ?? "video/mp4",
+      );
+
+      console.log(
+        `[Upload] Started multipart upload of ${key} in ${partCount} parts`,
+      );
+
+      return {
+        key,
+        uploadId,
+        partSize,
+        partCount,
+        publicUrl: storage.getPublicUrl(key),
+      };
+    }),
+
+  /**
+   * Presigned URLs for uploading parts of a multipart upload
+   */
+  getPartUrls: protectedProcedure
+    .input(
+      multipartUploadInput.extend({
+        partNumbers: z
+          .array(z.number().int().min(1).max(MAX_PARTS))
+          .min(1)
+          .max(MAX_PART_URLS_PER_REQUEST),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertOwnUpload(input.key, ctx.session.user.id);
+
+      const storage = createStorageFromEnv();
+      return Promise.all(
+        input.partNumbers.map(async (partNumber) => {
+          const { url } = await storage.getPresignedPartUrl(
+            input.key,
+            input.uploadId,
+            partNumber,
+          );
+          return { partNumber, url };
+        }),
+      );
+    }),
+
+  /**
+   * Parts of a multipart upload already uploaded, so an interrupted upload
+   * can resume where it stopped
+   */
+  listUploadedParts: protectedProcedure
+    .input(multipartUploadInput)
+    .mutation(async ({ ctx, input }) => {
+      assertOwnUpload(input.key, ctx.session.user.id);
+
+      const storage = createStorageFromEnv();
+      const parts = await storage.listUploadedParts(input.key, input.uploadId);
+      if (!parts) {
+        throw new Error("This upload has expired. Start it again.");
+      }
+
+      return parts.map((part) => ({
+        partNumber: part.partNumber,
+        size: part.size,
+      }));
+    }),
+
+  /**
+   * Finish a multipart upload once all `partCount` parts are uploaded
+   */
+  completeMultipartUpload: protectedProcedure
+    .input(
+      multipartUploadInput.extend({
+        partCount: z.number().int().min(1).max(MAX_PARTS),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertOwnUpload(input.key, ctx.session.user.id);
+
+      const storage = createStorageFromEnv();
+      const parts = await storage.listUploadedParts(input.key, input.uploadId);
+      if (!parts) {
+        throw new Error("This upload has expired. Start it again.");
+      }
+
+      const uploaded = new Set(parts.map((part) => part.partNumber));
+      const missing: number[] = [];
+      for (let partNumber = 1; partNumber <= input.partCount; partNumber++) {
+        if (!uploaded.has(partNumber)) missing.push(partNumber);
+      }
+      if (missing.length > 0) {
+        throw new Error(
+          `${missing.length} part(s) haven't been uploaded yet, starting with part ${missing[0]}`,
+        );
+      }
+
+      await storage.completeMultipartUpload(
+        input.key,
+        input.uploadId,
+        parts.filter((part) => part.partNumber <= input.partCount),
+      );
+
+      console.log(`[Upload] Completed multipart upload of ${input.key}`);
+
+      return { key: input.key, publicUrl: storage.getPublicUrl(input.key) };
+    }),
+
+  /**
+   * Cancel a multipart upload and discard its parts
+   */
+  abortMultipartUpload: protectedProcedure
+    .input(multipartUploadInput)
+    .mutation(async ({ ctx, input }) => {
+      assertOwnUpload(input.key, ctx.session.user.id);
+
+      const storage = createStorageFromEnv();
+      await storage.abortMultipartUpload(input.key, input.uploadId);
+
+      return { success: true };
+    }),
+
   /**
    * Get user's linked TikTok accounts for video submission
    */
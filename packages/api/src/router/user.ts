@@ -1,27 +1,50 @@
 /**
  * User Router
  *
- * Handles user management and TikTok account assignment (admin only)
+ * Handles user management, staff roles and TikTok account assignment (admin
+ * only)
  */
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
 import { and, desc, eq } from "@everylab/db";
-import { tiktokAccount, user, userTiktokAccount } from "@everylab/db/schema";
-
+import {
+  tiktokAccount,
+  user,
+  userRoleEnum,
+  userTiktokAccount,
+} from "@everylab/db/schema";
+
+import { inOrganization, userInOrganization } from "../services/organizations";
 import { adminProcedure } from "../trpc";
 
+/**
+ * Matches one user, as long as they belong to the organization
+ */
+function userInScope(id: string, organizationId: string | null) {
+  return and(
+    eq(user.id, id),
+    inOrganization(organizationId, user.organizationId),
+  );
+}
+
 export const userRouter = {
   /**
    * List all users with their linked TikTok accounts
    */
   list: adminProcedure.query(async ({ ctx }) => {
     const users = await ctx.db.query.user.findMany({
+      where: inOrganization(ctx.organizationId, user.organizationId),
       orderBy: desc(user.createdAt),
     });
 
     // Get all user-account links
     const links = await ctx.db.query.userTiktokAccount.findMany({
+      where: userInOrganization(
+        ctx.db,
+        ctx.organizationId,
+        userTiktokAccount.userId,
+      ),
       with: {
         tiktokAccount: {
           columns: {
@@ -55,7 +78,7 @@ export const userRouter = {
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       const foundUser = await ctx.db.query.user.findFirst({
-        where: eq(user.id, input.id),
+        where: userInScope(input.id, ctx.organizationId),
       });
 
       if (!foundUser) {
@@ -82,6 +105,37 @@ export const userRouter = {
       };
     }),
 
+  /**
+   * Change a user's role. Reviewers, operators and analysts get one part of
+   * the admin area each (see `permissionProcedure`).
+   */
+  setRole: adminProcedure
+    .input(
+      z.object({
+        userId: z.string(),
+        role: z.enum(userRoleEnum.enumValues),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.userId === ctx.session.user.id) {
+        throw new Error("You can't change your own role");
+      }
+
+      const [updated] = await ctx.db
+        .update(user)
+        .set({ role: input.role, updatedAt: new Date() })
+        .where(userInScope(input.userId, ctx.organizationId))
+        .returning({ id: user.id, role: user.role });
+
+      if (!updated) {
+        throw new Error("User not found");
+      }
+
+      console.log(`[Users] Set role of ${updated.id} to ${updated.role}`);
+
+      return updated;
+    }),
+
   /**
    * Link a TikTok account to a user
    */
@@ -93,6 +147,19 @@ export const userRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const linkedUser = await ctx.db.query.user.findFirst({
+        where: userInScope(input.userId, ctx.organizationId),
+      });
+      const account = await ctx.db.query.tiktokAccount.findFirst({
+        where: and(
+          eq(tiktokAccount.id, input.tiktokAccountId),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
+      });
+      if (!linkedUser || !account) {
+        throw new Error("User or account not found");
+      }
+
       // Check if link already exists
       const existing = await ctx.db.query.userTiktokAccount.findFirst({
         where: and(
@@ -133,6 +200,11 @@ export const userRouter = {
           and(
             eq(userTiktokAccount.userId, input.userId),
             eq(userTiktokAccount.tiktokAccountId, input.tiktokAccountId),
+            userInOrganization(
+              ctx.db,
+              ctx.organizationId,
+              userTiktokAccount.userId,
+            ),
           ),
         );
 
@@ -156,7 +228,10 @@ export const userRouter = {
 
       // Get all active accounts
       const allAccounts = await ctx.db.query.tiktokAccount.findMany({
-        where: eq(tiktokAccount.isActive, true),
+        where: and(
+          eq(tiktokAccount.isActive, true),
+          inOrganization(ctx.organizationId, tiktokAccount.organizationId),
+        ),
         orderBy: desc(tiktokAccount.createdAt),
       });
 
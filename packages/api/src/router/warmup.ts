@@ -0,0 +1,465 @@
+/**
+ * Warmup Router
+ *
+ * Admin and operator management of multi-day warmup programs and the cloud
+ * phones enrolled in them. Tasks are created by the `warmup-scheduler` job a
+ * day at a time; enrolling or resuming schedules anything already due straight
+ * away.
+ */
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, asc, count, desc, eq, inArray } from "@everylab/db";
+import {
+  cloudPhone,
+  CreateWarmupProgramSchema,
+  geelarkTask,
+  UpdateWarmupProgramSchema,
+  warmupEnrollment,
+  warmupEnrollmentStatusEnum,
+  warmupProgram,
+  warmupProgramStep,
+} from "@everylab/db/schema";
+
+import { inOrganization, phoneInOrganization } from "../services/organizations";
+import {
+  cancelWarmupEnrollment,
+  scheduleWarmupEnrollment,
+  warmupCurrentDay,
+  warmupProgramDays,
+} from "../services/warmup";
+import { permissionProcedure } from "../trpc";
+
+// Enrollments that still own their cloud phone
+const OPEN_STATUSES = ["active", "paused"] as const;
+
+/**
+ * Matches one program, as long as it belongs to the organization
+ */
+function programInScope(id: string, organizationId: string | null) {
+  return and(
+    eq(warmupProgram.id, id),
+    inOrganization(organizationId, warmupProgram.organizationId),
+  );
+}
+
+export const warmupRouter = {
+  /**
+   * List programs with their steps and how many phones are enrolled
+   */
+  listPrograms: permissionProcedure("devices.operate").query(
+    async ({ ctx }) => {
+      const programs = await ctx.db.query.warmupProgram.findMany({
+        where: inOrganization(ctx.organizationId, warmupProgram.organizationId),
+        orderBy: [desc(warmupProgram.createdAt)],
+        with: {
+          steps: {
+            orderBy: [
+              asc(warmupProgramStep.day),
+              asc(warmupProgramStep.position),
+            ],
+          },
+        },
+      });
+
+      const openCounts = await ctx.db
+        .select({ programId: warmupEnrollment.programId, total: count() })
+        .from(warmupEnrollment)
+        .where(inArray(warmupEnrollment.status, [...OPEN_STATUSES]))
+        .groupBy(warmupEnrollment.programId);
+
+      const openByProgram = new Map(
+        openCounts.map((row) => [row.programId, row.total]),
+      );
+
+      return programs.map((program) => ({
+        ...program,
+        days: warmupProgramDays(program.steps),
+        openEnrollments: openByProgram.get(program.id) ?? 0,
+      }));
+    },
+  ),
+
+  /**
+   * Create a program with its steps
+   */
+  createProgram: permissionProcedure("devices.operate")
+    .input(CreateWarmupProgramSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { steps, ...data } = input;
+
+      const [program] = await ctx.db
+        .insert(warmupProgram)
+        .values({
+          ...data,
+          organizationId: ctx.organizationId,
+          createdById: ctx.session.user.id,
+        })
+        .returning();
+
+      if (!program) {
+        throw new Error("Failed to create warmup program");
+      }
+
+      await ctx.db
+        .insert(warmupProgramStep)
+        .values(steps.map((step) => ({ ...step, programId: program.id })));
+
+      console.log(
+        `[Warmup] Created program "${program.name}" with ${steps.length} steps`,
+      );
+
+      return program;
+    }),
+
+  /**
+   * Update a program. Passing `steps` replaces all of them; enrolled phones
+   * pick up the change from the next day that hasn't been scheduled yet.
+   */
+  updateProgram: permissionProcedure("devices.operate")
+    .input(UpdateWarmupProgramSchema.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, steps, ...data } = input;
+
+      const [updated] = await ctx.db
+        .update(warmupProgram)
+        .set({ ...data, updatedAt: new Date() })
+        .where(programInScope(id, ctx.organizationId))
+        .returning({ id: warmupProgram.id });
+
+      if (!updated) {
+        throw new Error("Warmup program not found");
+      }
+
+      if (steps) {
+        await ctx.db
+          .delete(warmupProgramStep)
+          .where(eq(warmupProgramStep.programId, id));
+        await ctx.db
+          .insert(warmupProgramStep)
+          .values(steps.map((step) => ({ ...step, programId: id })));
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Delete a program. Refused while phones are still enrolled in it.
+   */
+  deleteProgram: permissionProcedure("devices.operate")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const program = await ctx.db.query.warmupProgram.findFirst({
+        where: programInScope(input.id, ctx.organizationId),
+        columns: { id: true },
+      });
+
+      if (!program) {
+        throw new Error("Warmup program not found");
+      }
+
+      const open = await ctx.db.query.warmupEnrollment.findFirst({
+        where: and(
+          eq(warmupEnrollment.programId, input.id),
+          inArray(warmupEnrollment.status, [...OPEN_STATUSES]),
+        ),
+        columns: { id: true },
+      });
+
+      if (open) {
+        throw new Error(
+          "Program still has active or paused enrollments; cancel them first",
+        );
+      }
+
+      await ctx.db.delete(warmupProgram).where(eq(warmupProgram.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Enroll cloud phones in a program. Phones already in an active or paused
+   * program are skipped. Days that are already due are scheduled right away.
+   */
+  enroll: permissionProcedure("devices.operate")
+    .input(
+      z.object({
+        programId: z.string().uuid(),
+        cloudPhoneIds: z.array(z.string().min(1)).min(1).max(200),
+        startsAt: z.date().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const program = await ctx.db.query.warmupProgram.findFirst({
+        where: programInScope(input.programId, ctx.organizationId),
+        columns: { id: true, name: true },
+      });
+
+      if (!program) {
+        throw new Error("Warmup program not found");
+      }
+
+      const requestedIds = [...new Set(input.cloudPhoneIds)];
+
+      const phones = await ctx.db.query.cloudPhone.findMany({
+        where: and(
+          inArray(cloudPhone.id, requestedIds),
+          inOrganization(ctx.organizationId, cloudPhone.organizationId),
+        ),
+        columns: { id: true },
+      });
+      const phoneIds = new Set(phones.map((p) => p.id));
+      const cloudPhoneIds = requestedIds.filter((id) => phoneIds.has(id));
+      const unknown = requestedIds
+        .filter((id) => !phoneIds.has(id))
+        .map((cloudPhoneId) => ({
+          cloudPhoneId,
+          reason: "Cloud phone not found",
+        }));
+
+      const busy = await ctx.db.query.warmupEnrollment.findMany({
+        where: and(
+          inArray(warmupEnrollment.cloudPhoneId, cloudPhoneIds),
+          inArray(warmupEnrollment.status, [...OPEN_STATUSES]),
+        ),
+        columns: { cloudPhoneId: true },
+      });
+      const busyIds = new Set(busy.map((e) => e.cloudPhoneId));
+
+      const skipped = [
+        ...unknown,
+        ...cloudPhoneIds
+          .filter((id) => busyIds.has(id))
+          .map((cloudPhoneId) => ({
+            cloudPhoneId,
+            reason: "Already enrolled in a warmup program",
+          })),
+      ];
+      const toEnroll = cloudPhoneIds.filter((id) => !busyIds.has(id));
+
+      if (toEnroll.length === 0) {
+        return { enrolled: 0, tasksCreated: 0, skipped };
+      }
+
+      const enrollments = await ctx.db
+        .insert(warmupEnrollment)
+        .values(
+          toEnroll.map((cloudPhoneId) => ({
+            programId: program.id,
+            cloudPhoneId,
+            startsAt: input.startsAt ?? new Date(),
+            enrolledById: ctx.session.user.id,
+          })),
+        )
+        .returning({ id: warmupEnrollment.id });
+
+      let tasksCreated = 0;
+      for (const enrollment of enrollments) {
+        const result = await scheduleWarmupEnrollment(ctx.db, enrollment.id);
+        tasksCreated += result.tasksCreated;
+      }
+
+      console.log(
+        `[Warmup] Enrolled ${enrollments.length} phones in "${program.name}", ${tasksCreated} tasks created`,
+      );
+
+      return { enrolled: enrollments.length, tasksCreated, skipped };
+    }),
+
+  /**
+   * Enrollments with per-phone progress, newest first
+   */
+  enrollments: permissionProcedure("devices.operate")
+    .input(
+      z.object({
+        programId: z.string().uuid().optional(),
+        status: z.enum(warmupEnrollmentStatusEnum.enumValues).optional(),
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const conditions = [];
+      const inScope = phoneInOrganization(
+        ctx.db,
+        ctx.organizationId,
+        warmupEnrollment.cloudPhoneId,
+      );
+      if (inScope) conditions.push(inScope);
+      if (input.programId) {
+        conditions.push(eq(warmupEnrollment.programId, input.programId));
+      }
+      if (input.status) {
+        conditions.push(eq(warmupEnrollment.status, input.status));
+      }
+      const whereClause =
+        conditions.length > 0 ? and(...conditions) : undefined;
+
+      const enrollments = await ctx.db.query.warmupEnrollment.findMany({
+        where: whereClause,
+        orderBy: [desc(warmupEnrollment.createdAt)],
+        limit: input.limit,
+        offset: input.offset,
+        with: {
+          program: {
+            columns: { id: true, name: true },
+            with: {
+              steps: { columns: { day: true } },
+            },
+          },
+          cloudPhone: {
+            columns: { id: true, serialName: true },
+          },
+        },
+      });
+
+      const [totals] = await ctx.db
+        .select({ total: count() })
+        .from(warmupEnrollment)
+        .where(whereClause);
+
+      const taskCounts =
+        enrollments.length > 0
+          ? await ctx.db
+              .select({
+                enrollmentId: geelarkTask.warmupEnrollmentId,
+                status: geelarkTask.status,
+                total: count(),
+              })
+              .from(geelarkTask)
+              .where(
+                inArray(
+                  geelarkTask.warmupEnrollmentId,
+                  enrollments.map((e) => e.id),
+                ),
+              )
+              .groupBy(geelarkTask.warmupEnrollmentId, geelarkTask.status)
+          : [];
+
+      return {
+        enrollments: enrollments.map(({ program, ...enrollment }) => {
+          const totalDays = warmupProgramDays(program.steps);
+          const tasks: Record<string, number> = {};
+          for (const row of taskCounts) {
+            if (row.enrollmentId === enrollment.id) {
+              tasks[row.status] = row.total;
+            }
+          }
+
+          return {
+            ...enrollment,
+            program: { id: program.id, name: program.name },
+            totalDays,
+            currentDay: warmupCurrentDay(enrollment, totalDays),
+            tasks,
+          };
+        }),
+        total: totals?.total ?? 0,
+      };
+    }),
+
+  /**
+   * Stop scheduling new days. Tasks already sent to GeeLark still run.
+   */
+  pause: permissionProcedure("devices.operate")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [updated] = await ctx.db
+        .update(warmupEnrollment)
+        .set({ status: "paused", pausedAt: new Date(), updatedAt: new Date() })
+        .where(
+          and(
+            eq(warmupEnrollment.id, input.id),
+            eq(warmupEnrollment.status, "active"),
+            phoneInOrganization(
+              ctx.db,
+              ctx.organizationId,
+              warmupEnrollment.cloudPhoneId,
+            ),
+          ),
+        )
+        .returning({ id: warmupEnrollment.id });
+
+      if (!updated) {
+        throw new Error("Enrollment not found or not active");
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Resume a paused enrollment. The remaining days are pushed back by however
+   * long it was paused, so no day is skipped.
+   */
+  resume: permissionProcedure("devices.operate")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const enrollment = await ctx.db.query.warmupEnrollment.findFirst({
+        where: and(
+          eq(warmupEnrollment.id, input.id),
+          phoneInOrganization(
+            ctx.db,
+            ctx.organizationId,
+            warmupEnrollment.cloudPhoneId,
+          ),
+        ),
+      });
+
+      if (enrollment?.status !== "paused") {
+        throw new Error("Enrollment not found or not paused");
+      }
+
+      const pausedFor = enrollment.pausedAt
+        ? Date.now() - enrollment.pausedAt.getTime()
+        : 0;
+
+      await ctx.db
+        .update(warmupEnrollment)
+        .set({
+          status: "active",
+          startsAt: new Date(enrollment.startsAt.getTime() + pausedFor),
+          pausedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(warmupEnrollment.id, enrollment.id));
+
+      return scheduleWarmupEnrollment(ctx.db, enrollment.id);
+    }),
+
+  /**
+   * Cancel an enrollment and the GeeLark tasks it hasn't started yet
+   */
+  cancel: permissionProcedure("devices.operate")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const enrollment = await ctx.db.query.warmupEnrollment.findFirst({
+        where: and(
+          eq(warmupEnrollment.id, input.id),
+          phoneInOrganization(
+            ctx.db,
+            ctx.organizationId,
+            warmupEnrollment.cloudPhoneId,
+          ),
+        ),
+        columns: { id: true, status: true },
+      });
+
+      if (!enrollment) {
+        throw new Error("Enrollment not found");
+      }
+      if (
+        enrollment.status === "completed" ||
+        enrollment.status === "cancelled"
+      ) {
+        throw new Error(`Enrollment is already ${enrollment.status}`);
+      }
+
+      const result = await cancelWarmupEnrollment(ctx.db, enrollment.id);
+
+      console.log(
+        `[Warmup] Cancelled enrollment ${enrollment.id}, ${result.cancelledTasks} tasks cancelled`,
+      );
+
+      return result;
+    }),
+} satisfies TRPCRouterRecord;
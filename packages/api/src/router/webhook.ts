@@ -0,0 +1,206 @@
+/**
+ * Webhook Router
+ *
+ * Admin management of outbound webhook endpoints and their delivery log.
+ */
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, count, desc, eq, inArray } from "@everylab/db";
+import {
+  CreateWebhookEndpointSchema,
+  UpdateWebhookEndpointSchema,
+  webhookDelivery,
+  webhookDeliveryStatusEnum,
+  webhookEndpoint,
+} from "@everylab/db/schema";
+
+import { inOrganization } from "../services/organizations";
+import {
+  assertPublicWebhookUrl,
+  generateWebhookSecret,
+  replayWebhookDelivery,
+} from "../services/webhooks";
+import { adminProcedure } from "../trpc";
+
+/**
+ * Matches one endpoint, as long as it belongs to the organization
+ */
+function endpointInScope(id: string, organizationId: string | null) {
+  return and(
+    eq(webhookEndpoint.id, id),
+    inOrganization(organizationId, webhookEndpoint.organizationId),
+  );
+}
+
+export const webhookRouter = {
+  /**
+   * List endpoints. The signing secret is only shown on create and rotate.
+   */
+  list: adminProcedure.query(async ({ ctx }) => {
+    return ctx.db.query.webhookEndpoint.findMany({
+      where: inOrganization(ctx.organizationId, webhookEndpoint.organizationId),
+      orderBy: [desc(webhookEndpoint.createdAt)],
+      columns: {
+        secret: false,
+      },
+    });
+  }),
+
+  /**
+   * Register an endpoint and generate its signing secret
+   */
+  create: adminProcedure
+    .input(CreateWebhookEndpointSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertPublicWebhookUrl(input.url);
+
+      const [endpoint] = await ctx.db
+        .insert(webhookEndpoint)
+        .values({
+          ...input,
+          secret: generateWebhookSecret(),
+          organizationId: ctx.organizationId,
+          createdById: ctx.session.user.id,
+        })
+        .returning();
+
+      console.log(`[Webhooks] Registered endpoint ${input.url}`);
+
+      return endpoint;
+    }),
+
+  /**
+   * Update an endpoint's name, URL, event filter or enabled flag
+   */
+  update: adminProcedure
+    .input(UpdateWebhookEndpointSchema.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      if (data.url) {
+        await assertPublicWebhookUrl(data.url);
+      }
+
+      const [updated] = await ctx.db
+        .update(webhookEndpoint)
+        .set({ ...data, updatedAt: new Date() })
+        .where(endpointInScope(id, ctx.organizationId))
+        .returning({ id: webhookEndpoint.id });
+
+      if (!updated) {
+        throw new Error("Webhook endpoint not found");
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Replace an endpoint's signing secret. The old secret stops working at once.
+   */
+  rotateSecret: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const secret = generateWebhookSecret();
+
+      const [updated] = await ctx.db
+        .update(webhookEndpoint)
+        .set({ secret, updatedAt: new Date() })
+        .where(endpointInScope(input.id, ctx.organizationId))
+        .returning({ id: webhookEndpoint.id });
+
+      if (!updated) {
+        throw new Error("Webhook endpoint not found");
+      }
+
+      console.log(`[Webhooks] Rotated secret for endpoint ${input.id}`);
+
+      return { id: updated.id, secret };
+    }),
+
+  /**
+   * Delete an endpoint and its delivery log
+   */
+  delete: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(webhookEndpoint)
+        .where(endpointInScope(input.id, ctx.organizationId));
+
+      return { success: true };
+    }),
+
+  /**
+   * Delivery log, newest first
+   */
+  deliveries: adminProcedure
+    .input(
+      z.object({
+        endpointId: z.string().uuid().optional(),
+        status: z.enum(webhookDeliveryStatusEnum.enumValues).optional(),
+        limit: z.number().min(1).max(100).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const conditions = [];
+      if (ctx.organizationId) {
+        conditions.push(
+          inArray(
+            webhookDelivery.endpointId,
+            ctx.db
+              .select({ id: webhookEndpoint.id })
+              .from(webhookEndpoint)
+              .where(eq(webhookEndpoint.organizationId, ctx.organizationId)),
+          ),
+        );
+      }
+      if (input.endpointId) {
+        conditions.push(eq(webhookDelivery.endpointId, input.endpointId));
+      }
+      if (input.status) {
+        conditions.push(eq(webhookDelivery.status, input.status));
+      }
+      const whereClause =
+        conditions.length > 0 ? and(...conditions) : undefined;
+
+      const deliveries = await ctx.db.query.webhookDelivery.findMany({
+        where: whereClause,
+        orderBy: [desc(webhookDelivery.createdAt)],
+        limit: input.limit,
+        offset: input.offset,
+        with: {
+          endpoint: {
+            columns: { id: true, name: true, url: true },
+          },
+        },
+      });
+
+      const [totals] = await ctx.db
+        .select({ total: count() })
+        .from(webhookDelivery)
+        .where(whereClause);
+
+      return { deliveries, total: totals?.total ?? 0 };
+    }),
+
+  /**
+   * Send a delivery's payload again right away
+   */
+  replay: adminProcedure
+    .input(z.object({ deliveryId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.organizationId) {
+        const delivery = await ctx.db.query.webhookDelivery.findFirst({
+          where: eq(webhookDelivery.id, input.deliveryId),
+          with: { endpoint: { columns: { organizationId: true } } },
+        });
+        if (delivery?.endpoint.organizationId !== ctx.organizationId) {
+          throw new Error("Webhook delivery not found");
+        }
+      }
+
+      console.log(`[Webhooks] Replaying delivery ${input.deliveryId}`);
+      return replayWebhookDelivery(ctx.db, input.deliveryId);
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,117 @@
+/**
+ * Audit log
+ *
+ * Every staff mutation is recorded by the audit middleware in trpc.ts: who
+ * made it, the procedure, its input with secrets redacted, the IDs it touched
+ * and whether it succeeded. Entries are only ever inserted.
+ */
+import type { Database } from "@everylab/db/client";
+import { auditLog } from "@everylab/db/schema";
+
+export type AuditLogEntry = typeof auditLog.$inferInsert;
+
+// Input keys whose values are never stored
+const REDACTED_KEY = /password|secret|token|apikey|bankaccount|^code$/i;
+
+// Keys whose values are IDs of the rows a mutation touches
+const TARGET_ID_KEY = /^(id|ids)$|Ids?$/;
+
+// Keep inputs small enough to store and show, not whole uploads
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_LENGTH = 100;
+const MAX_DEPTH = 5;
+const MAX_TARGET_IDS = 100;
+
+/**
+ * Copy of a procedure input that is safe to store: secrets redacted, long
+ * strings and arrays truncated and deep nesting cut off
+ */
+export function sanitizeAuditInput(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}…`
+      : value;
+  }
+
+  if (typeof value === "number" || typeof value === "boolean") return value;
+
+  if (value instanceof Date) return value.toISOString();
+
+  if (depth >= MAX_DEPTH) return "[truncated]";
+
+  if (Array.isArray(value)) {
+    return value
+      .slice(0, MAX_ARRAY_LENGTH)
+      .map((item) => sanitizeAuditInput(item, depth + 1));
+  }
+
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        REDACTED_KEY.test(key) && item !== null && item !== undefined
+          ? "[redacted]"
+          : sanitizeAuditInput(item, depth + 1),
+      ]),
+    );
+  }
+
+  if (typeof value === "bigint") return value.toString();
+
+  // Functions and symbols can't be stored
+  return null;
+}
+
+function collectTargetIds(value: unknown, ids: Set<string>, depth: number) {
+  if (depth >= MAX_DEPTH || value === null || typeof value !== "object") {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value.slice(0, MAX_ARRAY_LENGTH)) {
+      collectTargetIds(item, ids, depth + 1);
+    }
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (TARGET_ID_KEY.test(key)) {
+      const values: unknown[] = Array.isArray(item) ? item : [item];
+      for (const id of values) {
+        if (typeof id === "string" && id.length > 0) ids.add(id);
+      }
+    } else {
+      collectTargetIds(item, ids, depth + 1);
+    }
+  }
+}
+
+/**
+ * IDs of the rows a mutation touched: every `id`, `ids`, `...Id` and `...Ids`
+ * in its input, plus the `id` of a row it returned (e.g. one it created)
+ */
+export function extractTargetIds(input: unknown, result?: unknown) {
+  const ids = new Set<string>();
+  collectTargetIds(input, ids, 0);
+
+  if (result && typeof result === "object" && "id" in result) {
+    const { id } = result as { id: unknown };
+    if (typeof id === "string") ids.add(id);
+  }
+
+  return [...ids].slice(0, MAX_TARGET_IDS);
+}
+
+/**
+ * Append an entry. Failures are logged rather than thrown so a broken audit
+ * log never fails the mutation it records.
+ */
+export async function recordAuditLog(db: Database, entry: AuditLogEntry) {
+  try {
+    await db.insert(auditLog).values(entry);
+  } catch (error) {
+    console.error(`[AuditLog] Failed to record ${entry.path}:`, error);
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * Automation schedules
+ *
+ * Recurring random-like, comment and warmup tasks. A schedule runs either on a
+ * 5-field cron expression or N times a day at evenly spaced times, read in the
+ * schedule's time zone. Each run creates one GeeLark task per target phone
+ * (listed phones plus every phone carrying one of the schedule's tags), spread
+ * over `jitterMinutes` so the phones don't all act at the same moment, and
+ * records it in `geelark_task`.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, arrayOverlaps, eq, inArray, isNull, or } from "@everylab/db";
+import {
+  automationSchedule,
+  cloudPhone,
+  geelarkTask,
+} from "@everylab/db/schema";
+
+import { getGeeLarkClient } from "./geelark-tasks";
+import { inOrganization } from "./organizations";
+import { getLocalTime, resolveTimeZone } from "./posting-calendar";
+import { geelarkWarmupActions } from "./warmup";
+
+type AutomationSchedule = typeof automationSchedule.$inferSelect;
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// GeeLark rejects tasks scheduled less than a minute out
+const MIN_LEAD_SECONDS = 60;
+
+// An expression that matches nothing in a year (e.g. Feb 30) never will
+const MAX_CRON_LOOKAHEAD_DAYS = 366;
+
+const MINUTE_MS = 60 * 1000;
+
+function parseCronField(field: string, min: number, max: number) {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(range);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month
+ * day-of-week). Throws on anything it doesn't understand.
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  if (
+    fields.length !== 5 ||
+    !minute ||
+    !hour ||
+    !dayOfMonth ||
+    !month ||
+    !dayOfWeek
+  ) {
+    throw new Error(
+      "Cron expression must have 5 fields: minute hour day-of-month month day-of-week",
+    );
+  }
+
+  // Both 0 and 7 mean Sunday
+  const daysOfWeek = new Set(
+    [...parseCronField(dayOfWeek, 0, 7)].map((d) => d % 7),
+  );
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === "*",
+    anyDayOfWeek: dayOfWeek === "*",
+  };
+}
+
+function matchesCronDay(
+  cron: CronFields,
+  dayOfMonth: number,
+  dayOfWeek: number,
+) {
+  // Like cron: when both day fields are restricted, either one matching is enough
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return cron.daysOfMonth.has(dayOfMonth) || cron.daysOfWeek.has(dayOfWeek);
+  }
+  return cron.daysOfMonth.has(dayOfMonth) && cron.daysOfWeek.has(dayOfWeek);
+}
+
+function startOfNextMinute(date: Date) {
+  const next = new Date(date.getTime() + MINUTE_MS);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
+
+/**
+ * First minute after `after` that matches the cron expression in `timeZone`
+ */
+export function nextCronRun(
+  expression: string,
+  after: Date,
+  timeZone: string,
+): Date {
+  const cron = parseCronExpression(expression);
+  const deadline =
+    after.getTime() + MAX_CRON_LOOKAHEAD_DAYS * 24 * 60 * MINUTE_MS;
+
+  let candidate = startOfNextMinute(after);
+
+  while (candidate.getTime() < deadline) {
+    const local = getLocalTime(candidate, timeZone);
+    const [year = 0, month = 0, day = 0] = local.day.split("-").map(Number);
+    const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    const hour = Math.floor(local.minuteOfDay / 60);
+    const minute = local.minuteOfDay % 60;
+
+    if (!cron.months.has(month) || !matchesCronDay(cron, day, dayOfWeek)) {
+      candidate = new Date(
+        candidate.getTime() + (1440 - local.minuteOfDay) * MINUTE_MS,
+      );
+      continue;
+    }
+    if (!cron.hours.has(hour)) {
+      candidate = new Date(candidate.getTime() + (60 - minute) * MINUTE_MS);
+      continue;
+    }
+    if (!cron.minutes.has(minute)) {
+      candidate = new Date(candidate.getTime() + MINUTE_MS);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error(
+    `Cron expression "${expression}" does not match any time in the next year`,
+  );
+}
+
+/**
+ * Next of `timesPerDay` evenly spaced daily times after `after`. Times sit in
+ * the middle of each slot, so 3 a day runs at 04:00, 12:00 and 20:00.
+ */
+export function nextTimesPerDayRun(
+  timesPerDay: number,
+  after: Date,
+  timeZone: string,
+): Date {
+  const interval = 1440 / timesPerDay;
+  const start = startOfNextMinute(after);
+  const { minuteOfDay } = getLocalTime(start, timeZone);
+
+  for (let slot = 0; slot < timesPerDay; slot++) {
+    const slotMinute = Math.floor(interval / 2 + slot * interval);
+    if (slotMinute >= minuteOfDay) {
+      return new Date(start.getTime() + (slotMinute - minuteOfDay) * MINUTE_MS);
+    }
+  }
+
+  const firstSlot = Math.floor(interval / 2);
+  return new Date(
+    start.getTime() + (1440 - minuteOfDay + firstSlot) * MINUTE_MS,
+  );
+}
+
+/**
+ * When a schedule should next run after `after`
+ */
+export function computeNextRun(
+  schedule: Pick<
+    AutomationSchedule,
+    "mode" | "cronExpression" | "timesPerDay" | "timeZone"
+  >,
+  after: Date,
+): Date {
+  const timeZone = resolveTimeZone(schedule.timeZone);
+
+  if (schedule.mode === "cron") {
+    if (!schedule.cronExpression) {
+      throw new Error("Schedule has no cron expression");
+    }
+    return nextCronRun(schedule.cronExpression, after, timeZone);
+  }
+
+  if (!schedule.timesPerDay || schedule.timesPerDay < 1) {
+    throw new Error("Schedule has no times per day");
+  }
+  return nextTimesPerDayRun(schedule.timesPerDay, after, timeZone);
+}
+
+/**
+ * Cloud phones a schedule targets: the listed phones plus any phone tagged
+ * with one of its tags, within the schedule's organization
+ */
+export async function resolveScheduleTargets(
+  db: Database,
+  schedule: Pick<
+    AutomationSchedule,
+    "cloudPhoneIds" | "tags" | "organizationId"
+  >,
+) {
+  const conditions = [];
+  if (schedule.cloudPhoneIds.length > 0) {
+    conditions.push(inArray(cloudPhone.id, schedule.cloudPhoneIds));
+  }
+  if (schedule.tags.length > 0) {
+    conditions.push(arrayOverlaps(cloudPhone.tags, schedule.tags));
+  }
+  if (conditions.length === 0) return [];
+
+  return db.query.cloudPhone.findMany({
+    where: and(
+      or(...conditions),
+      inOrganization(schedule.organizationId, cloudPhone.organizationId),
+    ),
+    columns: { id: true, serialName: true },
+  });
+}
+
+async function createScheduledTask(
+  db: Database,
+  schedule: AutomationSchedule,
+  phone: { id: string; serialName: string | null },
+  scheduleAt: number,
+) {
+  const geelark = getGeeLarkClient();
+  const planName = `Schedule: ${schedule.name}`;
+
+  let taskId: string | undefined;
+  let taskType: number;
+
+  if (schedule.automationType === "warmup") {
+    const action = schedule.warmupAction
+      ? geelarkWarmupActions[schedule.warmupAction]
+      : undefined;
+    if (!action) {
+      throw new Error("Schedule has no warmup action");
+    }
+
+    const result = await geelark.createWarmupTask({
+      envId: phone.id,
+      scheduleAt,
+      action,
+      duration: schedule.durationMinutes,
+      keywords: action === "browse video" ? undefined : schedule.keywords,
+      planName,
+    });
+    taskId = result.taskIds[0];
+    taskType = 2;
+  } else if (schedule.automationType === "random_star") {
+    const result = await geelark.createTikTokRandomStarTask({
+      id: phone.id,
+      scheduleAt,
+      name: planName,
+    });
+    taskId = result.taskId;
+    taskType = 42;
+  } else {
+    const result = await geelark.createTikTokRandomCommentTask({
+      id: phone.id,
+      scheduleAt,
+      name: planName,
+      useAi: schedule.useAi ? 1 : 2,
+      comment: schedule.useAi ? undefined : (schedule.comment ?? ""),
+    });
+    taskId = result.taskId;
+    taskType = 42;
+  }
+
+  if (!taskId) {
+    throw new Error("GeeLark returned no taskId");
+  }
+
+  await db.insert(geelarkTask).values({
+    id: taskId,
+    planName,
+    taskType,
+    cloudPhoneId: phone.id,
+    serialName: phone.serialName,
+    scheduleAt: new Date(scheduleAt * 1000),
+    status: "waiting",
+    automationScheduleId: schedule.id,
+    lastSyncedAt: new Date(),
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Run a schedule once: set the next run, then create a task for every target
+ * phone. Runs missed while the job was down are not caught up; the next run
+ * is always the next one after now. Setting the next run first claims this
+ * one, so if another job run got there first nothing is created and null is
+ * returned. Failures are collected into `lastError` rather than thrown.
+ */
+export async function runAutomationSchedule(
+  db: Database,
+  schedule: AutomationSchedule,
+) {
+  const now = new Date();
+  const errors: string[] = [];
+
+  let nextRunAt: Date | null = null;
+  try {
+    nextRunAt = computeNextRun(schedule, now);
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  const [claimed] = await db
+    .update(automationSchedule)
+    .set({ lastRunAt: now, nextRunAt, updatedAt: new Date() })
+    .where(
+      and(
+        eq(automationSchedule.id, schedule.id),
+        eq(automationSchedule.status, "active"),
+        schedule.nextRunAt
+          ? eq(automationSchedule.nextRunAt, schedule.nextRunAt)
+          : isNull(automationSchedule.nextRunAt),
+      ),
+    )
+    .returning({ id: automationSchedule.id });
+
+  if (!claimed) {
+    return null;
+  }
+
+  let phones: Awaited<ReturnType<typeof resolveScheduleTargets>> = [];
+  try {
+    phones = await resolveScheduleTargets(db, schedule);
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+  let tasksCreated = 0;
+
+  const earliest = Math.max(
+    schedule.nextRunAt?.getTime() ?? 0,
+    now.getTime() + MIN_LEAD_SECONDS * 1000,
+  );
+
+  for (const phone of phones) {
+    const jitterMs = Math.floor(
+      Math.random() * schedule.jitterMinutes * MINUTE_MS,
+    );
+    const scheduleAt = Math.floor((earliest + jitterMs) / 1000);
+
+    try {
+      await createScheduledTask(db, schedule, phone, scheduleAt);
+      tasksCreated++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${phone.serialName ?? phone.id}: ${message}`);
+    }
+  }
+
+  if (phones.length === 0 && errors.length === 0) {
+    errors.push("No cloud phones match this schedule");
+  }
+
+  if (errors.length > 0) {
+    console.error(
+      `[Automation Schedules] "${schedule.name}" had ${errors.length} errors: ${errors.join("; ")}`,
+    );
+  }
+
+  await db
+    .update(automationSchedule)
+    .set({
+      lastError: errors.length > 0 ? errors.join("\n") : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(automationSchedule.id, schedule.id));
+
+  return { tasksCreated, failed: phones.length - tasksCreated };
+}
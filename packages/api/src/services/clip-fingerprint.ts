@@ -0,0 +1,272 @@
+/**
+ * Clip fingerprints
+ *
+ * TikTok penalizes the same video going out on several accounts, so uploaded
+ * videos are fingerprinted twice. The SHA-256 of the file catches the same
+ * file uploaded again. A perceptual hash catches copies that were re-encoded,
+ * resized or re-exported: frames sampled through the video are each shrunk
+ * to 9x8 grey pixels and hashed by whether brightness rises or falls from one
+ * pixel to the next (a difference hash), which those changes barely move.
+ */
+import { createHash } from "node:crypto";
+
+import type { Database } from "@everylab/db/client";
+import type { Storage } from "@everylab/storage";
+import { and, eq, inArray, isNotNull, isNull, ne, or, sql } from "@everylab/db";
+import { clip, user } from "@everylab/db/schema";
+import { createStorageFromEnv } from "@everylab/storage";
+
+import { getUploadedVideoKey, getVideoInputUrl, runFfmpeg } from "./clip-media";
+import { sameOrganization } from "./organizations";
+
+const FRAME_COUNT = 8;
+const FRAME_HASH_LENGTH = 16; // 64 bits as hex
+// Differing bits per frame, out of 64, still counted as the same picture
+const MAX_FRAME_DISTANCE = 10;
+// Clips that have gone, or are about to go, out on an account
+const DUPLICATE_STATUSES = ["pending", "approved", "published"] as const;
+const MAX_DUPLICATES = 20;
+
+export type ClipDuplicateMatch = "exact" | "similar";
+
+async function hashFile(storage: Storage, key: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of await storage.getStream(key)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Difference hash of the frame at `seconds`: one bit per neighbouring pair
+ * of pixels in each row, set where brightness rises
+ */
+async function hashFrame(inputUrl: string, seconds: number) {
+  const pixels = await runFfmpeg([
+    "-ss",
+    seconds.toFixed(3),
+    "-i",
+    inputUrl,
+    "-frames:v",
+    "1",
+    "-vf",
+    "scale=9:8:flags=area,format=gray",
+    "-f",
+    "rawvideo",
+    "pipe:1",
+  ]);
+  if (pixels.length < 72) {
+    throw new Error(`No frame at ${seconds}s`);
+  }
+
+  let hex = "";
+  for (let row = 0; row < 8; row++) {
+    let bits = 0;
+    for (let x = 0; x < 8; x++) {
+      const left = pixels[row * 9 + x] ?? 0;
+      const right = pixels[row * 9 + x + 1] ?? 0;
+      bits = (bits << 1) | (right > left ? 1 : 0);
+    }
+    hex += bits.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/**
+ * Frame hashes at evenly spaced points through the video, joined. Trimmed
+ * copies shift every sample, so only whole copies are caught.
+ */
+async function getPerceptualHash(inputUrl: string, durationSeconds: number) {
+  let hash = "";
+  for (let i = 0; i < FRAME_COUNT; i++) {
+    hash += await hashFrame(
+      inputUrl,
+      ((i + 0.5) / FRAME_COUNT) * durationSeconds,
+    );
+  }
+  return hash;
+}
+
+/**
+ * Average differing bits per frame between two perceptual hashes
+ */
+export function getPerceptualDistance(a: string, b: string) {
+  if (a.length !== b.length) return Infinity;
+
+  let bits = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a.charAt(i), 16) ^ parseInt(b.charAt(i), 16);
+    for (; diff; diff &= diff - 1) bits++;
+  }
+  return bits / (a.length / FRAME_HASH_LENGTH);
+}
+
+/**
+ * Fingerprint a clip's uploaded video, if it hasn't been already. Returns
+ * null for carousels and videos that aren't in our bucket. The perceptual
+ * hash is best-effort: without it only exact copies are caught.
+ */
+export async function fingerprintClip(db: Database, clipId: string) {
+  const source = await db.query.clip.findFirst({
+    where: eq(clip.id, clipId),
+    columns: {
+      id: true,
+      userId: true,
+      type: true,
+      videoUrl: true,
+      durationSeconds: true,
+      contentHash: true,
+      perceptualHash: true,
+    },
+  });
+  if (!source) {
+    throw new Error("Clip not found");
+  }
+  if (source.contentHash) {
+    return {
+      contentHash: source.contentHash,
+      perceptualHash: source.perceptualHash,
+    };
+  }
+
+  const storage = createStorageFromEnv();
+  const videoKey =
+    source.type === "video" ? getUploadedVideoKey(storage, source) : null;
+  if (!videoKey) return null;
+
+  const contentHash = await hashFile(storage, videoKey);
+
+  let perceptualHash: string | null = null;
+  if (source.durationSeconds) {
+    try {
+      perceptualHash = await getPerceptualHash(
+        await getVideoInputUrl(storage, videoKey),
+        source.durationSeconds,
+      );
+    } catch (error) {
+      console.error(
+        `[Clip Fingerprint] Failed to hash frames of clip ${clipId}:`,
+        error,
+      );
+    }
+  }
+
+  await db
+    .update(clip)
+    .set({ contentHash, perceptualHash, updatedAt: new Date() })
+    .where(eq(clip.id, clipId));
+
+  return { contentHash, perceptualHash };
+}
+
+/**
+ * Other clips in the creator's organization with the same or near-identical
+ * video that have been submitted or posted, most recent first. Until both
+ * clips have been fingerprinted, videos of the same size and length are
+ * reported as similar.
+ */
+export async function findClipDuplicates(db: Database, clipId: string) {
+  const source = await db.query.clip.findFirst({
+    where: eq(clip.id, clipId),
+    columns: {
+      id: true,
+      durationSeconds: true,
+      contentHash: true,
+      perceptualHash: true,
+      videoMetadata: true,
+    },
+    with: {
+      user: { columns: { organizationId: true } },
+    },
+  });
+  if (!source) return [];
+
+  const { contentHash, perceptualHash, durationSeconds } = source;
+  const sizeBytes = source.videoMetadata?.sizeBytes;
+  if (!contentHash && !sizeBytes) return [];
+
+  const candidates = await db.query.clip.findMany({
+    where: and(
+      ne(clip.id, source.id),
+      inArray(clip.status, DUPLICATE_STATUSES),
+      inArray(
+        clip.userId,
+        db
+          .select({ id: user.id })
+          .from(user)
+          .where(
+            sameOrganization(source.user.organizationId, user.organizationId),
+          ),
+      ),
+      or(
+        contentHash ? eq(clip.contentHash, contentHash) : undefined,
+        // Copies keep their length, give or take rounding
+        perceptualHash && durationSeconds
+          ? and(
+              isNotNull(clip.perceptualHash),
+              sql`abs(${clip.durationSeconds} - ${durationSeconds}) <= 1`,
+            )
+          : undefined,
+        sizeBytes
+          ? and(
+              contentHash ? isNull(clip.contentHash) : undefined,
+              sql`(${clip.videoMetadata} ->> 'sizeBytes')::bigint = ${sizeBytes}`,
+              durationSeconds
+                ? sql`abs(${clip.durationSeconds} - ${durationSeconds}) <= 1`
+                : undefined,
+            )
+          : undefined,
+      ),
+    ),
+    columns: {
+      id: true,
+      title: true,
+      status: true,
+      publishedAt: true,
+      tiktokVideoUrl: true,
+      contentHash: true,
+      perceptualHash: true,
+      videoMetadata: true,
+      createdAt: true,
+    },
+    with: {
+      user: { columns: { id: true, name: true } },
+      tiktokAccount: { columns: { id: true, tiktokUsername: true } },
+    },
+  });
+
+  const duplicates = [];
+  for (const {
+    contentHash: candidateHash,
+    perceptualHash: candidatePerceptualHash,
+    videoMetadata: candidateMetadata,
+    ...candidate
+  } of candidates) {
+    let match: ClipDuplicateMatch | null = null;
+    if (contentHash && candidateHash === contentHash) {
+      match = "exact";
+    } else if (
+      perceptualHash &&
+      candidatePerceptualHash &&
+      getPerceptualDistance(perceptualHash, candidatePerceptualHash) <=
+        MAX_FRAME_DISTANCE
+    ) {
+      match = "similar";
+    } else if (
+      sizeBytes &&
+      (!contentHash || !candidateHash) &&
+      candidateMetadata?.sizeBytes === sizeBytes
+    ) {
+      match = "similar";
+    }
+    if (match) duplicates.push({ ...candidate, match });
+  }
+
+  return duplicates
+    .sort(
+      (a, b) =>
+        (b.publishedAt ?? b.createdAt).getTime() -
+        (a.publishedAt ?? a.createdAt).getTime(),
+    )
+    .slice(0, MAX_DUPLICATES);
+}
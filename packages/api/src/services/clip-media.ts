@@ -0,0 +1,296 @@
+/**
+ * Clip media
+ *
+ * Thumbnails and previews for uploaded videos, cut with the ffmpeg binary
+ * bundled by ffmpeg-static. ffmpeg reads the video straight from the bucket
+ * through a presigned URL, and the results are stored next to it under keys
+ * derived from the video's key.
+ */
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import ffmpegPath from "ffmpeg-static";
+
+import type { Database } from "@everylab/db/client";
+import type { Storage } from "@everylab/storage";
+import { eq } from "@everylab/db";
+import { clip } from "@everylab/db/schema";
+import { createStorageFromEnv } from "@everylab/storage";
+
+const execFileAsync = promisify(execFile);
+
+// Without a pick, the thumbnail is the frame a second in, past fade-ins
+const DEFAULT_COVER_TIME_MS = 1000;
+const POSTER_SHORT_SIDE = 720;
+const PREVIEW_SHORT_SIDE = 360;
+const PREVIEW_SECONDS = 3;
+const FFMPEG_TIMEOUT_MS = 60_000;
+
+type ClipMediaSource = Pick<
+  typeof clip.$inferSelect,
+  | "id"
+  | "userId"
+  | "videoUrl"
+  | "thumbnailUrl"
+  | "coverTimeMs"
+  | "durationSeconds"
+>;
+
+const clipMediaColumns = {
+  id: true,
+  userId: true,
+  videoUrl: true,
+  thumbnailUrl: true,
+  coverTimeMs: true,
+  durationSeconds: true,
+} as const;
+
+/**
+ * Scale so the shorter side is `size`, keeping the aspect ratio and even
+ * dimensions for the encoder. Rotated videos are already upright here.
+ */
+function scaleFilter(size: number) {
+  return `scale='if(gt(iw,ih),-2,${size})':'if(gt(iw,ih),${size},-2)'`;
+}
+
+/**
+ * Run the bundled ffmpeg and return what it wrote to stdout
+ */
+export async function runFfmpeg(args: string[]) {
+  if (!ffmpegPath) {
+    throw new Error("ffmpeg isn't available on this platform");
+  }
+
+  const { stdout } = await execFileAsync(
+    ffmpegPath,
+    ["-hide_banner", "-loglevel", "error", "-y", ...args],
+    { encoding: "buffer", timeout: FFMPEG_TIMEOUT_MS },
+  );
+  return stdout;
+}
+
+/**
+ * Run ffmpeg writing to a temporary file and return what it wrote
+ */
+async function renderToBuffer(
+  filename: string,
+  buildArgs: (outputPath: string) => string[],
+) {
+  const dir = await mkdtemp(join(tmpdir(), "clip-media-"));
+  try {
+    const outputPath = join(dir, filename);
+    await runFfmpeg(buildArgs(outputPath));
+    return await readFile(outputPath);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Key of an uploaded clip video in our bucket, or null if the URL points
+ * anywhere else (e.g. a clip imported from TikTok)
+ */
+export function getUploadedVideoKey(
+  storage: Storage,
+  source: Pick<ClipMediaSource, "userId" | "videoUrl">,
+) {
+  if (!source.videoUrl) return null;
+  const key = storage.getKeyFromPublicUrl(source.videoUrl);
+  return key?.startsWith(`clips/${source.userId}/`) ? key : null;
+}
+
+function getCoverTimeMs(source: ClipMediaSource, requestedMs: number | null) {
+  const timeMs = requestedMs ?? DEFAULT_COVER_TIME_MS;
+  if (!source.durationSeconds) return timeMs;
+  // Stay clear of the very end, where there may be no frame to decode
+  return Math.max(0, Math.min(timeMs, source.durationSeconds * 1000 - 500));
+}
+
+/**
+ * Cut the frame at `timeMs` and store it as a JPEG. The time is part of the
+ * key so a new pick never shows a cached old one.
+ */
+async function uploadPoster(
+  storage: Storage,
+  videoKey: string,
+  inputUrl: string,
+  timeMs: number,
+) {
+  const poster = await renderToBuffer("poster.jpg", (outputPath) => [
+    "-ss",
+    (timeMs / 1000).toFixed(3),
+    "-i",
+    inputUrl,
+    "-frames:v",
+    "1",
+    "-vf",
+    scaleFilter(POSTER_SHORT_SIDE),
+    "-q:v",
+    "3",
+    outputPath,
+  ]);
+
+  const key = `${stripExtension(videoKey)}.poster-${timeMs}.jpg`;
+  await storage.upload(key, poster, "image/jpeg");
+  return storage.getPublicUrl(key);
+}
+
+/**
+ * Cut a short, muted, low-bitrate MP4 from the start of the video for cards
+ * to play on hover
+ */
+async function uploadPreview(
+  storage: Storage,
+  videoKey: string,
+  inputUrl: string,
+) {
+  const preview = await renderToBuffer("preview.mp4", (outputPath) => [
+    "-t",
+    String(PREVIEW_SECONDS),
+    "-i",
+    inputUrl,
+    "-an",
+    "-vf",
+    `${scaleFilter(PREVIEW_SHORT_SIDE)},fps=15`,
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "32",
+    "-maxrate",
+    "400k",
+    "-bufsize",
+    "800k",
+    "-pix_fmt",
+    "yuv420p",
+    "-movflags",
+    "+faststart",
+    outputPath,
+  ]);
+
+  const key = `${stripExtension(videoKey)}.preview.mp4`;
+  await storage.upload(key, preview, "video/mp4");
+  return storage.getPublicUrl(key);
+}
+
+function stripExtension(key: string) {
+  return key.replace(/\.[^./]+$/, "");
+}
+
+/**
+ * URL ffmpeg can read an uploaded video from, valid long enough for one job
+ */
+export async function getVideoInputUrl(storage: Storage, videoKey: string) {
+  const { url } = await storage.getPresignedDownloadUrl(videoKey, 15 * 60);
+  return url;
+}
+
+/**
+ * Make a clip's thumbnail (unless it already has one) and preview. Returns
+ * false if the clip's video isn't one of our uploads, so there's nothing to
+ * cut. Throws if ffmpeg fails.
+ */
+export async function generateClipMedia(db: Database, clipId: string) {
+  const source = await db.query.clip.findFirst({
+    where: eq(clip.id, clipId),
+    columns: clipMediaColumns,
+  });
+  if (!source) {
+    throw new Error("Clip not found");
+  }
+
+  const storage = createStorageFromEnv();
+  const videoKey = getUploadedVideoKey(storage, source);
+
+  if (!videoKey) {
+    await db
+      .update(clip)
+      .set({ mediaProcessedAt: new Date(), updatedAt: new Date() })
+      .where(eq(clip.id, clipId));
+    return false;
+  }
+
+  const inputUrl = await getVideoInputUrl(storage, videoKey);
+  const coverTimeMs = getCoverTimeMs(source, source.coverTimeMs);
+
+  const thumbnailUrl =
+    source.thumbnailUrl ??
+    (await uploadPoster(storage, videoKey, inputUrl, coverTimeMs));
+  const previewUrl = await uploadPreview(storage, videoKey, inputUrl);
+
+  await db
+    .update(clip)
+    .set({
+      thumbnailUrl,
+      previewUrl,
+      mediaProcessedAt: new Date(),
+      mediaError: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(clip.id, clipId));
+
+  console.log(
+    `[Clip Media] Generated thumbnail and preview for clip ${clipId}`,
+  );
+
+  return true;
+}
+
+/**
+ * Use the frame at `timeMs` as the clip's thumbnail, replacing the one the
+ * worker or an earlier pick made
+ */
+export async function setClipCover(
+  db: Database,
+  clipId: string,
+  timeMs: number,
+) {
+  const source = await db.query.clip.findFirst({
+    where: eq(clip.id, clipId),
+    columns: clipMediaColumns,
+  });
+  if (!source) {
+    throw new Error("Clip not found");
+  }
+
+  const storage = createStorageFromEnv();
+  const videoKey = getUploadedVideoKey(storage, source);
+  if (!videoKey) {
+    throw new Error("Only uploaded videos can have a cover frame picked");
+  }
+
+  const coverTimeMs = getCoverTimeMs(source, timeMs);
+  const inputUrl = await getVideoInputUrl(storage, videoKey);
+  const thumbnailUrl = await uploadPoster(
+    storage,
+    videoKey,
+    inputUrl,
+    coverTimeMs,
+  );
+
+  const [updated] = await db
+    .update(clip)
+    .set({ thumbnailUrl, coverTimeMs, updatedAt: new Date() })
+    .where(eq(clip.id, clipId))
+    .returning();
+
+  // Best-effort: the old thumbnail is no longer referenced
+  const previousKey = source.thumbnailUrl
+    ? storage.getKeyFromPublicUrl(source.thumbnailUrl)
+    : null;
+  if (
+    previousKey?.startsWith(`${stripExtension(videoKey)}.poster-`) &&
+    source.thumbnailUrl !== thumbnailUrl
+  ) {
+    try {
+      await storage.delete(previousKey);
+    } catch (error) {
+      console.error(`[Clip Media] Failed to delete ${previousKey}:`, error);
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,354 @@
+/**
+ * Clip performance curves
+ *
+ * A clip's growth curve is its `clip_stats` snapshots placed on an "hours
+ * since publish" axis, so clips published at different times can be compared.
+ * Views at a given hour are interpolated linearly between snapshots, with the
+ * publish time counting as zero views. An account's baseline is the median of
+ * those values across its recent earlier clips. At 1, 6 and 24 hours a clip's
+ * velocity score is its views divided by the baseline's, which flags breakout
+ * and underperforming clips while there is still time to act on them.
+ */
+import type { Database } from "@everylab/db/client";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  lt,
+  sql,
+} from "@everylab/db";
+import { clip, clipStats } from "@everylab/db/schema";
+
+import { userInOrganization } from "./organizations";
+
+export interface CurvePoint {
+  hours: number;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+export type VelocityFlag = "breakout" | "normal" | "underperforming";
+
+export interface VelocityScore {
+  hours: number;
+  views: number;
+  medianViews: number;
+  score: number | null;
+  flag: VelocityFlag;
+}
+
+interface Snapshot {
+  clipId: string;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  recordedAt: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours since publish that curves are compared at
+export const CURVE_HOURS = [1, 2, 3, 6, 12, 24, 48, 72, 120, 168];
+
+// Hours since publish that velocity is scored at
+export const VELOCITY_HOURS = [1, 6, 24];
+
+// Curves stop a week after publishing
+const CURVE_MAX_HOURS = 168;
+
+// Recent earlier clips a baseline is built from
+const BASELINE_CLIPS = 20;
+
+// Fewer clips than this reaching an hour gives no baseline for it
+const MIN_BASELINE_CLIPS = 3;
+
+// Views relative to the baseline that flag a clip
+const BREAKOUT_RATIO = 2;
+const UNDERPERFORMING_RATIO = 0.5;
+
+// Clips published this recently are checked for velocity alerts
+const ALERT_WINDOW_HOURS = 7 * 24;
+
+/**
+ * Snapshots from the first week after publishing, ordered by hours since
+ * publish
+ */
+export function buildCurve(
+  publishedAt: Date,
+  snapshots: Omit<Snapshot, "clipId">[],
+): CurvePoint[] {
+  return snapshots
+    .map((s) => ({
+      hours:
+        Math.round(
+          ((s.recordedAt.getTime() - publishedAt.getTime()) / HOUR_MS) * 100,
+        ) / 100,
+      views: s.views,
+      likes: s.likes,
+      comments: s.comments,
+      shares: s.shares,
+    }))
+    .filter((p) => p.hours >= 0 && p.hours <= CURVE_MAX_HOURS)
+    .sort((a, b) => a.hours - b.hours);
+}
+
+/**
+ * Views at `hours` since publish, or null if no snapshot has reached it yet
+ */
+export function viewsAtHour(curve: CurvePoint[], hours: number) {
+  let previous = { hours: 0, views: 0 };
+  for (const point of curve) {
+    if (point.hours >= hours) {
+      if (point.hours === previous.hours) return point.views;
+      const progress =
+        (hours - previous.hours) / (point.hours - previous.hours);
+      return Math.round(
+        previous.views + (point.views - previous.views) * progress,
+      );
+    }
+    previous = point;
+  }
+  return null;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  if (sorted.length % 2 === 1) return sorted[middle] ?? 0;
+  return Math.round(((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2);
+}
+
+export function scoreVelocity(
+  hours: number,
+  views: number,
+  medianViews: number,
+): VelocityScore {
+  const score =
+    medianViews > 0 ? Math.round((views / medianViews) * 100) / 100 : null;
+
+  let flag: VelocityFlag = "normal";
+  if (score === null ? views > 0 : score >= BREAKOUT_RATIO) {
+    flag = "breakout";
+  } else if (score !== null && score <= UNDERPERFORMING_RATIO) {
+    flag = "underperforming";
+  }
+
+  return { hours, views, medianViews, score, flag };
+}
+
+/**
+ * Snapshots from the first week of each clip, keyed by clip
+ */
+async function getCurves(
+  db: Database,
+  clips: { id: string; publishedAt: Date }[],
+) {
+  const curves = new Map<string, CurvePoint[]>();
+  if (clips.length === 0) return curves;
+
+  const snapshots = await db
+    .select({
+      clipId: clipStats.clipId,
+      views: clipStats.views,
+      likes: clipStats.likes,
+      comments: clipStats.comments,
+      shares: clipStats.shares,
+      recordedAt: clipStats.recordedAt,
+    })
+    .from(clipStats)
+    .innerJoin(clip, eq(clip.id, clipStats.clipId))
+    .where(
+      and(
+        inArray(
+          clipStats.clipId,
+          clips.map((c) => c.id),
+        ),
+        sql`${clipStats.recordedAt} <= ${clip.publishedAt} + make_interval(hours => ${CURVE_MAX_HOURS})`,
+      ),
+    )
+    .orderBy(asc(clipStats.recordedAt));
+
+  const byClip = new Map<string, Snapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = byClip.get(snapshot.clipId) ?? [];
+    list.push(snapshot);
+    byClip.set(snapshot.clipId, list);
+  }
+
+  for (const c of clips) {
+    curves.set(c.id, buildCurve(c.publishedAt, byClip.get(c.id) ?? []));
+  }
+  return curves;
+}
+
+/**
+ * Median views at each of CURVE_HOURS across the account's most recent clips
+ * published before `publishedBefore`. Hours reached by too few clips are null.
+ */
+export async function getAccountBaseline(
+  db: Database,
+  tiktokAccountId: string,
+  publishedBefore: Date,
+) {
+  const rows = await db
+    .select({ id: clip.id, publishedAt: clip.publishedAt })
+    .from(clip)
+    .where(
+      and(
+        eq(clip.tiktokAccountId, tiktokAccountId),
+        isNotNull(clip.publishedAt),
+        lt(clip.publishedAt, publishedBefore),
+      ),
+    )
+    .orderBy(desc(clip.publishedAt))
+    .limit(BASELINE_CLIPS);
+
+  const clips = rows.flatMap((r) =>
+    r.publishedAt ? [{ id: r.id, publishedAt: r.publishedAt }] : [],
+  );
+  const curves = [...(await getCurves(db, clips)).values()];
+
+  const medians = new Map<number, number | null>();
+  for (const hours of CURVE_HOURS) {
+    const values = curves.flatMap((curve) => {
+      const views = viewsAtHour(curve, hours);
+      return views === null ? [] : [views];
+    });
+    medians.set(
+      hours,
+      values.length >= MIN_BASELINE_CLIPS ? median(values) : null,
+    );
+  }
+
+  return { clipCount: clips.length, medians };
+}
+
+function compareToBaseline(
+  curve: CurvePoint[],
+  medians: Map<number, number | null>,
+) {
+  const checkpoints = CURVE_HOURS.map((hours) => ({
+    hours,
+    views: viewsAtHour(curve, hours),
+    medianViews: medians.get(hours) ?? null,
+  }));
+
+  const velocity = checkpoints.flatMap((c) =>
+    VELOCITY_HOURS.includes(c.hours) &&
+    c.views !== null &&
+    c.medianViews !== null
+      ? [scoreVelocity(c.hours, c.views, c.medianViews)]
+      : [],
+  );
+
+  return { checkpoints, velocity };
+}
+
+/**
+ * A published clip's curve, its views against the account baseline at each
+ * of CURVE_HOURS, and its velocity scores so far
+ */
+export async function getClipPerformance(
+  db: Database,
+  target: {
+    id: string;
+    publishedAt: Date | null;
+    tiktokAccountId: string | null;
+  },
+) {
+  if (!target.publishedAt) {
+    return null;
+  }
+
+  const publishedAt = target.publishedAt;
+  const curve =
+    (await getCurves(db, [{ id: target.id, publishedAt }])).get(target.id) ??
+    [];
+  const baseline = target.tiktokAccountId
+    ? await getAccountBaseline(db, target.tiktokAccountId, publishedAt)
+    : { clipCount: 0, medians: new Map<number, number | null>() };
+
+  return {
+    publishedAt,
+    curve,
+    baselineClips: baseline.clipCount,
+    ...compareToBaseline(curve, baseline.medians),
+  };
+}
+
+/**
+ * Clips published in the last week whose latest velocity score flags them as
+ * breakout or underperforming. Each account's baseline is built from clips
+ * published before the window, so recent clips don't skew each other.
+ * `organizationId` limits alerts to clips by that organization's creators.
+ */
+export async function getVelocityAlerts(
+  db: Database,
+  organizationId: string | null = null,
+  now = new Date(),
+) {
+  const windowStart = new Date(now.getTime() - ALERT_WINDOW_HOURS * HOUR_MS);
+
+  const recent = await db.query.clip.findMany({
+    where: and(
+      eq(clip.status, "published"),
+      gte(clip.publishedAt, windowStart),
+      isNotNull(clip.tiktokAccountId),
+      userInOrganization(db, organizationId, clip.userId),
+    ),
+    orderBy: desc(clip.publishedAt),
+    columns: {
+      id: true,
+      title: true,
+      publishedAt: true,
+      tiktokAccountId: true,
+      tiktokVideoUrl: true,
+    },
+    with: {
+      user: { columns: { id: true, name: true } },
+      tiktokAccount: { columns: { id: true, tiktokUsername: true } },
+    },
+  });
+
+  const curves = await getCurves(
+    db,
+    recent.flatMap((c) =>
+      c.publishedAt ? [{ id: c.id, publishedAt: c.publishedAt }] : [],
+    ),
+  );
+
+  const baselines = new Map<string, Map<number, number | null>>();
+  const alerts = [];
+  for (const c of recent) {
+    if (!c.tiktokAccountId) continue;
+
+    let medians = baselines.get(c.tiktokAccountId);
+    if (!medians) {
+      medians = (await getAccountBaseline(db, c.tiktokAccountId, windowStart))
+        .medians;
+      baselines.set(c.tiktokAccountId, medians);
+    }
+
+    const { velocity } = compareToBaseline(curves.get(c.id) ?? [], medians);
+    const latest = velocity[velocity.length - 1];
+    if (latest && latest.flag !== "normal") {
+      alerts.push({ clip: c, ...latest });
+    }
+  }
+
+  // Breakouts first, strongest first; then underperformers, weakest first
+  const strength = (alert: VelocityScore) => alert.score ?? Number.MAX_VALUE;
+  return alerts.sort((a, b) => {
+    if (a.flag !== b.flag) return a.flag === "breakout" ? -1 : 1;
+    return a.flag === "breakout"
+      ? strength(b) - strength(a)
+      : strength(a) - strength(b);
+  });
+}
@@ -0,0 +1,712 @@
+/**
+ * Clip publishing
+ *
+ * Creates the GeeLark tasks that publish clips, moves clips forward as those
+ * tasks settle, and applies the per task type retry policy to failures. Every
+ * attempt is recorded against the clip in `clip_publish_attempt`.
+ */
+import type { Database } from "@everylab/db/client";
+import type { GeeLarkTask } from "@everylab/geelark";
+import { and, count, desc, eq, isNull } from "@everylab/db";
+import {
+  clip,
+  clipPublishAttempt,
+  geelarkRetryPolicy,
+  geelarkTask,
+} from "@everylab/db/schema";
+
+import type { GeeLarkTaskStatus } from "./geelark-tasks";
+import {
+  extractTikTokVideoId,
+  getGeeLarkClient,
+  mapGeeLarkTaskStatus,
+} from "./geelark-tasks";
+import { findNextPublishSlot } from "./posting-calendar";
+import { emitClipEvent } from "./webhooks";
+
+export type ClipPublishMedia =
+  | { type: "video"; videoUrl: string }
+  | {
+      type: "carousel";
+      imageUrls: string[];
+      soundVideoId: string | null;
+      soundVolume: number | null;
+    };
+
+export interface ClipPublishRequest {
+  clipId: string;
+  title: string;
+  description: string | null;
+  media: ClipPublishMedia;
+  cloudPhone: { id: string; serialName: string | null };
+  scheduleAt: number; // Unix seconds
+}
+
+// GeeLark accepts at most 100 entries per task/add request
+const PUBLISH_BATCH_SIZE = 100;
+
+// GeeLark task types for each kind of clip
+const PUBLISH_TASK_TYPES = { video: 1, carousel: 3 } as const;
+
+/**
+ * What GeeLark needs to publish a clip's media. Throws if the clip has none.
+ */
+export function getClipPublishMedia(
+  publishedClip: Pick<
+    typeof clip.$inferSelect,
+    "type" | "videoUrl" | "imageUrls" | "soundVideoId" | "soundVolume"
+  >,
+): ClipPublishMedia {
+  if (publishedClip.type === "carousel") {
+    if (publishedClip.imageUrls.length === 0) {
+      throw new Error("Carousel has no images");
+    }
+    return {
+      type: "carousel",
+      imageUrls: publishedClip.imageUrls,
+      soundVideoId: publishedClip.soundVideoId,
+      soundVolume: publishedClip.soundVolume,
+    };
+  }
+
+  if (!publishedClip.videoUrl) {
+    throw new Error("Clip has no video");
+  }
+  return { type: "video", videoUrl: publishedClip.videoUrl };
+}
+
+// A failed result has a taskId if the task was created but `onCreated` threw
+export type ClipPublishTaskResult =
+  | { clipId: string; taskId: string; error?: undefined }
+  | { clipId: string; taskId?: string; error: string };
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Create the GeeLark tasks that publish a set of clips, batching videos into
+ * as few requests as possible, and cache them locally so they show up in the
+ * task log before the next refresh. GeeLark takes image sets one at a time, so
+ * each carousel is its own request.
+ *
+ * A failed request only fails the clips in it. Tasks from the requests that
+ * succeeded are handed to `onCreated` as soon as GeeLark returns them, so
+ * the caller records them even if a later request fails. Returns a result per
+ * clip in the order of `requests`.
+ */
+export async function createClipPublishTasks(
+  db: Database,
+  requests: ClipPublishRequest[],
+  onCreated?: (request: ClipPublishRequest, taskId: string) => Promise<void>,
+): Promise<ClipPublishTaskResult[]> {
+  const geelark = getGeeLarkClient();
+  const results: ClipPublishTaskResult[] = [];
+
+  const saveTask = async (index: number, taskId: string) => {
+    const request = requests[index];
+    if (!request) return;
+
+    const taskData = {
+      planName: `Publish: ${request.title}`,
+      taskType: PUBLISH_TASK_TYPES[request.media.type],
+      cloudPhoneId: request.cloudPhone.id,
+      serialName: request.cloudPhone.serialName,
+      scheduleAt: new Date(request.scheduleAt * 1000),
+      status: "waiting" as const,
+      clipId: request.clipId,
+      lastSyncedAt: new Date(),
+    };
+
+    // The cache only saves waiting for the next task refresh
+    try {
+      await db
+        .insert(geelarkTask)
+        .values({ id: taskId, ...taskData, createdAt: new Date() })
+        .onConflictDoUpdate({ target: geelarkTask.id, set: taskData });
+    } catch (error) {
+      console.error(`[Clip Publishing] Failed to cache task ${taskId}:`, error);
+    }
+
+    try {
+      await onCreated?.(request, taskId);
+      results[index] = { clipId: request.clipId, taskId };
+    } catch (error) {
+      console.error(
+        `[Clip Publishing] Failed to record task ${taskId} for clip ${request.clipId}:`,
+        error,
+      );
+      results[index] = {
+        clipId: request.clipId,
+        taskId,
+        error: errorMessage(error),
+      };
+    }
+  };
+
+  const videos = requests.flatMap((request, index) =>
+    request.media.type === "video"
+      ? [{ index, request, videoUrl: request.media.videoUrl }]
+      : [],
+  );
+
+  for (let i = 0; i < videos.length; i += PUBLISH_BATCH_SIZE) {
+    const batch = videos.slice(i, i + PUBLISH_BATCH_SIZE);
+
+    let taskIds: string[];
+    try {
+      const taskResult = await geelark.createPublishVideoTasks({
+        planName:
+          batch.length === 1
+            ? `Publish: ${batch[0]?.request.title}`
+            : `Bulk publish (${batch.length} clips)`,
+        items: batch.map(({ request, videoUrl }) => ({
+          envId: request.cloudPhone.id,
+          video: videoUrl,
+          scheduleAt: request.scheduleAt,
+          videoDesc: request.description ?? undefined,
+        })),
+      });
+      taskIds = taskResult.taskIds;
+
+      if (taskIds.length !== batch.length) {
+        // Can't tell which task is which clip's; don't let any of them publish
+        await geelark.cancelTasks(taskIds).catch((error: unknown) => {
+          console.error(
+            `[Clip Publishing] Failed to cancel unmatched tasks ${taskIds.join(", ")}:`,
+            error,
+          );
+        });
+        throw new Error(
+          `GeeLark returned ${taskIds.length} taskIds for ${batch.length} clips`,
+        );
+      }
+    } catch (error) {
+      console.error("[Clip Publishing] Video publish request failed:", error);
+      for (const { index, request } of batch) {
+        results[index] = { clipId: request.clipId, error: errorMessage(error) };
+      }
+      continue;
+    }
+
+    for (const [position, { index }] of batch.entries()) {
+      await saveTask(index, taskIds[position] ?? "");
+    }
+  }
+
+  for (const [index, request] of requests.entries()) {
+    if (request.media.type !== "carousel") continue;
+
+    try {
+      const taskResult = await geelark.createPublishImageSetTask({
+        envId: request.cloudPhone.id,
+        scheduleAt: request.scheduleAt,
+        images: request.media.imageUrls,
+        videoTitle: request.title,
+        videoDesc: request.description ?? undefined,
+        videoId: request.media.soundVideoId ?? undefined,
+        sameVideoVolume: request.media.soundVolume ?? undefined,
+        planName: `Publish: ${request.title}`,
+      });
+
+      const [taskId] = taskResult.taskIds;
+      if (!taskId) {
+        throw new Error(
+          `GeeLark returned no taskId for carousel ${request.clipId}`,
+        );
+      }
+      await saveTask(index, taskId);
+    } catch (error) {
+      console.error(
+        `[Clip Publishing] Carousel publish request failed for clip ${request.clipId}:`,
+        error,
+      );
+      results[index] = { clipId: request.clipId, error: errorMessage(error) };
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Create the GeeLark task that publishes a single clip
+ */
+export async function createClipPublishTask(
+  db: Database,
+  request: ClipPublishRequest,
+): Promise<string> {
+  const [result] = await createClipPublishTasks(db, [request]);
+  if (!result) {
+    throw new Error("GeeLark returned no taskId");
+  }
+  if (result.error !== undefined) {
+    throw new Error(result.error);
+  }
+  return result.taskId;
+}
+
+/**
+ * Move the approved clip published by `task` forward once the task has
+ * settled: published, failed, or waiting for an automatic retry. Returns the
+ * outcome, or null if nothing changed.
+ */
+export async function applyPublishTaskToClip(
+  db: Database,
+  task: GeeLarkTask,
+): Promise<"published" | "failed" | "retrying" | null> {
+  const status = mapGeeLarkTaskStatus(task.status);
+  if (status !== "completed" && status !== "failed" && status !== "cancelled") {
+    return null;
+  }
+
+  // Clips already waiting for a retry were settled on an earlier pass
+  const publishingClip = await db.query.clip.findFirst({
+    where: and(
+      eq(clip.geelarkTaskId, task.id),
+      eq(clip.status, "approved"),
+      isNull(clip.nextRetryAt),
+    ),
+  });
+
+  if (!publishingClip) {
+    return null;
+  }
+
+  const nextRetryAt = await recordPublishOutcome(db, publishingClip.id, task);
+
+  if (status === "completed") {
+    await db
+      .update(clip)
+      .set({
+        status: "published",
+        publishedAt: new Date(),
+        tiktokVideoUrl: task.shareLink ?? publishingClip.tiktokVideoUrl,
+        tiktokVideoId:
+          (task.shareLink ? extractTikTokVideoId(task.shareLink) : null) ??
+          publishingClip.tiktokVideoId,
+        failCode: null,
+        failDesc: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(clip.id, publishingClip.id));
+
+    console.log(
+      `[Clip Publishing] Clip ${publishingClip.id} published (task ${task.id})`,
+    );
+    await emitClipEvent(db, "clip.published", publishingClip.id);
+    return "published";
+  }
+
+  const failDesc =
+    task.failDesc ??
+    (status === "cancelled" ? "Publish task was cancelled" : null);
+
+  if (nextRetryAt) {
+    await db
+      .update(clip)
+      .set({
+        failCode: task.failCode ?? null,
+        failDesc,
+        nextRetryAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(clip.id, publishingClip.id));
+
+    console.log(
+      `[Clip Publishing] Clip ${publishingClip.id} failed to publish (task ${task.id}, code ${task.failCode ?? "n/a"}), retrying at ${nextRetryAt.toISOString()}`,
+    );
+    return "retrying";
+  }
+
+  await db
+    .update(clip)
+    .set({
+      status: "failed",
+      failCode: task.failCode ?? null,
+      failDesc,
+      updatedAt: new Date(),
+    })
+    .where(eq(clip.id, publishingClip.id));
+
+  console.log(
+    `[Clip Publishing] Clip ${publishingClip.id} failed to publish (task ${task.id}, code ${task.failCode ?? "n/a"})`,
+  );
+  await emitClipEvent(db, "clip.failed", publishingClip.id);
+  return "failed";
+}
+
+export type RetryPolicy = Omit<
+  typeof geelarkRetryPolicy.$inferSelect,
+  "updatedAt"
+>;
+
+/**
+ * Used for task types that have no row in `geelark_retry_policy`
+ */
+export function defaultRetryPolicy(taskType: number): RetryPolicy {
+  return {
+    taskType,
+    enabled: true,
+    maxAttempts: 3,
+    backoffSeconds: 300,
+    backoffMultiplier: 2,
+    strategy: "retry",
+    terminalFailCodes: [],
+  };
+}
+
+export async function getRetryPolicy(
+  db: Database,
+  taskType: number,
+): Promise<RetryPolicy> {
+  const policy = await db.query.geelarkRetryPolicy.findFirst({
+    where: eq(geelarkRetryPolicy.taskType, taskType),
+  });
+
+  return policy ?? defaultRetryPolicy(taskType);
+}
+
+/**
+ * Seconds to wait before attempt number `nextAttempt` (2 = first retry)
+ */
+export function retryDelaySeconds(policy: RetryPolicy, nextAttempt: number) {
+  return (
+    policy.backoffSeconds *
+    policy.backoffMultiplier ** Math.max(0, nextAttempt - 2)
+  );
+}
+
+/**
+ * Append an attempt to the clip's publish history, already failed if
+ * `failDesc` is given. Returns the attempt's number.
+ */
+export async function recordPublishAttempt(
+  db: Database,
+  params: {
+    clipId: string;
+    method: (typeof clipPublishAttempt.$inferInsert)["method"];
+    geelarkTaskId: string;
+    scheduleAt?: number; // Unix seconds
+    failDesc?: string;
+  },
+) {
+  const [result] = await db
+    .select({ total: count() })
+    .from(clipPublishAttempt)
+    .where(eq(clipPublishAttempt.clipId, params.clipId));
+  const attempt = (result?.total ?? 0) + 1;
+
+  await db.insert(clipPublishAttempt).values({
+    clipId: params.clipId,
+    attempt,
+    method: params.method,
+    geelarkTaskId: params.geelarkTaskId,
+    scheduleAt: params.scheduleAt ? new Date(params.scheduleAt * 1000) : null,
+    ...(params.failDesc
+      ? { status: "failed", failDesc: params.failDesc, settledAt: new Date() }
+      : {}),
+  });
+
+  return attempt;
+}
+
+/**
+ * Point the clip's current attempt at a replacement task, e.g. after the
+ * original task was cancelled to move the post to another slot
+ */
+export async function reassignPublishAttempt(
+  db: Database,
+  params: {
+    clipId: string;
+    fromTaskId: string;
+    toTaskId: string;
+    scheduleAt: number; // Unix seconds
+  },
+) {
+  await db
+    .update(clipPublishAttempt)
+    .set({
+      geelarkTaskId: params.toTaskId,
+      scheduleAt: new Date(params.scheduleAt * 1000),
+    })
+    .where(
+      and(
+        eq(clipPublishAttempt.clipId, params.clipId),
+        eq(clipPublishAttempt.geelarkTaskId, params.fromTaskId),
+      ),
+    );
+}
+
+/**
+ * Store the outcome of a settled task on the clip's latest attempt
+ */
+async function settleLatestAttempt(
+  db: Database,
+  clipId: string,
+  task: GeeLarkTask,
+  status: GeeLarkTaskStatus,
+) {
+  const latest = await db.query.clipPublishAttempt.findFirst({
+    where: and(
+      eq(clipPublishAttempt.clipId, clipId),
+      eq(clipPublishAttempt.geelarkTaskId, task.id),
+    ),
+    orderBy: desc(clipPublishAttempt.attempt),
+  });
+
+  if (!latest) {
+    return 0;
+  }
+
+  await db
+    .update(clipPublishAttempt)
+    .set({
+      status,
+      failCode: task.failCode ?? null,
+      failDesc: task.failDesc ?? null,
+      settledAt: new Date(),
+    })
+    .where(eq(clipPublishAttempt.id, latest.id));
+
+  return latest.attempt;
+}
+
+/**
+ * Record a finished task on the clip's attempt history and, for failures,
+ * work out when (if ever) it should be retried. Returns the time of the next
+ * retry, or null when the failure is final.
+ */
+export async function recordPublishOutcome(
+  db: Database,
+  clipId: string,
+  task: GeeLarkTask,
+): Promise<Date | null> {
+  const status = mapGeeLarkTaskStatus(task.status);
+  const attempt = await settleLatestAttempt(db, clipId, task, status);
+
+  // Only failures are retried - cancelled tasks were stopped on purpose
+  if (status !== "failed") {
+    return null;
+  }
+
+  const policy = await getRetryPolicy(db, task.taskType);
+
+  if (!policy.enabled) {
+    return null;
+  }
+
+  if (
+    task.failCode !== undefined &&
+    policy.terminalFailCodes.includes(task.failCode)
+  ) {
+    console.log(
+      `[Clip Publishing] Clip ${clipId} failed with terminal code ${task.failCode}`,
+    );
+    return null;
+  }
+
+  // Clips approved before attempts were tracked count as their first attempt
+  const attemptsMade = Math.max(attempt, 1);
+  if (attemptsMade >= policy.maxAttempts) {
+    console.log(
+      `[Clip Publishing] Clip ${clipId} used all ${policy.maxAttempts} attempts`,
+    );
+    return null;
+  }
+
+  return new Date(
+    Date.now() + retryDelaySeconds(policy, attemptsMade + 1) * 1000,
+  );
+}
+
+/**
+ * Give up on publishing a clip
+ */
+async function failClipPublish(db: Database, clipId: string, failDesc: string) {
+  await db
+    .update(clip)
+    .set({
+      status: "failed",
+      failDesc,
+      nextRetryAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(clip.id, clipId));
+
+  console.log(
+    `[Clip Publishing] Clip ${clipId} can't be published: ${failDesc}`,
+  );
+  await emitClipEvent(db, "clip.failed", clipId);
+}
+
+/**
+ * Retry the failed publish task of a clip whose backoff has elapsed. Clips
+ * that can no longer be published are marked failed; other errors (e.g.
+ * GeeLark being unreachable) are thrown, for `deferClipPublishRetry`.
+ */
+export async function retryClipPublish(
+  db: Database,
+  clipId: string,
+): Promise<"retry" | "recreate" | "failed"> {
+  const retryingClip = await db.query.clip.findFirst({
+    where: eq(clip.id, clipId),
+    with: {
+      tiktokAccount: {
+        with: {
+          cloudPhone: true,
+        },
+      },
+    },
+  });
+
+  if (!retryingClip) {
+    throw new Error("Clip not found");
+  }
+
+  if (!retryingClip.geelarkTaskId) {
+    await failClipPublish(db, clipId, "Clip has no publish task to retry");
+    return "failed";
+  }
+
+  const failedTaskId = retryingClip.geelarkTaskId;
+  const failedTask = await db.query.geelarkTask.findFirst({
+    where: eq(geelarkTask.id, failedTaskId),
+  });
+  const policy = await getRetryPolicy(db, failedTask?.taskType ?? 1);
+
+  if (policy.strategy === "retry") {
+    const geelark = getGeeLarkClient();
+    const result = await geelark.retryTasks([failedTaskId]);
+
+    if (result.successAmount > 0) {
+      await db
+        .update(geelarkTask)
+        .set({ status: "waiting", lastSyncedAt: new Date() })
+        .where(eq(geelarkTask.id, failedTaskId));
+
+      await db
+        .update(clip)
+        .set({ nextRetryAt: null, updatedAt: new Date() })
+        .where(eq(clip.id, clipId));
+
+      await recordPublishAttempt(db, {
+        clipId,
+        method: "retry",
+        geelarkTaskId: failedTaskId,
+      });
+
+      console.log(
+        `[Clip Publishing] Retried task ${failedTaskId} for clip ${clipId}`,
+      );
+      return "retry";
+    }
+
+    // GeeLark refuses to retry some tasks (e.g. expired ones) - fall back to a new task
+    console.log(
+      `[Clip Publishing] GeeLark could not retry task ${failedTaskId}: ${result.failDetails?.[0]?.msg ?? "unknown error"}`,
+    );
+  }
+
+  const account = retryingClip.tiktokAccount;
+  if (!account?.cloudPhone) {
+    await failClipPublish(
+      db,
+      clipId,
+      "TikTok account is not linked to a cloud phone",
+    );
+    return "failed";
+  }
+
+  // Book the account's next free slot rather than retrying straight away
+  const slot = await findNextPublishSlot(db, {
+    tiktokAccountId: account.id,
+    limits: account,
+    timeZone: account.cloudPhone.timeZone,
+    excludeClipId: clipId,
+  });
+  const scheduleAt = Math.floor(slot.getTime() / 1000);
+
+  const taskId = await createClipPublishTask(db, {
+    clipId,
+    title: retryingClip.title,
+    description: retryingClip.description,
+    media: getClipPublishMedia(retryingClip),
+    cloudPhone: account.cloudPhone,
+    scheduleAt,
+  });
+
+  await db
+    .update(clip)
+    .set({
+      geelarkTaskId: taskId,
+      scheduledAt: slot,
+      nextRetryAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(clip.id, clipId));
+
+  await recordPublishAttempt(db, {
+    clipId,
+    method: "recreate",
+    geelarkTaskId: taskId,
+    scheduleAt,
+  });
+
+  console.log(
+    `[Clip Publishing] Recreated publish task for clip ${clipId}: ${taskId}`,
+  );
+  return "recreate";
+}
+
+/**
+ * Count a retry that failed before GeeLark took it (e.g. an API error) as an
+ * attempt, and wait out the policy's backoff before the next one. Gives up
+ * once the policy's attempts are used. Returns the time of the next retry,
+ * or null when the clip was marked failed.
+ */
+export async function deferClipPublishRetry(
+  db: Database,
+  clipId: string,
+  error: unknown,
+): Promise<Date | null> {
+  const failDesc = errorMessage(error);
+  const retryingClip = await db.query.clip.findFirst({
+    where: eq(clip.id, clipId),
+    columns: { geelarkTaskId: true },
+  });
+
+  if (!retryingClip?.geelarkTaskId) {
+    await failClipPublish(db, clipId, failDesc);
+    return null;
+  }
+
+  const failedTask = await db.query.geelarkTask.findFirst({
+    where: eq(geelarkTask.id, retryingClip.geelarkTaskId),
+  });
+  const policy = await getRetryPolicy(db, failedTask?.taskType ?? 1);
+
+  const attempt = await recordPublishAttempt(db, {
+    clipId,
+    method: policy.strategy === "retry" ? "retry" : "recreate",
+    geelarkTaskId: retryingClip.geelarkTaskId,
+    failDesc,
+  });
+
+  if (attempt >= policy.maxAttempts) {
+    await failClipPublish(db, clipId, failDesc);
+    return null;
+  }
+
+  const nextRetryAt = new Date(
+    Date.now() + retryDelaySeconds(policy, attempt + 1) * 1000,
+  );
+  await db
+    .update(clip)
+    .set({ failDesc, nextRetryAt, updatedAt: new Date() })
+    .where(eq(clip.id, clipId));
+
+  console.log(
+    `[Clip Publishing] Retry of clip ${clipId} failed (${failDesc}), trying again at ${nextRetryAt.toISOString()}`,
+  );
+  return nextRetryAt;
+}
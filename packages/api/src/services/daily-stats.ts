@@ -0,0 +1,264 @@
+/**
+ * Daily stats rollups
+ *
+ * `clip_stats` keeps every snapshot we take, which is far too many rows to
+ * sum on page load. Each UTC day is rolled up into `clip_daily_stats` (the
+ * day's last snapshot per clip, and how much it grew since the clip's
+ * previous row), and from there into per-account, per-creator and
+ * per-campaign gains. A clip's first row counts everything it had as gained,
+ * so summing gains over all days gives current totals, and summing them over
+ * a range gives what was gained in it.
+ */
+import type { Database } from "@everylab/db/client";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  lt,
+  max,
+  sql,
+} from "@everylab/db";
+import {
+  accountDailyStats,
+  campaignClip,
+  campaignDailyStats,
+  clip,
+  clipDailyStats,
+  clipStats,
+  creatorDailyStats,
+} from "@everylab/db/schema";
+
+export interface DailyGains {
+  day: string;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshots can land for a day after it was rolled up (e.g. a manual refresh
+// right after midnight), so each run redoes this many days before the last
+const REROLL_DAYS = 1;
+
+// Keeps a first-time backfill from running past the cron timeout; the next
+// run picks up where this one stopped
+const MAX_DAYS_PER_RUN = 31;
+
+// Clips per previous-day lookup and upsert
+const CHUNK_SIZE = 500;
+
+/**
+ * The UTC day a timestamp falls in, as YYYY-MM-DD
+ */
+export function toDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(day: string, days: number) {
+  return toDay(
+    new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS),
+  );
+}
+
+/**
+ * Every day from `from` to `to` inclusive, with zero gains where `rows` has
+ * none
+ */
+export function fillDays(
+  from: string,
+  to: string,
+  rows: DailyGains[],
+): DailyGains[] {
+  const byDay = new Map(rows.map((row) => [row.day, row]));
+  const days: DailyGains[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(
+      byDay.get(day) ?? { day, views: 0, likes: 0, comments: 0, shares: 0 },
+    );
+  }
+  return days;
+}
+
+const gainedColumns = {
+  viewsGained: sql<number>`sum(${clipDailyStats.viewsGained})`.mapWith(Number),
+  likesGained: sql<number>`sum(${clipDailyStats.likesGained})`.mapWith(Number),
+  commentsGained: sql<number>`sum(${clipDailyStats.commentsGained})`.mapWith(
+    Number,
+  ),
+  sharesGained: sql<number>`sum(${clipDailyStats.sharesGained})`.mapWith(
+    Number,
+  ),
+};
+
+async function rollupClipDay(db: Database, day: string) {
+  const start = new Date(`${day}T00:00:00Z`);
+  const end = new Date(start.getTime() + DAY_MS);
+
+  // Last snapshot of the day for each clip
+  const snapshots = await db
+    .selectDistinctOn([clipStats.clipId], {
+      clipId: clipStats.clipId,
+      views: clipStats.views,
+      likes: clipStats.likes,
+      comments: clipStats.comments,
+      shares: clipStats.shares,
+    })
+    .from(clipStats)
+    .where(and(gte(clipStats.recordedAt, start), lt(clipStats.recordedAt, end)))
+    .orderBy(clipStats.clipId, desc(clipStats.recordedAt));
+
+  for (let i = 0; i < snapshots.length; i += CHUNK_SIZE) {
+    const chunk = snapshots.slice(i, i + CHUNK_SIZE);
+
+    const previous = await db
+      .selectDistinctOn([clipDailyStats.clipId], {
+        clipId: clipDailyStats.clipId,
+        views: clipDailyStats.views,
+        likes: clipDailyStats.likes,
+        comments: clipDailyStats.comments,
+        shares: clipDailyStats.shares,
+      })
+      .from(clipDailyStats)
+      .where(
+        and(
+          inArray(
+            clipDailyStats.clipId,
+            chunk.map((s) => s.clipId),
+          ),
+          lt(clipDailyStats.day, day),
+        ),
+      )
+      .orderBy(clipDailyStats.clipId, desc(clipDailyStats.day));
+    const previousByClip = new Map(previous.map((p) => [p.clipId, p]));
+
+    await db
+      .insert(clipDailyStats)
+      .values(
+        chunk.map((snapshot) => {
+          const prev = previousByClip.get(snapshot.clipId);
+          return {
+            ...snapshot,
+            day,
+            viewsGained: snapshot.views - (prev?.views ?? 0),
+            likesGained: snapshot.likes - (prev?.likes ?? 0),
+            commentsGained: snapshot.comments - (prev?.comments ?? 0),
+            sharesGained: snapshot.shares - (prev?.shares ?? 0),
+          };
+        }),
+      )
+      .onConflictDoUpdate({
+        target: [clipDailyStats.clipId, clipDailyStats.day],
+        set: {
+          views: sql`excluded.views`,
+          likes: sql`excluded.likes`,
+          comments: sql`excluded.comments`,
+          shares: sql`excluded.shares`,
+          viewsGained: sql`excluded.views_gained`,
+          likesGained: sql`excluded.likes_gained`,
+          commentsGained: sql`excluded.comments_gained`,
+          sharesGained: sql`excluded.shares_gained`,
+        },
+      });
+  }
+
+  return snapshots.length;
+}
+
+async function rollupGroupsDay(db: Database, day: string) {
+  const byAccount = await db
+    .select({ tiktokAccountId: clip.tiktokAccountId, ...gainedColumns })
+    .from(clipDailyStats)
+    .innerJoin(clip, eq(clip.id, clipDailyStats.clipId))
+    .where(and(eq(clipDailyStats.day, day), isNotNull(clip.tiktokAccountId)))
+    .groupBy(clip.tiktokAccountId);
+
+  await db.delete(accountDailyStats).where(eq(accountDailyStats.day, day));
+  const accountRows = byAccount.flatMap(({ tiktokAccountId, ...gains }) =>
+    tiktokAccountId ? [{ tiktokAccountId, day, ...gains }] : [],
+  );
+  if (accountRows.length > 0) {
+    await db.insert(accountDailyStats).values(accountRows);
+  }
+
+  const byCreator = await db
+    .select({ userId: clip.userId, ...gainedColumns })
+    .from(clipDailyStats)
+    .innerJoin(clip, eq(clip.id, clipDailyStats.clipId))
+    .where(eq(clipDailyStats.day, day))
+    .groupBy(clip.userId);
+
+  await db.delete(creatorDailyStats).where(eq(creatorDailyStats.day, day));
+  if (byCreator.length > 0) {
+    await db
+      .insert(creatorDailyStats)
+      .values(byCreator.map((row) => ({ ...row, day })));
+  }
+
+  const byCampaign = await db
+    .select({ campaignId: campaignClip.campaignId, ...gainedColumns })
+    .from(clipDailyStats)
+    .innerJoin(campaignClip, eq(campaignClip.clipId, clipDailyStats.clipId))
+    .where(eq(clipDailyStats.day, day))
+    .groupBy(campaignClip.campaignId);
+
+  await db.delete(campaignDailyStats).where(eq(campaignDailyStats.day, day));
+  if (byCampaign.length > 0) {
+    await db
+      .insert(campaignDailyStats)
+      .values(byCampaign.map((row) => ({ ...row, day })));
+  }
+}
+
+/**
+ * Roll up one UTC day: per-clip rows first, then the group gains built from
+ * them
+ */
+export async function rollupDay(db: Database, day: string) {
+  const clips = await rollupClipDay(db, day);
+  await rollupGroupsDay(db, day);
+  return clips;
+}
+
+/**
+ * Roll up every day with snapshots since the last rolled-up day, oldest
+ * first so each day's gains are measured against the one before it
+ */
+export async function rollupDailyStats(db: Database, now = new Date()) {
+  const [latest] = await db
+    .select({ day: max(clipDailyStats.day) })
+    .from(clipDailyStats);
+
+  let since: Date | null = null;
+  if (latest?.day) {
+    since = new Date(`${addDays(latest.day, -REROLL_DAYS)}T00:00:00Z`);
+  } else {
+    const [first] = await db
+      .select({ recordedAt: clipStats.recordedAt })
+      .from(clipStats)
+      .orderBy(asc(clipStats.recordedAt))
+      .limit(1);
+    if (!first) return { days: 0, clipDays: 0 };
+    since = new Date(`${toDay(first.recordedAt)}T00:00:00Z`);
+  }
+
+  const dayExpr = sql<string>`(${clipStats.recordedAt} at time zone 'UTC')::date::text`;
+  const daysWithSnapshots = await db
+    .selectDistinct({ day: dayExpr })
+    .from(clipStats)
+    .where(and(gte(clipStats.recordedAt, since), lt(clipStats.recordedAt, now)))
+    .orderBy(dayExpr)
+    .limit(MAX_DAYS_PER_RUN);
+
+  let clipDays = 0;
+  for (const { day } of daysWithSnapshots) {
+    clipDays += await rollupDay(db, day);
+  }
+
+  return { days: daysWithSnapshots.length, clipDays };
+}
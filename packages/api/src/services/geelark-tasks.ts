@@ -0,0 +1,120 @@
+/**
+ * GeeLark task helpers
+ *
+ * Shared by the admin router and background jobs to keep the local
+ * `geelark_task` cache in sync with GeeLark.
+ */
+import type { Database } from "@everylab/db/client";
+import type { geelarkTaskStatusEnum } from "@everylab/db/schema";
+import type { GeeLarkTask } from "@everylab/geelark";
+import { eq } from "@everylab/db";
+import { cloudPhone, geelarkTask } from "@everylab/db/schema";
+import { GeeLarkClient, geelarkEnv } from "@everylab/geelark";
+
+import { emitWebhookEvent } from "./webhooks";
+
+export type GeeLarkTaskStatus =
+  (typeof geelarkTaskStatusEnum.enumValues)[number];
+
+export function getGeeLarkClient() {
+  return new GeeLarkClient({
+    appId: geelarkEnv.GEELARK_APP_ID,
+    apiKey: geelarkEnv.GEELARK_API_KEY,
+  });
+}
+
+/**
+ * Map GeeLark status codes to our enum
+ */
+export function mapGeeLarkTaskStatus(status: number): GeeLarkTaskStatus {
+  switch (status) {
+    case 1:
+      return "waiting";
+    case 2:
+      return "in_progress";
+    case 3:
+      return "completed";
+    case 4:
+      return "failed";
+    case 7:
+      return "cancelled";
+    default:
+      return "waiting";
+  }
+}
+
+/**
+ * Extract the TikTok video ID from a share link
+ * (e.g. https://www.tiktok.com/@someone/video/7312345678901234567)
+ */
+export function extractTikTokVideoId(shareLink: string): string | null {
+  const match = /\/video\/(\d+)/.exec(shareLink);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Upsert a task returned by GeeLark into the local cache
+ */
+export async function upsertGeeLarkTask(
+  db: Database,
+  task: GeeLarkTask,
+): Promise<"inserted" | "updated"> {
+  const existing = await db.query.geelarkTask.findFirst({
+    where: eq(geelarkTask.id, task.id),
+  });
+
+  const taskData = {
+    id: task.id,
+    planName: task.planName,
+    taskType: task.taskType,
+    cloudPhoneId: task.envId,
+    serialName: task.serialName,
+    scheduleAt: task.scheduleAt ? new Date(task.scheduleAt * 1000) : null,
+    status: mapGeeLarkTaskStatus(task.status),
+    failCode: task.failCode ?? null,
+    failDesc: task.failDesc ?? null,
+    cost: task.cost ?? null,
+    shareLink: task.shareLink ?? null,
+    lastSyncedAt: new Date(),
+  };
+
+  if (existing) {
+    await db
+      .update(geelarkTask)
+      .set(taskData)
+      .where(eq(geelarkTask.id, task.id));
+
+    if (existing.status !== taskData.status) {
+      const phone = await db.query.cloudPhone.findFirst({
+        where: eq(cloudPhone.id, task.envId),
+        columns: { organizationId: true },
+      });
+
+      await emitWebhookEvent(
+        db,
+        "task.updated",
+        {
+          task: {
+            id: task.id,
+            taskType: task.taskType,
+            cloudPhoneId: task.envId,
+            clipId: existing.clipId,
+            previousStatus: existing.status,
+            status: taskData.status,
+            failCode: taskData.failCode,
+            failDesc: taskData.failDesc,
+            shareLink: taskData.shareLink,
+          },
+        },
+        phone?.organizationId ?? null,
+      );
+    }
+    return "updated";
+  }
+
+  await db.insert(geelarkTask).values({
+    ...taskData,
+    createdAt: new Date(),
+  });
+  return "inserted";
+}
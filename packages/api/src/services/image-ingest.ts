@@ -0,0 +1,33 @@
+/**
+ * Image ingestion
+ *
+ * Runs when a creator attaches carousel images to a clip. As with videos (see
+ * services/video-ingest), each image must be one of their uploads in our
+ * bucket, since the URLs are handed to GeeLark to post.
+ */
+import type { Storage } from "@everylab/storage";
+
+/**
+ * Throws unless every image is an upload of the creator's that finished
+ */
+export async function verifyUploadedImages(
+  storage: Storage,
+  params: { imageUrls: string[]; userId: string },
+) {
+  await Promise.all(
+    params.imageUrls.map(async (imageUrl, index) => {
+      const key = storage.getKeyFromPublicUrl(imageUrl);
+      if (!key?.startsWith(`clips/${params.userId}/`)) {
+        throw new Error(
+          `Upload image ${index + 1} before adding it to a carousel`,
+        );
+      }
+
+      if (!(await storage.head(key))) {
+        throw new Error(
+          `Image ${index + 1} didn't finish uploading. Upload it again.`,
+        );
+      }
+    }),
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Organizations
+ *
+ * Client brands sharing one deployment. Users, TikTok accounts, cloud phones,
+ * proxies and campaigns each belong to an organization, as do the webhook
+ * endpoints, warmup programs, automation schedules and payout batches admins
+ * create. Everything else follows from those: clips and ledger entries through
+ * their creator, tasks and enrollments through their phone, stats through
+ * their clip or account. Rows without an organization are only visible to
+ * super-admins viewing every organization.
+ */
+import type { SQL, SQLWrapper } from "@everylab/db";
+import type { Database } from "@everylab/db/client";
+import { eq, inArray, isNull } from "@everylab/db";
+import { clip, cloudPhone, tiktokAccount, user } from "@everylab/db/schema";
+
+/**
+ * Limits an organization ID column to `organizationId`. Null means every
+ * organization, so there is nothing to filter.
+ */
+export function inOrganization(
+  organizationId: string | null,
+  column: SQLWrapper,
+): SQL | undefined {
+  return organizationId ? eq(column, organizationId) : undefined;
+}
+
+/**
+ * Limits an organization ID column to exactly `organizationId`, so users
+ * outside every organization only see rows outside every organization too.
+ * Used for creators, who never see other organizations.
+ */
+export function sameOrganization(
+  organizationId: string | null,
+  column: SQLWrapper,
+): SQL {
+  return organizationId ? eq(column, organizationId) : isNull(column);
+}
+
+/**
+ * Limits a user ID column (a clip's creator, a ledger entry's payee...) to
+ * the organization's users
+ */
+export function userInOrganization(
+  db: Database,
+  organizationId: string | null,
+  column: SQLWrapper,
+): SQL | undefined {
+  return organizationId
+    ? inArray(
+        column,
+        db
+          .select({ id: user.id })
+          .from(user)
+          .where(eq(user.organizationId, organizationId)),
+      )
+    : undefined;
+}
+
+/**
+ * Limits a clip ID column to clips by the organization's users
+ */
+export function clipInOrganization(
+  db: Database,
+  organizationId: string | null,
+  column: SQLWrapper,
+): SQL | undefined {
+  return organizationId
+    ? inArray(
+        column,
+        db
+          .select({ id: clip.id })
+          .from(clip)
+          .where(userInOrganization(db, organizationId, clip.userId)),
+      )
+    : undefined;
+}
+
+/**
+ * Limits a cloud phone ID column to the organization's phones
+ */
+export function phoneInOrganization(
+  db: Database,
+  organizationId: string | null,
+  column: SQLWrapper,
+): SQL | undefined {
+  return organizationId
+    ? inArray(
+        column,
+        db
+          .select({ id: cloudPhone.id })
+          .from(cloudPhone)
+          .where(eq(cloudPhone.organizationId, organizationId)),
+      )
+    : undefined;
+}
+
+/**
+ * Limits a TikTok account ID column to the organization's accounts
+ */
+export function accountInOrganization(
+  db: Database,
+  organizationId: string | null,
+  column: SQLWrapper,
+): SQL | undefined {
+  return organizationId
+    ? inArray(
+        column,
+        db
+          .select({ id: tiktokAccount.id })
+          .from(tiktokAccount)
+          .where(eq(tiktokAccount.organizationId, organizationId)),
+      )
+    : undefined;
+}
+
+/**
+ * The organization a signed-in user belongs to, read from their session
+ */
+export function getSessionOrganizationId(session: { user: object }) {
+  return (
+    (session.user as { organizationId?: string | null }).organizationId ?? null
+  );
+}
@@ -0,0 +1,413 @@
+/**
+ * Creator payouts
+ *
+ * Campaigns with a rate card pay creators for their published clips: a flat
+ * fee per clip, a CPM on views, and a bonus for every view tier reached. Views
+ * are read from the latest `clip_stats` snapshot taken on or before the clip's
+ * lock date (`publishedAt` + `lockAfterDays`), so later growth doesn't change
+ * what was earned. Locked earnings become ledger entries; admins gather unpaid
+ * entries into a batch, approve it, export it for finance and mark it paid,
+ * which books a matching debit on each creator's ledger.
+ */
+import type { Database } from "@everylab/db/client";
+import type { campaignRateCard } from "@everylab/db/schema";
+import {
+  and,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  ne,
+  notExists,
+} from "@everylab/db";
+import {
+  campaignClip,
+  clip,
+  clipStats,
+  payoutBatch,
+  payoutLedgerEntry,
+} from "@everylab/db/schema";
+
+import { userInOrganization } from "./organizations";
+import { decryptSecret } from "./secrets";
+
+type RateCard = typeof campaignRateCard.$inferSelect;
+
+// Every amount is stored in cents of this currency
+export const PAYOUT_CURRENCY = "USD";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function computeClipEarnings(
+  rateCard: Pick<RateCard, "cpmCents" | "flatFeeCents" | "bonusTiers">,
+  views: number,
+) {
+  const flatFeeCents = rateCard.flatFeeCents;
+  const viewCents = Math.floor((views * rateCard.cpmCents) / 1000);
+  const bonusCents = rateCard.bonusTiers
+    .filter((tier) => views >= tier.views)
+    .reduce((sum, tier) => sum + tier.bonusCents, 0);
+
+  return {
+    flatFeeCents,
+    viewCents,
+    bonusCents,
+    totalCents: flatFeeCents + viewCents + bonusCents,
+  };
+}
+
+export function getClipLockDate(publishedAt: Date, lockAfterDays: number) {
+  return new Date(publishedAt.getTime() + lockAfterDays * DAY_MS);
+}
+
+/**
+ * Book earnings for every published campaign clip whose lock date has passed
+ * and that hasn't been paid for that campaign yet
+ */
+export async function lockDueEarnings(db: Database, now = new Date()) {
+  const rateCards = await db.query.campaignRateCard.findMany();
+
+  let locked = 0;
+  let totalCents = 0;
+
+  for (const rateCard of rateCards) {
+    const cutoff = new Date(now.getTime() - rateCard.lockAfterDays * DAY_MS);
+
+    const due = await db
+      .select({
+        clipId: clip.id,
+        userId: clip.userId,
+        publishedAt: clip.publishedAt,
+      })
+      .from(campaignClip)
+      .innerJoin(clip, eq(clip.id, campaignClip.clipId))
+      .where(
+        and(
+          eq(campaignClip.campaignId, rateCard.campaignId),
+          eq(clip.status, "published"),
+          isNotNull(clip.publishedAt),
+          lte(clip.publishedAt, cutoff),
+          notExists(
+            db
+              .select({ id: payoutLedgerEntry.id })
+              .from(payoutLedgerEntry)
+              .where(
+                and(
+                  eq(payoutLedgerEntry.kind, "earning"),
+                  eq(payoutLedgerEntry.campaignId, rateCard.campaignId),
+                  eq(payoutLedgerEntry.clipId, clip.id),
+                ),
+              ),
+          ),
+        ),
+      );
+
+    for (const item of due) {
+      if (!item.publishedAt) continue;
+      const lockedAt = getClipLockDate(
+        item.publishedAt,
+        rateCard.lockAfterDays,
+      );
+
+      const snapshot = await db.query.clipStats.findFirst({
+        where: and(
+          eq(clipStats.clipId, item.clipId),
+          lte(clipStats.recordedAt, lockedAt),
+        ),
+        orderBy: desc(clipStats.recordedAt),
+        columns: {
+          views: true,
+          recordedAt: true,
+        },
+      });
+
+      const views = snapshot?.views ?? 0;
+      const earnings = computeClipEarnings(rateCard, views);
+
+      const inserted = await db
+        .insert(payoutLedgerEntry)
+        .values({
+          userId: item.userId,
+          kind: "earning",
+          amountCents: earnings.totalCents,
+          campaignId: rateCard.campaignId,
+          clipId: item.clipId,
+          views,
+          viewsRecordedAt: snapshot?.recordedAt ?? null,
+          lockedAt,
+          note: snapshot ? null : "No stats snapshot before the lock date",
+        })
+        .onConflictDoNothing()
+        .returning({ id: payoutLedgerEntry.id });
+
+      if (inserted.length > 0) {
+        locked++;
+        totalCents += earnings.totalCents;
+      }
+    }
+  }
+
+  return { locked, totalCents };
+}
+
+/**
+ * Gather every unbatched earning and adjustment of the organization's
+ * creators into a draft batch. Creators whose unbatched entries net to zero
+ * or less are left for a later batch. Entries are only taken if they're
+ * still unbatched, so a batch created at the same time can't take them too.
+ */
+export async function createPayoutBatch(
+  db: Database,
+  params: {
+    createdById: string;
+    organizationId: string | null;
+    note?: string | null;
+  },
+) {
+  return db.transaction(async (tx) => {
+    const unbatched = await tx.query.payoutLedgerEntry.findMany({
+      where: and(
+        isNull(payoutLedgerEntry.batchId),
+        ne(payoutLedgerEntry.kind, "payout"),
+        userInOrganization(db, params.organizationId, payoutLedgerEntry.userId),
+      ),
+      columns: {
+        id: true,
+        userId: true,
+        amountCents: true,
+      },
+    });
+
+    const netByCreator = new Map<string, number>();
+    for (const entry of unbatched) {
+      netByCreator.set(
+        entry.userId,
+        (netByCreator.get(entry.userId) ?? 0) + entry.amountCents,
+      );
+    }
+
+    const candidates = unbatched.filter(
+      (entry) => (netByCreator.get(entry.userId) ?? 0) > 0,
+    );
+    if (candidates.length === 0) {
+      throw new Error("No unpaid earnings to batch");
+    }
+
+    const [batch] = await tx
+      .insert(payoutBatch)
+      .values({
+        totalCents: 0,
+        creatorCount: 0,
+        entryCount: 0,
+        note: params.note ?? null,
+        organizationId: params.organizationId,
+        createdById: params.createdById,
+      })
+      .returning();
+
+    if (!batch) {
+      throw new Error("Failed to create payout batch");
+    }
+
+    // Totals come from the entries this batch actually took
+    const entries = await tx
+      .update(payoutLedgerEntry)
+      .set({ batchId: batch.id })
+      .where(
+        and(
+          inArray(
+            payoutLedgerEntry.id,
+            candidates.map((entry) => entry.id),
+          ),
+          isNull(payoutLedgerEntry.batchId),
+        ),
+      )
+      .returning({
+        userId: payoutLedgerEntry.userId,
+        amountCents: payoutLedgerEntry.amountCents,
+      });
+
+    if (entries.length === 0) {
+      throw new Error("No unpaid earnings to batch");
+    }
+
+    const creatorIds = new Set(entries.map((entry) => entry.userId));
+
+    const [created] = await tx
+      .update(payoutBatch)
+      .set({
+        totalCents: entries.reduce((sum, e) => sum + e.amountCents, 0),
+        creatorCount: creatorIds.size,
+        entryCount: entries.length,
+      })
+      .where(eq(payoutBatch.id, batch.id))
+      .returning();
+
+    console.log(
+      `[Payouts] Created batch ${batch.id}: ${entries.length} entries for ${creatorIds.size} creators`,
+    );
+
+    return created ?? batch;
+  });
+}
+
+/**
+ * Per-creator totals of a batch's earnings and adjustments. Takes a
+ * transaction too, for reading a batch while it's being marked paid.
+ */
+export async function getPayoutBatchLines(
+  db: Pick<Database, "query">,
+  batchId: string,
+) {
+  const entries = await db.query.payoutLedgerEntry.findMany({
+    where: and(
+      eq(payoutLedgerEntry.batchId, batchId),
+      ne(payoutLedgerEntry.kind, "payout"),
+    ),
+    columns: {
+      userId: true,
+      amountCents: true,
+    },
+    with: {
+      user: {
+        columns: {
+          id: true,
+          name: true,
+          email: true,
+          bankAccountInfo: true,
+        },
+      },
+    },
+  });
+
+  const lines = new Map<
+    string,
+    {
+      user: (typeof entries)[number]["user"];
+      amountCents: number;
+      entryCount: number;
+    }
+  >();
+  for (const entry of entries) {
+    const line = lines.get(entry.userId) ?? {
+      user: entry.user,
+      amountCents: 0,
+      entryCount: 0,
+    };
+    line.amountCents += entry.amountCents;
+    line.entryCount++;
+    lines.set(entry.userId, line);
+  }
+
+  return [...lines.values()].sort((a, b) => b.amountCents - a.amountCents);
+}
+
+/**
+ * Mark an approved batch paid and book a payout debit for each creator in it,
+ * together, so a batch is never left paid without its debits
+ */
+export async function markPayoutBatchPaid(db: Database, batchId: string) {
+  const batch = await db.query.payoutBatch.findFirst({
+    where: eq(payoutBatch.id, batchId),
+  });
+  if (!batch) {
+    throw new Error("Payout batch not found");
+  }
+  if (batch.status !== "approved") {
+    throw new Error("Only approved batches can be marked paid");
+  }
+
+  const { updated, lines } = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(payoutBatch)
+      .set({ status: "paid", paidAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(eq(payoutBatch.id, batchId), eq(payoutBatch.status, "approved")),
+      )
+      .returning();
+
+    // Another admin got there first
+    if (!updated) {
+      throw new Error("Payout batch was already marked paid");
+    }
+
+    const lines = await getPayoutBatchLines(tx, batchId);
+    if (lines.length > 0) {
+      await tx.insert(payoutLedgerEntry).values(
+        lines.map((line) => ({
+          userId: line.user.id,
+          kind: "payout" as const,
+          amountCents: -line.amountCents,
+          batchId,
+          note: `Paid in batch ${batchId.slice(0, 8)}`,
+        })),
+      );
+    }
+
+    return { updated, lines };
+  });
+
+  console.log(
+    `[Payouts] Batch ${batchId} paid: ${lines.length} creators, ${batch.totalCents} cents`,
+  );
+
+  return updated;
+}
+
+function csvField(value: string | number) {
+  let text = String(value);
+  // Keep spreadsheet apps from reading creator-supplied text as a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per creator with their bank details and the amount to send
+ */
+export async function buildPayoutBatchCsv(db: Database, batchId: string) {
+  const batch = await db.query.payoutBatch.findFirst({
+    where: eq(payoutBatch.id, batchId),
+  });
+  if (!batch) {
+    throw new Error("Payout batch not found");
+  }
+  if (batch.status === "draft") {
+    throw new Error("Approve the batch before exporting it");
+  }
+
+  const lines = await getPayoutBatchLines(db, batchId);
+
+  const rows: (string | number)[][] = [
+    [
+      "batch_id",
+      "creator_id",
+      "creator_name",
+      "creator_email",
+      "bank_account_info",
+      "amount",
+      "currency",
+      "entries",
+    ],
+  ];
+  for (const line of lines) {
+    rows.push([
+      batchId,
+      line.user.id,
+      line.user.name,
+      line.user.email,
+      (await decryptSecret(line.user.bankAccountInfo)) ?? "",
+      (line.amountCents / 100).toFixed(2),
+      PAYOUT_CURRENCY,
+      line.entryCount,
+    ]);
+  }
+
+  return {
+    filename: `payout-batch-${batch.createdAt.toISOString().slice(0, 10)}-${batchId.slice(0, 8)}.csv`,
+    csv: rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n",
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Posting calendar
+ *
+ * Allocates publish slots per TikTok account so that approvals respect the
+ * account's posting limits: posts per day, minimum gap between posts and quiet
+ * hours, all evaluated in the cloud phone's time zone.
+ */
+import type { Database } from "@everylab/db/client";
+import { and, eq, inArray, isNotNull, ne } from "@everylab/db";
+import { clip } from "@everylab/db/schema";
+
+export interface PostingLimits {
+  maxPostsPerDay: number;
+  minPostGapMinutes: number;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+}
+
+// GeeLark rejects tasks scheduled less than a minute out
+const MIN_LEAD_SECONDS = 60;
+
+// Give up after looking this far ahead (an account with no free slot is misconfigured)
+const MAX_LOOKAHEAD_DAYS = 60;
+
+/**
+ * Fall back to UTC when the phone reports no zone, or one Intl doesn't know
+ */
+export function resolveTimeZone(timeZone: string | null | undefined) {
+  if (!timeZone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) and minute of day for `date` in `timeZone`
+ */
+export function getLocalTime(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "00";
+
+  return {
+    day: `${get("year")}-${get("month")}-${get("day")}`,
+    minuteOfDay: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+function isQuietMinute(minuteOfDay: number, limits: PostingLimits) {
+  if (limits.quietHoursStart === null || limits.quietHoursEnd === null) {
+    return false;
+  }
+  const start = limits.quietHoursStart * 60;
+  const end = limits.quietHoursEnd * 60;
+  if (start === end) return false;
+
+  // Windows like 22 -> 7 wrap past midnight
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+}
+
+function addMinutes(date: Date, minutes: number) {
+  const next = new Date(date.getTime() + minutes * 60 * 1000);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
+
+/**
+ * Pick the earliest slot at or after `earliest` that keeps the account within
+ * its limits, given the slots it already has booked
+ */
+export function pickNextSlot(params: {
+  earliest: Date;
+  booked: Date[];
+  limits: PostingLimits;
+  timeZone: string;
+}): Date {
+  const { booked, limits, timeZone } = params;
+  const gapMs = limits.minPostGapMinutes * 60 * 1000;
+  const deadline =
+    params.earliest.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+  let candidate = params.earliest;
+
+  while (candidate.getTime() < deadline) {
+    const local = getLocalTime(candidate, timeZone);
+
+    // Skip to the end of quiet hours
+    if (isQuietMinute(local.minuteOfDay, limits)) {
+      const end = (limits.quietHoursEnd ?? 0) * 60;
+      candidate = addMinutes(
+        candidate,
+        (end - local.minuteOfDay + 1440) % 1440,
+      );
+      continue;
+    }
+
+    // Skip past any post that is too close
+    const clash = booked.find(
+      (slot) => Math.abs(slot.getTime() - candidate.getTime()) < gapMs,
+    );
+    if (clash) {
+      candidate = new Date(clash.getTime() + gapMs);
+      continue;
+    }
+
+    // Skip to the next local day once this one is full
+    const sameDay = booked.filter(
+      (slot) => getLocalTime(slot, timeZone).day === local.day,
+    );
+    if (sameDay.length >= limits.maxPostsPerDay) {
+      candidate = addMinutes(candidate, 1440 - local.minuteOfDay);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  throw new Error(
+    `No free posting slot in the next ${MAX_LOOKAHEAD_DAYS} days for this account`,
+  );
+}
+
+/**
+ * Find the next free publish slot for a TikTok account. Booked slots are the
+ * scheduled times of the account's approved and published clips.
+ */
+export async function findNextPublishSlot(
+  db: Database,
+  params: {
+    tiktokAccountId: string;
+    limits: PostingLimits;
+    timeZone: string | null;
+    requestedAt?: Date | null;
+    excludeClipId?: string;
+    alsoBooked?: Date[]; // Slots handed out earlier in the same request, not saved yet
+  },
+): Promise<Date> {
+  const minStart = new Date(Date.now() + MIN_LEAD_SECONDS * 1000);
+  const earliest =
+    params.requestedAt && params.requestedAt > minStart
+      ? params.requestedAt
+      : minStart;
+
+  const conditions = [
+    eq(clip.tiktokAccountId, params.tiktokAccountId),
+    inArray(clip.status, ["approved", "published"]),
+    isNotNull(clip.scheduledAt),
+  ];
+  if (params.excludeClipId) {
+    conditions.push(ne(clip.id, params.excludeClipId));
+  }
+
+  const queued = await db.query.clip.findMany({
+    where: and(...conditions),
+    columns: { scheduledAt: true },
+  });
+
+  const booked = queued
+    .map((c) => c.scheduledAt)
+    .filter((d): d is Date => d !== null)
+    .concat(params.alsoBooked ?? []);
+
+  return pickNextSlot({
+    earliest,
+    booked,
+    limits: params.limits,
+    timeZone: resolveTimeZone(params.timeZone),
+  });
+}
@@ -0,0 +1,210 @@
+/**
+ * Secrets at rest
+ *
+ * Envelope encryption for credentials we store (TikTok tokens, proxy
+ * passwords, creator bank details). Each value is encrypted with its own
+ * random data key using AES-256-GCM, and the data key is wrapped with a
+ * key-encryption key from `SECRETS_ENCRYPTION_KEYS`. Stored values look like:
+ *
+ *   enc:v1:<key id>:<wrap iv>:<wrapped data key>:<iv>:<ciphertext>
+ *
+ * `SECRETS_ENCRYPTION_KEYS` is a comma-separated list of `<id>:<base64 key>`
+ * entries. The first key encrypts; the rest only decrypt. To rotate, put a new
+ * key first and run the `encrypt-secrets` job, which re-wraps every data key
+ * with it (the ciphertext itself is untouched). Values without the `enc:`
+ * prefix are legacy plaintext and are returned as-is until that job runs.
+ */
+
+const PREFIX = "enc:v1:";
+
+type AesKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+interface EncryptionKey {
+  id: string;
+  key: AesKey;
+}
+
+let keyring: Promise<EncryptionKey[]> | null = null;
+let warnedMissingKeys = false;
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=/g, "");
+}
+
+function fromBase64(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function randomBytes(length: number) {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+async function loadKeyring(): Promise<EncryptionKey[]> {
+  const raw = process.env.SECRETS_ENCRYPTION_KEYS ?? "";
+  const entries = raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return Promise.all(
+    entries.map(async (entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator);
+      const material = fromBase64(entry.slice(separator + 1));
+
+      if (separator <= 0 || material.length !== 32) {
+        throw new Error(
+          "SECRETS_ENCRYPTION_KEYS entries must look like <id>:<base64 32-byte key>",
+        );
+      }
+
+      const key = await crypto.subtle.importKey(
+        "raw",
+        material,
+        { name: "AES-GCM" },
+        false,
+        ["encrypt", "decrypt", "wrapKey", "unwrapKey"],
+      );
+      return { id, key };
+    }),
+  );
+}
+
+function getKeyring() {
+  keyring ??= loadKeyring();
+  return keyring;
+}
+
+async function getActiveKey(): Promise<EncryptionKey | null> {
+  const [active] = await getKeyring();
+  if (active) return active;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SECRETS_ENCRYPTION_KEYS is not set");
+  }
+  if (!warnedMissingKeys) {
+    warnedMissingKeys = true;
+    console.warn(
+      "[Secrets] SECRETS_ENCRYPTION_KEYS is not set, storing secrets in plaintext",
+    );
+  }
+  return null;
+}
+
+async function getKey(id: string) {
+  const key = (await getKeyring()).find((k) => k.id === id);
+  if (!key) {
+    throw new Error(`Encryption key "${id}" is not in SECRETS_ENCRYPTION_KEYS`);
+  }
+  return key.key;
+}
+
+function parse(stored: string) {
+  const [keyId, wrapIv, wrappedKey, iv, ciphertext] = stored
+    .slice(PREFIX.length)
+    .split(":");
+  if (!keyId || !wrapIv || !wrappedKey || !iv || !ciphertext) {
+    throw new Error("Malformed encrypted secret");
+  }
+  return { keyId, wrapIv, wrappedKey, iv, ciphertext };
+}
+
+async function wrapDataKey(dataKey: AesKey, active: EncryptionKey) {
+  const wrapIv = randomBytes(12);
+  const wrappedKey = await crypto.subtle.wrapKey("raw", dataKey, active.key, {
+    name: "AES-GCM",
+    iv: wrapIv,
+  });
+  return `${active.id}:${toBase64Url(wrapIv)}:${toBase64Url(wrappedKey)}`;
+}
+
+async function unwrapDataKey(parts: ReturnType<typeof parse>) {
+  return crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(parts.wrappedKey),
+    await getKey(parts.keyId),
+    { name: "AES-GCM", iv: fromBase64(parts.wrapIv) },
+    { name: "AES-GCM" },
+    true,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export function isEncryptedSecret(value: string) {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a secret for storage. Null stays null.
+ */
+export async function encryptSecret(value: string): Promise<string>;
+export async function encryptSecret(value: null): Promise<null>;
+export async function encryptSecret(
+  value: string | null,
+): Promise<string | null>;
+export async function encryptSecret(value: string | null) {
+  if (value === null) return null;
+
+  const active = await getActiveKey();
+  if (!active) return value;
+
+  const dataKey = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"],
+  );
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    dataKey,
+    new TextEncoder().encode(value),
+  );
+
+  return `${PREFIX}${await wrapDataKey(dataKey, active)}:${toBase64Url(iv)}:${toBase64Url(ciphertext)}`;
+}
+
+/**
+ * Decrypt a stored secret. Legacy plaintext values are returned unchanged.
+ */
+export async function decryptSecret(value: string): Promise<string>;
+export async function decryptSecret(value: null): Promise<null>;
+export async function decryptSecret(
+  value: string | null,
+): Promise<string | null>;
+export async function decryptSecret(value: string | null) {
+  if (value === null || !isEncryptedSecret(value)) return value;
+
+  const parts = parse(value);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(parts.iv) },
+    await unwrapDataKey(parts),
+    fromBase64(parts.ciphertext),
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Bring a stored secret up to date: encrypt legacy plaintext, and re-wrap the
+ * data key of values encrypted under an older key. Returns null when the value
+ * is already current (or there is no key to encrypt with).
+ */
+export async function reencryptSecret(value: string): Promise<string | null> {
+  const active = await getActiveKey();
+  if (!active) return null;
+
+  if (!isEncryptedSecret(value)) {
+    return encryptSecret(value);
+  }
+
+  const parts = parse(value);
+  if (parts.keyId === active.id) return null;
+
+  const dataKey = await unwrapDataKey(parts);
+  return `${PREFIX}${await wrapDataKey(dataKey, active)}:${parts.iv}:${parts.ciphertext}`;
+}
@@ -0,0 +1,267 @@
+/**
+ * Stats sync
+ *
+ * Collects view/like/comment/share snapshots for every tracked clip of a
+ * TikTok account. Accounts with a usable OAuth token are read through the
+ * Display API, walking the whole video list and querying any tracked video the
+ * list didn't reach by ID. Everything else falls back to the Apify profile
+ * scraper. Each sync is recorded as a `stats_sync_run`.
+ */
+import type { Database } from "@everylab/db/client";
+import type {
+  statsSyncSourceEnum,
+  statsSyncTriggerEnum,
+} from "@everylab/db/schema";
+import { and, eq, isNotNull } from "@everylab/db";
+import {
+  clip,
+  clipStats,
+  statsSyncRun,
+  tiktokAccount,
+} from "@everylab/db/schema";
+import { isTikTokConfigured } from "@everylab/tiktok";
+
+import { scrapeTikTokProfileVideosViaApify } from "./apify-tiktok-profile-scraper";
+import { getTikTokAccessToken, getTikTokClient } from "./tiktok-oauth";
+
+export type StatsSyncSource = (typeof statsSyncSourceEnum.enumValues)[number];
+export type StatsSyncTrigger = (typeof statsSyncTriggerEnum.enumValues)[number];
+export type StatsSyncRun = typeof statsSyncRun.$inferSelect;
+
+type TikTokAccount = typeof tiktokAccount.$inferSelect;
+
+interface VideoStats {
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+interface CollectedStats {
+  stats: Map<string, VideoStats>;
+  pagesFetched: number;
+  videosFetched: number;
+}
+
+// The video list returns at most 20 videos per page
+const VIDEO_PAGE_SIZE = 20;
+
+// Stop walking huge back catalogues; tracked videos past this are queried by ID
+const MAX_VIDEO_PAGES = 50;
+
+// The video query endpoint accepts at most 20 IDs
+const QUERY_BATCH_SIZE = 20;
+
+// Apify returns the latest videos first; tracked clips are usually recent
+const APIFY_RESULTS = 200;
+
+/**
+ * Where stats for an account would come from right now, or null if neither
+ * OAuth nor Apify is available
+ */
+export function pickStatsSyncSource(
+  account: Pick<TikTokAccount, "accessToken" | "needsReconnect">,
+): StatsSyncSource | null {
+  if (account.accessToken && !account.needsReconnect && isTikTokConfigured()) {
+    return "oauth";
+  }
+  if (process.env.APIFY_TOKEN) {
+    return "apify";
+  }
+  return null;
+}
+
+async function collectOAuthStats(
+  db: Database,
+  account: TikTokAccount,
+  trackedVideoIds: string[],
+): Promise<CollectedStats> {
+  const client = getTikTokClient();
+  const accessToken = await getTikTokAccessToken(db, account);
+
+  const stats = new Map<string, VideoStats>();
+  let pagesFetched = 0;
+  let videosFetched = 0;
+  let cursor: number | undefined;
+
+  while (pagesFetched < MAX_VIDEO_PAGES) {
+    const page = await client.getVideoList(accessToken, {
+      cursor,
+      maxCount: VIDEO_PAGE_SIZE,
+    });
+    pagesFetched++;
+    videosFetched += page.videos.length;
+
+    for (const video of page.videos) {
+      stats.set(video.id, {
+        views: video.view_count ?? 0,
+        likes: video.like_count ?? 0,
+        comments: video.comment_count ?? 0,
+        shares: video.share_count ?? 0,
+      });
+    }
+
+    if (!page.hasMore || page.videos.length === 0) break;
+    cursor = page.cursor;
+  }
+
+  const unseen = trackedVideoIds.filter((id) => !stats.has(id));
+  for (let i = 0; i < unseen.length; i += QUERY_BATCH_SIZE) {
+    const videos = await client.queryVideos(
+      accessToken,
+      unseen.slice(i, i + QUERY_BATCH_SIZE),
+    );
+    videosFetched += videos.length;
+
+    for (const video of videos) {
+      stats.set(video.id, {
+        views: video.view_count ?? 0,
+        likes: video.like_count ?? 0,
+        comments: video.comment_count ?? 0,
+        shares: video.share_count ?? 0,
+      });
+    }
+  }
+
+  return { stats, pagesFetched, videosFetched };
+}
+
+async function collectApifyStats(
+  account: TikTokAccount,
+): Promise<CollectedStats> {
+  const apifyToken = process.env.APIFY_TOKEN;
+  if (!apifyToken) {
+    throw new Error("APIFY_TOKEN is not set");
+  }
+
+  const items = await scrapeTikTokProfileVideosViaApify({
+    token: apifyToken,
+    username: account.tiktokUsername,
+    resultsPerPage: APIFY_RESULTS,
+  });
+
+  const stats = new Map<string, VideoStats>();
+  for (const item of items) {
+    if (!item.id) continue;
+    stats.set(item.id, {
+      views: item.playCount ?? item.stats?.playCount ?? 0,
+      likes: item.diggCount ?? item.stats?.diggCount ?? 0,
+      comments: item.commentCount ?? item.stats?.commentCount ?? 0,
+      shares: item.shareCount ?? item.stats?.shareCount ?? 0,
+    });
+  }
+
+  return { stats, pagesFetched: 1, videosFetched: items.length };
+}
+
+/**
+ * Sync stats for one account and record the run. Failures are recorded on the
+ * run rather than thrown, and the account's next scheduled sync is set either
+ * way so a broken account doesn't hold up the queue.
+ */
+export async function syncAccountStats(
+  db: Database,
+  accountId: string,
+  trigger: StatsSyncTrigger,
+): Promise<StatsSyncRun> {
+  const account = await db.query.tiktokAccount.findFirst({
+    where: eq(tiktokAccount.id, accountId),
+  });
+
+  if (!account) {
+    throw new Error("Account not found");
+  }
+
+  const source = pickStatsSyncSource(account);
+
+  const [run] = await db
+    .insert(statsSyncRun)
+    .values({ tiktokAccountId: account.id, source, trigger })
+    .returning();
+
+  if (!run) {
+    throw new Error("Failed to create stats sync run");
+  }
+
+  console.log(
+    `[Stats Sync] Syncing account ${account.id} via ${source ?? "nothing"} (${trigger})`,
+  );
+
+  let result: Partial<StatsSyncRun>;
+
+  try {
+    if (!source) {
+      throw new Error(
+        "Account has no usable TikTok token and APIFY_TOKEN is not set",
+      );
+    }
+
+    const trackedClips = await db.query.clip.findMany({
+      where: and(
+        eq(clip.tiktokAccountId, account.id),
+        isNotNull(clip.tiktokVideoId),
+      ),
+      columns: {
+        id: true,
+        tiktokVideoId: true,
+      },
+    });
+
+    const trackedVideoIds = trackedClips
+      .map((c) => c.tiktokVideoId)
+      .filter((id): id is string => !!id);
+
+    const collected =
+      source === "oauth"
+        ? await collectOAuthStats(db, account, trackedVideoIds)
+        : await collectApifyStats(account);
+
+    const snapshots = trackedClips.flatMap((c) => {
+      const stats = c.tiktokVideoId
+        ? collected.stats.get(c.tiktokVideoId)
+        : undefined;
+      return stats ? [{ clipId: c.id, ...stats }] : [];
+    });
+
+    if (snapshots.length > 0) {
+      await db.insert(clipStats).values(snapshots);
+    }
+
+    result = {
+      status: "succeeded",
+      pagesFetched: collected.pagesFetched,
+      videosFetched: collected.videosFetched,
+      clipsUpdated: snapshots.length,
+      clipsMissing: trackedClips.length - snapshots.length,
+    };
+
+    console.log(
+      `[Stats Sync] Account ${account.id}: ${snapshots.length}/${trackedClips.length} clips updated from ${collected.videosFetched} videos`,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Stats Sync] Account ${account.id} failed: ${message}`);
+    result = { status: "failed", error: message };
+  }
+
+  const now = new Date();
+
+  await db
+    .update(tiktokAccount)
+    .set({
+      lastStatsSyncAt: now,
+      nextStatsSyncAt:
+        account.statsSyncIntervalMinutes > 0
+          ? new Date(now.getTime() + account.statsSyncIntervalMinutes * 60_000)
+          : null,
+    })
+    .where(eq(tiktokAccount.id, account.id));
+
+  const [finished] = await db
+    .update(statsSyncRun)
+    .set({ ...result, finishedAt: now })
+    .where(eq(statsSyncRun.id, run.id))
+    .returning();
+
+  return finished ?? run;
+}
@@ -0,0 +1,341 @@
+/**
+ * TikTok OAuth
+ *
+ * One implementation of the authorization code + PKCE flow for both the admin
+ * and creator screens. The state and code verifier are stored server-side when
+ * the flow starts; the callback only hands back `code` and `state`, and the
+ * exchange step checks the state was issued to the same user for the same
+ * flow, hasn't expired and hasn't been used before.
+ *
+ * Also owns token refresh: accounts whose refresh fails with no usable access
+ * token left are flagged `needsReconnect` until someone connects them again.
+ */
+import type { Database } from "@everylab/db/client";
+import type { tiktokOAuthFlowEnum } from "@everylab/db/schema";
+import type { StoredToken } from "@everylab/tiktok";
+import { and, eq, isNull, lt } from "@everylab/db";
+import { tiktokAccount, tiktokOAuthAttempt } from "@everylab/db/schema";
+import {
+  createTikTokClient,
+  isTikTokConfigured,
+  tiktokEnv,
+} from "@everylab/tiktok";
+
+import { sameOrganization } from "./organizations";
+import { decryptSecret, encryptSecret } from "./secrets";
+import { emitWebhookEvent } from "./webhooks";
+
+export type TikTokOAuthFlow = (typeof tiktokOAuthFlowEnum.enumValues)[number];
+
+type TikTokAccount = typeof tiktokAccount.$inferSelect;
+
+// Long enough to log in to TikTok, short enough that a leaked state is useless
+const STATE_TTL_MINUTES = 10;
+
+export function getTikTokClient() {
+  if (!isTikTokConfigured()) {
+    throw new Error(
+      "TikTok API is not configured. Please set TIKTOK_CLIENT_KEY and TIKTOK_CLIENT_SECRET environment variables.",
+    );
+  }
+  return createTikTokClient({
+    clientKey: tiktokEnv.TIKTOK_CLIENT_KEY,
+    clientSecret: tiktokEnv.TIKTOK_CLIENT_SECRET,
+  });
+}
+
+/**
+ * Column values for a freshly issued token pair. Also clears any refresh
+ * failure, since the account is usable again.
+ */
+async function tokenColumns(token: StoredToken) {
+  return {
+    accessToken: await encryptSecret(token.accessToken),
+    refreshToken: await encryptSecret(token.refreshToken),
+    tokenExpiresAt: token.expiresAt,
+    refreshTokenExpiresAt: token.refreshExpiresAt,
+    tokenRefreshedAt: new Date(),
+    tokenRefreshError: null,
+    needsReconnect: false,
+  };
+}
+
+function generateState() {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=/g, "");
+}
+
+/**
+ * Start an authorization attempt and return the TikTok URL to redirect to
+ */
+export async function startTikTokAuthorization(
+  db: Database,
+  params: { userId: string; flow: TikTokOAuthFlow; redirectUri: string },
+) {
+  const client = getTikTokClient();
+  const state = generateState();
+
+  const { url: authUrl, codeVerifier } = await client.getAuthorizationUrl(
+    params.redirectUri,
+    state,
+  );
+
+  // Attempts that were never completed are useless once expired
+  await db
+    .delete(tiktokOAuthAttempt)
+    .where(lt(tiktokOAuthAttempt.expiresAt, new Date()));
+
+  await db.insert(tiktokOAuthAttempt).values({
+    state,
+    codeVerifier,
+    userId: params.userId,
+    flow: params.flow,
+    redirectUri: params.redirectUri,
+    expiresAt: new Date(Date.now() + STATE_TTL_MINUTES * 60 * 1000),
+  });
+
+  return { authUrl, state };
+}
+
+/**
+ * Exchange the callback code for tokens using the stored attempt, then save
+ * the account. New accounts join `organizationId`, and accounts that belong
+ * to another organization are refused. The attempt is consumed
+ * before anything else so a state can only ever be used once, even by
+ * concurrent requests.
+ */
+export async function completeTikTokAuthorization(
+  db: Database,
+  params: {
+    userId: string;
+    flow: TikTokOAuthFlow;
+    organizationId: string | null;
+    code: string;
+    state: string;
+  },
+) {
+  const [attempt] = await db
+    .update(tiktokOAuthAttempt)
+    .set({ consumedAt: new Date() })
+    .where(
+      and(
+        eq(tiktokOAuthAttempt.state, params.state),
+        isNull(tiktokOAuthAttempt.consumedAt),
+      ),
+    )
+    .returning();
+
+  if (!attempt) {
+    throw new Error("OAuth state is invalid or has already been used");
+  }
+
+  if (attempt.userId !== params.userId || attempt.flow !== params.flow) {
+    console.warn(
+      `[TikTok OAuth] State issued to user ${attempt.userId} (${attempt.flow}) was presented by user ${params.userId} (${params.flow})`,
+    );
+    throw new Error("OAuth state does not belong to this session");
+  }
+
+  if (attempt.expiresAt <= new Date()) {
+    throw new Error("OAuth attempt has expired, please connect again");
+  }
+
+  const client = getTikTokClient();
+
+  const tokenData = await client.exchangeCodeForToken(
+    params.code,
+    attempt.redirectUri,
+    attempt.codeVerifier,
+  );
+
+  console.log("[TikTok OAuth] Token received, openId:", tokenData.openId);
+
+  const userInfo = await client.getUserInfo(tokenData.accessToken);
+
+  console.log("[TikTok OAuth] User info received:", userInfo.display_name);
+
+  const generatedUsername = userInfo.display_name
+    .replace(/\s+/g, "_")
+    .toLowerCase();
+
+  const connectedAccount = await db.query.tiktokAccount.findFirst({
+    where: eq(tiktokAccount.tiktokUserId, tokenData.openId),
+  });
+  if (
+    connectedAccount &&
+    connectedAccount.organizationId !== params.organizationId
+  ) {
+    console.warn(
+      `[TikTok OAuth] User ${params.userId} tried to connect account ${connectedAccount.id} from another organization`,
+    );
+    throw new Error("This TikTok account belongs to another organization");
+  }
+
+  // Match by OpenID, then a manual account with the same username in this
+  // organization (to handle manual -> oauth upgrade)
+  const existingAccount =
+    connectedAccount ??
+    (await db.query.tiktokAccount.findFirst({
+      where: and(
+        eq(tiktokAccount.tiktokUsername, generatedUsername),
+        isNull(tiktokAccount.tiktokUserId),
+        sameOrganization(params.organizationId, tiktokAccount.organizationId),
+      ),
+    }));
+
+  if (existingAccount) {
+    console.log(
+      "[TikTok OAuth] Updating existing account:",
+      existingAccount.id,
+    );
+
+    const [updatedAccount] = await db
+      .update(tiktokAccount)
+      .set({
+        tiktokUserId: tokenData.openId,
+        ...(await tokenColumns(tokenData)),
+        name: userInfo.display_name,
+        followerCount: userInfo.follower_count ?? 0,
+        isActive: true,
+        updatedAt: new Date(),
+      })
+      .where(eq(tiktokAccount.id, existingAccount.id))
+      .returning();
+
+    return { account: updatedAccount, isNew: false };
+  }
+
+  const usernameTaken = await db.query.tiktokAccount.findFirst({
+    where: eq(tiktokAccount.tiktokUsername, generatedUsername),
+    columns: { id: true },
+  });
+  if (usernameTaken) {
+    throw new Error(
+      `Another TikTok account already uses the username ${generatedUsername}`,
+    );
+  }
+
+  console.log(
+    "[TikTok OAuth] Creating new account for:",
+    userInfo.display_name,
+  );
+
+  const [newAccount] = await db
+    .insert(tiktokAccount)
+    .values({
+      name: userInfo.display_name,
+      tiktokUsername: generatedUsername,
+      tiktokUserId: tokenData.openId,
+      ...(await tokenColumns(tokenData)),
+      followerCount: userInfo.follower_count ?? 0,
+      isActive: true,
+      organizationId: params.organizationId,
+    })
+    .returning();
+
+  console.log("[TikTok OAuth] New account created:", newAccount?.id);
+
+  return { account: newAccount, isNew: true };
+}
+
+/**
+ * Refresh an account's tokens and return the new access token. If refreshing
+ * fails and the current access token has expired (or the refresh token has),
+ * the account is flagged as needing reconnect and an `account.needs_reconnect`
+ * webhook is sent. The original error is rethrown either way.
+ */
+export async function refreshTikTokAccountToken(
+  db: Database,
+  account: TikTokAccount,
+): Promise<string> {
+  const client = getTikTokClient();
+  const now = new Date();
+
+  try {
+    if (!account.refreshToken) {
+      throw new Error("Account has no refresh token");
+    }
+    if (
+      account.refreshTokenExpiresAt &&
+      client.isRefreshTokenExpired(account.refreshTokenExpiresAt)
+    ) {
+      throw new Error("Refresh token has expired");
+    }
+
+    const token = await client.refreshAccessToken(
+      await decryptSecret(account.refreshToken),
+    );
+
+    await db
+      .update(tiktokAccount)
+      .set({ ...(await tokenColumns(token)), updatedAt: now })
+      .where(eq(tiktokAccount.id, account.id));
+
+    console.log("[TikTok OAuth] Token refreshed for account:", account.id);
+
+    return token.accessToken;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const needsReconnect =
+      !account.tokenExpiresAt ||
+      account.tokenExpiresAt <= now ||
+      (!!account.refreshTokenExpiresAt && account.refreshTokenExpiresAt <= now);
+
+    await db
+      .update(tiktokAccount)
+      .set({
+        tokenRefreshError: message,
+        needsReconnect: account.needsReconnect || needsReconnect,
+        updatedAt: now,
+      })
+      .where(eq(tiktokAccount.id, account.id));
+
+    console.error(
+      `[TikTok OAuth] Failed to refresh token for account ${account.id}: ${message}`,
+    );
+
+    if (needsReconnect && !account.needsReconnect) {
+      await emitWebhookEvent(
+        db,
+        "account.needs_reconnect",
+        {
+          account: {
+            id: account.id,
+            name: account.name,
+            tiktokUsername: account.tiktokUsername,
+            tokenExpiresAt: account.tokenExpiresAt,
+            refreshTokenExpiresAt: account.refreshTokenExpiresAt,
+          },
+          error: message,
+        },
+        account.organizationId,
+      );
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Get a usable access token for an account, refreshing it first when it has
+ * expired or is about to
+ */
+export async function getTikTokAccessToken(
+  db: Database,
+  account: TikTokAccount,
+): Promise<string> {
+  if (!account.accessToken) {
+    throw new Error("Account is not connected to TikTok");
+  }
+
+  const client = getTikTokClient();
+  if (account.tokenExpiresAt && client.isTokenExpired(account.tokenExpiresAt)) {
+    return refreshTikTokAccountToken(db, account);
+  }
+
+  return decryptSecret(account.accessToken);
+}
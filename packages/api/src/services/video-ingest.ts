@@ -0,0 +1,120 @@
+/**
+ * Video ingestion
+ *
+ * Runs when a creator attaches an uploaded video to a clip. Checks the video
+ * is one of their uploads in our bucket, probes it (see services/video-probe)
+ * and refuses videos TikTok won't take. Videos refused after probing are
+ * deleted so they don't linger in the bucket.
+ */
+import type { ClipVideoMetadata } from "@everylab/db/schema";
+import type { Storage } from "@everylab/storage";
+
+import { probeVideo } from "./video-probe";
+
+// TikTok takes videos up to 4GB
+export const MAX_VIDEO_SIZE_BYTES = 4 * 1024 * 1024 * 1024;
+
+// TikTok's limits for uploaded videos
+const MIN_DURATION_SECONDS = 3;
+const MAX_DURATION_SECONDS = 10 * 60;
+const MIN_SHORT_SIDE = 360;
+// Width / height, from 9:16 portrait to 16:9 landscape, with a little slack
+// for encoders that round odd dimensions
+const MIN_ASPECT_RATIO = 9 / 16 - 0.01;
+const MAX_ASPECT_RATIO = 16 / 9 + 0.01;
+
+// H.264 and H.265 sample entries
+const SUPPORTED_VIDEO_CODECS = ["avc1", "avc3", "hvc1", "hev1"];
+
+/**
+ * Why TikTok would refuse a video, empty if it wouldn't
+ */
+export function getVideoProblems(metadata: ClipVideoMetadata): string[] {
+  const problems: string[] = [];
+
+  if (metadata.sizeBytes > MAX_VIDEO_SIZE_BYTES) {
+    problems.push(
+      `Videos must be under ${MAX_VIDEO_SIZE_BYTES / 1024 / 1024 / 1024}GB`,
+    );
+  }
+
+  if (metadata.durationSeconds < MIN_DURATION_SECONDS) {
+    problems.push(
+      `Videos must be at least ${MIN_DURATION_SECONDS} seconds long`,
+    );
+  } else if (metadata.durationSeconds > MAX_DURATION_SECONDS) {
+    problems.push(
+      `Videos can be at most ${MAX_DURATION_SECONDS / 60} minutes long`,
+    );
+  }
+
+  if (!SUPPORTED_VIDEO_CODECS.includes(metadata.videoCodec)) {
+    problems.push(
+      `Videos must be encoded with H.264 or H.265 (this one is ${metadata.videoCodec})`,
+    );
+  }
+
+  if (!metadata.audioCodec) {
+    problems.push("Videos need an audio track");
+  }
+
+  if (Math.min(metadata.width, metadata.height) < MIN_SHORT_SIDE) {
+    problems.push(`Videos must be at least ${MIN_SHORT_SIDE}p`);
+  }
+
+  const aspectRatio =
+    metadata.height > 0 ? metadata.width / metadata.height : 0;
+  if (aspectRatio < MIN_ASPECT_RATIO || aspectRatio > MAX_ASPECT_RATIO) {
+    problems.push(
+      `Videos must be between 9:16 and 16:9 (this one is ${metadata.width}×${metadata.height})`,
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Verify and probe a video a creator uploaded, returning its metadata.
+ * Throws if it can't be read, or with every reason TikTok would refuse it.
+ */
+export async function ingestUploadedVideo(
+  storage: Storage,
+  params: { videoUrl: string; userId: string },
+): Promise<ClipVideoMetadata> {
+  const key = storage.getKeyFromPublicUrl(params.videoUrl);
+  if (!key?.startsWith(`clips/${params.userId}/`)) {
+    throw new Error("Upload the video before adding it to a clip");
+  }
+
+  const object = await storage.head(key);
+  if (!object) {
+    throw new Error("The upload didn't finish. Upload the video again.");
+  }
+
+  let metadata: ClipVideoMetadata;
+  try {
+    metadata = await probeVideo(
+      (start, end) => storage.getRange(key, start, end),
+      object.size,
+    );
+  } catch (error) {
+    console.warn(`[VideoIngest] Could not probe ${key}:`, error);
+    throw new Error("Couldn't read this video. Upload an MP4 or MOV file.");
+  }
+
+  const problems = getVideoProblems(metadata);
+  if (problems.length > 0) {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`[VideoIngest] Failed to delete refused ${key}:`, error);
+    }
+    throw new Error(problems.join(". "));
+  }
+
+  console.log(
+    `[VideoIngest] ${key}: ${metadata.width}×${metadata.height} ${metadata.videoCodec}/${metadata.audioCodec}, ${metadata.durationSeconds.toFixed(1)}s`,
+  );
+
+  return metadata;
+}
@@ -0,0 +1,216 @@
+/**
+ * MP4/MOV probing
+ *
+ * Reads container, codecs, display size and duration from an ISO base media
+ * file (MP4 or QuickTime) without downloading it: only the box headers and
+ * the `moov` box are fetched, through `readRange`. Other containers aren't
+ * supported.
+ */
+import type { ClipVideoMetadata } from "@everylab/db/schema";
+
+/**
+ * Read bytes `start` to `end` (inclusive) of the file
+ */
+export type ReadRange = (start: number, end: number) => Promise<Uint8Array>;
+
+interface Box {
+  type: string;
+  // Offsets of the box's payload, after its header
+  start: number;
+  end: number;
+}
+
+interface TrackInfo {
+  handler: string | null;
+  codec: string | null;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+// Headers of the top-level boxes are read this many bytes at a time
+const HEADER_READ_SIZE = 16;
+
+// moov boxes hold sample tables; even long videos stay well under this
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+// Boxes that only hold other boxes, on the way down to the ones we read
+const CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "stbl"]);
+
+function fourcc(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+/**
+ * Box header at `offset`: its type and where its payload starts and ends.
+ * `limit` is where the enclosing box (or the file) ends.
+ */
+function readBoxHeader(
+  view: DataView,
+  bytes: Uint8Array,
+  offset: number,
+  limit: number,
+  base = 0,
+): Box | null {
+  if (offset + 8 > view.byteLength) return null;
+
+  let size = view.getUint32(offset);
+  const type = fourcc(bytes, offset + 4);
+  let headerSize = 8;
+
+  if (size === 1) {
+    if (offset + 16 > view.byteLength) return null;
+    size = Number(view.getBigUint64(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    // Box runs to the end of its parent
+    size = limit - (base + offset);
+  }
+
+  if (size < headerSize) {
+    throw new Error(`Malformed ${type} box`);
+  }
+
+  return {
+    type,
+    start: base + offset + headerSize,
+    end: base + offset + size,
+  };
+}
+
+/**
+ * Offset and size of the top-level moov box and the file's major brand,
+ * walking the top-level box headers one small read at a time
+ */
+async function findMoov(readRange: ReadRange, fileSize: number) {
+  let offset = 0;
+  let majorBrand: string | null = null;
+
+  while (offset + 8 <= fileSize) {
+    const bytes = await readRange(
+      offset,
+      Math.min(offset + HEADER_READ_SIZE, fileSize) - 1,
+    );
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    const box = readBoxHeader(view, bytes, 0, fileSize, offset);
+    if (!box) break;
+
+    if (offset === 0 && box.type !== "ftyp") {
+      throw new Error("Not an MP4 or MOV file");
+    }
+
+    if (box.type === "ftyp") {
+      const brand = await readRange(box.start, box.start + 3);
+      majorBrand = fourcc(brand, 0);
+    }
+
+    if (box.type === "moov") {
+      return { start: box.start, end: Math.min(box.end, fileSize), majorBrand };
+    }
+
+    offset = box.end;
+  }
+
+  throw new Error("The video has no moov box");
+}
+
+function parseTkhd(view: DataView, box: Box, track: TrackInfo) {
+  const version = view.getUint8(box.start);
+  // Skip times, track ID and duration to reach the matrix
+  const matrixOffset = box.start + (version === 1 ? 52 : 40);
+  if (matrixOffset + 44 > box.end) return;
+
+  // 16.16 fixed point; the first two entries give the rotation
+  const a = view.getInt32(matrixOffset) / 65536;
+  const b = view.getInt32(matrixOffset + 4) / 65536;
+  track.rotation = (Math.round((Math.atan2(b, a) * 180) / Math.PI) + 360) % 360;
+
+  track.width = view.getUint32(matrixOffset + 36) / 65536;
+  track.height = view.getUint32(matrixOffset + 40) / 65536;
+}
+
+function parseBoxes(
+  view: DataView,
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  state: { timescale: number; duration: number; tracks: TrackInfo[] },
+  track: TrackInfo | null,
+) {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const box = readBoxHeader(view, bytes, offset, end);
+    if (!box) break;
+    const boxEnd = Math.min(box.end, end);
+
+    if (box.type === "trak") {
+      const newTrack: TrackInfo = {
+        handler: null,
+        codec: null,
+        width: 0,
+        height: 0,
+        rotation: 0,
+      };
+      state.tracks.push(newTrack);
+      parseBoxes(view, bytes, box.start, boxEnd, state, newTrack);
+    } else if (CONTAINER_BOXES.has(box.type)) {
+      parseBoxes(view, bytes, box.start, boxEnd, state, track);
+    } else if (box.type === "mvhd") {
+      const version = view.getUint8(box.start);
+      if (version === 1) {
+        state.timescale = view.getUint32(box.start + 20);
+        state.duration = Number(view.getBigUint64(box.start + 24));
+      } else {
+        state.timescale = view.getUint32(box.start + 12);
+        state.duration = view.getUint32(box.start + 16);
+      }
+    } else if (track && box.type === "tkhd") {
+      parseTkhd(view, box, track);
+    } else if (track && box.type === "hdlr" && box.start + 12 <= boxEnd) {
+      track.handler = fourcc(bytes, box.start + 8);
+    } else if (track && box.type === "stsd" && box.start + 16 <= boxEnd) {
+      // First sample entry: size, then its format
+      track.codec = fourcc(bytes, box.start + 12).trim();
+    }
+
+    offset = box.end;
+  }
+}
+
+/**
+ * Read an MP4 or MOV file's metadata. Throws if it isn't one, or has no
+ * video track.
+ */
+export async function probeVideo(
+  readRange: ReadRange,
+  fileSize: number,
+): Promise<ClipVideoMetadata> {
+  const moov = await findMoov(readRange, fileSize);
+  if (moov.end - moov.start > MAX_MOOV_SIZE) {
+    throw new Error("The video's index is too large to read");
+  }
+
+  const bytes = await readRange(moov.start, moov.end - 1);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const state = { timescale: 0, duration: 0, tracks: [] as TrackInfo[] };
+  parseBoxes(view, bytes, 0, bytes.length, state, null);
+
+  const video = state.tracks.find((t) => t.handler === "vide");
+  const audio = state.tracks.find((t) => t.handler === "soun");
+  if (!video?.codec) {
+    throw new Error("The file has no video track");
+  }
+
+  const rotated = video.rotation === 90 || video.rotation === 270;
+
+  return {
+    container: moov.majorBrand === "qt  " ? "mov" : "mp4",
+    videoCodec: video.codec,
+    audioCodec: audio?.codec ?? null,
+    width: Math.round(rotated ? video.height : video.width),
+    height: Math.round(rotated ? video.width : video.height),
+    durationSeconds: state.timescale > 0 ? state.duration / state.timescale : 0,
+    sizeBytes: fileSize,
+  };
+}
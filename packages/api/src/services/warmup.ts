@@ -0,0 +1,341 @@
+/**
+ * Warmup programs
+ *
+ * A program is a template of day-by-day steps; enrolling a cloud phone gives
+ * it a start time for day 1. Each day's GeeLark tasks are created shortly
+ * before the day starts (by the warmup job), one step after another, and are
+ * tagged with the enrollment so progress can be read back from `geelark_task`.
+ */
+import type { Database } from "@everylab/db/client";
+import type { warmupActionEnum, warmupProgramStep } from "@everylab/db/schema";
+import type { WarmupAction as GeeLarkWarmupAction } from "@everylab/geelark";
+import { and, eq, inArray } from "@everylab/db";
+import { geelarkTask, warmupEnrollment } from "@everylab/db/schema";
+
+import { getGeeLarkClient } from "./geelark-tasks";
+
+export type WarmupAction = (typeof warmupActionEnum.enumValues)[number];
+
+type WarmupStep = typeof warmupProgramStep.$inferSelect;
+
+// Days are scheduled this far ahead of their start
+const LOOKAHEAD_HOURS = 12;
+
+// Pause between consecutive steps of a day
+const STEP_GAP_MINUTES = 10;
+
+// Star and comment tasks have no duration of their own; leave this much room
+const RPA_STEP_MINUTES = 15;
+
+// GeeLark needs a little lead time for tasks scheduled "now"
+const MIN_LEAD_SECONDS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Actions that map to GeeLark's own warmup task; the rest are RPA tasks
+export const geelarkWarmupActions: Partial<
+  Record<WarmupAction, GeeLarkWarmupAction>
+> = {
+  browse_video: "browse video",
+  search_video: "search video",
+  search_profile: "search profile",
+};
+
+/**
+ * Number of days in a program (its highest step day)
+ */
+export function warmupProgramDays(steps: Pick<WarmupStep, "day">[]) {
+  return steps.reduce((max, step) => Math.max(max, step.day), 0);
+}
+
+export function warmupDayStart(
+  enrollment: { startsAt: Date },
+  day: number,
+): Date {
+  return new Date(enrollment.startsAt.getTime() + (day - 1) * DAY_MS);
+}
+
+/**
+ * Day the enrollment is on (0 before it starts), frozen while paused
+ */
+export function warmupCurrentDay(
+  enrollment: { startsAt: Date; pausedAt: Date | null },
+  totalDays: number,
+) {
+  const now = enrollment.pausedAt?.getTime() ?? Date.now();
+  const elapsed = now - enrollment.startsAt.getTime();
+  if (elapsed < 0) return 0;
+  return Math.min(Math.floor(elapsed / DAY_MS) + 1, totalDays);
+}
+
+function stepMinutes(step: WarmupStep) {
+  return geelarkWarmupActions[step.action]
+    ? step.durationMinutes
+    : RPA_STEP_MINUTES;
+}
+
+async function createStepTask(
+  db: Database,
+  params: {
+    enrollmentId: string;
+    cloudPhoneId: string;
+    serialName: string | null;
+    programName: string;
+    day: number;
+    step: WarmupStep;
+    scheduleAt: Date;
+  },
+) {
+  const geelark = getGeeLarkClient();
+  const { step } = params;
+  const planName = `Warmup: ${params.programName} · Day ${params.day}`;
+  const scheduleAt = Math.floor(params.scheduleAt.getTime() / 1000);
+
+  let taskId: string | undefined;
+  let taskType: number;
+
+  const warmupAction = geelarkWarmupActions[step.action];
+  if (warmupAction) {
+    const result = await geelark.createWarmupTask({
+      envId: params.cloudPhoneId,
+      scheduleAt,
+      action: warmupAction,
+      duration: step.durationMinutes,
+      keywords: step.keywords,
+      planName,
+    });
+    taskId = result.taskIds[0];
+    taskType = 2;
+  } else if (step.action === "random_star") {
+    const result = await geelark.createTikTokRandomStarTask({
+      id: params.cloudPhoneId,
+      scheduleAt,
+      name: planName,
+    });
+    taskId = result.taskId;
+    taskType = 42;
+  } else {
+    const result = await geelark.createTikTokRandomCommentTask({
+      id: params.cloudPhoneId,
+      scheduleAt,
+      name: planName,
+      useAi: step.useAi ? 1 : 2,
+      comment: step.useAi ? undefined : (step.comment ?? ""),
+    });
+    taskId = result.taskId;
+    taskType = 42;
+  }
+
+  if (!taskId) {
+    throw new Error("GeeLark returned no taskId");
+  }
+
+  await db.insert(geelarkTask).values({
+    id: taskId,
+    planName,
+    taskType,
+    cloudPhoneId: params.cloudPhoneId,
+    serialName: params.serialName,
+    scheduleAt: new Date(scheduleAt * 1000),
+    status: "waiting",
+    warmupEnrollmentId: params.enrollmentId,
+    warmupDay: params.day,
+    warmupStep: step.position,
+    lastSyncedAt: new Date(),
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Create GeeLark tasks for every unscheduled day of an active enrollment that
+ * starts within the lookahead window. Steps that already have a task are
+ * skipped, so a day that failed halfway through is safe to retry. Failures are
+ * recorded on the enrollment as `lastError` rather than thrown.
+ */
+export async function scheduleWarmupEnrollment(
+  db: Database,
+  enrollmentId: string,
+) {
+  const enrollment = await db.query.warmupEnrollment.findFirst({
+    where: eq(warmupEnrollment.id, enrollmentId),
+    with: {
+      program: {
+        with: {
+          steps: true,
+        },
+      },
+      cloudPhone: {
+        columns: { serialName: true },
+      },
+    },
+  });
+
+  if (enrollment?.status !== "active") {
+    return { daysScheduled: 0, tasksCreated: 0 };
+  }
+
+  const { program } = enrollment;
+  const totalDays = warmupProgramDays(program.steps);
+  const now = Date.now();
+  const horizon = now + LOOKAHEAD_HOURS * 60 * 60 * 1000;
+
+  let day = enrollment.scheduledThroughDay + 1;
+  let daysScheduled = 0;
+  let tasksCreated = 0;
+
+  try {
+    while (
+      day <= totalDays &&
+      warmupDayStart(enrollment, day).getTime() <= horizon
+    ) {
+      const steps = program.steps
+        .filter((s) => s.day === day)
+        .sort((a, b) => a.position - b.position);
+
+      const existing = await db.query.geelarkTask.findMany({
+        where: and(
+          eq(geelarkTask.warmupEnrollmentId, enrollment.id),
+          eq(geelarkTask.warmupDay, day),
+        ),
+        columns: { warmupStep: true },
+      });
+      const scheduledSteps = new Set(existing.map((t) => t.warmupStep));
+
+      // A day that should already have started (late enrollment, resume) runs from now
+      let at = Math.max(
+        warmupDayStart(enrollment, day).getTime(),
+        now + MIN_LEAD_SECONDS * 1000,
+      );
+
+      for (const step of steps) {
+        if (!scheduledSteps.has(step.position)) {
+          await createStepTask(db, {
+            enrollmentId: enrollment.id,
+            cloudPhoneId: enrollment.cloudPhoneId,
+            serialName: enrollment.cloudPhone.serialName,
+            programName: program.name,
+            day,
+            step,
+            scheduleAt: new Date(at),
+          });
+          tasksCreated++;
+        }
+        at += (stepMinutes(step) + STEP_GAP_MINUTES) * 60 * 1000;
+      }
+
+      await db
+        .update(warmupEnrollment)
+        .set({
+          scheduledThroughDay: day,
+          lastError: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(warmupEnrollment.id, enrollment.id));
+
+      daysScheduled++;
+      day++;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(
+      `[Warmup] Failed to schedule day ${day} for enrollment ${enrollment.id}: ${message}`,
+    );
+    await db
+      .update(warmupEnrollment)
+      .set({ lastError: message, updatedAt: new Date() })
+      .where(eq(warmupEnrollment.id, enrollment.id));
+  }
+
+  return { daysScheduled, tasksCreated };
+}
+
+/**
+ * Mark active enrollments complete once every day has been scheduled and none
+ * of their tasks are still waiting or running
+ */
+export async function completeFinishedWarmups(db: Database) {
+  const active = await db.query.warmupEnrollment.findMany({
+    where: eq(warmupEnrollment.status, "active"),
+    columns: { id: true, scheduledThroughDay: true },
+    with: {
+      program: {
+        columns: {},
+        with: {
+          steps: { columns: { day: true } },
+        },
+      },
+    },
+  });
+
+  let completed = 0;
+
+  for (const enrollment of active) {
+    if (
+      enrollment.scheduledThroughDay <
+      warmupProgramDays(enrollment.program.steps)
+    ) {
+      continue;
+    }
+
+    const pending = await db.query.geelarkTask.findFirst({
+      where: and(
+        eq(geelarkTask.warmupEnrollmentId, enrollment.id),
+        inArray(geelarkTask.status, ["waiting", "in_progress"]),
+      ),
+      columns: { id: true },
+    });
+    if (pending) continue;
+
+    await db
+      .update(warmupEnrollment)
+      .set({
+        status: "completed",
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(warmupEnrollment.id, enrollment.id));
+    completed++;
+  }
+
+  return completed;
+}
+
+/**
+ * Stop an enrollment for good and cancel its tasks that haven't started yet
+ */
+export async function cancelWarmupEnrollment(
+  db: Database,
+  enrollmentId: string,
+) {
+  const waiting = await db.query.geelarkTask.findMany({
+    where: and(
+      eq(geelarkTask.warmupEnrollmentId, enrollmentId),
+      eq(geelarkTask.status, "waiting"),
+    ),
+    columns: { id: true },
+  });
+
+  let cancelledTasks = 0;
+
+  if (waiting.length > 0) {
+    const ids = waiting.map((t) => t.id);
+    const result = await getGeeLarkClient().cancelTasks(ids);
+    const failedIds = new Set(result.failDetails?.map((f) => f.id) ?? []);
+    const cancelledIds = ids.filter((id) => !failedIds.has(id));
+
+    if (cancelledIds.length > 0) {
+      await db
+        .update(geelarkTask)
+        .set({ status: "cancelled", lastSyncedAt: new Date() })
+        .where(inArray(geelarkTask.id, cancelledIds));
+    }
+    cancelledTasks = cancelledIds.length;
+  }
+
+  await db
+    .update(warmupEnrollment)
+    .set({ status: "cancelled", pausedAt: null, updatedAt: new Date() })
+    .where(eq(warmupEnrollment.id, enrollmentId));
+
+  return { cancelledTasks };
+}
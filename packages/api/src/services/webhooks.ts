@@ -0,0 +1,483 @@
+/**
+ * Outbound webhooks
+ *
+ * Events are queued as one delivery per subscribed endpoint and sent by the
+ * webhook delivery job, retrying with exponential backoff. Each request is
+ * signed with the endpoint's secret so receivers can verify it:
+ *
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Endpoints must be public https URLs. The response to each request is
+ * stored and shown to admins, so an endpoint on our own network would let
+ * them read internal services through us. Deliveries check the address they
+ * actually connect to, so a host that re-resolves to an internal address
+ * after being checked is still refused.
+ */
+import { lookup as dnsLookup } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { LookupFunction } from "node:net";
+import { Agent, fetch } from "undici";
+
+import type { Database } from "@everylab/db/client";
+import type { webhookEventEnum } from "@everylab/db/schema";
+import {
+  and,
+  arrayContains,
+  asc,
+  eq,
+  inArray,
+  isNull,
+  lte,
+  or,
+} from "@everylab/db";
+import { clip, webhookDelivery, webhookEndpoint } from "@everylab/db/schema";
+
+export type WebhookEvent = (typeof webhookEventEnum.enumValues)[number];
+
+export type WebhookDelivery = typeof webhookDelivery.$inferSelect;
+
+// Attempts before a delivery is marked failed (the last one is ~1h after the first)
+const MAX_ATTEMPTS = 8;
+
+// Delay before the first retry, doubled for each further retry
+const BACKOFF_SECONDS = 30;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// How long a claimed delivery is held back from other senders. Longer than a
+// delivery job run, so a delivery is only picked up again if its run died.
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+
+// Keep enough of the response to debug with, not whole error pages (bytes)
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+// Loopback, private, link-local (incl. cloud metadata), carrier-grade NAT,
+// reserved and multicast ranges. The IPv4 ranges also match IPv4-mapped IPv6
+// addresses.
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // Unspecified and loopback
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isPublicAddress(address: string, family: number) {
+  return !nonPublicAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * DNS lookup for webhook connections that fails on any non-public address,
+ * so the address checked is the one connected to
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, options, (err, address, family) => {
+    if (err) {
+      callback(err, address, family);
+      return;
+    }
+    const addresses =
+      typeof address === "string" ? [{ address, family }] : address;
+    if (addresses.some((a) => !isPublicAddress(a.address, a.family))) {
+      callback(
+        new Error("Webhook URLs must point to a public address"),
+        address,
+        family,
+      );
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+const webhookAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Host of a webhook URL, after checking it is https and, if the host is an
+ * IP address, that it is public
+ */
+function parseWebhookUrl(url: string) {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:") {
+    throw new Error("Webhook URLs must use https");
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  if (family && !isPublicAddress(host, family)) {
+    throw new Error("Webhook URLs must point to a public address");
+  }
+  return { host, isAddress: family !== 0 };
+}
+
+/**
+ * The first `maxBytes` of a response body, without reading the rest
+ */
+async function readResponseStart(
+  body: ReadableStream<Uint8Array> | null,
+  maxBytes: number,
+) {
+  if (!body) return "";
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, maxBytes));
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array) {
+  return Array.from(new Uint8Array(bytes), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Throws unless `url` is https and its host only resolves to public
+ * addresses. Checked when an endpoint is saved; deliveries check again as
+ * they connect, since DNS can change in between.
+ */
+export async function assertPublicWebhookUrl(url: string) {
+  const { host, isAddress } = parseWebhookUrl(url);
+  if (isAddress) return;
+
+  const addresses = await lookup(host, { all: true }).catch(() => {
+    throw new Error(`Couldn't resolve ${host}`);
+  });
+
+  for (const { address, family } of addresses) {
+    if (!isPublicAddress(address, family)) {
+      throw new Error("Webhook URLs must point to a public address");
+    }
+  }
+}
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret() {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return `whsec_${toHex(bytes)}`;
+}
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>` with the endpoint's secret, hex encoded
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  return toHex(signature);
+}
+
+/**
+ * Queue an event for every enabled endpoint subscribed to it. Endpoints of an
+ * organization only get events about that organization's clips, tasks and
+ * accounts; endpoints without one get every event. Never throws: a broken
+ * webhook setup must not fail the action that emitted the event.
+ */
+export async function emitWebhookEvent(
+  db: Database,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  organizationId: string | null = null,
+): Promise<number> {
+  try {
+    const endpoints = await db.query.webhookEndpoint.findMany({
+      where: and(
+        eq(webhookEndpoint.enabled, true),
+        arrayContains(webhookEndpoint.events, [event]),
+        organizationId
+          ? or(
+              isNull(webhookEndpoint.organizationId),
+              eq(webhookEndpoint.organizationId, organizationId),
+            )
+          : isNull(webhookEndpoint.organizationId),
+      ),
+      columns: { id: true },
+    });
+
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const eventId = crypto.randomUUID();
+    const now = new Date();
+    const payload = {
+      id: eventId,
+      type: event,
+      createdAt: now.toISOString(),
+      data,
+    };
+
+    await db.insert(webhookDelivery).values(
+      endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        eventId,
+        event,
+        payload,
+        nextAttemptAt: now,
+      })),
+    );
+
+    return endpoints.length;
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${event} event:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Emit a clip lifecycle event with the clip's current state
+ */
+export async function emitClipEvent(
+  db: Database,
+  event: WebhookEvent,
+  clipId: string,
+  extra: Record<string, unknown> = {},
+) {
+  const current = await db.query.clip.findFirst({
+    where: eq(clip.id, clipId),
+    columns: {
+      id: true,
+      userId: true,
+      title: true,
+      status: true,
+      tiktokAccountId: true,
+      scheduledAt: true,
+      publishedAt: true,
+      tiktokVideoId: true,
+      tiktokVideoUrl: true,
+      geelarkTaskId: true,
+      failCode: true,
+      failDesc: true,
+    },
+    with: {
+      user: { columns: { organizationId: true } },
+    },
+  });
+
+  if (!current) {
+    return 0;
+  }
+
+  const { user, ...clipData } = current;
+  return emitWebhookEvent(
+    db,
+    event,
+    { clip: clipData, ...extra },
+    user.organizationId,
+  );
+}
+
+/**
+ * Claim up to `limit` due deliveries, oldest first, by pushing their next
+ * attempt past the lease. A delivery job running at the same time skips
+ * them, so each is sent once.
+ */
+export async function claimDueWebhookDeliveries(db: Database, limit: number) {
+  const now = new Date();
+  const due = db
+    .select({ id: webhookDelivery.id })
+    .from(webhookDelivery)
+    .where(
+      and(
+        eq(webhookDelivery.status, "pending"),
+        lte(webhookDelivery.nextAttemptAt, now),
+      ),
+    )
+    .orderBy(asc(webhookDelivery.nextAttemptAt))
+    .limit(limit)
+    .for("update", { skipLocked: true });
+
+  return db
+    .update(webhookDelivery)
+    .set({ nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) })
+    .where(inArray(webhookDelivery.id, due))
+    .returning({ id: webhookDelivery.id });
+}
+
+function nextAttemptDelaySeconds(attempts: number) {
+  return BACKOFF_SECONDS * 2 ** (attempts - 1);
+}
+
+/**
+ * Send one delivery and record the result. Failed attempts are rescheduled
+ * until MAX_ATTEMPTS is reached.
+ */
+export async function attemptWebhookDelivery(
+  db: Database,
+  deliveryId: string,
+): Promise<WebhookDelivery> {
+  const delivery = await db.query.webhookDelivery.findFirst({
+    where: eq(webhookDelivery.id, deliveryId),
+    with: {
+      endpoint: true,
+    },
+  });
+
+  if (!delivery) {
+    throw new Error("Webhook delivery not found");
+  }
+
+  const { endpoint } = delivery;
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  if (endpoint.enabled) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(now.getTime() / 1000);
+
+    try {
+      parseWebhookUrl(endpoint.url);
+      const signature = await signWebhookPayload(
+        endpoint.secret,
+        timestamp,
+        body,
+      );
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Everylab-Webhooks/1.0",
+          "X-Webhook-Id": delivery.eventId,
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": delivery.id,
+          "X-Webhook-Signature": `t=${timestamp},v1=${signature}`,
+        },
+        body,
+        // A redirect could lead anywhere, including our own network
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        dispatcher: webhookAgent,
+      });
+
+      responseStatus = response.status;
+      responseBody = await readResponseStart(
+        response.body,
+        MAX_RESPONSE_BODY_LENGTH,
+      );
+    } catch (err) {
+      // fetch reports connection errors, including refused addresses, as
+      // its cause
+      const reason =
+        err instanceof Error && err.cause instanceof Error ? err.cause : err;
+      error = reason instanceof Error ? reason.message : String(reason);
+    }
+  } else {
+    error = "Endpoint is disabled";
+  }
+
+  const succeeded =
+    responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const giveUp = !endpoint.enabled || attempts >= MAX_ATTEMPTS;
+
+  const [updated] = await db
+    .update(webhookDelivery)
+    .set({
+      status: succeeded ? "succeeded" : giveUp ? "failed" : "pending",
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      responseBody,
+      error,
+      deliveredAt: succeeded ? now : null,
+      nextAttemptAt:
+        succeeded || giveUp
+          ? null
+          : new Date(now.getTime() + nextAttemptDelaySeconds(attempts) * 1000),
+    })
+    .where(eq(webhookDelivery.id, delivery.id))
+    .returning();
+
+  if (!succeeded) {
+    console.log(
+      `[Webhooks] Delivery ${delivery.id} (${delivery.event}) to ${endpoint.url} failed on attempt ${attempts}: ${error ?? `HTTP ${responseStatus}`}`,
+    );
+  }
+
+  if (!updated) {
+    throw new Error("Webhook delivery not found");
+  }
+  return updated;
+}
+
+/**
+ * Send a delivery's payload again as a new delivery, keeping the original in
+ * the log. Receivers see the same event ID and can deduplicate on it.
+ */
+export async function replayWebhookDelivery(
+  db: Database,
+  deliveryId: string,
+): Promise<WebhookDelivery> {
+  const original = await db.query.webhookDelivery.findFirst({
+    where: eq(webhookDelivery.id, deliveryId),
+  });
+
+  if (!original) {
+    throw new Error("Webhook delivery not found");
+  }
+
+  const [replay] = await db
+    .insert(webhookDelivery)
+    .values({
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      event: original.event,
+      payload: original.payload,
+      replayOfId: original.id,
+      // Sent right below; the lease keeps the delivery job off it meanwhile
+      nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+    })
+    .returning();
+
+  if (!replay) {
+    throw new Error("Failed to create webhook replay");
+  }
+
+  return attemptWebhookDelivery(db, replay.id);
+}
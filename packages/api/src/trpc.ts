@@ -13,6 +13,14 @@ import { z, ZodError } from "zod/v4";
 import type { Auth } from "@everylab/auth";
 import { db } from "@everylab/db/client";
 
+import type { Permission } from "./permissions";
+import { hasPermission } from "./permissions";
+import {
+  extractTargetIds,
+  recordAuditLog,
+  sanitizeAuditInput,
+} from "./services/audit-log";
+
 /**
  * 1. CONTEXT
  *
@@ -128,19 +136,130 @@ export const protectedProcedure = t.procedure
     });
   });
 
+/**
+ * The organization a staff request is limited to. Admins without an
+ * organization are super-admins who see every organization, or the one they
+ * switched to. Other staff without one are scoped to null, which procedures
+ * must refuse rather than treat as every organization.
+ */
+function organizationScope(session: { user: object; session: object }): {
+  isSuperAdmin: boolean;
+  organizationId: string | null;
+} {
+  const role = (session.user as { role?: string }).role;
+  const userOrganizationId =
+    (session.user as { organizationId?: string | null }).organizationId ?? null;
+  const activeOrganizationId =
+    (session.session as { activeOrganizationId?: string | null })
+      .activeOrganizationId ?? null;
+
+  const isSuperAdmin = role === "admin" && userOrganizationId === null;
+
+  return {
+    isSuperAdmin,
+    organizationId:
+      userOrganizationId ?? (isSuperAdmin ? activeOrganizationId : null),
+  };
+}
+
+/**
+ * Records every staff mutation, successful or not, in the audit log. Queries
+ * aren't recorded. See services/audit-log.
+ */
+const auditMiddleware = t.middleware(
+  async ({ ctx, type, path, getRawInput, next }) => {
+    if (type !== "mutation" || !ctx.session) {
+      return next();
+    }
+
+    const start = Date.now();
+    const result = await next();
+    const input = await getRawInput().catch(() => undefined);
+
+    await recordAuditLog(ctx.db, {
+      actorId: ctx.session.user.id,
+      actorRole: (ctx.session.user as { role?: string }).role ?? "creator",
+      organizationId: organizationScope(ctx.session).organizationId,
+      path,
+      input: sanitizeAuditInput(input),
+      targetIds: extractTargetIds(input, result.ok ? result.data : undefined),
+      status: result.ok ? "success" : "error",
+      error: result.ok ? null : result.error.message,
+      durationMs: Date.now() - start,
+      ipAddress: ctx.session.session.ipAddress ?? null,
+      userAgent: ctx.session.session.userAgent ?? null,
+    });
+
+    return result;
+  },
+);
+
 /**
  * Admin procedure
  *
- * Only accessible to users with the "admin" role.
+ * Only accessible to users with the "admin" role. Admins who belong to an
+ * organization only see that organization's data; admins without one are
+ * super-admins who see every organization, or the one they switched to.
+ * `ctx.organizationId` is the organization the request is limited to, or null
+ * for all of them. Mutations are recorded in the audit log.
+ */
+export const adminProcedure = protectedProcedure
+  .use(({ ctx, next }) => {
+    // Check if user has admin role
+    // Note: The role is stored in the user table, accessed via session
+    const userRole = (ctx.session.user as { role?: string }).role;
+    if (userRole !== "admin") {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Only admins can access this resource",
+      });
+    }
+
+    return next({ ctx: organizationScope(ctx.session) });
+  })
+  .use(auditMiddleware);
+
+/**
+ * Permission procedure
+ *
+ * Accessible to admins and to staff whose role grants `permission`, with the
+ * same organization scoping as `adminProcedure`. Staff other than admins must
+ * belong to an organization.
+ */
+export const permissionProcedure = (permission: Permission) =>
+  protectedProcedure
+    .use(({ ctx, next }) => {
+      const userRole = (ctx.session.user as { role?: string }).role;
+      if (!hasPermission(userRole, permission)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You don't have permission to access this resource",
+        });
+      }
+
+      const scope = organizationScope(ctx.session);
+      if (userRole !== "admin" && scope.organizationId === null) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Your account isn't assigned to an organization",
+        });
+      }
+
+      return next({ ctx: scope });
+    })
+    .use(auditMiddleware);
+
+/**
+ * Super-admin procedure
+ *
+ * Only accessible to admins who don't belong to an organization. Used for
+ * managing organizations and settings shared by all of them.
  */
-export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
-  // Check if user has admin role
-  // Note: The role is stored in the user table, accessed via session
-  const userRole = (ctx.session.user as { role?: string }).role;
-  if (userRole !== "admin") {
+export const superAdminProcedure = adminProcedure.use(({ ctx, next }) => {
+  if (!ctx.isSuperAdmin) {
     throw new TRPCError({
       code: "FORBIDDEN",
-      message: "Only admins can access this resource",
+      message: "Only super-admins can access this resource",
     });
   }
   return next({ ctx });
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: "node",
+    // Services import the GeeLark client, whose env is checked on import
+    env: {
+      GEELARK_APP_ID: "test",
+      GEELARK_API_KEY: "test",
+    },
+    include: ["src/**/*.test.ts"],
+    pool: "forks",
+    poolOptions: {
+      forks: {
+        singleFork: true,
+      },
+    },
+  },
+});
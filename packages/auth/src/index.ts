@@ -42,6 +42,21 @@ export function initAuth<
     emailAndPassword: {
       enabled: true,
     },
+    // Read by the API to limit admins to their organization
+    user: {
+      additionalFields: {
+        organizationId: { type: "string", required: false, input: false },
+      },
+    },
+    session: {
+      additionalFields: {
+        activeOrganizationId: {
+          type: "string",
+          required: false,
+          input: false,
+        },
+      },
+    },
     onAPIError: {
       onError(error, ctx) {
         console.error("BETTER AUTH API ERROR", error, ctx);
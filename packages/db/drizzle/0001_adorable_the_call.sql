@@ -0,0 +1,7 @@
+ALTER TABLE "clip" ADD COLUMN "fail_code" integer;--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "fail_desc" text;--> statement-breakpoint
+CREATE INDEX "clip_status_idx" ON "clip" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "clip_user_id_idx" ON "clip" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "clip_tiktok_account_id_idx" ON "clip" USING btree ("tiktok_account_id");--> statement-breakpoint
+CREATE INDEX "clip_created_at_idx" ON "clip" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "clip_status_created_at_idx" ON "clip" USING btree ("status","created_at");
\ No newline at end of file
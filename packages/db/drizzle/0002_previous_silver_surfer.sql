@@ -0,0 +1,15 @@
+CREATE TYPE "public"."clip_rejection_reason" AS ENUM('audio', 'branding', 'length', 'content', 'other');--> statement-breakpoint
+CREATE TYPE "public"."clip_review_kind" AS ENUM('rejection', 'comment');--> statement-breakpoint
+CREATE TABLE "clip_review" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clip_id" uuid NOT NULL,
+	"author_id" text NOT NULL,
+	"kind" "clip_review_kind" NOT NULL,
+	"reason" "clip_rejection_reason",
+	"body" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clip_review" ADD CONSTRAINT "clip_review_clip_id_clip_id_fk" FOREIGN KEY ("clip_id") REFERENCES "public"."clip"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clip_review" ADD CONSTRAINT "clip_review_author_id_user_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "clip_review_clip_id_idx" ON "clip_review" USING btree ("clip_id");
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TYPE "public"."clip_publish_attempt_method" AS ENUM('initial', 'retry', 'recreate', 'manual');--> statement-breakpoint
+CREATE TYPE "public"."geelark_retry_strategy" AS ENUM('retry', 'recreate');--> statement-breakpoint
+CREATE TABLE "clip_publish_attempt" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clip_id" uuid NOT NULL,
+	"attempt" integer NOT NULL,
+	"method" "clip_publish_attempt_method" NOT NULL,
+	"geelark_task_id" varchar(256) NOT NULL,
+	"schedule_at" timestamp with time zone,
+	"status" "geelark_task_status" DEFAULT 'waiting' NOT NULL,
+	"fail_code" integer,
+	"fail_desc" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"settled_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "geelark_retry_policy" (
+	"task_type" integer PRIMARY KEY NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"backoff_seconds" integer DEFAULT 300 NOT NULL,
+	"backoff_multiplier" integer DEFAULT 2 NOT NULL,
+	"strategy" "geelark_retry_strategy" DEFAULT 'retry' NOT NULL,
+	"terminal_fail_codes" integer[] DEFAULT '{}' NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "next_retry_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "clip_publish_attempt" ADD CONSTRAINT "clip_publish_attempt_clip_id_clip_id_fk" FOREIGN KEY ("clip_id") REFERENCES "public"."clip"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "clip_publish_attempt_clip_id_idx" ON "clip_publish_attempt" USING btree ("clip_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "cloud_phone" ADD COLUMN "time_zone" varchar(64);--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "max_posts_per_day" integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "min_post_gap_minutes" integer DEFAULT 120 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "quiet_hours_start" integer;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "quiet_hours_end" integer;
\ No newline at end of file
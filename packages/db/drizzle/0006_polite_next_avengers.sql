@@ -0,0 +1,13 @@
+CREATE TYPE "public"."tiktok_oauth_flow" AS ENUM('admin', 'creator');--> statement-breakpoint
+CREATE TABLE "tiktok_oauth_attempt" (
+	"state" varchar(256) PRIMARY KEY NOT NULL,
+	"code_verifier" text NOT NULL,
+	"user_id" text NOT NULL,
+	"flow" "tiktok_oauth_flow" NOT NULL,
+	"redirect_uri" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"consumed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tiktok_oauth_attempt" ADD CONSTRAINT "tiktok_oauth_attempt_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TYPE "public"."webhook_event" ADD VALUE 'account.needs_reconnect';--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "refresh_token_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "token_refreshed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "token_refresh_error" text;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "needs_reconnect" boolean DEFAULT false NOT NULL;
\ No newline at end of file
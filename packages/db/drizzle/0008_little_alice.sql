@@ -0,0 +1,23 @@
+CREATE TYPE "public"."stats_sync_run_status" AS ENUM('running', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."stats_sync_source" AS ENUM('oauth', 'apify');--> statement-breakpoint
+CREATE TYPE "public"."stats_sync_trigger" AS ENUM('scheduled', 'manual');--> statement-breakpoint
+CREATE TABLE "stats_sync_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tiktok_account_id" uuid NOT NULL,
+	"source" "stats_sync_source",
+	"trigger" "stats_sync_trigger" NOT NULL,
+	"status" "stats_sync_run_status" DEFAULT 'running' NOT NULL,
+	"pages_fetched" integer DEFAULT 0 NOT NULL,
+	"videos_fetched" integer DEFAULT 0 NOT NULL,
+	"clips_updated" integer DEFAULT 0 NOT NULL,
+	"clips_missing" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "stats_sync_interval_minutes" integer DEFAULT 360 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "last_stats_sync_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "next_stats_sync_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "stats_sync_run" ADD CONSTRAINT "stats_sync_run_tiktok_account_id_tiktok_account_id_fk" FOREIGN KEY ("tiktok_account_id") REFERENCES "public"."tiktok_account"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "stats_sync_run_account_started_idx" ON "stats_sync_run" USING btree ("tiktok_account_id","started_at");
\ No newline at end of file
@@ -0,0 +1,50 @@
+CREATE TYPE "public"."warmup_action" AS ENUM('browse_video', 'search_video', 'search_profile', 'random_star', 'random_comment');--> statement-breakpoint
+CREATE TYPE "public"."warmup_enrollment_status" AS ENUM('active', 'paused', 'completed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "warmup_enrollment" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"program_id" uuid NOT NULL,
+	"cloud_phone_id" varchar(256) NOT NULL,
+	"status" "warmup_enrollment_status" DEFAULT 'active' NOT NULL,
+	"starts_at" timestamp with time zone NOT NULL,
+	"scheduled_through_day" integer DEFAULT 0 NOT NULL,
+	"paused_at" timestamp with time zone,
+	"last_error" text,
+	"enrolled_by_id" text,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "warmup_program" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(256) NOT NULL,
+	"description" text,
+	"created_by_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "warmup_program_step" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"program_id" uuid NOT NULL,
+	"day" integer NOT NULL,
+	"position" integer NOT NULL,
+	"action" "warmup_action" NOT NULL,
+	"duration_minutes" integer DEFAULT 10 NOT NULL,
+	"keywords" text[] DEFAULT '{}' NOT NULL,
+	"use_ai" boolean DEFAULT true NOT NULL,
+	"comment" text
+);
+--> statement-breakpoint
+ALTER TABLE "geelark_task" ADD COLUMN "warmup_enrollment_id" uuid;--> statement-breakpoint
+ALTER TABLE "geelark_task" ADD COLUMN "warmup_day" integer;--> statement-breakpoint
+ALTER TABLE "geelark_task" ADD COLUMN "warmup_step" integer;--> statement-breakpoint
+ALTER TABLE "warmup_enrollment" ADD CONSTRAINT "warmup_enrollment_program_id_warmup_program_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."warmup_program"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "warmup_enrollment" ADD CONSTRAINT "warmup_enrollment_cloud_phone_id_cloud_phone_id_fk" FOREIGN KEY ("cloud_phone_id") REFERENCES "public"."cloud_phone"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "warmup_enrollment" ADD CONSTRAINT "warmup_enrollment_enrolled_by_id_user_id_fk" FOREIGN KEY ("enrolled_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "warmup_program" ADD CONSTRAINT "warmup_program_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "warmup_program_step" ADD CONSTRAINT "warmup_program_step_program_id_warmup_program_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."warmup_program"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "warmup_enrollment_status_idx" ON "warmup_enrollment" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "warmup_enrollment_cloud_phone_id_idx" ON "warmup_enrollment" USING btree ("cloud_phone_id");--> statement-breakpoint
+CREATE INDEX "warmup_program_step_program_day_idx" ON "warmup_program_step" USING btree ("program_id","day","position");--> statement-breakpoint
+ALTER TABLE "geelark_task" ADD CONSTRAINT "geelark_task_warmup_enrollment_id_warmup_enrollment_id_fk" FOREIGN KEY ("warmup_enrollment_id") REFERENCES "public"."warmup_enrollment"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
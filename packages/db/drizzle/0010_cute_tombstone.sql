@@ -0,0 +1,33 @@
+CREATE TYPE "public"."automation_schedule_mode" AS ENUM('cron', 'times_per_day');--> statement-breakpoint
+CREATE TYPE "public"."automation_schedule_status" AS ENUM('active', 'paused');--> statement-breakpoint
+CREATE TYPE "public"."automation_schedule_type" AS ENUM('random_star', 'ai_comment', 'warmup');--> statement-breakpoint
+CREATE TABLE "automation_schedule" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(256) NOT NULL,
+	"automation_type" "automation_schedule_type" NOT NULL,
+	"mode" "automation_schedule_mode" NOT NULL,
+	"cron_expression" varchar(128),
+	"times_per_day" integer,
+	"jitter_minutes" integer DEFAULT 0 NOT NULL,
+	"time_zone" varchar(64) DEFAULT 'UTC' NOT NULL,
+	"cloud_phone_ids" text[] DEFAULT '{}' NOT NULL,
+	"tags" text[] DEFAULT '{}' NOT NULL,
+	"warmup_action" "warmup_action",
+	"duration_minutes" integer DEFAULT 10 NOT NULL,
+	"keywords" text[] DEFAULT '{}' NOT NULL,
+	"use_ai" boolean DEFAULT true NOT NULL,
+	"comment" text,
+	"status" "automation_schedule_status" DEFAULT 'active' NOT NULL,
+	"next_run_at" timestamp with time zone,
+	"last_run_at" timestamp with time zone,
+	"last_error" text,
+	"created_by_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "cloud_phone" ADD COLUMN "tags" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "geelark_task" ADD COLUMN "automation_schedule_id" uuid;--> statement-breakpoint
+ALTER TABLE "automation_schedule" ADD CONSTRAINT "automation_schedule_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "automation_schedule_status_next_run_idx" ON "automation_schedule" USING btree ("status","next_run_at");--> statement-breakpoint
+ALTER TABLE "geelark_task" ADD CONSTRAINT "geelark_task_automation_schedule_id_automation_schedule_id_fk" FOREIGN KEY ("automation_schedule_id") REFERENCES "public"."automation_schedule"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TYPE "public"."clip_type" AS ENUM('video', 'carousel');--> statement-breakpoint
+ALTER TABLE "clip" ALTER COLUMN "video_url" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "type" "clip_type" DEFAULT 'video' NOT NULL;--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "image_urls" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "sound_video_id" varchar(256);--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "sound_volume" integer;
\ No newline at end of file
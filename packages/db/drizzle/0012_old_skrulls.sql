@@ -0,0 +1,17 @@
+CREATE TABLE "campaign_enrollment" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "campaign" ADD COLUMN "requirements" text;--> statement-breakpoint
+ALTER TABLE "campaign" ADD COLUMN "hashtags" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaign" ADD COLUMN "required_sounds" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaign" ADD COLUMN "deliverable_count" integer;--> statement-breakpoint
+ALTER TABLE "campaign" ADD COLUMN "enrollment_deadline" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "campaign" ADD COLUMN "submission_deadline" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "campaign_enrollment" ADD CONSTRAINT "campaign_enrollment_campaign_id_campaign_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaign"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaign_enrollment" ADD CONSTRAINT "campaign_enrollment_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "campaign_enrollment_campaign_user_idx" ON "campaign_enrollment" USING btree ("campaign_id","user_id");--> statement-breakpoint
+CREATE INDEX "campaign_enrollment_user_id_idx" ON "campaign_enrollment" USING btree ("user_id");
\ No newline at end of file
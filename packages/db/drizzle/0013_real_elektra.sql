@@ -0,0 +1,56 @@
+CREATE TYPE "public"."payout_batch_status" AS ENUM('draft', 'approved', 'paid');--> statement-breakpoint
+CREATE TYPE "public"."payout_entry_kind" AS ENUM('earning', 'adjustment', 'payout');--> statement-breakpoint
+CREATE TABLE "campaign_rate_card" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"cpm_cents" integer DEFAULT 0 NOT NULL,
+	"flat_fee_cents" integer DEFAULT 0 NOT NULL,
+	"bonus_tiers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"lock_after_days" integer DEFAULT 30 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone,
+	CONSTRAINT "campaign_rate_card_campaignId_unique" UNIQUE("campaign_id")
+);
+--> statement-breakpoint
+CREATE TABLE "payout_batch" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"status" "payout_batch_status" DEFAULT 'draft' NOT NULL,
+	"total_cents" integer DEFAULT 0 NOT NULL,
+	"creator_count" integer DEFAULT 0 NOT NULL,
+	"entry_count" integer DEFAULT 0 NOT NULL,
+	"note" text,
+	"created_by_id" text,
+	"approved_by_id" text,
+	"approved_at" timestamp with time zone,
+	"paid_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "payout_ledger_entry" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"kind" "payout_entry_kind" NOT NULL,
+	"amount_cents" integer NOT NULL,
+	"campaign_id" uuid,
+	"clip_id" uuid,
+	"batch_id" uuid,
+	"views" integer,
+	"views_recorded_at" timestamp with time zone,
+	"locked_at" timestamp with time zone,
+	"note" text,
+	"created_by_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "campaign_rate_card" ADD CONSTRAINT "campaign_rate_card_campaign_id_campaign_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaign"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD CONSTRAINT "payout_batch_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD CONSTRAINT "payout_batch_approved_by_id_user_id_fk" FOREIGN KEY ("approved_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_ledger_entry" ADD CONSTRAINT "payout_ledger_entry_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_ledger_entry" ADD CONSTRAINT "payout_ledger_entry_campaign_id_campaign_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaign"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_ledger_entry" ADD CONSTRAINT "payout_ledger_entry_clip_id_clip_id_fk" FOREIGN KEY ("clip_id") REFERENCES "public"."clip"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_ledger_entry" ADD CONSTRAINT "payout_ledger_entry_batch_id_payout_batch_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."payout_batch"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_ledger_entry" ADD CONSTRAINT "payout_ledger_entry_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payout_ledger_entry_user_id_idx" ON "payout_ledger_entry" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "payout_ledger_entry_batch_id_idx" ON "payout_ledger_entry" USING btree ("batch_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "payout_ledger_entry_earning_idx" ON "payout_ledger_entry" USING btree ("campaign_id","clip_id") WHERE kind = 'earning';
\ No newline at end of file
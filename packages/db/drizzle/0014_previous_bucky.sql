@@ -0,0 +1,56 @@
+CREATE TABLE "account_daily_stats" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tiktok_account_id" uuid NOT NULL,
+	"day" date NOT NULL,
+	"views_gained" integer DEFAULT 0 NOT NULL,
+	"likes_gained" integer DEFAULT 0 NOT NULL,
+	"comments_gained" integer DEFAULT 0 NOT NULL,
+	"shares_gained" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "campaign_daily_stats" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"day" date NOT NULL,
+	"views_gained" integer DEFAULT 0 NOT NULL,
+	"likes_gained" integer DEFAULT 0 NOT NULL,
+	"comments_gained" integer DEFAULT 0 NOT NULL,
+	"shares_gained" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "clip_daily_stats" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clip_id" uuid NOT NULL,
+	"day" date NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL,
+	"likes" integer DEFAULT 0 NOT NULL,
+	"comments" integer DEFAULT 0 NOT NULL,
+	"shares" integer DEFAULT 0 NOT NULL,
+	"views_gained" integer DEFAULT 0 NOT NULL,
+	"likes_gained" integer DEFAULT 0 NOT NULL,
+	"comments_gained" integer DEFAULT 0 NOT NULL,
+	"shares_gained" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "creator_daily_stats" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"day" date NOT NULL,
+	"views_gained" integer DEFAULT 0 NOT NULL,
+	"likes_gained" integer DEFAULT 0 NOT NULL,
+	"comments_gained" integer DEFAULT 0 NOT NULL,
+	"shares_gained" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "account_daily_stats" ADD CONSTRAINT "account_daily_stats_tiktok_account_id_tiktok_account_id_fk" FOREIGN KEY ("tiktok_account_id") REFERENCES "public"."tiktok_account"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaign_daily_stats" ADD CONSTRAINT "campaign_daily_stats_campaign_id_campaign_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaign"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clip_daily_stats" ADD CONSTRAINT "clip_daily_stats_clip_id_clip_id_fk" FOREIGN KEY ("clip_id") REFERENCES "public"."clip"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "creator_daily_stats" ADD CONSTRAINT "creator_daily_stats_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "account_daily_stats_account_day_idx" ON "account_daily_stats" USING btree ("tiktok_account_id","day");--> statement-breakpoint
+CREATE UNIQUE INDEX "campaign_daily_stats_campaign_day_idx" ON "campaign_daily_stats" USING btree ("campaign_id","day");--> statement-breakpoint
+CREATE UNIQUE INDEX "clip_daily_stats_clip_day_idx" ON "clip_daily_stats" USING btree ("clip_id","day");--> statement-breakpoint
+CREATE INDEX "clip_daily_stats_day_idx" ON "clip_daily_stats" USING btree ("day");--> statement-breakpoint
+CREATE UNIQUE INDEX "creator_daily_stats_user_day_idx" ON "creator_daily_stats" USING btree ("user_id","day");--> statement-breakpoint
+CREATE INDEX "creator_daily_stats_day_idx" ON "creator_daily_stats" USING btree ("day");--> statement-breakpoint
+CREATE INDEX "clip_stats_clip_id_recorded_at_idx" ON "clip_stats" USING btree ("clip_id","recorded_at");--> statement-breakpoint
+CREATE INDEX "clip_stats_recorded_at_idx" ON "clip_stats" USING btree ("recorded_at");
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "organization" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(256) NOT NULL,
+	"slug" varchar(64) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone,
+	CONSTRAINT "organization_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "automation_schedule" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "campaign" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "cloud_phone" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "geelark_proxy" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "warmup_program" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "session" ADD COLUMN "active_organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "automation_schedule" ADD CONSTRAINT "automation_schedule_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaign" ADD CONSTRAINT "campaign_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cloud_phone" ADD CONSTRAINT "cloud_phone_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geelark_proxy" ADD CONSTRAINT "geelark_proxy_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD CONSTRAINT "payout_batch_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tiktok_account" ADD CONSTRAINT "tiktok_account_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "warmup_program" ADD CONSTRAINT "warmup_program_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD CONSTRAINT "webhook_endpoint_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session" ADD CONSTRAINT "session_active_organization_id_organization_id_fk" FOREIGN KEY ("active_organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user" ADD CONSTRAINT "user_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
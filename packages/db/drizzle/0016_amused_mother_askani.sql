@@ -0,0 +1,3 @@
+ALTER TYPE "public"."user_role" ADD VALUE 'reviewer';--> statement-breakpoint
+ALTER TYPE "public"."user_role" ADD VALUE 'operator';--> statement-breakpoint
+ALTER TYPE "public"."user_role" ADD VALUE 'analyst';
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TYPE "public"."audit_log_status" AS ENUM('success', 'error');--> statement-breakpoint
+CREATE TABLE "audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_id" text,
+	"actor_role" text NOT NULL,
+	"organization_id" uuid,
+	"path" varchar(256) NOT NULL,
+	"input" jsonb,
+	"target_ids" text[] DEFAULT '{}' NOT NULL,
+	"status" "audit_log_status" NOT NULL,
+	"error" text,
+	"duration_ms" integer NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_actor_id_user_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_id_idx" ON "audit_log" USING btree ("actor_id");--> statement-breakpoint
+CREATE INDEX "audit_log_path_idx" ON "audit_log" USING btree ("path");--> statement-breakpoint
+CREATE INDEX "audit_log_target_ids_idx" ON "audit_log" USING gin ("target_ids");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "clip" ADD COLUMN "video_metadata" jsonb;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "clip" ADD COLUMN "preview_url" text;--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "cover_time_ms" integer;--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "media_processed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "media_error" text;--> statement-breakpoint
+CREATE INDEX "clip_media_processed_at_idx" ON "clip" USING btree ("media_processed_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "clip" ADD COLUMN "source_archived_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "clip" ADD COLUMN "content_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "clip" ADD COLUMN "perceptual_hash" text;--> statement-breakpoint
+CREATE INDEX "clip_content_hash_idx" ON "clip" USING btree ("content_hash");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "user" DROP CONSTRAINT "user_organization_id_organization_id_fk";
+--> statement-breakpoint
+ALTER TABLE "user" ADD CONSTRAINT "user_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
@@ -2,7 +2,28 @@ import { relations } from "drizzle-orm";
 import { pgEnum, pgTable } from "drizzle-orm/pg-core";
 
 // User role enum - defined here to avoid circular imports
-export const userRoleEnum = pgEnum("user_role", ["creator", "admin"]);
+// Reviewers, operators and analysts each get one part of the admin area
+export const userRoleEnum = pgEnum("user_role", [
+  "creator",
+  "admin",
+  "reviewer",
+  "operator",
+  "analyst",
+]);
+
+// Organizations (client brands) - defined here so users can reference them
+export const organization = pgTable("organization", (t) => ({
+  id: t.uuid().notNull().primaryKey().defaultRandom(),
+  name: t.varchar({ length: 256 }).notNull(),
+  slug: t.varchar({ length: 64 }).notNull().unique(),
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .$onUpdateFn(() => new Date()),
+}));
 
 export const user = pgTable("user", (t) => ({
   id: t.text().primaryKey(),
@@ -15,7 +36,12 @@ export const user = pgTable("user", (t) => ({
   banned: t.boolean().default(false),
   banReason: t.text(),
   banExpires: t.timestamp(),
-  bankAccountInfo: t.text(), // Nullable - for future payout integration
+  bankAccountInfo: t.text(), // Nullable - encrypted bank details exported with payout batches
+  // Admins without an organization are super-admins who see every organization,
+  // so deleting an organization must never clear it
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "restrict" }),
   // Metadata
   createdAt: t.timestamp().notNull(),
   updatedAt: t.timestamp().notNull(),
@@ -32,6 +58,10 @@ export const session = pgTable("session", (t) => ({
   ipAddress: t.text(),
   userAgent: t.text(),
   impersonatedBy: t.text(),
+  // Organization a super-admin switched to, null for all of them
+  activeOrganizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }),
   userId: t
     .text()
     .notNull()
@@ -67,7 +97,11 @@ export const verification = pgTable("verification", (t) => ({
 }));
 
 // User relations
-export const userRelations = relations(user, ({ many }) => ({
+export const userRelations = relations(user, ({ one, many }) => ({
+  organization: one(organization, {
+    fields: [user.organizationId],
+    references: [organization.id],
+  }),
   sessions: many(session),
   accounts: many(account),
 }));
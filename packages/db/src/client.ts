@@ -8,3 +8,5 @@ export const db = drizzle({
   schema,
   casing: "snake_case",
 });
+
+export type Database = typeof db;
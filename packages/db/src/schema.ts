@@ -1,10 +1,10 @@
-import { relations } from "drizzle-orm";
-import { index, pgEnum, pgTable } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { index, pgEnum, pgTable, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod/v4";
 
 // Import auth tables to extend with relations
-import { user as authUser } from "./auth-schema";
+import { user as authUser, organization } from "./auth-schema";
 
 // ============================================================================
 // ENUMS
@@ -18,6 +18,11 @@ export const clipStatusEnum = pgEnum("clip_status", [
   "failed", // Publishing failed
 ]);
 
+export const clipTypeEnum = pgEnum("clip_type", [
+  "video", // Single video, published with GeeLark task type 1
+  "carousel", // Ordered photo set, published with GeeLark task type 3
+]);
+
 export const campaignStatusEnum = pgEnum("campaign_status", [
   "draft",
   "active",
@@ -31,6 +36,14 @@ export const campaignStatusEnum = pgEnum("campaign_status", [
 
 export * from "./auth-schema";
 
+export const organizationRelations = relations(organization, ({ many }) => ({
+  users: many(authUser),
+  tiktokAccounts: many(tiktokAccount),
+  cloudPhones: many(cloudPhone),
+  proxies: many(geelarkProxy),
+  campaigns: many(campaign),
+}));
+
 // ============================================================================
 // CLOUD PHONES (cached from GeeLark API)
 // ============================================================================
@@ -43,6 +56,11 @@ export const cloudPhone = pgTable("cloud_phone", (t) => ({
   proxyServer: t.varchar({ length: 256 }),
   proxyPort: t.integer(),
   countryName: t.varchar({ length: 256 }),
+  timeZone: t.varchar({ length: 64 }), // IANA zone from equipmentInfo, used for quiet hours
+  tags: t.text().array().default([]).notNull(), // GeeLark tag names, used to target automation schedules
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }),
   lastSyncedAt: t.timestamp({ mode: "date", withTimezone: true }).defaultNow(),
   createdAt: t
     .timestamp({ mode: "date", withTimezone: true })
@@ -53,9 +71,14 @@ export const cloudPhone = pgTable("cloud_phone", (t) => ({
     .$onUpdateFn(() => new Date()),
 }));
 
-export const cloudPhoneRelations = relations(cloudPhone, ({ many }) => ({
+export const cloudPhoneRelations = relations(cloudPhone, ({ one, many }) => ({
+  organization: one(organization, {
+    fields: [cloudPhone.organizationId],
+    references: [organization.id],
+  }),
   tiktokAccounts: many(tiktokAccount),
   proxyAssignments: many(geelarkProxyAssignment),
+  warmupEnrollments: many(warmupEnrollment),
 }));
 
 // ============================================================================
@@ -70,6 +93,9 @@ export const geelarkProxy = pgTable("geelark_proxy", (t) => ({
   port: t.integer().notNull(),
   username: t.text(),
   password: t.text(),
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }),
   lastSyncedAt: t.timestamp({ mode: "date", withTimezone: true }).defaultNow(),
   createdAt: t
     .timestamp({ mode: "date", withTimezone: true })
@@ -100,9 +126,16 @@ export const geelarkProxyAssignment = pgTable(
   }),
 );
 
-export const geelarkProxyRelations = relations(geelarkProxy, ({ many }) => ({
-  assignments: many(geelarkProxyAssignment),
-}));
+export const geelarkProxyRelations = relations(
+  geelarkProxy,
+  ({ one, many }) => ({
+    organization: one(organization, {
+      fields: [geelarkProxy.organizationId],
+      references: [organization.id],
+    }),
+    assignments: many(geelarkProxyAssignment),
+  }),
+);
 
 export const geelarkProxyAssignmentRelations = relations(
   geelarkProxyAssignment,
@@ -130,11 +163,27 @@ export const tiktokAccount = pgTable("tiktok_account", (t) => ({
   cloudPhoneId: t
     .varchar({ length: 256 })
     .references(() => cloudPhone.id, { onDelete: "set null" }), // Reference to cached cloud phone
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }),
   accessToken: t.text(), // OAuth token for API
   refreshToken: t.text(),
   tokenExpiresAt: t.timestamp({ mode: "date", withTimezone: true }),
+  refreshTokenExpiresAt: t.timestamp({ mode: "date", withTimezone: true }), // After this the account must go through OAuth again
+  tokenRefreshedAt: t.timestamp({ mode: "date", withTimezone: true }),
+  tokenRefreshError: t.text(), // Last refresh failure, cleared on success
+  needsReconnect: t.boolean().default(false).notNull(), // Set when refreshing failed and no usable access token is left
   followerCount: t.integer().default(0),
   isActive: t.boolean().default(true).notNull(),
+  // Posting limits (enforced by the publishing calendar)
+  maxPostsPerDay: t.integer().default(3).notNull(),
+  minPostGapMinutes: t.integer().default(120).notNull(),
+  quietHoursStart: t.integer(), // Local hour (0-23) in the phone's time zone
+  quietHoursEnd: t.integer(), // Local hour (0-23), exclusive
+  // Stats collection (run by the stats-sync job)
+  statsSyncIntervalMinutes: t.integer().default(360).notNull(), // 0 turns scheduled syncs off
+  lastStatsSyncAt: t.timestamp({ mode: "date", withTimezone: true }),
+  nextStatsSyncAt: t.timestamp({ mode: "date", withTimezone: true }), // Null means due now
   createdAt: t
     .timestamp({ mode: "date", withTimezone: true })
     .defaultNow()
@@ -147,19 +196,61 @@ export const tiktokAccount = pgTable("tiktok_account", (t) => ({
 export const tiktokAccountRelations = relations(
   tiktokAccount,
   ({ one, many }) => ({
+    organization: one(organization, {
+      fields: [tiktokAccount.organizationId],
+      references: [organization.id],
+    }),
     cloudPhone: one(cloudPhone, {
       fields: [tiktokAccount.cloudPhoneId],
       references: [cloudPhone.id],
     }),
     clips: many(clip),
     userTiktokAccounts: many(userTiktokAccount),
+    statsSyncRuns: many(statsSyncRun),
   }),
 );
 
+// ============================================================================
+// TIKTOK OAUTH ATTEMPTS (server-side state and PKCE verifier)
+// ============================================================================
+
+export const tiktokOAuthFlowEnum = pgEnum("tiktok_oauth_flow", [
+  "admin", // Connect a managed account from the admin panel
+  "creator", // Connect and link an account from the creator dashboard
+]);
+
+export const tiktokOAuthAttempt = pgTable("tiktok_oauth_attempt", (t) => ({
+  state: t.varchar({ length: 256 }).notNull().primaryKey(), // Sent to TikTok and echoed back on the callback
+  codeVerifier: t.text().notNull(), // PKCE verifier, never sent to the browser
+  userId: t
+    .text()
+    .notNull()
+    .references(() => authUser.id, { onDelete: "cascade" }), // User who started the flow
+  flow: tiktokOAuthFlowEnum("flow").notNull(),
+  redirectUri: t.text().notNull(),
+  expiresAt: t.timestamp({ mode: "date", withTimezone: true }).notNull(),
+  consumedAt: t.timestamp({ mode: "date", withTimezone: true }), // Set once the code is exchanged, so a state can't be replayed
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+}));
+
 // ============================================================================
 // CLIPS (user-uploaded content)
 // ============================================================================
 
+// What ingestion read from an uploaded video (see api services/video-ingest)
+export interface ClipVideoMetadata {
+  container: "mp4" | "mov";
+  videoCodec: string; // Sample entry fourcc, e.g. "avc1" or "hvc1"
+  audioCodec: string | null; // Null when there's no audio track
+  width: number; // As displayed, after rotation
+  height: number;
+  durationSeconds: number;
+  sizeBytes: number;
+}
+
 export const clip = pgTable("clip", (t) => ({
   id: t.uuid().notNull().primaryKey().defaultRandom(),
   // Owner
@@ -170,9 +261,21 @@ export const clip = pgTable("clip", (t) => ({
   // Content
   title: t.varchar({ length: 256 }).notNull(),
   description: t.text(),
-  videoUrl: t.text().notNull(), // Uploaded video URL
+  type: clipTypeEnum("type").default("video").notNull(),
+  videoUrl: t.text(), // Uploaded video URL, null for carousels
+  imageUrls: t.text().array().default([]).notNull(), // Carousel images in posting order
+  soundVideoId: t.varchar({ length: 256 }), // TikTok video whose sound plays under a carousel
+  soundVolume: t.integer(), // Carousel sound volume, 0-100
   thumbnailUrl: t.text(),
+  previewUrl: t.text(), // Short muted preview cut from the video by the media worker
+  coverTimeMs: t.integer(), // Frame the creator picked as the thumbnail, null for the default
+  mediaProcessedAt: t.timestamp({ mode: "date", withTimezone: true }), // Set once the media worker has handled the video
+  mediaError: t.text(), // Why the media worker couldn't make the thumbnail or preview
+  sourceArchivedAt: t.timestamp({ mode: "date", withTimezone: true }), // Set once a published clip's source video moved to archival storage
+  contentHash: t.varchar({ length: 64 }), // SHA-256 of the uploaded video, to catch the same file posted twice
+  perceptualHash: t.text(), // Difference hashes of frames sampled through the video, to catch re-encoded copies
   durationSeconds: t.integer(),
+  videoMetadata: t.jsonb().$type<ClipVideoMetadata>(), // Filled by ingestion when the video is attached
   // Publishing
   tiktokAccountId: t
     .uuid()
@@ -183,6 +286,9 @@ export const clip = pgTable("clip", (t) => ({
   tiktokVideoId: t.varchar({ length: 256 }), // TikTok's video ID after publishing
   tiktokVideoUrl: t.text(), // URL to the published TikTok
   geelarkTaskId: t.varchar({ length: 256 }), // GeeLark task ID for tracking publish job
+  failCode: t.integer(), // GeeLark failCode when the publish task failed
+  failDesc: t.text(),
+  nextRetryAt: t.timestamp({ mode: "date", withTimezone: true }), // Set while a failed publish waits for an automatic retry
   // Metadata
   createdAt: t
     .timestamp({ mode: "date", withTimezone: true })
@@ -197,6 +303,8 @@ export const clip = pgTable("clip", (t) => ({
   tiktokAccountIdIdx: index("clip_tiktok_account_id_idx").on(table.tiktokAccountId),
   createdAtIdx: index("clip_created_at_idx").on(table.createdAt),
   statusCreatedAtIdx: index("clip_status_created_at_idx").on(table.status, table.createdAt),
+  mediaProcessedAtIdx: index("clip_media_processed_at_idx").on(table.mediaProcessedAt),
+  contentHashIdx: index("clip_content_hash_idx").on(table.contentHash),
 }));
 
 export const clipRelations = relations(clip, ({ one, many }) => ({
@@ -209,30 +317,43 @@ export const clipRelations = relations(clip, ({ one, many }) => ({
     references: [tiktokAccount.id],
   }),
   stats: many(clipStats),
+  dailyStats: many(clipDailyStats),
   campaignClips: many(campaignClip),
+  reviews: many(clipReview),
+  publishAttempts: many(clipPublishAttempt),
 }));
 
 // ============================================================================
 // CLIP STATS (historical stats from TikTok API)
 // ============================================================================
 
-export const clipStats = pgTable("clip_stats", (t) => ({
-  id: t.uuid().notNull().primaryKey().defaultRandom(),
-  clipId: t
-    .uuid()
-    .notNull()
-    .references(() => clip.id, { onDelete: "cascade" }),
-  // Stats from TikTok API
-  views: t.integer().default(0).notNull(),
-  likes: t.integer().default(0).notNull(),
-  comments: t.integer().default(0).notNull(),
-  shares: t.integer().default(0).notNull(),
-  // Timestamp for this snapshot
-  recordedAt: t
-    .timestamp({ mode: "date", withTimezone: true })
-    .defaultNow()
-    .notNull(),
-}));
+export const clipStats = pgTable(
+  "clip_stats",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    clipId: t
+      .uuid()
+      .notNull()
+      .references(() => clip.id, { onDelete: "cascade" }),
+    // Stats from TikTok API
+    views: t.integer().default(0).notNull(),
+    likes: t.integer().default(0).notNull(),
+    comments: t.integer().default(0).notNull(),
+    shares: t.integer().default(0).notNull(),
+    // Timestamp for this snapshot
+    recordedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (table) => ({
+    clipIdRecordedAtIdx: index("clip_stats_clip_id_recorded_at_idx").on(
+      table.clipId,
+      table.recordedAt,
+    ),
+    recordedAtIdx: index("clip_stats_recorded_at_idx").on(table.recordedAt),
+  }),
+);
 
 export const clipStatsRelations = relations(clipStats, ({ one }) => ({
   clip: one(clip, {
@@ -241,6 +362,225 @@ export const clipStatsRelations = relations(clipStats, ({ one }) => ({
   }),
 }));
 
+// ============================================================================
+// DAILY STATS (per-day rollups of clip_stats, in UTC days)
+// ============================================================================
+
+// One row per clip per day it had a snapshot: the day's last snapshot, and
+// how much each count grew since the clip's previous row
+export const clipDailyStats = pgTable(
+  "clip_daily_stats",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    clipId: t
+      .uuid()
+      .notNull()
+      .references(() => clip.id, { onDelete: "cascade" }),
+    day: t.date({ mode: "string" }).notNull(),
+    views: t.integer().default(0).notNull(),
+    likes: t.integer().default(0).notNull(),
+    comments: t.integer().default(0).notNull(),
+    shares: t.integer().default(0).notNull(),
+    viewsGained: t.integer().default(0).notNull(),
+    likesGained: t.integer().default(0).notNull(),
+    commentsGained: t.integer().default(0).notNull(),
+    sharesGained: t.integer().default(0).notNull(),
+  }),
+  (table) => ({
+    clipDayIdx: uniqueIndex("clip_daily_stats_clip_day_idx").on(
+      table.clipId,
+      table.day,
+    ),
+    dayIdx: index("clip_daily_stats_day_idx").on(table.day),
+  }),
+);
+
+// Gains summed over the clips published to an account, by a creator, or in
+// a campaign. Rebuilt from clip_daily_stats whenever a day is rolled up.
+export const accountDailyStats = pgTable(
+  "account_daily_stats",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    tiktokAccountId: t
+      .uuid()
+      .notNull()
+      .references(() => tiktokAccount.id, { onDelete: "cascade" }),
+    day: t.date({ mode: "string" }).notNull(),
+    viewsGained: t.integer().default(0).notNull(),
+    likesGained: t.integer().default(0).notNull(),
+    commentsGained: t.integer().default(0).notNull(),
+    sharesGained: t.integer().default(0).notNull(),
+  }),
+  (table) => ({
+    accountDayIdx: uniqueIndex("account_daily_stats_account_day_idx").on(
+      table.tiktokAccountId,
+      table.day,
+    ),
+  }),
+);
+
+export const creatorDailyStats = pgTable(
+  "creator_daily_stats",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    userId: t
+      .text()
+      .notNull()
+      .references(() => authUser.id, { onDelete: "cascade" }),
+    day: t.date({ mode: "string" }).notNull(),
+    viewsGained: t.integer().default(0).notNull(),
+    likesGained: t.integer().default(0).notNull(),
+    commentsGained: t.integer().default(0).notNull(),
+    sharesGained: t.integer().default(0).notNull(),
+  }),
+  (table) => ({
+    userDayIdx: uniqueIndex("creator_daily_stats_user_day_idx").on(
+      table.userId,
+      table.day,
+    ),
+    dayIdx: index("creator_daily_stats_day_idx").on(table.day),
+  }),
+);
+
+export const campaignDailyStats = pgTable(
+  "campaign_daily_stats",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    campaignId: t
+      .uuid()
+      .notNull()
+      .references(() => campaign.id, { onDelete: "cascade" }),
+    day: t.date({ mode: "string" }).notNull(),
+    viewsGained: t.integer().default(0).notNull(),
+    likesGained: t.integer().default(0).notNull(),
+    commentsGained: t.integer().default(0).notNull(),
+    sharesGained: t.integer().default(0).notNull(),
+  }),
+  (table) => ({
+    campaignDayIdx: uniqueIndex("campaign_daily_stats_campaign_day_idx").on(
+      table.campaignId,
+      table.day,
+    ),
+  }),
+);
+
+export const clipDailyStatsRelations = relations(clipDailyStats, ({ one }) => ({
+  clip: one(clip, {
+    fields: [clipDailyStats.clipId],
+    references: [clip.id],
+  }),
+}));
+
+// ============================================================================
+// STATS SYNC RUNS (log of scheduled and manual stats collection)
+// ============================================================================
+
+export const statsSyncSourceEnum = pgEnum("stats_sync_source", [
+  "oauth", // TikTok Display API with the account's own token
+  "apify", // Public profile scrape, for accounts without a usable token
+]);
+
+export const statsSyncTriggerEnum = pgEnum("stats_sync_trigger", [
+  "scheduled",
+  "manual",
+]);
+
+export const statsSyncRunStatusEnum = pgEnum("stats_sync_run_status", [
+  "running",
+  "succeeded",
+  "failed",
+]);
+
+export const statsSyncRun = pgTable(
+  "stats_sync_run",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    tiktokAccountId: t
+      .uuid()
+      .notNull()
+      .references(() => tiktokAccount.id, { onDelete: "cascade" }),
+    source: statsSyncSourceEnum("source"), // Null when no source was available
+    trigger: statsSyncTriggerEnum("trigger").notNull(),
+    status: statsSyncRunStatusEnum("status").default("running").notNull(),
+    pagesFetched: t.integer().default(0).notNull(), // Video list pages (OAuth) or scraper runs (Apify)
+    videosFetched: t.integer().default(0).notNull(),
+    clipsUpdated: t.integer().default(0).notNull(), // Tracked clips that got a new stats snapshot
+    clipsMissing: t.integer().default(0).notNull(), // Tracked clips TikTok returned nothing for
+    error: t.text(),
+    startedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    finishedAt: t.timestamp({ mode: "date", withTimezone: true }),
+  }),
+  (table) => ({
+    accountStartedIdx: index("stats_sync_run_account_started_idx").on(
+      table.tiktokAccountId,
+      table.startedAt,
+    ),
+  }),
+);
+
+export const statsSyncRunRelations = relations(statsSyncRun, ({ one }) => ({
+  tiktokAccount: one(tiktokAccount, {
+    fields: [statsSyncRun.tiktokAccountId],
+    references: [tiktokAccount.id],
+  }),
+}));
+
+// ============================================================================
+// CLIP REVIEWS (rejection history and creator/reviewer conversation)
+// ============================================================================
+
+export const clipReviewKindEnum = pgEnum("clip_review_kind", [
+  "rejection", // Reviewer sent the clip back to draft
+  "comment", // Plain message in the review thread
+]);
+
+export const clipRejectionReasonEnum = pgEnum("clip_rejection_reason", [
+  "audio",
+  "branding",
+  "length",
+  "content",
+  "other",
+]);
+
+export const clipReview = pgTable(
+  "clip_review",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    clipId: t
+      .uuid()
+      .notNull()
+      .references(() => clip.id, { onDelete: "cascade" }),
+    authorId: t
+      .text()
+      .notNull()
+      .references(() => authUser.id, { onDelete: "cascade" }),
+    kind: clipReviewKindEnum("kind").notNull(),
+    reason: clipRejectionReasonEnum("reason"), // Only set for rejections
+    body: t.text().notNull(),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (table) => ({
+    clipIdIdx: index("clip_review_clip_id_idx").on(table.clipId),
+  }),
+);
+
+export const clipReviewRelations = relations(clipReview, ({ one }) => ({
+  clip: one(clip, {
+    fields: [clipReview.clipId],
+    references: [clip.id],
+  }),
+  author: one(authUser, {
+    fields: [clipReview.authorId],
+    references: [authUser.id],
+  }),
+}));
+
 // ============================================================================
 // CAMPAIGNS (admin-created groupings)
 // ============================================================================
@@ -250,9 +590,19 @@ export const campaign = pgTable("campaign", (t) => ({
   name: t.varchar({ length: 256 }).notNull(),
   description: t.text(),
   status: campaignStatusEnum("status").default("draft").notNull(),
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }),
+  // Brief
+  requirements: t.text(), // What creators must deliver, shown when browsing
+  hashtags: t.text().array().default([]).notNull(), // Without the leading #
+  requiredSounds: t.text().array().default([]).notNull(), // TikTok sound links clips must use
+  deliverableCount: t.integer(), // Clips expected from each enrolled creator
   // Timeline
   startDate: t.timestamp({ mode: "date", withTimezone: true }),
   endDate: t.timestamp({ mode: "date", withTimezone: true }),
+  enrollmentDeadline: t.timestamp({ mode: "date", withTimezone: true }), // Creators can't join after this
+  submissionDeadline: t.timestamp({ mode: "date", withTimezone: true }), // Creators can't submit clips after this
   // Metadata
   createdAt: t
     .timestamp({ mode: "date", withTimezone: true })
@@ -263,8 +613,14 @@ export const campaign = pgTable("campaign", (t) => ({
     .$onUpdateFn(() => new Date()),
 }));
 
-export const campaignRelations = relations(campaign, ({ many }) => ({
+export const campaignRelations = relations(campaign, ({ one, many }) => ({
+  organization: one(organization, {
+    fields: [campaign.organizationId],
+    references: [organization.id],
+  }),
   campaignClips: many(campaignClip),
+  enrollments: many(campaignEnrollment),
+  rateCard: one(campaignRateCard),
 }));
 
 // ============================================================================
@@ -299,6 +655,50 @@ export const campaignClipRelations = relations(campaignClip, ({ one }) => ({
   }),
 }));
 
+// ============================================================================
+// CAMPAIGN ENROLLMENTS (creators who joined a campaign)
+// ============================================================================
+
+export const campaignEnrollment = pgTable(
+  "campaign_enrollment",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    campaignId: t
+      .uuid()
+      .notNull()
+      .references(() => campaign.id, { onDelete: "cascade" }),
+    userId: t
+      .text()
+      .notNull()
+      .references(() => authUser.id, { onDelete: "cascade" }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (table) => ({
+    campaignUserIdx: uniqueIndex("campaign_enrollment_campaign_user_idx").on(
+      table.campaignId,
+      table.userId,
+    ),
+    userIdIdx: index("campaign_enrollment_user_id_idx").on(table.userId),
+  }),
+);
+
+export const campaignEnrollmentRelations = relations(
+  campaignEnrollment,
+  ({ one }) => ({
+    campaign: one(campaign, {
+      fields: [campaignEnrollment.campaignId],
+      references: [campaign.id],
+    }),
+    user: one(authUser, {
+      fields: [campaignEnrollment.userId],
+      references: [authUser.id],
+    }),
+  }),
+);
+
 // ============================================================================
 // USER TIKTOK ACCOUNTS (junction table for user-account assignment)
 // ============================================================================
@@ -360,6 +760,14 @@ export const geelarkTask = pgTable("geelark_task", (t) => ({
   cost: t.integer(), // seconds taken
   shareLink: t.text(),
   clipId: t.uuid().references(() => clip.id, { onDelete: "set null" }), // Link to our clip if applicable
+  warmupEnrollmentId: t
+    .uuid()
+    .references(() => warmupEnrollment.id, { onDelete: "set null" }), // Set for tasks generated by a warmup program
+  warmupDay: t.integer(), // Program day (1-based) the task belongs to
+  warmupStep: t.integer(), // Position of the step within that day
+  automationScheduleId: t
+    .uuid()
+    .references(() => automationSchedule.id, { onDelete: "set null" }), // Set for tasks created by a recurring schedule
   lastSyncedAt: t
     .timestamp({ mode: "date", withTimezone: true })
     .defaultNow()
@@ -379,6 +787,602 @@ export const geelarkTaskRelations = relations(geelarkTask, ({ one }) => ({
     fields: [geelarkTask.clipId],
     references: [clip.id],
   }),
+  warmupEnrollment: one(warmupEnrollment, {
+    fields: [geelarkTask.warmupEnrollmentId],
+    references: [warmupEnrollment.id],
+  }),
+  automationSchedule: one(automationSchedule, {
+    fields: [geelarkTask.automationScheduleId],
+    references: [automationSchedule.id],
+  }),
+}));
+
+// ============================================================================
+// PUBLISH RETRIES (per task type policy and per clip attempt history)
+// ============================================================================
+
+export const geelarkRetryStrategyEnum = pgEnum("geelark_retry_strategy", [
+  "retry", // Re-run the failed task via GeeLark's retry endpoint
+  "recreate", // Create a fresh task in a later schedule slot
+]);
+
+export const geelarkRetryPolicy = pgTable("geelark_retry_policy", (t) => ({
+  taskType: t.integer().notNull().primaryKey(), // Same codes as geelark_task.task_type
+  enabled: t.boolean().default(true).notNull(),
+  maxAttempts: t.integer().default(3).notNull(), // Including the first attempt
+  backoffSeconds: t.integer().default(300).notNull(), // Delay before the first retry
+  backoffMultiplier: t.integer().default(2).notNull(), // Applied to each further retry
+  strategy: geelarkRetryStrategyEnum("strategy").default("retry").notNull(),
+  terminalFailCodes: t.integer().array().default([]).notNull(), // failCodes that are never retried
+  updatedAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .$onUpdateFn(() => new Date()),
+}));
+
+export const clipPublishAttemptMethodEnum = pgEnum(
+  "clip_publish_attempt_method",
+  [
+    "initial", // Task created on approval
+    "retry", // Automatic retry of the same task
+    "recreate", // Automatic retry with a new task
+    "manual", // Admin retried the task from the task log
+  ],
+);
+
+export const clipPublishAttempt = pgTable(
+  "clip_publish_attempt",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    clipId: t
+      .uuid()
+      .notNull()
+      .references(() => clip.id, { onDelete: "cascade" }),
+    attempt: t.integer().notNull(), // 1-based
+    method: clipPublishAttemptMethodEnum("method").notNull(),
+    geelarkTaskId: t.varchar({ length: 256 }).notNull(),
+    scheduleAt: t.timestamp({ mode: "date", withTimezone: true }),
+    status: geelarkTaskStatusEnum("status").default("waiting").notNull(),
+    failCode: t.integer(),
+    failDesc: t.text(),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    settledAt: t.timestamp({ mode: "date", withTimezone: true }),
+  }),
+  (table) => ({
+    clipIdIdx: index("clip_publish_attempt_clip_id_idx").on(table.clipId),
+  }),
+);
+
+export const clipPublishAttemptRelations = relations(
+  clipPublishAttempt,
+  ({ one }) => ({
+    clip: one(clip, {
+      fields: [clipPublishAttempt.clipId],
+      references: [clip.id],
+    }),
+  }),
+);
+
+// ============================================================================
+// WARMUP PROGRAMS (multi-day warmup templates enrolled on cloud phones)
+// ============================================================================
+
+export const warmupActionEnum = pgEnum("warmup_action", [
+  "browse_video", // GeeLark warmup task, "browse video"
+  "search_video", // GeeLark warmup task, "search video" (needs keywords)
+  "search_profile", // GeeLark warmup task, "search profile" (needs keywords)
+  "random_star", // TikTok random like RPA task
+  "random_comment", // TikTok random comment RPA task (AI or fixed text)
+]);
+
+export const warmupEnrollmentStatusEnum = pgEnum("warmup_enrollment_status", [
+  "active",
+  "paused", // No new days are scheduled until resumed
+  "completed",
+  "cancelled",
+]);
+
+export const warmupProgram = pgTable("warmup_program", (t) => ({
+  id: t.uuid().notNull().primaryKey().defaultRandom(),
+  name: t.varchar({ length: 256 }).notNull(),
+  description: t.text(),
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }),
+  createdById: t
+    .text()
+    .references(() => authUser.id, { onDelete: "set null" }),
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .$onUpdateFn(() => new Date()),
+}));
+
+export const warmupProgramStep = pgTable(
+  "warmup_program_step",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    programId: t
+      .uuid()
+      .notNull()
+      .references(() => warmupProgram.id, { onDelete: "cascade" }),
+    day: t.integer().notNull(), // 1-based day of the program
+    position: t.integer().notNull(), // Order within the day; steps run one after another
+    action: warmupActionEnum("action").notNull(),
+    durationMinutes: t.integer().default(10).notNull(), // How long browse/search steps run
+    keywords: t.text().array().default([]).notNull(), // Search steps pick from these
+    useAi: t.boolean().default(true).notNull(), // Comment steps: AI comment, or the fixed text below
+    comment: t.text(),
+  }),
+  (table) => ({
+    programDayIdx: index("warmup_program_step_program_day_idx").on(
+      table.programId,
+      table.day,
+      table.position,
+    ),
+  }),
+);
+
+export const warmupEnrollment = pgTable(
+  "warmup_enrollment",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    programId: t
+      .uuid()
+      .notNull()
+      .references(() => warmupProgram.id, { onDelete: "cascade" }),
+    cloudPhoneId: t
+      .varchar({ length: 256 })
+      .notNull()
+      .references(() => cloudPhone.id, { onDelete: "cascade" }),
+    status: warmupEnrollmentStatusEnum("status").default("active").notNull(),
+    startsAt: t.timestamp({ mode: "date", withTimezone: true }).notNull(), // Start of day 1; pushed back by pauses
+    scheduledThroughDay: t.integer().default(0).notNull(), // Last day whose tasks were all created in GeeLark
+    pausedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    lastError: t.text(), // Last failure creating tasks, cleared on success
+    enrolledById: t
+      .text()
+      .references(() => authUser.id, { onDelete: "set null" }),
+    completedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .$onUpdateFn(() => new Date()),
+  }),
+  (table) => ({
+    statusIdx: index("warmup_enrollment_status_idx").on(table.status),
+    cloudPhoneIdIdx: index("warmup_enrollment_cloud_phone_id_idx").on(
+      table.cloudPhoneId,
+    ),
+  }),
+);
+
+export const warmupProgramRelations = relations(
+  warmupProgram,
+  ({ one, many }) => ({
+    createdBy: one(authUser, {
+      fields: [warmupProgram.createdById],
+      references: [authUser.id],
+    }),
+    steps: many(warmupProgramStep),
+    enrollments: many(warmupEnrollment),
+  }),
+);
+
+export const warmupProgramStepRelations = relations(
+  warmupProgramStep,
+  ({ one }) => ({
+    program: one(warmupProgram, {
+      fields: [warmupProgramStep.programId],
+      references: [warmupProgram.id],
+    }),
+  }),
+);
+
+export const warmupEnrollmentRelations = relations(
+  warmupEnrollment,
+  ({ one, many }) => ({
+    program: one(warmupProgram, {
+      fields: [warmupEnrollment.programId],
+      references: [warmupProgram.id],
+    }),
+    cloudPhone: one(cloudPhone, {
+      fields: [warmupEnrollment.cloudPhoneId],
+      references: [cloudPhone.id],
+    }),
+    enrolledBy: one(authUser, {
+      fields: [warmupEnrollment.enrolledById],
+      references: [authUser.id],
+    }),
+    tasks: many(geelarkTask),
+  }),
+);
+
+// ============================================================================
+// AUTOMATION SCHEDULES (recurring GeeLark RPA and warmup tasks)
+// ============================================================================
+
+export const automationScheduleTypeEnum = pgEnum("automation_schedule_type", [
+  "random_star", // TikTok random like RPA task
+  "ai_comment", // TikTok random comment RPA task (AI or fixed text)
+  "warmup", // GeeLark warmup task (browse or search)
+]);
+
+export const automationScheduleModeEnum = pgEnum("automation_schedule_mode", [
+  "cron", // Runs on a 5-field cron expression
+  "times_per_day", // Runs N times a day at evenly spaced times
+]);
+
+export const automationScheduleStatusEnum = pgEnum(
+  "automation_schedule_status",
+  ["active", "paused"],
+);
+
+export const automationSchedule = pgTable(
+  "automation_schedule",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    name: t.varchar({ length: 256 }).notNull(),
+    automationType: automationScheduleTypeEnum("automation_type").notNull(),
+    mode: automationScheduleModeEnum("mode").notNull(),
+    cronExpression: t.varchar({ length: 128 }), // mode = cron
+    timesPerDay: t.integer(), // mode = times_per_day
+    jitterMinutes: t.integer().default(0).notNull(), // Each phone's task starts up to this many minutes after the run time
+    timeZone: t.varchar({ length: 64 }).default("UTC").notNull(), // Zone the cron expression / daily times are read in
+    cloudPhoneIds: t.text().array().default([]).notNull(), // Target phones...
+    tags: t.text().array().default([]).notNull(), // ...plus every phone carrying any of these tags
+    warmupAction: warmupActionEnum("warmup_action"), // warmup: browse_video, search_video or search_profile
+    durationMinutes: t.integer().default(10).notNull(), // warmup: how long to browse/search
+    keywords: t.text().array().default([]).notNull(), // warmup: search keywords
+    useAi: t.boolean().default(true).notNull(), // ai_comment: AI comment, or the fixed text below
+    comment: t.text(),
+    status: automationScheduleStatusEnum("status").default("active").notNull(),
+    organizationId: t
+      .uuid()
+      .references(() => organization.id, { onDelete: "set null" }), // Limits tag targets to the organization's phones
+    nextRunAt: t.timestamp({ mode: "date", withTimezone: true }),
+    lastRunAt: t.timestamp({ mode: "date", withTimezone: true }),
+    lastError: t.text(), // Failures from the last run, cleared when a run succeeds
+    createdById: t
+      .text()
+      .references(() => authUser.id, { onDelete: "set null" }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .$onUpdateFn(() => new Date()),
+  }),
+  (table) => ({
+    statusNextRunIdx: index("automation_schedule_status_next_run_idx").on(
+      table.status,
+      table.nextRunAt,
+    ),
+  }),
+);
+
+export const automationScheduleRelations = relations(
+  automationSchedule,
+  ({ one, many }) => ({
+    createdBy: one(authUser, {
+      fields: [automationSchedule.createdById],
+      references: [authUser.id],
+    }),
+    tasks: many(geelarkTask),
+  }),
+);
+
+// ============================================================================
+// WEBHOOKS (outbound clip lifecycle and task events)
+// ============================================================================
+
+export const webhookEventEnum = pgEnum("webhook_event", [
+  "clip.submitted", // Creator submitted a clip for review
+  "clip.approved", // Admin approved a clip and its publish task was created
+  "clip.rejected", // Admin returned a clip to draft
+  "clip.published", // Publish task completed
+  "clip.failed", // Publish task failed with no retries left
+  "task.updated", // A cached GeeLark task changed status during sync
+  "account.needs_reconnect", // A TikTok account's token could not be refreshed
+]);
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "pending", // Waiting for its first or next attempt
+  "succeeded", // Endpoint answered with a 2xx
+  "failed", // Gave up after the last attempt
+]);
+
+export const webhookEndpoint = pgTable("webhook_endpoint", (t) => ({
+  id: t.uuid().notNull().primaryKey().defaultRandom(),
+  name: t.varchar({ length: 256 }).notNull(),
+  url: t.text().notNull(),
+  secret: t.varchar({ length: 256 }).notNull(), // HMAC-SHA256 signing secret
+  events: webhookEventEnum("events").array().notNull(), // Events this endpoint receives
+  enabled: t.boolean().default(true).notNull(),
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }), // Receives clip events from this organization only
+  createdById: t
+    .text()
+    .references(() => authUser.id, { onDelete: "set null" }),
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .$onUpdateFn(() => new Date()),
+}));
+
+export const webhookEndpointRelations = relations(
+  webhookEndpoint,
+  ({ one, many }) => ({
+    createdBy: one(authUser, {
+      fields: [webhookEndpoint.createdById],
+      references: [authUser.id],
+    }),
+    deliveries: many(webhookDelivery),
+  }),
+);
+
+export const webhookDelivery = pgTable(
+  "webhook_delivery",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    endpointId: t
+      .uuid()
+      .notNull()
+      .references(() => webhookEndpoint.id, { onDelete: "cascade" }),
+    eventId: t.uuid().notNull(), // Shared by every delivery of the same event, and by replays
+    event: webhookEventEnum("event").notNull(),
+    payload: t.jsonb().notNull(), // Body sent to the endpoint
+    status: webhookDeliveryStatusEnum("status").default("pending").notNull(),
+    attempts: t.integer().default(0).notNull(),
+    nextAttemptAt: t.timestamp({ mode: "date", withTimezone: true }),
+    lastAttemptAt: t.timestamp({ mode: "date", withTimezone: true }),
+    responseStatus: t.integer(), // HTTP status of the last attempt
+    responseBody: t.text(), // Truncated body of the last response
+    error: t.text(), // Network error of the last attempt
+    replayOfId: t.uuid(), // Delivery this one replays
+    deliveredAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (table) => ({
+    endpointIdIdx: index("webhook_delivery_endpoint_id_idx").on(
+      table.endpointId,
+    ),
+    dueIdx: index("webhook_delivery_due_idx").on(
+      table.status,
+      table.nextAttemptAt,
+    ),
+  }),
+);
+
+export const webhookDeliveryRelations = relations(
+  webhookDelivery,
+  ({ one }) => ({
+    endpoint: one(webhookEndpoint, {
+      fields: [webhookDelivery.endpointId],
+      references: [webhookEndpoint.id],
+    }),
+  }),
+);
+
+// ============================================================================
+// PAYOUTS (campaign rate cards, creator earnings ledger and payout batches)
+// ============================================================================
+
+export const payoutEntryKindEnum = pgEnum("payout_entry_kind", [
+  "earning", // Locked earnings for one published campaign clip
+  "adjustment", // Manual credit or debit by an admin
+  "payout", // Money sent to the creator, recorded as a debit when a batch is paid
+]);
+
+export const payoutBatchStatusEnum = pgEnum("payout_batch_status", [
+  "draft", // Entries gathered, waiting for approval
+  "approved", // Approved and ready to export for finance
+  "paid", // Finance confirmed the transfers
+]);
+
+export interface PayoutBonusTier {
+  views: number; // Paid once the locked view count reaches this
+  bonusCents: number;
+}
+
+export const campaignRateCard = pgTable("campaign_rate_card", (t) => ({
+  id: t.uuid().notNull().primaryKey().defaultRandom(),
+  campaignId: t
+    .uuid()
+    .notNull()
+    .unique()
+    .references(() => campaign.id, { onDelete: "cascade" }),
+  cpmCents: t.integer().default(0).notNull(), // Paid per 1,000 views at the lock date
+  flatFeeCents: t.integer().default(0).notNull(), // Paid once per published clip
+  bonusTiers: t.jsonb().$type<PayoutBonusTier[]>().default([]).notNull(), // Every tier reached is paid
+  lockAfterDays: t.integer().default(30).notNull(), // Views are counted this many days after publishing
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .$onUpdateFn(() => new Date()),
+}));
+
+export const campaignRateCardRelations = relations(
+  campaignRateCard,
+  ({ one }) => ({
+    campaign: one(campaign, {
+      fields: [campaignRateCard.campaignId],
+      references: [campaign.id],
+    }),
+  }),
+);
+
+export const payoutBatch = pgTable("payout_batch", (t) => ({
+  id: t.uuid().notNull().primaryKey().defaultRandom(),
+  status: payoutBatchStatusEnum("status").default("draft").notNull(),
+  totalCents: t.integer().default(0).notNull(),
+  creatorCount: t.integer().default(0).notNull(),
+  entryCount: t.integer().default(0).notNull(),
+  note: t.text(),
+  organizationId: t
+    .uuid()
+    .references(() => organization.id, { onDelete: "set null" }), // Batches only gather this organization's creators
+  createdById: t
+    .text()
+    .references(() => authUser.id, { onDelete: "set null" }),
+  approvedById: t
+    .text()
+    .references(() => authUser.id, { onDelete: "set null" }),
+  approvedAt: t.timestamp({ mode: "date", withTimezone: true }),
+  paidAt: t.timestamp({ mode: "date", withTimezone: true }),
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .$onUpdateFn(() => new Date()),
+}));
+
+export const payoutBatchRelations = relations(payoutBatch, ({ one, many }) => ({
+  createdBy: one(authUser, {
+    fields: [payoutBatch.createdById],
+    references: [authUser.id],
+  }),
+  approvedBy: one(authUser, {
+    fields: [payoutBatch.approvedById],
+    references: [authUser.id],
+  }),
+  entries: many(payoutLedgerEntry),
+}));
+
+export const payoutLedgerEntry = pgTable(
+  "payout_ledger_entry",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    userId: t
+      .text()
+      .notNull()
+      .references(() => authUser.id, { onDelete: "cascade" }),
+    kind: payoutEntryKindEnum("kind").notNull(),
+    amountCents: t.integer().notNull(), // Positive credits the creator, negative debits
+    campaignId: t
+      .uuid()
+      .references(() => campaign.id, { onDelete: "set null" }),
+    clipId: t.uuid().references(() => clip.id, { onDelete: "set null" }),
+    batchId: t
+      .uuid()
+      .references(() => payoutBatch.id, { onDelete: "set null" }), // Null until the entry is batched
+    // Earning breakdown
+    views: t.integer(), // Views in the snapshot the earning was computed from
+    viewsRecordedAt: t.timestamp({ mode: "date", withTimezone: true }), // When that snapshot was taken
+    lockedAt: t.timestamp({ mode: "date", withTimezone: true }), // The clip's lock date
+    note: t.text(),
+    createdById: t
+      .text()
+      .references(() => authUser.id, { onDelete: "set null" }), // Admin who made an adjustment
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (table) => ({
+    userIdIdx: index("payout_ledger_entry_user_id_idx").on(table.userId),
+    batchIdIdx: index("payout_ledger_entry_batch_id_idx").on(table.batchId),
+    // A clip is only ever paid once per campaign
+    earningIdx: uniqueIndex("payout_ledger_entry_earning_idx")
+      .on(table.campaignId, table.clipId)
+      .where(sql`kind = 'earning'`),
+  }),
+);
+
+export const payoutLedgerEntryRelations = relations(
+  payoutLedgerEntry,
+  ({ one }) => ({
+    user: one(authUser, {
+      fields: [payoutLedgerEntry.userId],
+      references: [authUser.id],
+    }),
+    campaign: one(campaign, {
+      fields: [payoutLedgerEntry.campaignId],
+      references: [campaign.id],
+    }),
+    clip: one(clip, {
+      fields: [payoutLedgerEntry.clipId],
+      references: [clip.id],
+    }),
+    batch: one(payoutBatch, {
+      fields: [payoutLedgerEntry.batchId],
+      references: [payoutBatch.id],
+    }),
+  }),
+);
+
+// ============================================================================
+// AUDIT LOG (append-only record of every staff mutation)
+// ============================================================================
+
+export const auditLogStatusEnum = pgEnum("audit_log_status", [
+  "success",
+  "error",
+]);
+
+export const auditLog = pgTable(
+  "audit_log",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    actorId: t.text().references(() => authUser.id, { onDelete: "set null" }),
+    actorRole: t.text().notNull(), // Role at the time, in case it changes later
+    organizationId: t
+      .uuid()
+      .references(() => organization.id, { onDelete: "set null" }), // Organization the request was limited to
+    path: t.varchar({ length: 256 }).notNull(), // tRPC procedure, e.g. "admin.approveClip"
+    input: t.jsonb(), // Input with secrets redacted (see services/audit-log)
+    targetIds: t.text().array().default([]).notNull(), // IDs found in the input and result
+    status: auditLogStatusEnum("status").notNull(),
+    error: t.text(),
+    durationMs: t.integer().notNull(),
+    ipAddress: t.text(), // From the actor's session
+    userAgent: t.text(),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (table) => ({
+    createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+    actorIdIdx: index("audit_log_actor_id_idx").on(table.actorId),
+    pathIdx: index("audit_log_path_idx").on(table.path),
+    targetIdsIdx: index("audit_log_target_ids_idx").using(
+      "gin",
+      table.targetIds,
+    ),
+  }),
+);
+
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+  actor: one(authUser, {
+    fields: [auditLog.actorId],
+    references: [authUser.id],
+  }),
+  organization: one(organization, {
+    fields: [auditLog.organizationId],
+    references: [organization.id],
+  }),
 }));
 
 // ============================================================================
@@ -395,8 +1399,20 @@ export const SelectGeeLarkProxySchema = createSelectSchema(geelarkProxy);
 export const CreateTiktokAccountSchema = createInsertSchema(tiktokAccount, {
   name: z.string().min(1).max(256),
   tiktokUsername: z.string().min(1).max(256),
+  maxPostsPerDay: z.number().int().min(1).max(50).optional(),
+  minPostGapMinutes: z.number().int().min(0).max(1440).optional(),
+  quietHoursStart: z.number().int().min(0).max(23).nullish(),
+  quietHoursEnd: z.number().int().min(0).max(23).nullish(),
+  statsSyncIntervalMinutes: z.number().int().min(0).max(10080).optional(),
 }).omit({
   id: true,
+  refreshTokenExpiresAt: true,
+  tokenRefreshedAt: true,
+  tokenRefreshError: true,
+  needsReconnect: true,
+  lastStatsSyncAt: true,
+  nextStatsSyncAt: true,
+  organizationId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -408,19 +1424,34 @@ export const SelectTiktokAccountSchema = createSelectSchema(tiktokAccount);
 // Clip
 export const CreateClipSchema = createInsertSchema(clip, {
   title: z.string().min(1).max(256),
-  videoUrl: z.url(),
+  videoUrl: z.url().nullish(),
+  imageUrls: z.array(z.url()).max(35).optional(), // TikTok photo posts take up to 35 images
+  soundVideoId: z.string().regex(/^\d+$/).nullish(),
+  soundVolume: z.number().int().min(0).max(100).nullish(),
 }).omit({
   id: true,
   userId: true,
+  previewUrl: true,
+  coverTimeMs: true,
+  mediaProcessedAt: true,
+  mediaError: true,
+  sourceArchivedAt: true,
+  contentHash: true,
+  perceptualHash: true,
+  durationSeconds: true,
+  videoMetadata: true,
   status: true,
   publishedAt: true,
   tiktokVideoId: true,
   tiktokVideoUrl: true,
+  failCode: true,
+  failDesc: true,
+  nextRetryAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const UpdateClipSchema = CreateClipSchema.partial();
+export const UpdateClipSchema = CreateClipSchema.omit({ type: true }).partial();
 
 export const SelectClipSchema = createSelectSchema(clip);
 
@@ -433,8 +1464,16 @@ export const CreateClipStatsSchema = createInsertSchema(clipStats).omit({
 // Campaign
 export const CreateCampaignSchema = createInsertSchema(campaign, {
   name: z.string().min(1).max(256),
+  requirements: z.string().max(5000).nullish(),
+  hashtags: z
+    .array(z.string().regex(/^[\p{L}\p{N}_]+$/u).max(100))
+    .max(30)
+    .optional(),
+  requiredSounds: z.array(z.url()).max(10).optional(),
+  deliverableCount: z.number().int().min(1).max(100).nullish(),
 }).omit({
   id: true,
+  organizationId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -442,3 +1481,179 @@ export const CreateCampaignSchema = createInsertSchema(campaign, {
 export const UpdateCampaignSchema = CreateCampaignSchema.partial();
 
 export const SelectCampaignSchema = createSelectSchema(campaign);
+
+// Webhook Endpoint
+export const CreateWebhookEndpointSchema = createInsertSchema(webhookEndpoint, {
+  name: z.string().min(1).max(256),
+  url: z.url({ protocol: /^https$/, error: "Webhook URLs must use https" }),
+  events: z.array(z.enum(webhookEventEnum.enumValues)).min(1),
+}).omit({
+  id: true,
+  secret: true,
+  organizationId: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const UpdateWebhookEndpointSchema =
+  CreateWebhookEndpointSchema.partial();
+
+// Warmup Program
+export const WarmupProgramStepSchema = createInsertSchema(warmupProgramStep, {
+  day: z.number().int().min(1).max(90),
+  position: z.number().int().min(0),
+  durationMinutes: z.number().int().min(1).max(240).optional(),
+  keywords: z.array(z.string().min(1).max(100)).max(50).optional(),
+  comment: z.string().max(500).nullish(),
+})
+  .omit({
+    id: true,
+    programId: true,
+  })
+  .refine(
+    (step) =>
+      (step.action !== "search_video" && step.action !== "search_profile") ||
+      (step.keywords?.length ?? 0) > 0,
+    { message: "Search steps need at least one keyword", path: ["keywords"] },
+  )
+  .refine(
+    (step) =>
+      step.action !== "random_comment" ||
+      step.useAi !== false ||
+      (step.comment?.trim().length ?? 0) > 0,
+    { message: "Comment text is required when AI is off", path: ["comment"] },
+  );
+
+export const CreateWarmupProgramSchema = createInsertSchema(warmupProgram, {
+  name: z.string().min(1).max(256),
+  description: z.string().max(2000).nullish(),
+})
+  .omit({
+    id: true,
+    organizationId: true,
+    createdById: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    steps: z.array(WarmupProgramStepSchema).min(1).max(500),
+  });
+
+export const UpdateWarmupProgramSchema = CreateWarmupProgramSchema.partial();
+
+// Automation Schedule
+const AutomationScheduleFieldsSchema = createInsertSchema(automationSchedule, {
+  name: z.string().min(1).max(256),
+  cronExpression: z.string().max(128).nullish(),
+  timesPerDay: z.number().int().min(1).max(48).nullish(),
+  jitterMinutes: z.number().int().min(0).max(720).optional(),
+  timeZone: z.string().min(1).max(64).optional(),
+  cloudPhoneIds: z.array(z.string().min(1)).max(500).optional(),
+  tags: z.array(z.string().min(1).max(100)).max(50).optional(),
+  durationMinutes: z.number().int().min(1).max(240).optional(),
+  keywords: z.array(z.string().min(1).max(100)).max(50).optional(),
+  comment: z.string().max(500).nullish(),
+}).omit({
+  id: true,
+  status: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastError: true,
+  organizationId: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+function checkAutomationSchedule(
+  schedule: z.infer<typeof AutomationScheduleFieldsSchema>,
+  ctx: z.RefinementCtx,
+) {
+  if (schedule.mode === "cron" && !schedule.cronExpression?.trim()) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Cron schedules need a cron expression",
+      path: ["cronExpression"],
+    });
+  }
+  if (schedule.mode === "times_per_day" && !schedule.timesPerDay) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Set how many times a day to run",
+      path: ["timesPerDay"],
+    });
+  }
+  if (!schedule.cloudPhoneIds?.length && !schedule.tags?.length) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Pick at least one phone or tag",
+      path: ["cloudPhoneIds"],
+    });
+  }
+  if (schedule.automationType === "warmup") {
+    if (
+      schedule.warmupAction !== "browse_video" &&
+      schedule.warmupAction !== "search_video" &&
+      schedule.warmupAction !== "search_profile"
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Warmup schedules need a browse or search action",
+        path: ["warmupAction"],
+      });
+    } else if (
+      schedule.warmupAction !== "browse_video" &&
+      !schedule.keywords?.length
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Search actions need at least one keyword",
+        path: ["keywords"],
+      });
+    }
+  }
+  if (
+    schedule.automationType === "ai_comment" &&
+    schedule.useAi === false &&
+    !schedule.comment?.trim()
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Comment text is required when AI is off",
+      path: ["comment"],
+    });
+  }
+}
+
+export const CreateAutomationScheduleSchema =
+  AutomationScheduleFieldsSchema.superRefine(checkAutomationSchedule);
+
+// Edits replace the whole spec, so they are checked the same way as creates
+export const UpdateAutomationScheduleSchema =
+  AutomationScheduleFieldsSchema.extend({ id: z.string().uuid() }).superRefine(
+    checkAutomationSchedule,
+  );
+
+// Payouts
+export const UpsertCampaignRateCardSchema = createInsertSchema(
+  campaignRateCard,
+  {
+    cpmCents: z.number().int().min(0).max(1_000_000).optional(),
+    flatFeeCents: z.number().int().min(0).max(10_000_000).optional(),
+    bonusTiers: z
+      .array(
+        z.object({
+          views: z.number().int().min(1),
+          bonusCents: z.number().int().min(1).max(10_000_000),
+        }),
+      )
+      .max(20)
+      .optional(),
+    lockAfterDays: z.number().int().min(0).max(365).optional(),
+  },
+).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
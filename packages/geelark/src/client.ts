@@ -388,27 +388,44 @@ export class GeeLarkClient {
   async createPublishVideoTask(
     params: PublishVideoParams,
   ): Promise<TaskResult> {
+    return this.createPublishVideoTasks({
+      planName: params.planName,
+      items: [params],
+    });
+  }
+
+  /**
+   * Create several video publish tasks on GeeLark in one request.
+   *
+   * @param params - Shared plan name and one entry per video (max 100)
+   * @returns Task IDs, in the same order as `items`
+   */
+  async createPublishVideoTasks(params: {
+    planName?: string;
+    items: Omit<PublishVideoParams, "planName">[];
+  }): Promise<TaskResult> {
+    if (params.items.length > 100) {
+      throw new Error("Cannot create more than 100 tasks at once");
+    }
     const body = {
       planName: params.planName ?? `Video Publish ${new Date().toISOString()}`,
       taskType: 1, // 1 = Publish video
-      list: [
-        {
-          envId: params.envId,
-          video: params.video,
-          scheduleAt: params.scheduleAt,
-          ...(params.videoDesc && { videoDesc: params.videoDesc }),
-          ...(params.maxTryTimes !== undefined && {
-            maxTryTimes: params.maxTryTimes,
-          }),
-          ...(params.timeoutMin !== undefined && {
-            timeoutMin: params.timeoutMin,
-          }),
-          ...(params.markAI !== undefined && { markAI: params.markAI }),
-          ...(params.needShareLink !== undefined && {
-            needShareLink: params.needShareLink,
-          }),
-        },
-      ],
+      list: params.items.map((item) => ({
+        envId: item.envId,
+        video: item.video,
+        scheduleAt: item.scheduleAt,
+        ...(item.videoDesc && { videoDesc: item.videoDesc }),
+        ...(item.maxTryTimes !== undefined && {
+          maxTryTimes: item.maxTryTimes,
+        }),
+        ...(item.timeoutMin !== undefined && {
+          timeoutMin: item.timeoutMin,
+        }),
+        ...(item.markAI !== undefined && { markAI: item.markAI }),
+        ...(item.needShareLink !== undefined && {
+          needShareLink: item.needShareLink,
+        }),
+      })),
     };
 
     const response = await this.request<TaskResult>("/open/v1/task/add", body);
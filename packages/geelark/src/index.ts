@@ -25,5 +25,6 @@ export type {
   TaskDetailOptions,
   TaskDetailResponse,
   TaskResult,
+  WarmupAction,
 } from "./client";
 export { geelarkEnv, type GeeLarkEnv } from "./env";
@@ -136,6 +136,117 @@ async function runTests() {
     failed++;
   }
 
+  // Test 6: Multipart upload
+  try {
+    const key = storage.generateKey("integration-tests", "multipart-test.txt");
+    const uploadId = await storage.createMultipartUpload(key, "text/plain");
+
+    // A single part may be smaller than the 5MB minimum, since it's the last
+    const partData = "multipart test content";
+    const { url } = await storage.getPresignedPartUrl(key, uploadId, 1);
+    const response = await fetch(url, { method: "PUT", body: partData });
+    if (!response.ok) {
+      throw new Error(`Part upload failed: ${response.status}`);
+    }
+
+    const parts = await storage.listUploadedParts(key, uploadId);
+    if (parts?.length !== 1) {
+      throw new Error(`Expected 1 uploaded part, got ${parts?.length}`);
+    }
+    await storage.completeMultipartUpload(key, uploadId, parts);
+
+    const object = await storage.head(key);
+    if (object?.size === partData.length) {
+      console.log("✅ Test 6: multipart upload works correctly");
+      passed++;
+    } else {
+      console.log(
+        `❌ Test 6: multipart upload failed. Object: ${JSON.stringify(object)}`,
+      );
+      failed++;
+    }
+
+    // Aborting is idempotent and removes the upload
+    const abortedKey = storage.generateKey("integration-tests", "aborted.txt");
+    const abortedId = await storage.createMultipartUpload(
+      abortedKey,
+      "text/plain",
+    );
+    await storage.abortMultipartUpload(abortedKey, abortedId);
+    await storage.abortMultipartUpload(abortedKey, abortedId);
+    if ((await storage.listUploadedParts(abortedKey, abortedId)) === null) {
+      console.log("   - Aborted upload is gone");
+    }
+
+    // Clean up
+    await storage.delete(key);
+    console.log("   - Cleaned up test file");
+  } catch (e) {
+    console.log(
+      `❌ Test 6: multipart upload threw error: ${e instanceof Error ? e.message : String(e)}`,
+    );
+    failed++;
+  }
+
+  // Test 7: List and bulk delete
+  try {
+    const prefix = `integration-tests/list-${Date.now()}`;
+    const keys = [`${prefix}/a.txt`, `${prefix}/b.txt`];
+    for (const key of keys) {
+      await storage.upload(key, "list test content", "text/plain");
+    }
+
+    const listed = await storage.listObjects(`${prefix}/`);
+    const failedKeys = await storage.deleteMany(keys);
+    const remaining = await storage.listObjects(`${prefix}/`);
+
+    if (
+      listed.length === keys.length &&
+      failedKeys.length === 0 &&
+      remaining.length === 0
+    ) {
+      console.log("✅ Test 7: listObjects and deleteMany work correctly");
+      passed++;
+    } else {
+      console.log(
+        `❌ Test 7: listed ${listed.length}, failed ${failedKeys.length}, remaining ${remaining.length}`,
+      );
+      failed++;
+    }
+  } catch (e) {
+    console.log(
+      `❌ Test 7: listObjects/deleteMany threw error: ${e instanceof Error ? e.message : String(e)}`,
+    );
+    failed++;
+  }
+
+  // Test 8: Stream a file
+  try {
+    const key = `integration-tests/stream-${Date.now()}.txt`;
+    const content = "stream test content";
+    await storage.upload(key, content, "text/plain");
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.getStream(key)) {
+      chunks.push(chunk as Buffer);
+    }
+    const streamed = Buffer.concat(chunks).toString("utf8");
+    await storage.delete(key);
+
+    if (streamed === content) {
+      console.log("✅ Test 8: getStream works correctly");
+      passed++;
+    } else {
+      console.log(`❌ Test 8: getStream returned "${streamed}"`);
+      failed++;
+    }
+  } catch (e) {
+    console.log(
+      `❌ Test 8: getStream threw error: ${e instanceof Error ? e.message : String(e)}`,
+    );
+    failed++;
+  }
+
   // Summary
   console.log("\n" + "=".repeat(50));
   console.log(`📊 Results: ${passed} passed, ${failed} failed`);
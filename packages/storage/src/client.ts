@@ -1,9 +1,22 @@
-import type { S3ClientConfig } from "@aws-sdk/client-s3";
+import { Readable } from "node:stream";
+import type { S3ClientConfig, StorageClass } from "@aws-sdk/client-s3";
 import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
   GetObjectCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
+  ListObjectsV2Command,
+  ListPartsCommand,
+  NoSuchUpload,
+  NotFound,
   PutObjectCommand,
   S3Client,
+  UploadPartCommand,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
@@ -30,6 +43,30 @@ export interface PresignedUrlResult {
   expiresAt: Date;
 }
 
+export interface ObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+  storageClass?: string;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export interface MultipartUploadInfo {
+  key: string;
+  uploadId: string;
+  initiatedAt: Date;
+}
+
 export class Storage {
   private client: S3Client;
   private bucket: string;
@@ -149,6 +186,235 @@ export class Storage {
     return { url, expiresAt };
   }
 
+  /**
+   * Start a multipart upload and return its upload ID. Parts are uploaded
+   * through presigned part URLs, then stitched together by
+   * completeMultipartUpload.
+   */
+  async createMultipartUpload(
+    key: string,
+    contentType: string,
+  ): Promise<string> {
+    const command = new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: contentType,
+    });
+
+    const result = await this.client.send(command);
+    if (!result.UploadId) {
+      throw new Error(`No upload ID returned for ${key}`);
+    }
+
+    return result.UploadId;
+  }
+
+  /**
+   * Get a pre-signed URL for uploading one part (numbered from 1) of a
+   * multipart upload
+   */
+  async getPresignedPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresInSeconds = 3600,
+  ): Promise<PresignedUrlResult> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+
+    const url = await getSignedUrl(this.client, command, {
+      expiresIn: expiresInSeconds,
+    });
+
+    const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+
+    return { url, expiresAt };
+  }
+
+  /**
+   * Parts of a multipart upload that have been uploaded so far, in order, or
+   * null if the upload doesn't exist (completed, aborted or never started)
+   */
+  async listUploadedParts(
+    key: string,
+    uploadId: string,
+  ): Promise<UploadedPart[] | null> {
+    const parts: UploadedPart[] = [];
+    let partNumberMarker: string | undefined;
+
+    try {
+      do {
+        const result = await this.client.send(
+          new ListPartsCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+          }),
+        );
+
+        for (const part of result.Parts ?? []) {
+          if (part.PartNumber && part.ETag) {
+            parts.push({
+              partNumber: part.PartNumber,
+              etag: part.ETag,
+              size: part.Size ?? 0,
+            });
+          }
+        }
+
+        partNumberMarker = result.IsTruncated
+          ? result.NextPartNumberMarker
+          : undefined;
+      } while (partNumberMarker);
+    } catch (error) {
+      if (error instanceof NoSuchUpload) return null;
+      throw error;
+    }
+
+    return parts;
+  }
+
+  /**
+   * Stitch the uploaded parts into the final file
+   */
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: Pick<UploadedPart, "partNumber" | "etag">[],
+  ): Promise<void> {
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: parts.map((part) => ({
+          PartNumber: part.partNumber,
+          ETag: part.etag,
+        })),
+      },
+    });
+
+    await this.client.send(command);
+  }
+
+  /**
+   * Abort a multipart upload, discarding the parts uploaded so far. Aborting
+   * one that no longer exists is a no-op.
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const command = new AbortMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+    });
+
+    try {
+      await this.client.send(command);
+    } catch (error) {
+      if (error instanceof NoSuchUpload) return;
+      throw error;
+    }
+  }
+
+  /**
+   * Multipart uploads under `prefix` that were started but not yet completed
+   * or aborted
+   */
+  async listMultipartUploads(prefix: string): Promise<MultipartUploadInfo[]> {
+    const uploads: MultipartUploadInfo[] = [];
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+
+    do {
+      const result = await this.client.send(
+        new ListMultipartUploadsCommand({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          KeyMarker: keyMarker,
+          UploadIdMarker: uploadIdMarker,
+        }),
+      );
+
+      for (const upload of result.Uploads ?? []) {
+        if (upload.Key && upload.UploadId && upload.Initiated) {
+          uploads.push({
+            key: upload.Key,
+            uploadId: upload.UploadId,
+            initiatedAt: upload.Initiated,
+          });
+        }
+      }
+
+      keyMarker = result.IsTruncated ? result.NextKeyMarker : undefined;
+      uploadIdMarker = result.IsTruncated
+        ? result.NextUploadIdMarker
+        : undefined;
+    } while (keyMarker);
+
+    return uploads;
+  }
+
+  /**
+   * Get a stored file's size and content type, or null if it doesn't exist
+   */
+  async head(key: string): Promise<ObjectInfo | null> {
+    const command = new HeadObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    try {
+      const result = await this.client.send(command);
+      return {
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType,
+      };
+    } catch (error) {
+      if (error instanceof NotFound) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Read part of a file. `end` is inclusive, as in an HTTP Range header.
+   */
+  async getRange(key: string, start: number, end: number): Promise<Uint8Array> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: `bytes=${start}-${end}`,
+    });
+
+    const result = await this.client.send(command);
+    if (!result.Body) {
+      throw new Error(`Empty response reading ${key}`);
+    }
+
+    return result.Body.transformToByteArray();
+  }
+
+  /**
+   * Read a whole file as a stream, for files too large to hold in memory
+   */
+  async getStream(key: string): Promise<Readable> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    const result = await this.client.send(command);
+    if (!(result.Body instanceof Readable)) {
+      throw new Error(`Empty response reading ${key}`);
+    }
+
+    return result.Body;
+  }
+
   /**
    * Delete a file from S3
    */
@@ -161,6 +427,85 @@ export class Storage {
     await this.client.send(command);
   }
 
+  /**
+   * Delete many files, up to 1000 at a time. Returns the keys that couldn't
+   * be deleted.
+   */
+  async deleteMany(keys: string[]): Promise<string[]> {
+    const failed: string[] = [];
+
+    for (let i = 0; i < keys.length; i += 1000) {
+      const command = new DeleteObjectsCommand({
+        Bucket: this.bucket,
+        Delete: {
+          Objects: keys.slice(i, i + 1000).map((key) => ({ Key: key })),
+          Quiet: true,
+        },
+      });
+
+      const result = await this.client.send(command);
+      for (const error of result.Errors ?? []) {
+        if (error.Key) failed.push(error.Key);
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * List every file under `prefix`
+   */
+  async listObjects(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      for (const object of result.Contents ?? []) {
+        if (object.Key && object.LastModified) {
+          objects.push({
+            key: object.Key,
+            size: object.Size ?? 0,
+            lastModified: object.LastModified,
+            storageClass: object.StorageClass,
+          });
+        }
+      }
+
+      continuationToken = result.IsTruncated
+        ? result.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  /**
+   * Move a file to another storage class (e.g. GLACIER_IR for files that are
+   * kept but rarely read). Its key, URL and metadata stay the same.
+   */
+  async setStorageClass(
+    key: string,
+    storageClass: StorageClass,
+  ): Promise<void> {
+    const command = new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      CopySource: `${this.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`,
+      MetadataDirective: "COPY",
+      StorageClass: storageClass,
+    });
+
+    await this.client.send(command);
+  }
+
   /**
    * Get the public URL for a file
    */
@@ -170,6 +515,37 @@ export class Storage {
       : `https://${this.bucket}.s3.amazonaws.com/${key}`;
   }
 
+  /**
+   * Get the key of a file from its public URL, or null if the URL isn't in
+   * this bucket
+   */
+  getKeyFromPublicUrl(publicUrl: string): string | null {
+    const probeKey = "__probe_key__";
+    const probeUrl = new URL(this.getPublicUrl(probeKey));
+    // Remove the probeKey segment to get the base path prefix used by getPublicUrl()
+    probeUrl.pathname = probeUrl.pathname.replace(/\/__probe_key__$/, "");
+
+    let candidate: URL;
+    try {
+      candidate = new URL(publicUrl);
+    } catch {
+      return null;
+    }
+
+    if (candidate.origin !== probeUrl.origin) return null;
+    if (!candidate.pathname.startsWith(probeUrl.pathname)) return null;
+
+    let key = candidate.pathname.slice(probeUrl.pathname.length);
+    if (key.startsWith("/")) key = key.slice(1);
+    if (!key) return null;
+
+    try {
+      return decodeURIComponent(key);
+    } catch {
+      return key;
+    }
+  }
+
   /**
    * Detect video content type from filename
    */
@@ -1,3 +1,11 @@
 export { Storage, createStorageFromEnv } from "./client";
-export type { StorageConfig, UploadResult, PresignedUrlResult } from "./client";
+export type {
+  MultipartUploadInfo,
+  ObjectInfo,
+  PresignedUrlResult,
+  StorageConfig,
+  StoredObject,
+  UploadedPart,
+  UploadResult,
+} from "./client";
 export { getStorageEnv, type StorageEnv } from "./env";
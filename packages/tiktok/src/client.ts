@@ -7,6 +7,7 @@
 import type {
   StoredToken,
   TikTokScope,
+  TikTokTokenErrorResponse,
   TikTokTokenResponse,
   TikTokUserInfo,
   TikTokUserInfoResponse,
@@ -176,7 +177,17 @@ export class TikTokClient {
       throw new Error(`Token refresh failed: ${response.status} ${errorText}`);
     }
 
-    const data = (await response.json()) as TikTokTokenResponse;
+    const data = (await response.json()) as
+      | TikTokTokenResponse
+      | TikTokTokenErrorResponse;
+
+    // A revoked or expired refresh token can come back as an error body with 200
+    if ("error" in data) {
+      console.error("[TikTok] Token refresh failed:", data.error_description);
+      throw new Error(
+        `Token refresh failed: ${data.error} ${data.error_description}`,
+      );
+    }
 
     console.log("[TikTok] Token refresh successful");
 